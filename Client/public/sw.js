@@ -0,0 +1,64 @@
+// App-shell service worker: keeps the built app in a cache so it also loads without a network.
+// API requests are left alone; the app keeps notes for offline use in IndexedDB itself.
+const CACHE = 'vibescribe-shell-v2';
+const SHELL = ['/', '/index.html'];
+// Every file of the build (scripts, styles, fonts…), filled in at build time by the precache plugin in
+// vite.config.ts. The list changes with every deploy, so browsers install the new worker and precache the new build.
+const ASSETS = [/* precache assets */];
+
+// Precache the whole app on install: on the first visit the page loads its bundles before this worker
+// controls it, so they would never pass through the fetch handler below
+self.addEventListener('install', (event) => {
+    event.waitUntil(
+        caches.open(CACHE)
+            .then((cache) => cache.addAll([...SHELL, ...ASSETS]))
+            .then(() => self.skipWaiting())
+    );
+});
+
+// Drop the caches of older versions of this worker, and the files of older builds
+self.addEventListener('activate', (event) => {
+    const current = new Set([...SHELL, ...ASSETS].map((path) => new URL(path, self.location.origin).href));
+    event.waitUntil(
+        caches.keys()
+            .then((keys) => Promise.all(keys.filter((key) => key !== CACHE).map((key) => caches.delete(key))))
+            .then(() => caches.open(CACHE))
+            .then((cache) => cache.keys().then((requests) => Promise.all(
+                requests.filter((request) => !current.has(request.url)).map((request) => cache.delete(request))
+            )))
+            .then(() => self.clients.claim())
+    );
+});
+
+const putInCache = (request, response) => {
+    if (!response.ok) return;
+    const copy = response.clone();
+    caches.open(CACHE).then((cache) => cache.put(request, copy));
+};
+
+self.addEventListener('fetch', (event) => {
+    const { request } = event;
+    const url = new URL(request.url);
+    if (request.method !== 'GET' || url.origin !== self.location.origin || url.pathname.startsWith('/api/')) return;
+
+    // Pages: network first so new deploys show up, the cached shell when offline
+    if (request.mode === 'navigate') {
+        event.respondWith(
+            fetch(request)
+                .then((response) => {
+                    putInCache('/index.html', response);
+                    return response;
+                })
+                .catch(() => caches.match('/index.html'))
+        );
+        return;
+    }
+
+    // Build assets have hashed names, so a cached copy never goes stale
+    event.respondWith(
+        caches.match(request).then((cached) => cached || fetch(request).then((response) => {
+            putInCache(request, response);
+            return response;
+        }))
+    );
+});
@@ -1,7 +1,18 @@
 import React, { useEffect, useRef, useCallback, useState } from 'react';
 import { Crepe } from '@milkdown/crepe';
+import { editorViewCtx } from '@milkdown/kit/core';
+import type { Ctx } from '@milkdown/kit/ctx';
+import type { Selection } from '@milkdown/kit/prose/state';
 import { replaceAll } from '@milkdown/utils';
+import { collab as collabPlugin } from '@milkdown/plugin-collab';
 import { useMarkdownPersistence } from './hooks/useMarkdownPersistence';
+import { countUnclearMarkers, selectNextUnclearMarker, unclearMarkersPlugin } from './utils/unclearMarkers';
+import { startCollaboration, type CollabOptions, type CollabPeer, type CollabSession } from './utils/collab';
+import {
+  anchorFromRange, commentHighlightsPlugin, detachedCommentIds, scrollToCommentHighlight, setCommentHighlights,
+  type CommentHighlight,
+} from './utils/commentAnchors';
+import type { CommentAnchor } from './api/auth';
 
 import '@milkdown/crepe/theme/common/style.css';
 import '@milkdown/crepe/theme/frame-dark.css';
@@ -10,13 +21,44 @@ import './MilkdownEditor.css';
 interface MilkdownEditorProps {
   initialMarkdown?: string | null;
   onMarkdownChange?: (markdown: string) => void;
+  // Local draft the content is persisted under (the note's id, or NEW_NOTE_DRAFT_KEY)
+  draftKey: string;
+  // For notes the user may only view
+  readOnly?: boolean;
+  // Edit live with everyone else who has the note open; only read when the editor mounts
+  collab?: Omit<CollabOptions, 'onPeers'>;
+  comments?: EditorComments;
 }
 
-export const MilkdownEditor: React.FC<MilkdownEditorProps> = ({ initialMarkdown, onMarkdownChange }) => {
+interface EditorComments {
+  // Open threads, highlighted where they're anchored
+  threads: CommentHighlight[];
+  activeThreadId: string | null;
+  // A highlight was clicked
+  onSelectThread: (threadId: string) => void;
+  // The selected text to comment on, or null when nothing is selected
+  onSelectionChange: (anchor: CommentAnchor | null) => void;
+  // Threads whose passage isn't in the content any more
+  onDetachedChange: (threadIds: string[]) => void;
+}
+
+const sameAnchor = (a: CommentAnchor | null, b: CommentAnchor | null) =>
+  a === b || (!!a && !!b && a.quote === b.quote && a.prefix === b.prefix && a.suffix === b.suffix);
+
+export const MilkdownEditor: React.FC<MilkdownEditorProps> = ({
+  initialMarkdown, onMarkdownChange, draftKey, readOnly = false, collab, comments,
+}) => {
   const editorRootRef = useRef<HTMLDivElement>(null);
   const crepeRef = useRef<Crepe | null>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const syncTimerRef = useRef<number | undefined>(undefined);
+  const collabRef = useRef(collab);
+  const collabSessionRef = useRef<CollabSession | null>(null);
+  const [peers, setPeers] = useState<CollabPeer[]>([]);
+  const [ready, setReady] = useState(false);
+  const commentsRef = useRef(comments);
+  const commentSelectionRef = useRef<CommentAnchor | null>(null);
+  const detachedKeyRef = useRef('');
 
   // Drawer state - when open, textarea is completely independent
   const [drawerOpen, setDrawerOpen] = useState(false);
@@ -24,7 +66,7 @@ export const MilkdownEditor: React.FC<MilkdownEditorProps> = ({ initialMarkdown,
   const hasInitializedRef = useRef(false); // Track if initialMarkdown was applied on mount
 
   // Persistence hook for markdown content
-  const [markdown, setMarkdown] = useMarkdownPersistence();
+  const [markdown, setMarkdown, replaceMarkdown] = useMarkdownPersistence(draftKey);
   const markdownRef = useRef(markdown); // Keep ref in sync for callbacks
 
   // Keep refs in sync with state
@@ -37,6 +79,14 @@ export const MilkdownEditor: React.FC<MilkdownEditorProps> = ({ initialMarkdown,
     onMarkdownChange?.(markdown);
   }, [markdown, onMarkdownChange]);
 
+  useEffect(() => {
+    collabRef.current = collab;
+  }, [collab]);
+
+  useEffect(() => {
+    commentsRef.current = comments;
+  }, [comments]);
+
   // Handle external initialMarkdown changes (from Gemini extraction or note selection)
   // This effect handles BOTH initial mount AND subsequent changes
   useEffect(() => {
@@ -46,16 +96,16 @@ export const MilkdownEditor: React.FC<MilkdownEditorProps> = ({ initialMarkdown,
       hasInitializedRef.current = true;
       if (initialMarkdown !== null && initialMarkdown !== undefined) {
         // Use initialMarkdown even if empty (for New Note)
-        setMarkdown(initialMarkdown);
-        // Delay sync to editor until it's created
-        setTimeout(() => syncToEditor(initialMarkdown), 100);
+        replaceMarkdown(initialMarkdown);
+        // Delay sync to editor until it's created. In a live session the content comes from the session instead.
+        if (!collabRef.current) setTimeout(() => syncToEditor(initialMarkdown), 100);
         return;
       }
     }
 
     // After initial mount: only update if initialMarkdown changes
     if (initialMarkdown !== null && initialMarkdown !== undefined && initialMarkdown !== markdownRef.current) {
-      setMarkdown(initialMarkdown);
+      replaceMarkdown(initialMarkdown);
       syncToEditor(initialMarkdown);
     }
   }, [initialMarkdown]);
@@ -70,6 +120,20 @@ export const MilkdownEditor: React.FC<MilkdownEditorProps> = ({ initialMarkdown,
     });
 
     crepeRef.current = crepe;
+    crepe.editor.use(unclearMarkersPlugin);
+    crepe.editor.use(commentHighlightsPlugin);
+    const collabOptions = collabRef.current;
+    if (collabOptions) crepe.editor.use(collabPlugin);
+    let cancelled = false;
+
+    // Tells the owner which threads lost their passage, whenever that changes
+    const reportDetachedComments = () => {
+      const ids = crepe.editor.action((ctx) => detachedCommentIds(ctx.get(editorViewCtx).state));
+      const key = ids.join(',');
+      if (key === detachedKeyRef.current) return;
+      detachedKeyRef.current = key;
+      commentsRef.current?.onDetachedChange(ids);
+    };
 
     // Listen for changes from the main editor ONLY when drawer is closed
     crepe.on((listener: any) => {
@@ -80,14 +144,32 @@ export const MilkdownEditor: React.FC<MilkdownEditorProps> = ({ initialMarkdown,
 
         // Only update state when drawer is closed
         setMarkdown(nextMd);
+        collabSessionRef.current?.sendSnapshot(nextMd);
+        reportDetachedComments();
+      });
+      listener.selectionUpdated((ctx: Ctx, selection: Selection) => {
+        const anchor = selection.empty ? null : anchorFromRange(ctx.get(editorViewCtx).state.doc, selection.from, selection.to);
+        if (sameAnchor(anchor, commentSelectionRef.current)) return;
+        commentSelectionRef.current = anchor;
+        commentsRef.current?.onSelectionChange(anchor);
       });
     });
 
-    crepe.create().then(() => {
+    crepe.create().then(async () => {
       console.log('Milkdown Editor Ready');
+      if (cancelled) return;
+      setReady(true);
+      if (!collabOptions) return;
+
+      const session = await startCollaboration(crepe, { ...collabOptions, onPeers: setPeers });
+      if (cancelled) session.destroy();
+      else collabSessionRef.current = session;
     }).catch(console.error);
 
     return () => {
+      cancelled = true;
+      collabSessionRef.current?.destroy();
+      collabSessionRef.current = null;
       crepe.destroy();
       crepeRef.current = null;
       clearTimeout(syncTimerRef.current);
@@ -95,6 +177,33 @@ export const MilkdownEditor: React.FC<MilkdownEditorProps> = ({ initialMarkdown,
 
   }, []);
 
+  useEffect(() => {
+    crepeRef.current?.setReadonly(readOnly);
+  }, [readOnly]);
+
+  // Highlight the comment threads and bring the selected one into view
+  const commentThreads = comments?.threads;
+  const activeThreadId = comments?.activeThreadId ?? null;
+  useEffect(() => {
+    const crepe = crepeRef.current;
+    if (!ready || !crepe) return;
+
+    crepe.editor.action((ctx) => {
+      const view = ctx.get(editorViewCtx);
+      setCommentHighlights(view, commentThreads ?? [], activeThreadId);
+      if (activeThreadId) scrollToCommentHighlight(view, activeThreadId);
+
+      const ids = detachedCommentIds(view.state);
+      detachedKeyRef.current = ids.join(',');
+      commentsRef.current?.onDetachedChange(ids);
+    });
+  }, [ready, commentThreads, activeThreadId]);
+
+  const handleEditorClick = useCallback((e: React.MouseEvent) => {
+    const threadId = (e.target as HTMLElement).closest('[data-comment-thread]')?.getAttribute('data-comment-thread');
+    if (threadId) commentsRef.current?.onSelectThread(threadId);
+  }, []);
+
   // Sync textarea value when drawer opens
   useEffect(() => {
     if (drawerOpen && textareaRef.current) {
@@ -120,6 +229,13 @@ export const MilkdownEditor: React.FC<MilkdownEditorProps> = ({ initialMarkdown,
     }
   }, []);
 
+  // Jump to the next part the scan couldn't read
+  const handleNextUnclear = useCallback(() => {
+    crepeRef.current?.editor.action((ctx) => selectNextUnclearMarker(ctx.get(editorViewCtx)));
+  }, []);
+
+  const unclearCount = countUnclearMarkers(markdown);
+
   // Handle textarea input NO cursor manipulation needed with uncontrolled input
   const handleTextareaInput = useCallback(() => {
     const textarea = textareaRef.current;
@@ -156,6 +272,31 @@ export const MilkdownEditor: React.FC<MilkdownEditorProps> = ({ initialMarkdown,
     <div className="milkdown-editor-container">
       {/* Controls */}
       <div className="milkdown-controls">
+        {peers.length > 0 && (
+          <div className="milkdown-presence" aria-label="Also editing">
+            {peers.map((peer) => (
+              <span
+                key={peer.clientId}
+                className="milkdown-presence-avatar"
+                style={{ borderColor: peer.color }}
+                title={peer.name}
+              >
+                {peer.photo
+                  ? <img src={peer.photo} alt={peer.name} referrerPolicy="no-referrer" />
+                  : peer.name.charAt(0).toUpperCase()}
+              </span>
+            ))}
+          </div>
+        )}
+        {unclearCount > 0 && (
+          <button
+            className="milkdown-unclear-btn"
+            onClick={handleNextUnclear}
+            title="Select the next part the scan marked as unclear"
+          >
+            Next unclear ({unclearCount})
+          </button>
+        )}
         <button
           className="milkdown-open-btn"
           onClick={() => setDrawerOpen(true)}
@@ -165,7 +306,7 @@ export const MilkdownEditor: React.FC<MilkdownEditorProps> = ({ initialMarkdown,
       </div>
 
       {/* Main Editor Area */}
-      <div className="milkdown-editor-wrapper">
+      <div className="milkdown-editor-wrapper" onClick={handleEditorClick}>
         <div ref={editorRootRef} />
       </div>
 
@@ -188,6 +329,7 @@ export const MilkdownEditor: React.FC<MilkdownEditorProps> = ({ initialMarkdown,
             ref={textareaRef}
             className="markdown-textarea"
             onInput={handleTextareaInput}
+            readOnly={readOnly}
             spellCheck={false}
           />
         </div>
@@ -1,10 +1,148 @@
 import api from "./axios.ts";
+import type { PdfOptions } from "../utils/pdfOptions.ts";
 
-interface DocumentResponse {
+export interface DocumentPageResponse {
+    id: string;
+    documentId: string;
+    pageNumber: number;
+    // Page of the PDF/TIFF the image was split from
+    sourcePageNumber: number | null;
+    imageUrl: string;
+    markdownContent: string;
+    createdAt: string;
+}
+
+// What someone may do with a note; each role includes the ones before it
+export type DocumentRole = 'VIEWER' | 'COMMENTER' | 'EDITOR' | 'OWNER';
+
+export interface DocumentResponse {
     id: string;
     userId: string,
+    title: string;
+    // false while the title is still derived from the first line of the content
+    titleEdited: boolean;
     imageUrl: string,
     markdownContent: string,
+    // Incremented on every content change; send it back when saving so stale saves are rejected
+    version: number;
+    createdAt: string;
+    updatedAt: string;
+    scanMode: string;
+    folderId: string | null;
+    tags?: { id: string }[];
+    // Only returned when fetching a single document
+    pages?: Pick<DocumentPageResponse, 'pageNumber' | 'sourcePageNumber' | 'imageUrl'>[];
+    // The caller's role; only returned when fetching a single document
+    role?: DocumentRole;
+    // Note this one was generated from (study notes)
+    sourceDocumentId?: string | null;
+}
+
+// Body of the 409 response to a save based on an outdated version
+export interface DocumentConflict {
+    error: string;
+    current: DocumentResponse;
+    // Refused because people are editing the note live, rather than changed since the save's version
+    live?: boolean;
+}
+
+// Document as returned by the list endpoint, without its content
+export interface DocumentListItem {
+    id: string;
+    title: string;
+    imageUrl: string;
+    scanMode: string;
+    folderId: string | null;
+    createdAt: string;
+    updatedAt: string;
+    tags: { id: string }[];
+}
+
+// A note someone else shared with the caller
+export interface SharedWithMeDocument extends DocumentListItem {
+    owner: { name: string | null; email: string };
+    role: DocumentRole;
+}
+
+export type DocumentSort = 'created' | 'updated' | 'title';
+
+export interface DocumentList {
+    items: DocumentListItem[];
+    // Pass as `cursor` to fetch the next page; null on the last page
+    nextCursor: string | null;
+}
+
+export interface TrashedDocument extends DocumentListItem {
+    deletedAt: string;
+}
+
+export interface Trash {
+    items: TrashedDocument[];
+    // Trashed documents are deleted for good after this many days
+    retentionDays: number;
+}
+
+export interface Folder {
+    id: string;
+    name: string;
+    // null for top-level folders
+    parentId: string | null;
+    createdAt: string;
+}
+
+export interface Tag {
+    id: string;
+    name: string;
+    color: string | null;
+    createdAt: string;
+}
+
+export interface ScanMode {
+    id: string;
+    label: string;
+    description: string;
+}
+
+export type ScanJobStatus = 'QUEUED' | 'RUNNING' | 'SUCCEEDED' | 'FAILED';
+
+export interface ScanJob {
+    id: string;
+    userId: string;
+    documentId: string | null;
+    status: ScanJobStatus;
+    mode: string;
+    replace: boolean;
+    imageUrls: string[];
+    sourcePageNumbers: number[];
+    completedPages: number;
+    error: string | null;
+    createdAt: string;
+    updatedAt: string;
+    startedAt: string | null;
+    finishedAt: string | null;
+}
+
+export type RevisionSource = 'CREATE' | 'SCAN' | 'APPEND' | 'RESCAN' | 'EDIT' | 'RESTORE' | 'STUDY';
+
+export interface RevisionSummary {
+    id: string;
+    revisionNumber: number;
+    source: RevisionSource;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface Revision extends RevisionSummary {
+    documentId: string;
+    markdownContent: string;
+}
+
+export interface SearchResult {
+    id: string;
+    title: string;
+    // Matched terms are wrapped in \u0002 … \u0003
+    snippet: string;
+    rank: number;
     createdAt: string;
 }
 
@@ -18,30 +156,208 @@ export const authenticateGoogle = () => {
     }
 }
 
-export const fileUpload = (imgUrl: string, token: string) => {
+// Queues a scan of the given page images, in order. Pass `documentId` to append the pages to an existing document.
+export const fileUpload = async (imgUrls: string[], token: string, documentId?: string) => {
     try {
-        const response = api.post('/users/scan', { imageUrl: imgUrl }, { headers: { Authorization: `Bearer ${token}` } })
-        console.log(response);
-        return response as DocumentResponse | any;
+        const response = await api.post<ScanJob>('/users/scan',
+            { imageUrls: imgUrls, documentId },
+            { headers: { Authorization: `Bearer ${token}` } }
+        );
+        return response;
     } catch (err) {
         console.log(err);
+        throw err;
     }
 }
 
-export const getGeminiResponse = () => {
+// Uploads page images (in order) straight to the server and queues a scan of them.
+// `onUploadProgress` receives the number of bytes sent so far; a new document is created in `folderId` when given.
+export const uploadScanImages = async (
+    files: File[],
+    token: string,
+    mode: string,
+    onUploadProgress?: (loadedBytes: number) => void,
+    documentId?: string,
+    folderId?: string
+) => {
+    const form = new FormData();
+    form.append('mode', mode);
+    files.forEach((file) => form.append('images', file));
+    if (documentId) form.append('documentId', documentId);
+    if (folderId) form.append('folderId', folderId);
+
     try {
-        const response = api.post('/users/gemini')
-        console.log(response);
+        const response = await api.post<ScanJob>('/users/scan/upload', form, {
+            headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'multipart/form-data' },
+            onUploadProgress: (event) => onUploadProgress?.(event.loaded),
+        });
         return response;
     } catch (err) {
         console.log(err);
+        throw err;
     }
 }
 
-export const getDocuments = async (token: string | null) => {
+// An uploaded PDF/TIFF waiting for its pages to be chosen
+export interface ScanDocumentUpload {
+    documentUrl: string;
+    mimeType: string;
+    pageCount: number;
+    // Most pages one scan may take
+    maxPages: number;
+}
+
+// Uploads a PDF or multi-page TIFF; nothing is scanned until `scanDocumentPages` picks the pages
+export const uploadScanDocument = async (
+    file: File,
+    token: string,
+    onUploadProgress?: (loadedBytes: number) => void
+) => {
+    const form = new FormData();
+    form.append('document', file);
+
     try {
-        const response = await api.get('/documents', { headers: { Authorization: `Bearer ${token}` } });
-        console.log(response);
+        const response = await api.post<ScanDocumentUpload>('/users/scan/document/upload', form, {
+            headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'multipart/form-data' },
+            onUploadProgress: (event) => onUploadProgress?.(event.loaded),
+        });
+        return response;
+    } catch (err) {
+        console.log(err);
+        throw err;
+    }
+}
+
+// Splits `pages` (e.g. "1-5, 8"; every page when empty) of an uploaded PDF/TIFF into images and queues a scan of them
+export const scanDocumentPages = async (
+    documentUrl: string,
+    pages: string,
+    token: string,
+    mode: string,
+    documentId?: string,
+    folderId?: string
+) => {
+    try {
+        const response = await api.post<ScanJob>('/users/scan/document',
+            { documentUrl, pages, mode, documentId, folderId },
+            { headers: { Authorization: `Bearer ${token}` } }
+        );
+        return response;
+    } catch (err) {
+        console.log(err);
+        throw err;
+    }
+}
+
+export const getScanModes = async () => {
+    try {
+        const response = await api.get<ScanMode[]>('/users/scan/modes');
+        return response;
+    } catch (err) {
+        console.log(err);
+        throw err;
+    }
+}
+
+// Re-runs the scan of a document's stored images in another mode; its content is replaced when the job succeeds
+export const rescanDocument = async (id: string, mode: string, token: string | null) => {
+    try {
+        const response = await api.post<ScanJob>(`/documents/${id}/rescan`,
+            { mode },
+            { headers: { Authorization: `Bearer ${token}` } }
+        );
+        return response;
+    } catch (err) {
+        console.log(err);
+        throw err;
+    }
+}
+
+export const getScanJobs = async (token: string | null, activeOnly = false) => {
+    try {
+        const response = await api.get<ScanJob[]>('/users/scan/jobs', {
+            params: activeOnly ? { active: true } : undefined,
+            headers: { Authorization: `Bearer ${token}` }
+        });
+        return response;
+    } catch (err) {
+        console.log(err);
+        throw err;
+    }
+}
+
+export const getScanJob = async (id: string, token: string | null) => {
+    try {
+        const response = await api.get<ScanJob>(`/users/scan/jobs/${id}`, { headers: { Authorization: `Bearer ${token}` } });
+        return response;
+    } catch (err) {
+        console.log(err);
+        throw err;
+    }
+}
+
+// Streams a scan job's server-sent `progress` events until the job finishes or `signal` is aborted.
+// Uses fetch instead of EventSource so the Authorization header can be sent.
+export const subscribeToScanJob = async (
+    id: string,
+    token: string | null,
+    onProgress: (job: ScanJob) => void,
+    signal?: AbortSignal
+) => {
+    const response = await fetch(`${api.defaults.baseURL}/users/scan/jobs/${id}/events`, {
+        headers: { Authorization: `Bearer ${token}`, Accept: 'text/event-stream' },
+        signal,
+    });
+    if (!response.ok || !response.body) {
+        throw new Error(`Failed to subscribe to scan job (${response.status})`);
+    }
+
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+
+    for (;;) {
+        const { value, done } = await reader.read();
+        if (done) return;
+
+        buffer += value;
+        const events = buffer.split('\n\n');
+        buffer = events.pop() ?? '';
+
+        for (const event of events) {
+            const data = event
+                .split('\n')
+                .filter((line) => line.startsWith('data:'))
+                .map((line) => line.slice(5).trim())
+                .join('\n');
+            if (data) onProgress(JSON.parse(data) as ScanJob);
+        }
+    }
+}
+
+// Fetches one page of the document list; pass the previous page's `nextCursor` to continue
+export const getDocuments = async (
+    token: string | null,
+    options: { sort?: DocumentSort; cursor?: string | null; limit?: number } = {}
+) => {
+    try {
+        const response = await api.get<DocumentList>('/documents', {
+            params: { sort: options.sort, cursor: options.cursor || undefined, limit: options.limit },
+            headers: { Authorization: `Bearer ${token}` },
+        });
+        return response
+    } catch (err) {
+        console.log(err);
+        throw err;
+    }
+}
+
+// Fetches one page of the notes other people shared with the caller
+export const getSharedWithMe = async (token: string | null, options: { cursor?: string | null } = {}) => {
+    try {
+        const response = await api.get<{ items: SharedWithMeDocument[]; nextCursor: string | null }>('/documents', {
+            params: { scope: 'shared', cursor: options.cursor || undefined },
+            headers: { Authorization: `Bearer ${token}` },
+        });
         return response
     } catch (err) {
         console.log(err);
@@ -49,9 +365,33 @@ export const getDocuments = async (token: string | null) => {
     }
 }
 
+export const searchDocuments = async (q: string, token: string | null, signal?: AbortSignal) => {
+    try {
+        const response = await api.get<SearchResult[]>('/documents/search', {
+            params: { q },
+            headers: { Authorization: `Bearer ${token}` },
+            signal,
+        });
+        return response;
+    } catch (err) {
+        console.log(err);
+        throw err;
+    }
+}
+
+export const getDocument = async (id: string, token: string | null) => {
+    try {
+        const response = await api.get<DocumentResponse>(`/documents/${id}`, { headers: { Authorization: `Bearer ${token}` } });
+        return response;
+    } catch (err) {
+        console.log(err);
+        throw err;
+    }
+}
+
 export const createDocument = async (markdownContent: string, token: string | null) => {
     try {
-        const response = await api.post('/documents',
+        const response = await api.post<DocumentResponse>('/documents',
             { markdownContent },
             { headers: { Authorization: `Bearer ${token}` } }
         );
@@ -62,10 +402,31 @@ export const createDocument = async (markdownContent: string, token: string | nu
     }
 }
 
-export const updateDocument = async (id: string, markdownContent: string, token: string | null) => {
+// Saves new content based on `version`: the server rejects the save with 409 (see DocumentConflict)
+// if the document was changed since that version, and with 428 without one.
+export const updateDocument = async (id: string, markdownContent: string, token: string | null, version?: number) => {
     try {
-        const response = await api.put(`/documents/${id}`,
+        const response = await api.put<DocumentResponse>(`/documents/${id}`,
             { markdownContent },
+            {
+                headers: {
+                    Authorization: `Bearer ${token}`,
+                    ...(version !== undefined ? { 'If-Match': `"${version}"` } : {}),
+                },
+            }
+        );
+        return response;
+    } catch (err) {
+        console.log(err);
+        throw err;
+    }
+}
+
+// Sets the document's title; an empty title makes the server derive it from the content again
+export const renameDocument = async (id: string, title: string, token: string | null) => {
+    try {
+        const response = await api.put<DocumentResponse>(`/documents/${id}`,
+            { title },
             { headers: { Authorization: `Bearer ${token}` } }
         );
         return response;
@@ -75,9 +436,330 @@ export const updateDocument = async (id: string, markdownContent: string, token:
     }
 }
 
+// Moves a document to the trash
 export const deleteDocument = async (id: string, token: string | null) => {
     try {
-        const response = await api.delete(`/documents/${id}`,
+        const response = await api.delete<DocumentListItem>(`/documents/${id}`,
+            { headers: { Authorization: `Bearer ${token}` } }
+        );
+        return response;
+    } catch (err) {
+        console.log(err);
+        throw err;
+    }
+}
+
+export const getTrash = async (token: string | null) => {
+    try {
+        const response = await api.get<Trash>('/documents/trash', { headers: { Authorization: `Bearer ${token}` } });
+        return response;
+    } catch (err) {
+        console.log(err);
+        throw err;
+    }
+}
+
+// Outcome of importing one file (or one file inside an uploaded ZIP)
+export interface ImportResult {
+    path: string;
+    // 'duplicate': a note with the same content already exists (`documentId`)
+    status: 'imported' | 'duplicate' | 'failed';
+    documentId?: string;
+    title?: string;
+    error?: string;
+}
+
+export interface ImportResponse {
+    imported: number;
+    results: ImportResult[];
+}
+
+// Imports .md/.txt files and ZIPs of them; directories in a ZIP become folders under `folderId`
+export const importDocuments = async (files: File[], token: string, folderId?: string) => {
+    const form = new FormData();
+    files.forEach((file) => form.append('files', file));
+    if (folderId) form.append('folderId', folderId);
+
+    try {
+        const response = await api.post<ImportResponse>('/documents/import', form, {
+            headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'multipart/form-data' },
+        });
+        return response;
+    } catch (err) {
+        console.log(err);
+        throw err;
+    }
+}
+
+// ZIP of every note as Markdown in its folder, plus a manifest.json
+export const exportAllDocuments = async (token: string | null) => {
+    try {
+        const response = await api.get<Blob>('/documents/export', {
+            headers: { Authorization: `Bearer ${token}` },
+            responseType: 'blob',
+        });
+        return response;
+    } catch (err) {
+        console.log(err);
+        throw err;
+    }
+}
+
+// Takes a document back out of the trash
+export const restoreDocument = async (id: string, token: string | null) => {
+    try {
+        const response = await api.post<DocumentListItem>(`/documents/${id}/restore`,
+            {},
+            { headers: { Authorization: `Bearer ${token}` } }
+        );
+        return response;
+    } catch (err) {
+        console.log(err);
+        throw err;
+    }
+}
+
+// Permanently deletes a trashed document
+export const purgeDocument = async (id: string, token: string | null) => {
+    try {
+        const response = await api.delete(`/documents/${id}/permanent`,
+            { headers: { Authorization: `Bearer ${token}` } }
+        );
+        return response;
+    } catch (err) {
+        console.log(err);
+        throw err;
+    }
+}
+
+// Moves a document into a folder; `null` moves it back to the top level
+export const moveDocument = async (id: string, folderId: string | null, token: string | null) => {
+    try {
+        const response = await api.put<DocumentResponse>(`/documents/${id}/folder`,
+            { folderId },
+            { headers: { Authorization: `Bearer ${token}` } }
+        );
+        return response;
+    } catch (err) {
+        console.log(err);
+        throw err;
+    }
+}
+
+// Replaces the tags of a document
+export const setDocumentTags = async (id: string, tagIds: string[], token: string | null) => {
+    try {
+        const response = await api.put<DocumentResponse>(`/documents/${id}/tags`,
+            { tagIds },
+            { headers: { Authorization: `Bearer ${token}` } }
+        );
+        return response;
+    } catch (err) {
+        console.log(err);
+        throw err;
+    }
+}
+
+export const getFolders = async (token: string | null) => {
+    try {
+        const response = await api.get<Folder[]>('/folders', { headers: { Authorization: `Bearer ${token}` } });
+        return response;
+    } catch (err) {
+        console.log(err);
+        throw err;
+    }
+}
+
+export const createFolder = async (name: string, parentId: string | null, token: string | null) => {
+    try {
+        const response = await api.post<Folder>('/folders',
+            { name, parentId },
+            { headers: { Authorization: `Bearer ${token}` } }
+        );
+        return response;
+    } catch (err) {
+        console.log(err);
+        throw err;
+    }
+}
+
+export const updateFolder = async (
+    id: string,
+    changes: { name?: string; parentId?: string | null },
+    token: string | null
+) => {
+    try {
+        const response = await api.put<Folder>(`/folders/${id}`,
+            changes,
+            { headers: { Authorization: `Bearer ${token}` } }
+        );
+        return response;
+    } catch (err) {
+        console.log(err);
+        throw err;
+    }
+}
+
+// Deletes a folder and its subfolders; the server moves their documents to the top level
+export const deleteFolder = async (id: string, token: string | null) => {
+    try {
+        const response = await api.delete(`/folders/${id}`,
+            { headers: { Authorization: `Bearer ${token}` } }
+        );
+        return response;
+    } catch (err) {
+        console.log(err);
+        throw err;
+    }
+}
+
+export const getTags = async (token: string | null) => {
+    try {
+        const response = await api.get<Tag[]>('/tags', { headers: { Authorization: `Bearer ${token}` } });
+        return response;
+    } catch (err) {
+        console.log(err);
+        throw err;
+    }
+}
+
+export const createTag = async (name: string, color: string | null, token: string | null) => {
+    try {
+        const response = await api.post<Tag>('/tags',
+            { name, color },
+            { headers: { Authorization: `Bearer ${token}` } }
+        );
+        return response;
+    } catch (err) {
+        console.log(err);
+        throw err;
+    }
+}
+
+export const deleteTag = async (id: string, token: string | null) => {
+    try {
+        const response = await api.delete(`/tags/${id}`,
+            { headers: { Authorization: `Bearer ${token}` } }
+        );
+        return response;
+    } catch (err) {
+        console.log(err);
+        throw err;
+    }
+}
+
+export const getRevisions = async (documentId: string, token: string | null) => {
+    try {
+        const response = await api.get<RevisionSummary[]>(`/documents/${documentId}/revisions`,
+            { headers: { Authorization: `Bearer ${token}` } }
+        );
+        return response;
+    } catch (err) {
+        console.log(err);
+        throw err;
+    }
+}
+
+export const getRevision = async (documentId: string, revisionId: string, token: string | null) => {
+    try {
+        const response = await api.get<Revision>(`/documents/${documentId}/revisions/${revisionId}`,
+            { headers: { Authorization: `Bearer ${token}` } }
+        );
+        return response;
+    } catch (err) {
+        console.log(err);
+        throw err;
+    }
+}
+
+export const restoreRevision = async (documentId: string, revisionId: string, token: string | null) => {
+    try {
+        const response = await api.post<DocumentResponse>(`/documents/${documentId}/revisions/${revisionId}/restore`,
+            {},
+            { headers: { Authorization: `Bearer ${token}` } }
+        );
+        return response;
+    } catch (err) {
+        console.log(err);
+        throw err;
+    }
+}
+// Stored PDF export settings; null until the user first exports. Normalize with normalizePdfOptions.
+export const getPdfSettings = async (token: string | null) => {
+    try {
+        const response = await api.get<unknown>('/users/settings/pdf', { headers: { Authorization: `Bearer ${token}` } });
+        return response;
+    } catch (err) {
+        console.log(err);
+        throw err;
+    }
+}
+
+export const savePdfSettings = async (settings: PdfOptions, token: string | null) => {
+    try {
+        const response = await api.put<unknown>('/users/settings/pdf',
+            settings,
+            { headers: { Authorization: `Bearer ${token}` } }
+        );
+        return response;
+    } catch (err) {
+        console.log(err);
+        throw err;
+    }
+}
+
+export interface ShareLink {
+    id: string;
+    documentId: string;
+    // Last part of the public URL, /s/<token>
+    token: string;
+    hasPassword: boolean;
+    expiresAt: string | null;
+    revokedAt: string | null;
+    accessCount: number;
+    lastAccessedAt: string | null;
+    createdAt: string;
+}
+
+export interface SharedDocument {
+    title: string;
+    markdownContent: string;
+    updatedAt: string;
+}
+
+export const getShareLinks = async (documentId: string, token: string | null) => {
+    try {
+        const response = await api.get<ShareLink[]>(`/documents/${documentId}/shares`,
+            { headers: { Authorization: `Bearer ${token}` } }
+        );
+        return response;
+    } catch (err) {
+        console.log(err);
+        throw err;
+    }
+}
+
+// A new public read-only link; without `expiresAt` it works until revoked, without `password` anyone with the link can open it
+export const createShareLink = async (
+    documentId: string,
+    options: { expiresAt?: string; password?: string },
+    token: string | null
+) => {
+    try {
+        const response = await api.post<ShareLink>(`/documents/${documentId}/shares`,
+            options,
+            { headers: { Authorization: `Bearer ${token}` } }
+        );
+        return response;
+    } catch (err) {
+        console.log(err);
+        throw err;
+    }
+}
+
+export const revokeShareLink = async (documentId: string, shareId: string, token: string | null) => {
+    try {
+        const response = await api.delete<ShareLink>(`/documents/${documentId}/shares/${shareId}`,
             { headers: { Authorization: `Bearer ${token}` } }
         );
         return response;
@@ -85,4 +767,217 @@ export const deleteDocument = async (id: string, token: string | null) => {
         console.log(err);
         throw err;
     }
-}
\ No newline at end of file
+}
+
+// Opens a share link without signing in. A 401 response with `passwordRequired` asks for the link's password.
+export const getSharedDocument = async (shareToken: string, password?: string) => {
+    try {
+        const response = await api.get<SharedDocument>(`/public/${encodeURIComponent(shareToken)}`,
+            password ? { headers: { 'X-Share-Password': password } } : undefined
+        );
+        return response;
+    } catch (err) {
+        console.log(err);
+        throw err;
+    }
+}
+
+export interface DocumentMember {
+    id: string;
+    email: string;
+    // Name of the member's account; null while the invite is pending
+    name: string | null;
+    role: DocumentRole;
+    // Nobody has signed up with the invited email yet
+    pending: boolean;
+    createdAt: string;
+}
+
+export interface DocumentMembers {
+    owner: { name: string | null; email: string };
+    members: DocumentMember[];
+    // The caller's own role
+    role: DocumentRole;
+}
+
+export const getDocumentMembers = async (documentId: string, token: string | null) => {
+    try {
+        const response = await api.get<DocumentMembers>(`/documents/${documentId}/members`,
+            { headers: { Authorization: `Bearer ${token}` } }
+        );
+        return response;
+    } catch (err) {
+        console.log(err);
+        throw err;
+    }
+}
+
+// Gives `email` access to a note; people without an account get it when they first sign in
+export const inviteDocumentMember = async (documentId: string, email: string, role: DocumentRole, token: string | null) => {
+    try {
+        const response = await api.post<DocumentMember>(`/documents/${documentId}/members`,
+            { email, role },
+            { headers: { Authorization: `Bearer ${token}` } }
+        );
+        return response;
+    } catch (err) {
+        console.log(err);
+        throw err;
+    }
+}
+
+export const updateDocumentMember = async (documentId: string, memberId: string, role: DocumentRole, token: string | null) => {
+    try {
+        const response = await api.put<DocumentMember>(`/documents/${documentId}/members/${memberId}`,
+            { role },
+            { headers: { Authorization: `Bearer ${token}` } }
+        );
+        return response;
+    } catch (err) {
+        console.log(err);
+        throw err;
+    }
+}
+
+export const removeDocumentMember = async (documentId: string, memberId: string, token: string | null) => {
+    try {
+        const response = await api.delete(`/documents/${documentId}/members/${memberId}`,
+            { headers: { Authorization: `Bearer ${token}` } }
+        );
+        return response;
+    } catch (err) {
+        console.log(err);
+        throw err;
+    }
+}
+
+export interface CommentAuthor {
+    id: string;
+    name: string | null;
+    email: string;
+}
+
+export interface NoteComment {
+    id: string;
+    body: string;
+    author: CommentAuthor;
+    createdAt: string;
+}
+
+// A discussion anchored to the passage `quote`, which is found in the content by its text and the text around it
+export interface CommentThread {
+    id: string;
+    quote: string;
+    prefix: string;
+    suffix: string;
+    author: CommentAuthor;
+    resolvedAt: string | null;
+    resolvedBy: CommentAuthor | null;
+    createdAt: string;
+    // The first comment opened the thread; the rest are replies
+    comments: NoteComment[];
+}
+
+export interface CommentAnchor {
+    quote: string;
+    prefix: string;
+    suffix: string;
+}
+
+export const getCommentThreads = async (documentId: string, token: string | null) => {
+    try {
+        const response = await api.get<CommentThread[]>(`/documents/${documentId}/comments`,
+            { headers: { Authorization: `Bearer ${token}` } }
+        );
+        return response;
+    } catch (err) {
+        console.log(err);
+        throw err;
+    }
+}
+
+export const createCommentThread = async (documentId: string, anchor: CommentAnchor, body: string, token: string | null) => {
+    try {
+        const response = await api.post<CommentThread>(`/documents/${documentId}/comments`,
+            { ...anchor, body },
+            { headers: { Authorization: `Bearer ${token}` } }
+        );
+        return response;
+    } catch (err) {
+        console.log(err);
+        throw err;
+    }
+}
+
+export const replyToCommentThread = async (documentId: string, threadId: string, body: string, token: string | null) => {
+    try {
+        const response = await api.post<CommentThread>(`/documents/${documentId}/comments/${threadId}/replies`,
+            { body },
+            { headers: { Authorization: `Bearer ${token}` } }
+        );
+        return response;
+    } catch (err) {
+        console.log(err);
+        throw err;
+    }
+}
+
+// Resolves or reopens a thread
+export const setCommentThreadResolved = async (documentId: string, threadId: string, resolved: boolean, token: string | null) => {
+    try {
+        const response = await api.put<CommentThread>(`/documents/${documentId}/comments/${threadId}`,
+            { resolved },
+            { headers: { Authorization: `Bearer ${token}` } }
+        );
+        return response;
+    } catch (err) {
+        console.log(err);
+        throw err;
+    }
+}
+
+export const deleteCommentThread = async (documentId: string, threadId: string, token: string | null) => {
+    try {
+        const response = await api.delete(`/documents/${documentId}/comments/${threadId}`,
+            { headers: { Authorization: `Bearer ${token}` } }
+        );
+        return response;
+    } catch (err) {
+        console.log(err);
+        throw err;
+    }
+}
+
+// Deletes a reply; returns the thread without it
+export const deleteComment = async (documentId: string, threadId: string, commentId: string, token: string | null) => {
+    try {
+        const response = await api.delete<CommentThread>(`/documents/${documentId}/comments/${threadId}/replies/${commentId}`,
+            { headers: { Authorization: `Bearer ${token}` } }
+        );
+        return response;
+    } catch (err) {
+        console.log(err);
+        throw err;
+    }
+}
+
+export type StudySection = 'summary' | 'keyTerms' | 'studyGuide';
+
+/**
+ * Generates study notes from a document: appended to it as a new section (`append`), or saved as a new note
+ * linked to it (`document`). Takes a while, as every section is written by the model.
+ */
+export const generateStudyNotes = async (
+    documentId: string, sections: StudySection[], target: 'append' | 'document', token: string | null
+) => {
+    try {
+        const response = await api.post<DocumentResponse>(`/documents/${documentId}/study`,
+            { sections, target },
+            { headers: { Authorization: `Bearer ${token}` } }
+        );
+        return response;
+    } catch (err) {
+        console.log(err);
+        throw err;
+    }
+}
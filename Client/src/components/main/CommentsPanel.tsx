@@ -0,0 +1,277 @@
+import { useEffect, useState, type FormEvent } from "react";
+import { isAxiosError } from "axios";
+import type { CommentAnchor, CommentAuthor, CommentThread } from "../../api/auth";
+
+type Props = {
+    threads: CommentThread[];
+    loadFailed: boolean;
+    // Threads whose passage was edited away; they're kept, but can't be shown in the note any more
+    detachedIds: string[];
+    activeThreadId: string | null;
+    onSelectThread: (threadId: string | null) => void;
+    // Text selected in the editor, offered for a new thread
+    selection: CommentAnchor | null;
+    // Commenters, editors and owners; viewers only read the discussion
+    canComment: boolean;
+    // Owners may delete anyone's comments
+    isOwner: boolean;
+    currentUserId: string | null;
+    onClose: () => void;
+    onCreate: (anchor: CommentAnchor, body: string) => Promise<CommentThread>;
+    onReply: (threadId: string, body: string) => Promise<void>;
+    onSetResolved: (threadId: string, resolved: boolean) => Promise<void>;
+    onDeleteThread: (threadId: string) => Promise<void>;
+    onDeleteReply: (threadId: string, commentId: string) => Promise<void>;
+};
+
+const authorName = (author: CommentAuthor) => author.name || author.email;
+
+const formatDate = (date: string) => new Date(date).toLocaleString("en-CA", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+});
+
+const errorMessage = (err: unknown, fallback: string) =>
+    (isAxiosError(err) ? err.response?.data?.error : undefined) || fallback;
+
+export default function CommentsPanel({
+    threads, loadFailed, detachedIds, activeThreadId, onSelectThread, selection, canComment, isOwner, currentUserId,
+    onClose, onCreate, onReply, onSetResolved, onDeleteThread, onDeleteReply,
+}: Props) {
+    const [showResolved, setShowResolved] = useState(false);
+    const [newComment, setNewComment] = useState("");
+    const [replyDrafts, setReplyDrafts] = useState<Record<string, string>>({});
+    const [busy, setBusy] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const openThreads = threads.filter((t) => !t.resolvedAt);
+    const resolvedThreads = threads.filter((t) => t.resolvedAt);
+    const shown = showResolved ? resolvedThreads : openThreads;
+
+    // Bring the thread selected in the note into view
+    useEffect(() => {
+        if (activeThreadId) document.getElementById(`comment-thread-${activeThreadId}`)?.scrollIntoView({ block: "nearest" });
+    }, [activeThreadId]);
+
+    // Runs a change, keeping the panel busy meanwhile; returns whether it succeeded
+    const run = async (action: () => Promise<unknown>, fallback: string) => {
+        setError(null);
+        setBusy(true);
+        try {
+            await action();
+            return true;
+        } catch (err) {
+            console.error(`${fallback}:`, err);
+            setError(errorMessage(err, fallback));
+            return false;
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleCreate = async (e: FormEvent) => {
+        e.preventDefault();
+        if (!selection || !newComment.trim()) return;
+
+        const ok = await run(async () => {
+            const created = await onCreate(selection, newComment.trim());
+            onSelectThread(created.id);
+        }, "Failed to add comment");
+        if (!ok) return;
+        setNewComment("");
+        setShowResolved(false);
+    };
+
+    const handleReply = async (e: FormEvent, threadId: string) => {
+        e.preventDefault();
+        const body = replyDrafts[threadId]?.trim();
+        if (!body) return;
+
+        if (await run(() => onReply(threadId, body), "Failed to reply")) {
+            setReplyDrafts((prev) => ({ ...prev, [threadId]: "" }));
+        }
+    };
+
+    const handleDeleteThread = async (threadId: string) => {
+        if (!window.confirm("Delete this comment and all its replies?")) return;
+        if (await run(() => onDeleteThread(threadId), "Failed to delete comment") && activeThreadId === threadId) {
+            onSelectThread(null);
+        }
+    };
+
+    const canDelete = (author: CommentAuthor) => isOwner || author.id === currentUserId;
+
+    const inputClassName = "w-full rounded-xl border border-gray-700 bg-gray-900 px-3 py-2 text-sm text-white " +
+        "focus:outline-none focus:ring-2 focus:ring-emerald-500";
+
+    return (
+        <aside
+            aria-label="Comments"
+            className="fixed right-0 top-20 bottom-0 z-40 flex w-full sm:w-96 flex-col border-l border-gray-800 bg-gray-950 text-white"
+        >
+            <div className="flex items-center justify-between border-b border-gray-800 px-4 py-3 shrink-0">
+                <p className="font-semibold">Comments</p>
+                <div className="flex items-center gap-2">
+                    <div className="flex rounded-xl border border-gray-800 p-0.5 text-xs">
+                        <button
+                            onClick={() => setShowResolved(false)}
+                            className={`rounded-lg px-2 py-1 ${showResolved ? "text-white/60" : "bg-gray-800 text-white"}`}
+                        >
+                            Open ({openThreads.length})
+                        </button>
+                        <button
+                            onClick={() => setShowResolved(true)}
+                            className={`rounded-lg px-2 py-1 ${showResolved ? "bg-gray-800 text-white" : "text-white/60"}`}
+                        >
+                            Resolved ({resolvedThreads.length})
+                        </button>
+                    </div>
+                    <button
+                        onClick={onClose}
+                        className="h-8 w-8 rounded-xl border border-gray-800 hover:bg-gray-900 transition active:scale-95
+                            focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                        aria-label="Close comments"
+                        title="Close"
+                    >
+                        ✕
+                    </button>
+                </div>
+            </div>
+
+            {canComment && (
+                selection ? (
+                    <form onSubmit={handleCreate} className="flex flex-col gap-2 border-b border-gray-800 px-4 py-3 shrink-0">
+                        <p className="line-clamp-2 border-l-2 border-yellow-400/70 pl-2 text-sm italic text-white/70">
+                            {selection.quote}
+                        </p>
+                        <textarea
+                            value={newComment}
+                            onChange={(e) => setNewComment(e.target.value)}
+                            placeholder="Comment on the selected text…"
+                            rows={3}
+                            maxLength={5000}
+                            className={inputClassName}
+                        />
+                        <button
+                            type="submit"
+                            disabled={busy || !newComment.trim()}
+                            className="self-end rounded-xl bg-emerald-400 px-4 py-2 text-sm font-semibold text-black hover:brightness-110
+                                transition disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            Comment
+                        </button>
+                    </form>
+                ) : (
+                    <p className="border-b border-gray-800 px-4 py-3 text-sm text-white/50 shrink-0">
+                        Select text in the note to comment on it.
+                    </p>
+                )
+            )}
+
+            {error && <p className="px-4 pt-3 text-sm text-red-300">{error}</p>}
+            {loadFailed && <p className="px-4 pt-3 text-sm text-red-300">Failed to load comments</p>}
+
+            <div className="flex-1 overflow-auto px-4 py-3 flex flex-col gap-3">
+                {!loadFailed && shown.length === 0 && (
+                    <p className="text-sm text-white/50">{showResolved ? "No resolved comments." : "No open comments."}</p>
+                )}
+                {shown.map((thread) => {
+                    const detached = detachedIds.includes(thread.id);
+                    return (
+                        <div
+                            key={thread.id}
+                            id={`comment-thread-${thread.id}`}
+                            onClick={() => onSelectThread(thread.id)}
+                            className={`rounded-2xl border p-3 text-sm transition ${thread.id === activeThreadId
+                                ? "border-yellow-400/70 bg-gray-900/80"
+                                : "border-gray-800 bg-gray-900/30 hover:bg-gray-900/60"}`}
+                        >
+                            <p className="line-clamp-2 border-l-2 border-yellow-400/70 pl-2 italic text-white/60">{thread.quote}</p>
+                            {detached && (
+                                <p className="mt-1 text-xs text-amber-300">The commented text was changed or removed</p>
+                            )}
+
+                            {thread.comments.map((comment, i) => (
+                                <div key={comment.id} className="mt-3">
+                                    <div className="flex items-baseline justify-between gap-2">
+                                        <p className="truncate font-semibold text-white/90">{authorName(comment.author)}</p>
+                                        <p className="shrink-0 text-xs text-white/40">{formatDate(comment.createdAt)}</p>
+                                    </div>
+                                    <p className="mt-1 whitespace-pre-wrap break-words text-white/80">{comment.body}</p>
+                                    {i > 0 && canComment && canDelete(comment.author) && (
+                                        <button
+                                            onClick={(e) => {
+                                                e.stopPropagation();
+                                                run(() => onDeleteReply(thread.id, comment.id), "Failed to delete reply");
+                                            }}
+                                            disabled={busy}
+                                            className="mt-1 text-xs text-red-300/80 hover:text-red-300 disabled:opacity-50"
+                                        >
+                                            Delete
+                                        </button>
+                                    )}
+                                </div>
+                            ))}
+
+                            {thread.resolvedAt && (
+                                <p className="mt-3 text-xs text-white/50">
+                                    Resolved{thread.resolvedBy && ` by ${authorName(thread.resolvedBy)}`} • {formatDate(thread.resolvedAt)}
+                                </p>
+                            )}
+
+                            {canComment && !thread.resolvedAt && thread.id === activeThreadId && (
+                                <form onSubmit={(e) => handleReply(e, thread.id)} className="mt-3 flex flex-col gap-2">
+                                    <textarea
+                                        value={replyDrafts[thread.id] ?? ""}
+                                        onChange={(e) => setReplyDrafts((prev) => ({ ...prev, [thread.id]: e.target.value }))}
+                                        placeholder="Reply…"
+                                        rows={2}
+                                        maxLength={5000}
+                                        className={inputClassName}
+                                    />
+                                    <button
+                                        type="submit"
+                                        disabled={busy || !replyDrafts[thread.id]?.trim()}
+                                        className="self-end rounded-lg bg-emerald-400 px-3 py-1 text-xs font-semibold text-black
+                                            hover:brightness-110 disabled:opacity-50 disabled:cursor-not-allowed"
+                                    >
+                                        Reply
+                                    </button>
+                                </form>
+                            )}
+
+                            {canComment && (
+                                <div className="mt-3 flex justify-end gap-2">
+                                    {canDelete(thread.author) && (
+                                        <button
+                                            onClick={(e) => {
+                                                e.stopPropagation();
+                                                handleDeleteThread(thread.id);
+                                            }}
+                                            disabled={busy}
+                                            className="rounded-lg border border-red-900 px-2 py-1 text-xs text-red-300 hover:bg-red-950 disabled:opacity-50"
+                                        >
+                                            Delete
+                                        </button>
+                                    )}
+                                    <button
+                                        onClick={(e) => {
+                                            e.stopPropagation();
+                                            run(() => onSetResolved(thread.id, !thread.resolvedAt), "Failed to update comment");
+                                        }}
+                                        disabled={busy}
+                                        className="rounded-lg border border-gray-700 px-2 py-1 text-xs text-white/80 hover:bg-gray-800 disabled:opacity-50"
+                                    >
+                                        {thread.resolvedAt ? "Reopen" : "Resolve"}
+                                    </button>
+                                </div>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+        </aside>
+    );
+}
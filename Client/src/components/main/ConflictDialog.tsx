@@ -0,0 +1,110 @@
+import { useMemo, useState } from "react";
+import { applyMerge, mergeThreeWay, type ConflictChoice } from "../../utils/merge";
+
+type Props = {
+    // Content both edits started from, the local edit, and the newer copy on the server
+    base: string;
+    mine: string;
+    theirs: string;
+    // Save `content` on top of the server copy
+    onResolve: (content: string) => void;
+    // Drop the local edit and load the server copy
+    onUseTheirs: () => void;
+    onCancel: () => void;
+};
+
+const CHOICE_LABEL: Record<ConflictChoice, string> = {
+    mine: "Keep mine",
+    theirs: "Keep theirs",
+    both: "Keep both",
+};
+
+export default function ConflictDialog({ base, mine, theirs, onResolve, onUseTheirs, onCancel }: Props) {
+    const chunks = useMemo(() => mergeThreeWay(base, mine, theirs), [base, mine, theirs]);
+    const [choices, setChoices] = useState<Record<number, ConflictChoice>>({});
+    const conflictCount = chunks.filter((chunk) => chunk.type === "conflict").length;
+
+    const buttonClassName = "rounded-xl border border-gray-700 px-4 py-2 text-sm font-semibold hover:bg-gray-800 transition";
+
+    return (
+        <>
+            <button
+                onClick={onCancel}
+                className="fixed inset-0 bg-black/60 z-40 cursor-default"
+                aria-label="Close conflict overlay"
+            />
+
+            <div
+                role="dialog"
+                aria-modal="true"
+                aria-labelledby="conflict-title"
+                className="fixed inset-4 sm:inset-10 z-50 flex flex-col rounded-3xl border border-gray-800 bg-gray-950 text-white"
+            >
+                <div className="border-b border-gray-800 px-5 py-4 shrink-0">
+                    <p id="conflict-title" className="font-semibold text-lg">This note was changed somewhere else</p>
+                    <p className="text-sm text-white/60 mt-1">
+                        {conflictCount === 0
+                            ? "Your changes and the other changes don't overlap and were merged below."
+                            : `${conflictCount} ${conflictCount === 1 ? "part was" : "parts were"} changed on both sides. Choose what to keep for each.`}
+                    </p>
+                </div>
+
+                <div className="flex-1 overflow-auto p-4 font-mono text-xs leading-relaxed">
+                    {chunks.map((chunk, i) => chunk.type === "resolved" ? (
+                        <div key={i} className="whitespace-pre-wrap px-2 text-white/60">{chunk.lines.join("\n") || " "}</div>
+                    ) : (
+                        <div key={i} className="my-3 rounded-2xl border border-amber-700/60 bg-amber-900/10 p-3 font-sans">
+                            <div className="flex flex-wrap gap-2 mb-3">
+                                {(Object.keys(CHOICE_LABEL) as ConflictChoice[]).map((choice) => (
+                                    <button
+                                        key={choice}
+                                        onClick={() => setChoices((prev) => ({ ...prev, [i]: choice }))}
+                                        aria-pressed={(choices[i] ?? "mine") === choice}
+                                        className={`rounded-lg border px-2 py-1 text-xs transition ${(choices[i] ?? "mine") === choice
+                                            ? "border-emerald-500 bg-emerald-500/10 text-emerald-200"
+                                            : "border-gray-700 text-white/70 hover:bg-gray-800"
+                                            }`}
+                                    >
+                                        {CHOICE_LABEL[choice]}
+                                    </button>
+                                ))}
+                            </div>
+                            <div className="grid gap-3 md:grid-cols-2 font-mono">
+                                <div>
+                                    <p className="mb-1 font-sans text-white/50">Your version</p>
+                                    <div className="whitespace-pre-wrap rounded-lg bg-emerald-900/30 px-2 py-1 text-emerald-100">
+                                        {chunk.mine.join("\n") || "(removed)"}
+                                    </div>
+                                </div>
+                                <div>
+                                    <p className="mb-1 font-sans text-white/50">Other version</p>
+                                    <div className="whitespace-pre-wrap rounded-lg bg-sky-900/30 px-2 py-1 text-sky-100">
+                                        {chunk.theirs.join("\n") || "(removed)"}
+                                    </div>
+                                </div>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+
+                <div className="flex flex-wrap justify-end gap-3 border-t border-gray-800 px-5 py-4 shrink-0">
+                    <button onClick={onCancel} className={buttonClassName}>
+                        Keep editing
+                    </button>
+                    <button onClick={onUseTheirs} className={buttonClassName}>
+                        Discard my changes
+                    </button>
+                    <button onClick={() => onResolve(mine)} className={buttonClassName}>
+                        Overwrite with mine
+                    </button>
+                    <button
+                        onClick={() => onResolve(applyMerge(chunks, choices))}
+                        className="rounded-xl bg-emerald-400 px-4 py-2 text-sm font-semibold text-black hover:brightness-110 transition"
+                    >
+                        Save merged
+                    </button>
+                </div>
+            </div>
+        </>
+    );
+}
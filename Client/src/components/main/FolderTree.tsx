@@ -0,0 +1,292 @@
+import { useMemo, useState } from "react";
+import type { Folder, Tag } from "../../api/auth";
+import type { Note } from "./NotesSidebar.tsx";
+
+type Props = {
+    folders: Folder[];
+    tags: Tag[];
+    notes: Note[];
+    selectedNoteId: string | null;
+    // Hide folders without any (matching) notes, e.g. while filtering by tag
+    hideEmptyFolders: boolean;
+
+    onSelect: (noteId: string) => void;
+    onDelete: (noteId: string) => void;
+    onCreateFolder: (name: string, parentId: string | null) => void;
+    onRenameFolder: (folderId: string, name: string) => void;
+    onDeleteFolder: (folderId: string) => void;
+    onMoveNote: (noteId: string, folderId: string | null) => void;
+    onSetNoteTags: (noteId: string, tagIds: string[]) => void;
+};
+
+function dateLabel(iso: string) {
+    return new Date(iso).toLocaleDateString("en-CA", {
+        year: "numeric",
+        month: "short",
+        day: "numeric",
+    });
+}
+
+const iconButtonClassName = "h-7 w-7 shrink-0 rounded-lg text-white/50 hover:text-white hover:bg-gray-800 " +
+    "flex items-center justify-center transition focus:outline-none focus:ring-2 focus:ring-emerald-500";
+
+export default function FolderTree({
+    folders,
+    tags,
+    notes,
+    selectedNoteId,
+    hideEmptyFolders,
+    onSelect,
+    onDelete,
+    onCreateFolder,
+    onRenameFolder,
+    onDeleteFolder,
+    onMoveNote,
+    onSetNoteTags,
+}: Props) {
+    const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+    const [organizingNoteId, setOrganizingNoteId] = useState<string | null>(null);
+
+    const childFolders = useMemo(() => {
+        const byParent = new Map<string | null, Folder[]>();
+        folders.forEach((f) => byParent.set(f.parentId, [...(byParent.get(f.parentId) ?? []), f]));
+        return byParent;
+    }, [folders]);
+
+    const notesByFolder = useMemo(() => {
+        const byFolder = new Map<string | null, Note[]>();
+        // Notes whose folder is unknown (e.g. just deleted) are shown at the top level
+        const folderIds = new Set(folders.map((f) => f.id));
+        notes.forEach((n) => {
+            const key = n.folderId && folderIds.has(n.folderId) ? n.folderId : null;
+            byFolder.set(key, [...(byFolder.get(key) ?? []), n]);
+        });
+        return byFolder;
+    }, [folders, notes]);
+
+    // Number of notes in a folder including its subfolders
+    const countNotes = (folderId: string): number =>
+        (notesByFolder.get(folderId)?.length ?? 0) +
+        (childFolders.get(folderId) ?? []).reduce((sum, f) => sum + countNotes(f.id), 0);
+
+    // Folder options for the "move to" picker, indented by depth
+    const folderOptions = useMemo(() => {
+        const options: { id: string; label: string }[] = [];
+        const walk = (parentId: string | null, depth: number) => {
+            (childFolders.get(parentId) ?? []).forEach((f) => {
+                options.push({ id: f.id, label: `${"  ".repeat(depth)}${f.name}` });
+                walk(f.id, depth + 1);
+            });
+        };
+        walk(null, 0);
+        return options;
+    }, [childFolders]);
+
+    const toggleCollapsed = (folderId: string) => {
+        setCollapsed((prev) => {
+            const next = new Set(prev);
+            if (next.has(folderId)) next.delete(folderId);
+            else next.add(folderId);
+            return next;
+        });
+    };
+
+    const promptNewFolder = (parentId: string | null) => {
+        const name = window.prompt(parentId ? "New subfolder name" : "New folder name")?.trim();
+        if (name) onCreateFolder(name, parentId);
+    };
+
+    const renderNote = (n: Note) => {
+        const organizing = organizingNoteId === n.id;
+        const noteTags = tags.filter((t) => n.tagIds.includes(t.id));
+
+        return (
+            <div
+                key={n.id}
+                className={`
+                    relative rounded-2xl border p-3 transition
+                    ${n.id === selectedNoteId
+                        ? "border-emerald-500 bg-emerald-500/10"
+                        : "border-gray-800 bg-gray-900/30 hover:bg-gray-900/60 hover:border-gray-700"
+                    }
+                `}
+            >
+                <div className="absolute top-2 right-2 flex gap-1">
+                    <button
+                        onClick={() => setOrganizingNoteId(organizing ? null : n.id)}
+                        className={`${iconButtonClassName} bg-gray-800/80 ${organizing ? "text-emerald-300" : ""}`}
+                        aria-label="Move or tag note"
+                        aria-expanded={organizing}
+                        title="Move or tag"
+                    >
+                        ⋯
+                    </button>
+                    <button
+                        onClick={(e) => {
+                            e.stopPropagation();
+                            onDelete(n.id);
+                        }}
+                        className="h-7 w-7 rounded-lg
+                            bg-gray-800/80 hover:bg-red-600 text-white/60 hover:text-white
+                            flex items-center justify-center transition
+                            focus:outline-none focus:ring-2 focus:ring-red-500"
+                        aria-label="Delete note"
+                        title="Delete note"
+                    >
+                        🗑
+                    </button>
+                </div>
+
+                <button
+                    onClick={() => onSelect(n.id)}
+                    className="text-left w-full pr-16
+                        focus:outline-none focus:ring-2 focus:ring-emerald-500 rounded-lg"
+                >
+                    <p className="font-semibold line-clamp-2">{n.title || "Untitled"}</p>
+                    <p className="text-xs text-white/60 mt-1">
+                        Last updated • {dateLabel(n.updatedAt)}
+                    </p>
+                    {noteTags.length > 0 && (
+                        <div className="flex flex-wrap gap-1 mt-2">
+                            {noteTags.map((t) => (
+                                <span
+                                    key={t.id}
+                                    className="rounded-full border px-2 py-0.5 text-[11px] text-white/80"
+                                    style={{ borderColor: t.color ?? undefined }}
+                                >
+                                    {t.name}
+                                </span>
+                            ))}
+                        </div>
+                    )}
+                </button>
+
+                {organizing && (
+                    <div className="mt-3 flex flex-col gap-2 border-t border-gray-800 pt-3 text-xs">
+                        <label className="flex items-center gap-2 text-white/60">
+                            Folder
+                            <select
+                                value={n.folderId ?? ""}
+                                onChange={(e) => onMoveNote(n.id, e.target.value || null)}
+                                className="flex-1 rounded-lg border border-gray-700 bg-gray-900 px-2 py-1 text-white
+                                    focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                            >
+                                <option value="">No folder</option>
+                                {folderOptions.map((o) => <option key={o.id} value={o.id}>{o.label}</option>)}
+                            </select>
+                        </label>
+                        {tags.length > 0 ? (
+                            <div className="flex flex-wrap gap-1">
+                                {tags.map((t) => {
+                                    const tagged = n.tagIds.includes(t.id);
+                                    return (
+                                        <button
+                                            key={t.id}
+                                            onClick={() => onSetNoteTags(
+                                                n.id,
+                                                tagged ? n.tagIds.filter((id) => id !== t.id) : [...n.tagIds, t.id]
+                                            )}
+                                            aria-pressed={tagged}
+                                            className={`rounded-full border px-2 py-0.5 transition ${tagged
+                                                ? "bg-gray-700 text-white"
+                                                : "border-gray-700 text-white/50 hover:text-white"
+                                                }`}
+                                            style={tagged ? { borderColor: t.color ?? undefined } : undefined}
+                                        >
+                                            {tagged ? "✓ " : "+ "}{t.name}
+                                        </button>
+                                    );
+                                })}
+                            </div>
+                        ) : (
+                            <p className="text-white/50">Create a tag above to label this note.</p>
+                        )}
+                    </div>
+                )}
+            </div>
+        );
+    };
+
+    const renderFolder = (folder: Folder) => {
+        const count = countNotes(folder.id);
+        if (hideEmptyFolders && count === 0) return null;
+
+        const open = !collapsed.has(folder.id);
+        const subfolders = childFolders.get(folder.id) ?? [];
+        const folderNotes = notesByFolder.get(folder.id) ?? [];
+
+        return (
+            <li key={folder.id}>
+                <div className="group flex items-center gap-1 rounded-xl hover:bg-gray-900/60">
+                    <button
+                        onClick={() => toggleCollapsed(folder.id)}
+                        className="flex flex-1 min-w-0 items-center gap-2 px-2 py-1.5 text-left text-sm
+                            focus:outline-none focus:ring-2 focus:ring-emerald-500 rounded-xl"
+                        aria-expanded={open}
+                    >
+                        <span className="w-3 text-white/50">{open ? "▾" : "▸"}</span>
+                        <span className="truncate font-medium">{folder.name}</span>
+                        <span className="text-xs text-white/40">{count}</span>
+                    </button>
+                    <button
+                        onClick={() => promptNewFolder(folder.id)}
+                        className={iconButtonClassName}
+                        aria-label={`New subfolder in ${folder.name}`}
+                        title="New subfolder"
+                    >
+                        +
+                    </button>
+                    <button
+                        onClick={() => {
+                            const name = window.prompt("Rename folder", folder.name)?.trim();
+                            if (name && name !== folder.name) onRenameFolder(folder.id, name);
+                        }}
+                        className={iconButtonClassName}
+                        aria-label={`Rename ${folder.name}`}
+                        title="Rename"
+                    >
+                        ✎
+                    </button>
+                    <button
+                        onClick={() => onDeleteFolder(folder.id)}
+                        className={iconButtonClassName}
+                        aria-label={`Delete ${folder.name}`}
+                        title="Delete folder"
+                    >
+                        ✕
+                    </button>
+                </div>
+
+                {open && (subfolders.length > 0 || folderNotes.length > 0) && (
+                    <div className="ml-3 border-l border-gray-800 pl-2 mt-1 flex flex-col gap-2">
+                        {subfolders.length > 0 && <ul className="flex flex-col gap-1">{subfolders.map(renderFolder)}</ul>}
+                        {folderNotes.map(renderNote)}
+                    </div>
+                )}
+            </li>
+        );
+    };
+
+    const topLevelFolders = childFolders.get(null) ?? [];
+    const unfiledNotes = notesByFolder.get(null) ?? [];
+
+    return (
+        <div className="flex flex-col gap-3">
+            <div className="flex items-center justify-between">
+                <p className="text-xs uppercase tracking-wide text-white/50">Folders</p>
+                <button
+                    onClick={() => promptNewFolder(null)}
+                    className="rounded-lg border border-gray-800 px-2 py-1 text-xs text-white/70 hover:bg-gray-900"
+                >
+                    + Folder
+                </button>
+            </div>
+
+            {topLevelFolders.length > 0 && (
+                <ul className="flex flex-col gap-1">{topLevelFolders.map(renderFolder)}</ul>
+            )}
+
+            {unfiledNotes.map(renderNote)}
+        </div>
+    );
+}
@@ -0,0 +1,211 @@
+import { useEffect, useMemo, useState } from "react";
+import {
+    getRevisions,
+    getRevision,
+    restoreRevision,
+    type DocumentResponse,
+    type RevisionSource,
+    type RevisionSummary,
+} from "../../api/auth";
+import { diffLines } from "../../utils/diff";
+
+type Props = {
+    documentId: string;
+    getToken: () => Promise<string>;
+    onClose: () => void;
+    onRestored: (doc: DocumentResponse) => void;
+    // Hides restoring for people who may only view the note
+    readOnly?: boolean;
+};
+
+const SOURCE_LABEL: Record<RevisionSource, string> = {
+    CREATE: "Created",
+    SCAN: "Original scan",
+    APPEND: "Pages added",
+    RESCAN: "Re-scanned",
+    EDIT: "Edited",
+    RESTORE: "Restored",
+    STUDY: "Study notes added",
+};
+
+function revisionLabel(revision: RevisionSummary) {
+    const date = new Date(revision.updatedAt).toLocaleString("en-CA", {
+        month: "short",
+        day: "numeric",
+        hour: "numeric",
+        minute: "2-digit",
+    });
+    return `#${revision.revisionNumber} • ${SOURCE_LABEL[revision.source]} • ${date}`;
+}
+
+export default function HistoryPanel({ documentId, getToken, onClose, onRestored, readOnly = false }: Props) {
+    const [revisions, setRevisions] = useState<RevisionSummary[]>([]);
+    const [contents, setContents] = useState<Record<string, string>>({});
+    const [baseId, setBaseId] = useState<string | null>(null);
+    const [compareId, setCompareId] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [restoringId, setRestoringId] = useState<string | null>(null);
+
+    // Load the revision list; compare the newest revision with the one before it by default
+    useEffect(() => {
+        const load = async () => {
+            try {
+                const response = await getRevisions(documentId, await getToken());
+                setRevisions(response.data);
+                setCompareId(response.data[0]?.id ?? null);
+                setBaseId(response.data[1]?.id ?? response.data[0]?.id ?? null);
+            } catch (err) {
+                console.error("Failed to fetch revisions:", err);
+                setError("Failed to load history");
+            }
+        };
+        load();
+    }, [documentId, getToken]);
+
+    // Fetch the content of the selected revisions on demand
+    useEffect(() => {
+        const missing = [baseId, compareId].filter((id): id is string => !!id && !(id in contents));
+        if (missing.length === 0) return;
+
+        const load = async () => {
+            try {
+                const token = await getToken();
+                const loaded = await Promise.all(missing.map((id) => getRevision(documentId, id, token)));
+                setContents((prev) => ({
+                    ...prev,
+                    ...Object.fromEntries(loaded.map((r) => [r.data.id, r.data.markdownContent])),
+                }));
+            } catch (err) {
+                console.error("Failed to fetch revision:", err);
+                setError("Failed to load revision");
+            }
+        };
+        load();
+    }, [baseId, compareId, contents, documentId, getToken]);
+
+    // null while the revisions load; `lines` is null when they differ too much to diff
+    const diff = useMemo(() => {
+        if (!baseId || !compareId) return null;
+        const before = contents[baseId];
+        const after = contents[compareId];
+        if (before === undefined || after === undefined) return null;
+        return { lines: diffLines(before, after) };
+    }, [baseId, compareId, contents]);
+
+    const handleRestore = async (revision: RevisionSummary) => {
+        if (!window.confirm(`Restore revision #${revision.revisionNumber}? The current content stays in the history.`)) return;
+
+        setRestoringId(revision.id);
+        try {
+            const response = await restoreRevision(documentId, revision.id, await getToken());
+            onRestored(response.data);
+        } catch (err) {
+            console.error("Failed to restore revision:", err);
+            setError("Failed to restore revision");
+        } finally {
+            setRestoringId(null);
+        }
+    };
+
+    const selectClassName = "rounded-xl border border-gray-700 bg-gray-900 px-3 py-2 text-sm text-white " +
+        "focus:outline-none focus:ring-2 focus:ring-emerald-500";
+
+    return (
+        <>
+            <button
+                onClick={onClose}
+                className="fixed inset-0 bg-black/60 z-40 cursor-default"
+                aria-label="Close history overlay"
+            />
+
+            <div className="fixed inset-4 sm:inset-10 z-50 flex flex-col rounded-3xl border border-gray-800 bg-gray-950 text-white">
+                <div className="h-16 border-b border-gray-800 flex items-center justify-between px-5 shrink-0">
+                    <p className="font-semibold text-lg">Version history</p>
+                    <button
+                        onClick={onClose}
+                        className="h-9 w-9 rounded-xl border border-gray-800 hover:bg-gray-900 transition active:scale-95
+                            focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                        aria-label="Close history"
+                        title="Close"
+                    >
+                        ✕
+                    </button>
+                </div>
+
+                {error && <p className="px-5 pt-3 text-sm text-red-300">{error}</p>}
+
+                <div className="flex flex-1 min-h-0 flex-col md:flex-row">
+                    {/* Revision list */}
+                    <div className="md:w-80 shrink-0 border-b md:border-b-0 md:border-r border-gray-800 overflow-y-auto p-4 flex flex-col gap-2">
+                        {revisions.map((revision, i) => (
+                            <div
+                                key={revision.id}
+                                className={`rounded-2xl border p-3 text-sm ${revision.id === compareId
+                                    ? "border-emerald-500 bg-emerald-500/10"
+                                    : "border-gray-800 bg-gray-900/30"
+                                    }`}
+                            >
+                                <p className="font-semibold">{revisionLabel(revision)}</p>
+                                <div className="flex gap-2 mt-2">
+                                    <button
+                                        onClick={() => setCompareId(revision.id)}
+                                        className="rounded-lg border border-gray-700 px-2 py-1 text-xs hover:bg-gray-800"
+                                    >
+                                        View changes
+                                    </button>
+                                    {i > 0 && !readOnly && (
+                                        <button
+                                            onClick={() => handleRestore(revision)}
+                                            disabled={restoringId !== null}
+                                            className="rounded-lg border border-emerald-700 px-2 py-1 text-xs text-emerald-300
+                                                hover:bg-gray-800 disabled:opacity-50"
+                                        >
+                                            {restoringId === revision.id ? "Restoring…" : "Restore"}
+                                        </button>
+                                    )}
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+
+                    {/* Diff between two revisions */}
+                    <div className="flex-1 min-h-0 flex flex-col">
+                        <div className="flex flex-wrap items-center gap-2 p-4 border-b border-gray-800 text-sm text-white/70">
+                            Compare
+                            <select value={baseId ?? ""} onChange={(e) => setBaseId(e.target.value)} className={selectClassName}>
+                                {revisions.map((r) => <option key={r.id} value={r.id}>{revisionLabel(r)}</option>)}
+                            </select>
+                            with
+                            <select value={compareId ?? ""} onChange={(e) => setCompareId(e.target.value)} className={selectClassName}>
+                                {revisions.map((r) => <option key={r.id} value={r.id}>{revisionLabel(r)}</option>)}
+                            </select>
+                        </div>
+
+                        <div className="flex-1 overflow-auto p-4 font-mono text-xs leading-relaxed">
+                            {diff === null ? (
+                                <p className="text-white/60">Loading…</p>
+                            ) : diff.lines === null ? (
+                                <p className="text-white/60">These revisions differ too much to compare line by line.</p>
+                            ) : (
+                                diff.lines.map((line, i) => (
+                                    <div
+                                        key={i}
+                                        className={`whitespace-pre-wrap px-2 ${line.type === "added"
+                                            ? "bg-emerald-900/40 text-emerald-200"
+                                            : line.type === "removed"
+                                                ? "bg-red-900/40 text-red-200"
+                                                : "text-white/70"
+                                            }`}
+                                    >
+                                        {line.type === "added" ? "+ " : line.type === "removed" ? "- " : "  "}
+                                        {line.text || " "}
+                                    </div>
+                                ))
+                            )}
+                        </div>
+                    </div>
+                </div>
+            </div>
+        </>
+    );
+}
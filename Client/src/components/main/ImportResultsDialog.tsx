@@ -0,0 +1,84 @@
+import type { ImportResult } from "../../api/auth";
+
+type Props = {
+    results: ImportResult[];
+    // Open an imported (or already existing) note
+    onOpen: (documentId: string) => void;
+    onClose: () => void;
+};
+
+const STATUS_LABEL: Record<ImportResult['status'], string> = {
+    imported: "Imported",
+    duplicate: "Already in your notes",
+    failed: "Failed",
+};
+
+const STATUS_CLASS: Record<ImportResult['status'], string> = {
+    imported: "text-emerald-400",
+    duplicate: "text-white/50",
+    failed: "text-red-400",
+};
+
+export default function ImportResultsDialog({ results, onOpen, onClose }: Props) {
+    const count = (status: ImportResult['status']) => results.filter((result) => result.status === status).length;
+    const summary = [
+        `${count('imported')} imported`,
+        count('duplicate') > 0 && `${count('duplicate')} already in your notes`,
+        count('failed') > 0 && `${count('failed')} failed`,
+    ].filter(Boolean).join(" • ");
+
+    return (
+        <>
+            <button
+                onClick={onClose}
+                className="fixed inset-0 bg-black/60 z-40 cursor-default"
+                aria-label="Close import overlay"
+            />
+
+            <div
+                role="dialog"
+                aria-modal="true"
+                aria-labelledby="import-title"
+                className="fixed left-1/2 top-1/2 z-50 flex w-[min(36rem,calc(100vw-2rem))] max-h-[calc(100vh-2rem)] flex-col
+                    -translate-x-1/2 -translate-y-1/2 rounded-3xl border border-gray-800 bg-gray-950 text-white"
+            >
+                <div className="border-b border-gray-800 px-5 py-4 shrink-0">
+                    <p id="import-title" className="font-semibold text-lg">Import finished</p>
+                    <p className="text-sm text-white/60 mt-1">{summary}</p>
+                </div>
+
+                <ul className="flex-1 overflow-auto px-5 py-3 text-sm">
+                    {results.map((result, i) => (
+                        <li key={i} className="flex items-start justify-between gap-3 border-b border-gray-900 py-2 last:border-b-0">
+                            <div className="min-w-0">
+                                {result.documentId ? (
+                                    <button
+                                        onClick={() => onOpen(result.documentId!)}
+                                        className="block max-w-full truncate text-left font-semibold hover:underline"
+                                    >
+                                        {result.title || result.path}
+                                    </button>
+                                ) : (
+                                    <p className="truncate font-semibold">{result.path}</p>
+                                )}
+                                <p className="truncate text-xs text-white/40">
+                                    {result.error ?? (result.documentId ? result.path : '')}
+                                </p>
+                            </div>
+                            <span className={`shrink-0 ${STATUS_CLASS[result.status]}`}>{STATUS_LABEL[result.status]}</span>
+                        </li>
+                    ))}
+                </ul>
+
+                <div className="flex justify-end border-t border-gray-800 px-5 py-4 shrink-0">
+                    <button
+                        onClick={onClose}
+                        className="rounded-xl bg-emerald-400 px-4 py-2 text-sm font-semibold text-black hover:brightness-110 transition"
+                    >
+                        Done
+                    </button>
+                </div>
+            </div>
+        </>
+    );
+}
@@ -1,13 +1,134 @@
-import { useRef, useState, useCallback, useEffect, type ChangeEvent } from 'react';
-import { ref, uploadBytes, getDownloadURL } from 'firebase/storage';
+import { useRef, useState, useCallback, useEffect, useMemo, type ChangeEvent } from 'react';
+import { isAxiosError } from 'axios';
 import { MilkdownEditor } from '../../MilkdownEditor';
 import { useAuth } from '../../context/AuthContext';
-import { storage } from '../../firebase';
-import { downloadMarkdownAsPdf, EmptyMarkdownError } from '../../utils/pdf';
+import { downloadMarkdownAsPdf } from '../../utils/pdf';
+import { EmptyMarkdownError } from '../../utils/markdown';
+import { EXPORT_FORMATS, downloadBlob, downloadMarkdownAs, type ExportFormat } from '../../utils/exportNote';
+import { PdfFontError } from '../../utils/pdfFonts';
+import type { PdfOptions } from '../../utils/pdfOptions';
 import NotesSidebar, { type Note } from './NotesSidebar.tsx';
-import { getDocuments, fileUpload, createDocument, updateDocument, deleteDocument } from '../../api/auth';
+import HistoryPanel from './HistoryPanel.tsx';
+import ShareDialog from './ShareDialog.tsx';
+import MembersDialog from './MembersDialog.tsx';
+import CommentsPanel from './CommentsPanel.tsx';
+import StudyMenu from './StudyMenu.tsx';
+import ConflictDialog from './ConflictDialog.tsx';
+import PdfExportDialog from './PdfExportDialog.tsx';
+import ImportResultsDialog from './ImportResultsDialog.tsx';
+import PageRangeDialog from './PageRangeDialog.tsx';
+import ScanReviewPanel, { type ScanPage } from './ScanReviewPanel.tsx';
+import {
+    getDocuments, getDocument, uploadScanImages, uploadScanDocument, scanDocumentPages, getScanModes, rescanDocument,
+    searchDocuments, createDocument, updateDocument, renameDocument, deleteDocument, restoreDocument,
+    moveDocument, setDocumentTags, exportAllDocuments, importDocuments,
+    type DocumentConflict, type DocumentRole, type ImportResult, type DocumentListItem, type DocumentResponse, type DocumentSort, type ScanJob, type ScanMode,
+    type ScanDocumentUpload, type CommentAnchor
+} from '../../api/auth';
+import { useScanJobs } from '../../hooks/useScanJobs';
+import { useFoldersAndTags } from '../../hooks/useFoldersAndTags';
+import { usePdfSettings } from '../../hooks/usePdfSettings';
+import { useCommentThreads } from '../../hooks/useCommentThreads';
+import { useOfflineSync, isNetworkError, type OfflineSyncHandlers } from '../../hooks/useOfflineSync';
+import { clearDraft, readDraft, NEW_NOTE_DRAFT_KEY, type Draft } from '../../utils/drafts';
+import type { CollabSaved, CollabStatus } from '../../utils/collab';
+import {
+    cacheDocuments, getCachedDocument, listCachedDocuments, putCachedDocument, removeCachedDocument,
+    isLocalId, newLocalId, type CachedDocument
+} from '../../utils/offlineStore';
 import logo from '../../assets/logo.png';
 
+type ScanPageStatus = 'pending' | 'uploading' | 'queued' | 'scanning' | 'done' | 'failed';
+
+interface ScanPageProgress {
+    name: string;
+    status: ScanPageStatus;
+}
+
+const SCAN_STATUS_LABEL: Record<ScanPageStatus, string> = {
+    pending: 'Waiting',
+    uploading: 'Uploading…',
+    queued: 'Queued',
+    scanning: 'Scanning…',
+    done: 'Done',
+    failed: 'Failed',
+};
+
+// Once the images are uploaded, each page's status follows the scan job's progress
+function pageStatusFromJob(job: ScanJob, index: number): ScanPageStatus {
+    if (index < job.completedPages) return 'done';
+    if (index > job.completedPages) return job.status === 'FAILED' ? 'failed' : 'queued';
+    if (job.status === 'FAILED') return 'failed';
+    return job.status === 'RUNNING' ? 'scanning' : 'queued';
+}
+
+// PDFs and TIFFs are split into page images by the server; the rest must be single images
+const SCAN_DOCUMENT_TYPES = ['application/pdf', 'image/tiff'];
+const MAX_DOCUMENT_SIZE = 50 * 1024 * 1024;
+
+function isScanDocument(file: File) {
+    return SCAN_DOCUMENT_TYPES.includes(file.type) || /\.(pdf|tiff?)$/i.test(file.name);
+}
+
+const UNDO_DELETE_TIMEOUT = 8000; // ms the "Undo" toast stays up after deleting a note
+const AUTOSAVE_DELAY = 1500; // ms without typing before the open note is saved
+const AUTOSAVE_RETRY_DELAY = 10000; // ms before retrying a failed autosave
+
+type SaveStatus = 'saved' | 'saving' | 'unsaved' | 'offline' | 'syncing' | 'error' | 'live';
+
+const SAVE_STATUS_LABEL: Record<SaveStatus, string> = {
+    saved: 'All changes saved',
+    saving: 'Saving…',
+    unsaved: 'Unsaved changes',
+    offline: 'Offline • saved on this device',
+    syncing: 'Saved on this device • syncing…',
+    error: "Couldn't save • retrying",
+    live: 'Editing live • saving…',
+};
+
+// Result of saving the open note: 'busy' when another save of it is still in flight
+type SaveResult = 'saved' | 'conflict' | 'failed' | 'busy';
+
+// Colors assigned to new tags in turn
+const TAG_COLORS = ['#10b981', '#3b82f6', '#f59e0b', '#ef4444', '#a855f7', '#ec4899', '#14b8a6', '#eab308'];
+
+// Prefer the server's error message over the generic fallback
+function requestErrorMessage(err: unknown, fallback: string): string {
+    return (isAxiosError(err) ? err.response?.data?.error : undefined) || fallback;
+}
+
+function noteFromDocument(doc: DocumentListItem | DocumentResponse): Note {
+    return {
+        id: doc.id,
+        title: doc.title,
+        imageUrl: doc.imageUrl || undefined,
+        scanMode: doc.scanMode,
+        folderId: doc.folderId ?? null,
+        tagIds: doc.tags?.map((t) => t.id) ?? [],
+        createdAt: doc.createdAt,
+        updatedAt: doc.updatedAt,
+    };
+}
+
+// Title shown for a note created offline until the server derives the real one
+function localTitle(markdown: string) {
+    const firstLine = markdown.replace(/<!--[\s\S]*?-->/g, '').split('\n').find((line) => line.trim()) ?? '';
+    return firstLine.replace(/^#+\s*/, '').trim().slice(0, 120);
+}
+
+// Offline copies of notes, in the order the server lists them
+function sortNotes(notes: Note[], sort: DocumentSort) {
+    if (sort === 'title') return [...notes].sort((a, b) => a.title.localeCompare(b.title));
+    const field = sort === 'created' ? 'createdAt' : 'updatedAt';
+    return [...notes].sort((a, b) => b[field].localeCompare(a[field]));
+}
+
+// The offline copy of a note as an opened document, if its content is stored on this device
+function documentFromCache(doc: CachedDocument, userId: string): DocumentResponse | null {
+    if (doc.markdownContent === undefined) return null;
+    return { ...doc, userId, titleEdited: false, markdownContent: doc.markdownContent, version: doc.version ?? 1 };
+}
+
 interface MainPageProps {
     onLoginRequest: () => void;
 }
@@ -15,57 +136,158 @@ interface MainPageProps {
 const MainPage = ({ onLoginRequest }: MainPageProps) => {
     const { user, logout } = useAuth();
     const fileInputRef = useRef<HTMLInputElement>(null);
+    const importInputRef = useRef<HTMLInputElement>(null);
 
     // State for upload flow
     const [isUploading, setIsUploading] = useState(false);
+    // An uploaded PDF/TIFF whose pages are being chosen, and whether the chosen pages are being split into images
+    const [pendingScanDocument, setPendingScanDocument] = useState<(ScanDocumentUpload & { name: string }) | null>(null);
+    const [isPreparingPages, setIsPreparingPages] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const [extractedMarkdown, setExtractedMarkdown] = useState<string | null>(null);
     const [editorMarkdown, setEditorMarkdown] = useState<string>('');
     const [isGeneratingPdf, setIsGeneratingPdf] = useState(false);
+    const [pdfDialogOpen, setPdfDialogOpen] = useState(false);
+    // Non-PDF export in progress: a single-note format, or the ZIP of all notes
+    const [exportingFormat, setExportingFormat] = useState<ExportFormat | 'zip' | null>(null);
+    // Original scan images of the open note, for reviewing the transcription and the PDF export's appendix
+    const [scanPages, setScanPages] = useState<ScanPage[]>([]);
+    const [reviewOpen, setReviewOpen] = useState(false);
+    const [scanProgress, setScanProgress] = useState<ScanPageProgress[]>([]);
+    const [activeScanJobId, setActiveScanJobId] = useState<string | null>(null);
+    const [scanModes, setScanModes] = useState<ScanMode[]>([]);
+    const [scanMode, setScanMode] = useState('general');
+    const [rescanMode, setRescanMode] = useState('general');
+    const [historyOpen, setHistoryOpen] = useState(false);
+    const [shareOpen, setShareOpen] = useState(false);
+    const [membersOpen, setMembersOpen] = useState(false);
+    const [commentsOpen, setCommentsOpen] = useState(false);
+    // Comment thread selected in the panel or the note, the text selected to comment on, and the threads
+    // whose passage is no longer in the note
+    const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
+    const [commentSelection, setCommentSelection] = useState<CommentAnchor | null>(null);
+    const [detachedThreadIds, setDetachedThreadIds] = useState<string[]>([]);
+    const [uploadFolderId, setUploadFolderId] = useState('');
+    const [isImporting, setIsImporting] = useState(false);
+    const [importResults, setImportResults] = useState<ImportResult[] | null>(null);
 
     // Sidebar state
     const [sidebarOpen, setSidebarOpen] = useState(false);
     const [notes, setNotes] = useState<Note[]>([]);
+    const [notesCursor, setNotesCursor] = useState<string | null>(null);
+    // Bumped to reload the first page of notes, e.g. after an import
+    const [notesReloadKey, setNotesReloadKey] = useState(0);
+    const [noteSort, setNoteSort] = useState<DocumentSort>('updated');
     const [selectedNoteId, setSelectedNoteId] = useState<string | null>(null);
+    // The user's role on the open note; notes shared with them may be view-only
+    const [openRole, setOpenRole] = useState<DocumentRole>('OWNER');
+    // Title of the open note as saved, and as currently typed in the title field
+    const [savedTitle, setSavedTitle] = useState('');
+    const [titleDraft, setTitleDraft] = useState('');
+    // Note the open one was generated from, if it holds study notes
+    const [sourceDocumentId, setSourceDocumentId] = useState<string | null>(null);
+    // Server copy the editor content is based on: saves send its version, and merges use its content as the base
+    const [savedDoc, setSavedDoc] = useState<{ version: number; markdown: string } | null>(null);
+    // A save rejected because the note changed elsewhere, waiting to be merged
+    const [conflict, setConflict] = useState<{ mine: string; theirs: DocumentResponse } | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+    const [saveFailed, setSaveFailed] = useState(false);
+    // Local draft of the open note that is newer than the server copy, offered for recovery
+    const [recoverableDraft, setRecoverableDraft] = useState<Draft | null>(null);
+    // Connection to the note's live editing session; while connected, the session saves the content
+    const [collabStatus, setCollabStatus] = useState<CollabStatus | null>(null);
+    const savingRef = useRef(false);
+    const selectedNoteIdRef = useRef<string | null>(null);
+    const loadingNotesRef = useRef(false);
+    // Most recently trashed note, offered for undo until the toast times out
+    const [trashedNote, setTrashedNote] = useState<{ id: string; title: string; wasOpen: boolean } | null>(null);
 
     // Key to force Milkdown editor remount
     const [editorKey, setEditorKey] = useState(0);
 
-    // Helper for date labels
-    function nowLabel() {
-        return new Date().toLocaleDateString("en-CA", {
-            year: "numeric",
-            month: "short",
-            day: "numeric",
-        });
-    }
+    // Mirror documents into the offline store so they can be listed and opened without a connection
+    // Notes shared by other people aren't kept offline: access to them can be taken away at any time
+    const cacheNotes = useCallback((docs: (DocumentListItem | DocumentResponse)[]) => {
+        if (!user) return;
+        const own = docs.filter((doc) => !('userId' in doc) || doc.userId === user.uid);
+        cacheDocuments(user.uid, own).catch((err) => console.error("Failed to cache documents:", err));
+    }, [user]);
 
-    // Load documents from backend
+    // Load the first page of documents from backend; later pages load as the sidebar scrolls.
+    // Offline, the notes stored on this device are listed instead.
     useEffect(() => {
         const fetchDocs = async () => {
             if (user) {
                 try {
                     const token = await user.getIdToken();
-                    const response = await getDocuments(token);
-                    if (response && response.data) {
-                        const backendNotes: Note[] = response.data.map((doc: any) => ({
-                            id: doc.id,
-                            content: doc.markdownContent,
-                            updatedAt: new Date(doc.createdAt).toLocaleDateString("en-CA", {
-                                year: "numeric",
-                                month: "short",
-                                day: "numeric"
-                            })
-                        }));
-                        setNotes(backendNotes);
-                    }
+                    const response = await getDocuments(token, { sort: noteSort });
+                    setNotes(response.data.items.map(noteFromDocument));
+                    setNotesCursor(response.data.nextCursor);
+                    cacheNotes(response.data.items);
                 } catch (err) {
                     console.error("Failed to fetch documents:", err);
+                    if (!isNetworkError(err)) return;
+                    try {
+                        const cached = await listCachedDocuments(user.uid);
+                        setNotes(sortNotes(cached.map(noteFromDocument), noteSort));
+                        setNotesCursor(null);
+                    } catch (cacheErr) {
+                        console.error("Failed to load offline notes:", cacheErr);
+                    }
                 }
             }
         };
         fetchDocs();
-    }, [user]);
+    }, [user, noteSort, cacheNotes, notesReloadKey]);
+
+    const handleLoadMoreNotes = useCallback(async () => {
+        if (!user || !notesCursor || loadingNotesRef.current) return;
+
+        loadingNotesRef.current = true;
+        try {
+            const token = await user.getIdToken();
+            const response = await getDocuments(token, { sort: noteSort, cursor: notesCursor });
+            const page = response.data.items.map(noteFromDocument);
+            // Skip notes that are already listed (e.g. created since the first page loaded)
+            setNotes((prev) => [...prev, ...page.filter((n) => !prev.some((p) => p.id === n.id))]);
+            setNotesCursor(response.data.nextCursor);
+            cacheNotes(response.data.items);
+        } catch (err) {
+            console.error("Failed to fetch more documents:", err);
+        } finally {
+            loadingNotesRef.current = false;
+        }
+    }, [user, notesCursor, noteSort, cacheNotes]);
+
+    // Put a created or changed note where the current sort expects it
+    const upsertNote = useCallback((note: Note) => {
+        setNotes((prev) => {
+            const rest = prev.filter((n) => n.id !== note.id);
+            if (noteSort === 'title') {
+                return [...rest, note].sort((a, b) => a.title.localeCompare(b.title));
+            }
+            if (noteSort === 'created') {
+                return prev.some((n) => n.id === note.id) ? prev.map((n) => (n.id === note.id ? note : n)) : [note, ...rest];
+            }
+            return [note, ...rest];
+        });
+    }, [noteSort]);
+
+    // Notes shared by other people are listed in their own section of the sidebar, not among the user's notes
+    const upsertDocument = useCallback((doc: DocumentResponse) => {
+        if (doc.userId === user?.uid) upsertNote(noteFromDocument(doc));
+    }, [user, upsertNote]);
+
+    // Load the available scan modes for the upload and re-scan pickers
+    useEffect(() => {
+        getScanModes()
+            .then((response) => setScanModes(response.data))
+            .catch((err) => console.error("Failed to fetch scan modes:", err));
+    }, []);
+
+    useEffect(() => {
+        selectedNoteIdRef.current = selectedNoteId;
+    }, [selectedNoteId]);
 
     // Callback to receive markdown updates from editor
     const handleMarkdownChange = useCallback((markdown: string) => {
@@ -75,21 +297,268 @@ const MainPage = ({ onLoginRequest }: MainPageProps) => {
     // Create new note - clear editor and selection
     const handleNewNote = () => {
         setSelectedNoteId(null);
+        setSavedDoc(null);
+        setCollabStatus(null);
+        setActiveThreadId(null);
+        setCommentSelection(null);
+        setRecoverableDraft(null);
+        setSaveFailed(false);
+        setSavedTitle('');
+        setTitleDraft('');
+        setSourceDocumentId(null);
+        setScanPages([]);
         setExtractedMarkdown('');
         setEditorMarkdown('');
         setEditorKey(prev => prev + 1);  // Force editor remount
         setSidebarOpen(false);
     };
 
-    // Select existing note - load content into editor
-    const handleSelectNote = (note: Note) => {
-        setSelectedNoteId(note.id);
-        setExtractedMarkdown(note.content);
-        setEditorMarkdown(note.content);
+    // Open a document in the editor, offering a newer local draft of it for recovery
+    const openDocument = useCallback((doc: DocumentResponse) => {
+        const draft = readDraft(doc.id);
+        setRecoverableDraft(
+            draft && draft.markdown !== doc.markdownContent && draft.updatedAt > Date.parse(doc.updatedAt) ? draft : null
+        );
+        setSaveFailed(false);
+        setSelectedNoteId(doc.id);
+        setOpenRole(doc.role ?? 'OWNER');
+        setSavedDoc({ version: doc.version, markdown: doc.markdownContent });
+        setCollabStatus(null);
+        if (doc.id !== selectedNoteIdRef.current) setActiveThreadId(null);
+        setCommentSelection(null);
+        setSavedTitle(doc.title);
+        setTitleDraft(doc.title);
+        setSourceDocumentId(doc.sourceDocumentId ?? null);
+        setScanPages(doc.pages?.length
+            ? doc.pages
+            : doc.imageUrl ? [{ pageNumber: 1, sourcePageNumber: null, imageUrl: doc.imageUrl }] : []);
+        setExtractedMarkdown(doc.markdownContent);
+        setEditorMarkdown(doc.markdownContent);
         setEditorKey(prev => prev + 1);  // Force editor remount with new content
+        cacheNotes([doc]);
+    }, [cacheNotes]);
+
+    // Select existing note - the list has no content, so fetch the full document.
+    // Offline, or while the note has changes waiting to sync, the copy on this device is opened.
+    const handleSelectNote = async (noteId: string) => {
+        if (!user) return;
+        // Save pending changes first; stay on the note if they conflict with a change made elsewhere
+        if (await saveOpenNote() === 'conflict') return;
+
+        if (online && !isLocalId(noteId) && !pendingIds.has(noteId)) {
+            try {
+                const response = await getDocument(noteId, await user.getIdToken());
+                openDocument(response.data);
+                setSidebarOpen(false);
+                return;
+            } catch (e) {
+                console.error("Failed to open note:", e);
+                if (!isNetworkError(e)) {
+                    setError("Failed to open note");
+                    return;
+                }
+            }
+        }
+
+        const cached = await getCachedDocument(user.uid, noteId).catch(() => undefined);
+        const doc = cached && documentFromCache(cached, user.uid);
+        if (!doc) {
+            setError("This note hasn't been opened on this device yet, so it isn't available offline");
+            return;
+        }
+        openDocument(doc);
         setSidebarOpen(false);
     };
 
+    // Record a successful save; a save that finishes after switching notes only updates the list
+    const applySavedDocument = useCallback((doc: DocumentResponse) => {
+        upsertDocument(doc);
+        cacheNotes([doc]);
+        if (readDraft(doc.id)?.markdown === doc.markdownContent) clearDraft(doc.id);
+        if (selectedNoteIdRef.current !== doc.id) return;
+
+        setSavedDoc({ version: doc.version, markdown: doc.markdownContent });
+        setSavedTitle(doc.title);
+        setTitleDraft(doc.title);
+    }, [upsertDocument, cacheNotes]);
+
+    // Saves `markdown` over the open note as long as nobody else changed it since `baseVersion`;
+    // otherwise the server's copy comes back with a 409 and the merge dialog opens. While others edit the
+    // note live the save is refused; it's retried until this tab joins them or they're done.
+    const saveNoteContent = useCallback(async (noteId: string, markdown: string, baseVersion: number | undefined) => {
+        try {
+            const response = await updateDocument(noteId, markdown, await user!.getIdToken(), baseVersion);
+            applySavedDocument(response.data);
+            return true;
+        } catch (e) {
+            if (isAxiosError<DocumentConflict>(e) && e.response?.status === 409 && e.response.data.live) {
+                setError(e.response.data.error);
+                return false;
+            }
+            if (isAxiosError<DocumentConflict>(e) && e.response?.status === 409 && e.response.data.current) {
+                setConflict({ mine: markdown, theirs: e.response.data.current });
+                return false;
+            }
+            throw e;
+        }
+    }, [user, applySavedDocument]);
+
+    const offlineSyncHandlers: OfflineSyncHandlers = {
+        onCreated: (localId, doc) => {
+            setNotes((prev) => prev.filter((n) => n.id !== localId));
+            clearDraft(localId);
+            if (selectedNoteIdRef.current === localId) {
+                selectedNoteIdRef.current = doc.id;
+                setSelectedNoteId(doc.id);
+            }
+            applySavedDocument(doc);
+        },
+        onUpdated: applySavedDocument,
+        // Show the offline edit over the server copy, merging against the copy the edit started from
+        onConflict: (op, current) => {
+            openDocument(current);
+            setSavedDoc({ version: op.baseVersion ?? current.version, markdown: op.baseMarkdown });
+            setExtractedMarkdown(op.markdown);
+            setEditorMarkdown(op.markdown);
+            setConflict({ mine: op.markdown, theirs: current });
+        },
+    };
+    const { online, pendingIds, enqueue, sync } = useOfflineSync(user, offlineSyncHandlers);
+
+    // Keep an edit on this device and queue it for the server
+    const queueNoteContent = useCallback(async (noteId: string, markdown: string, base: { version: number; markdown: string }) => {
+        await enqueue({ type: 'update', id: noteId, markdown, baseVersion: base.version, baseMarkdown: base.markdown });
+
+        const cached = await getCachedDocument(user!.uid, noteId);
+        if (cached) {
+            const updated: CachedDocument = {
+                ...cached,
+                title: isLocalId(noteId) ? localTitle(markdown) : cached.title,
+                markdownContent: markdown,
+                updatedAt: new Date().toISOString(),
+            };
+            await putCachedDocument(user!.uid, updated);
+            upsertNote(noteFromDocument(updated));
+        }
+        if (readDraft(noteId)?.markdown === markdown) clearDraft(noteId);
+        if (selectedNoteIdRef.current === noteId) setSavedDoc({ version: base.version, markdown });
+    }, [user, enqueue, upsertNote]);
+
+    // Create a note on the server, or on this device (queued for the server) while offline
+    const createNote = async (markdown: string): Promise<DocumentResponse> => {
+        if (online) {
+            try {
+                return (await createDocument(markdown, await user!.getIdToken())).data;
+            } catch (e) {
+                if (!isNetworkError(e)) throw e;
+            }
+        }
+
+        const now = new Date().toISOString();
+        const doc: DocumentResponse = {
+            id: newLocalId(),
+            userId: user!.uid,
+            title: localTitle(markdown),
+            titleEdited: false,
+            imageUrl: '',
+            markdownContent: markdown,
+            version: 1,
+            createdAt: now,
+            updatedAt: now,
+            scanMode: 'general',
+            folderId: null,
+            tags: [],
+        };
+        await enqueue({ type: 'create', id: doc.id, markdown });
+        return doc;
+    };
+
+    const canEdit = !selectedNoteId || openRole === 'EDITOR' || openRole === 'OWNER';
+    const editingLive = collabStatus === 'connected';
+    const hasUnsavedChanges = canEdit && !editingLive && selectedNoteId !== null && savedDoc !== null
+        && editorMarkdown !== savedDoc.markdown;
+
+    // Saves the open note if it has unsaved changes (used by autosave, manual save and before switching notes).
+    // Offline, or while earlier changes of the note are still queued, the change is queued behind them.
+    const saveOpenNote = useCallback(async (): Promise<SaveResult> => {
+        if (!selectedNoteId || !savedDoc || !hasUnsavedChanges) return 'saved';
+        if (savingRef.current) return 'busy';
+
+        savingRef.current = true;
+        setIsSaving(true);
+        try {
+            if (online && !isLocalId(selectedNoteId) && !pendingIds.has(selectedNoteId)) {
+                try {
+                    const saved = await saveNoteContent(selectedNoteId, editorMarkdown, savedDoc.version);
+                    setSaveFailed(false);
+                    return saved ? 'saved' : 'conflict';
+                } catch (e) {
+                    if (!isNetworkError(e)) throw e;
+                }
+            }
+            await queueNoteContent(selectedNoteId, editorMarkdown, savedDoc);
+            setSaveFailed(false);
+            return 'saved';
+        } catch (e) {
+            console.error("Failed to save:", e);
+            setSaveFailed(true);
+            return 'failed';
+        } finally {
+            savingRef.current = false;
+            setIsSaving(false);
+        }
+    }, [selectedNoteId, savedDoc, hasUnsavedChanges, editorMarkdown, online, pendingIds, saveNoteContent, queueNoteContent]);
+
+    // Debounced autosave; paused while a conflict waits to be merged
+    useEffect(() => {
+        if (!hasUnsavedChanges || conflict || isSaving) return;
+        const timer = window.setTimeout(saveOpenNote, saveFailed ? AUTOSAVE_RETRY_DELAY : AUTOSAVE_DELAY);
+        return () => window.clearTimeout(timer);
+    }, [hasUnsavedChanges, conflict, isSaving, saveFailed, saveOpenNote]);
+
+    // Warn before leaving the page with changes that haven't reached the server
+    useEffect(() => {
+        if (!hasUnsavedChanges) return;
+        const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+            e.preventDefault();
+            e.returnValue = '';
+        };
+        window.addEventListener('beforeunload', handleBeforeUnload);
+        return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+    }, [hasUnsavedChanges]);
+
+    const saveStatus: SaveStatus | null = !selectedNoteId
+        ? null
+        : editingLive
+            ? editorMarkdown !== savedDoc?.markdown ? 'live' : 'saved'
+            : isSaving
+                ? 'saving'
+                : hasUnsavedChanges
+                    ? saveFailed ? 'error' : 'unsaved'
+                    : pendingIds.has(selectedNoteId)
+                        ? online ? 'syncing' : 'offline'
+                        : 'saved';
+
+    // Save the open note before clearing the editor for a new one
+    const handleStartNewNote = async () => {
+        if (await saveOpenNote() === 'conflict') return;
+        handleNewNote();
+    };
+
+    const handleRecoverDraft = () => {
+        if (!recoverableDraft) return;
+        // Loading the draft makes the note dirty, so autosave writes it to the server
+        setExtractedMarkdown(recoverableDraft.markdown);
+        setEditorMarkdown(recoverableDraft.markdown);
+        setEditorKey(prev => prev + 1);
+        setRecoverableDraft(null);
+    };
+
+    const handleDiscardDraft = () => {
+        if (selectedNoteId) clearDraft(selectedNoteId);
+        setRecoverableDraft(null);
+    };
+
     // Save current editor content as note
     const handleSave = async () => {
         const trimmed = editorMarkdown.trim();
@@ -101,33 +570,16 @@ const MainPage = ({ onLoginRequest }: MainPageProps) => {
         }
 
         try {
-            const token = await user.getIdToken();
-
             if (!selectedNoteId) {
                 // Create new
-                const response = await createDocument(editorMarkdown, token);
-                if (response && response.data) {
-                    const newNote: Note = {
-                        id: response.data.id,
-                        content: response.data.markdownContent,
-                        updatedAt: nowLabel(),
-                    };
-                    setNotes((prev) => [newNote, ...prev]);
-                    setSelectedNoteId(newNote.id);
-                }
+                const doc = await createNote(editorMarkdown);
+                clearDraft(NEW_NOTE_DRAFT_KEY);
+                selectedNoteIdRef.current = doc.id;
+                setSelectedNoteId(doc.id);
+                applySavedDocument(doc);
             } else {
                 // Update existing
-                await updateDocument(selectedNoteId, editorMarkdown, token);
-                setNotes((prev) => {
-                    const updated = prev.map((n) =>
-                        n.id === selectedNoteId
-                            ? { ...n, content: editorMarkdown, updatedAt: nowLabel() }
-                            : n
-                    );
-                    const updatedNote = updated.find((n) => n.id === selectedNoteId);
-                    const rest = updated.filter((n) => n.id !== selectedNoteId);
-                    return updatedNote ? [updatedNote, ...rest] : updated;
-                });
+                if (await saveOpenNote() === 'failed') setError("Failed to save note");
             }
         } catch (e) {
             console.error("Failed to save:", e);
@@ -135,22 +587,73 @@ const MainPage = ({ onLoginRequest }: MainPageProps) => {
         }
     };
 
-    // Delete note handler
-    const handleDeleteNote = async (noteId: string) => {
-        if (!window.confirm("Are you sure you want to delete this note?")) return;
+    // Replay the rest of the offline queue once a conflict is dealt with
+    const handleCancelConflict = () => {
+        setConflict(null);
+        sync();
+    };
+
+    // Save the merged content on top of the newer server copy
+    const handleResolveConflict = async (content: string) => {
+        if (!conflict) return;
+
+        const { theirs } = conflict;
+        setConflict(null);
+        setSavedDoc({ version: theirs.version, markdown: theirs.markdownContent });
+        try {
+            // Another conflict (yet another save elsewhere) reopens the dialog against the newer copy
+            if (await saveNoteContent(theirs.id, content, theirs.version)) {
+                setExtractedMarkdown(content);
+                setEditorMarkdown(content);
+                setEditorKey(prev => prev + 1);
+            }
+        } catch (e) {
+            console.error("Failed to save merge:", e);
+            setError("Failed to save note");
+        }
+        sync();
+    };
 
+    const handleUseTheirs = () => {
+        if (!conflict) return;
+        upsertDocument(conflict.theirs);
+        openDocument(conflict.theirs);
+        setConflict(null);
+        sync();
+    };
+
+    // Delete note handler - deleting moves the note to the trash, so it can be undone instead of confirmed up front
+    const handleDeleteNote = async (noteId: string) => {
         if (!user) {
             onLoginRequest();
             return;
         }
 
         try {
-            const token = await user.getIdToken();
-            await deleteDocument(noteId, token);
+            if (online && !isLocalId(noteId)) {
+                try {
+                    const token = await user.getIdToken();
+                    const response = await deleteDocument(noteId, token);
 
+                    setNotes((prev) => prev.filter((n) => n.id !== noteId));
+                    setTrashedNote({ id: noteId, title: response.data.title, wasOpen: selectedNoteId === noteId });
+                    removeCachedDocument(user.uid, noteId).catch((err) => console.error("Failed to uncache note:", err));
+                    if (selectedNoteId === noteId) {
+                        handleNewNote(); // Clear editor if deleted note was selected
+                    }
+                    return;
+                } catch (e) {
+                    if (!isNetworkError(e)) throw e;
+                }
+            }
+
+            // Offline, or the note only exists on this device: delete it here and queue the delete (no undo without the server)
+            await enqueue({ type: 'delete', id: noteId });
+            await removeCachedDocument(user.uid, noteId);
+            clearDraft(noteId);
             setNotes((prev) => prev.filter((n) => n.id !== noteId));
             if (selectedNoteId === noteId) {
-                handleNewNote(); // Clear editor if deleted note was selected
+                handleNewNote();
             }
         } catch (e) {
             console.error("Failed to delete:", e);
@@ -158,15 +661,44 @@ const MainPage = ({ onLoginRequest }: MainPageProps) => {
         }
     };
 
-    // PDF download handler
-    const handleDownloadPDF = useCallback(async () => {
+    // Hide the undo toast after a while; the note stays in the trash
+    useEffect(() => {
+        if (!trashedNote) return;
+        const timer = window.setTimeout(() => setTrashedNote(null), UNDO_DELETE_TIMEOUT);
+        return () => window.clearTimeout(timer);
+    }, [trashedNote]);
+
+    const handleUndoDelete = async () => {
+        if (!user || !trashedNote) return;
+
+        const { id, wasOpen } = trashedNote;
+        setTrashedNote(null);
+        try {
+            const response = await restoreDocument(id, await user.getIdToken());
+            upsertNote(noteFromDocument(response.data));
+            if (wasOpen) await handleSelectNote(id);
+        } catch (e) {
+            console.error("Failed to undo delete:", e);
+            setError("Failed to restore note");
+        }
+    };
+
+    const { settings: pdfSettings, saveSettings: savePdfSettings } = usePdfSettings(user);
+
+    // PDF download handler - exports with the settings chosen in the export dialog, and remembers them
+    const handleDownloadPDF = useCallback(async (options: PdfOptions) => {
+        setPdfDialogOpen(false);
         setError(null);
         setIsGeneratingPdf(true);
+        savePdfSettings(options);
 
         try {
-            await downloadMarkdownAsPdf(editorMarkdown, 'vibescribe-notes');
+            const title = selectedNoteId ? savedTitle : localTitle(editorMarkdown);
+            await downloadMarkdownAsPdf(
+                editorMarkdown, 'vibescribe-notes', options, title, scanPages.map((page) => page.imageUrl)
+            );
         } catch (err) {
-            if (err instanceof EmptyMarkdownError) {
+            if (err instanceof EmptyMarkdownError || err instanceof PdfFontError) {
                 setError(err.message);
             } else {
                 console.error('PDF generation failed:', err);
@@ -175,7 +707,47 @@ const MainPage = ({ onLoginRequest }: MainPageProps) => {
         } finally {
             setIsGeneratingPdf(false);
         }
-    }, [editorMarkdown]);
+    }, [editorMarkdown, selectedNoteId, savedTitle, scanPages, savePdfSettings]);
+
+    // The other formats have no options, so they're generated right away
+    const handleExport = useCallback(async (format: ExportFormat) => {
+        setError(null);
+        setExportingFormat(format);
+
+        try {
+            const title = selectedNoteId ? savedTitle : localTitle(editorMarkdown);
+            await downloadMarkdownAs(editorMarkdown, format, 'vibescribe-notes', title);
+        } catch (err) {
+            if (err instanceof EmptyMarkdownError) {
+                setError(err.message);
+            } else {
+                console.error('Export failed:', err);
+                setError('Failed to export the note. Please try again.');
+            }
+        } finally {
+            setExportingFormat(null);
+        }
+    }, [editorMarkdown, selectedNoteId, savedTitle]);
+
+    // Every note as Markdown in a ZIP, built by the server from the saved copies
+    const handleExportAll = async () => {
+        if (!user) {
+            onLoginRequest();
+            return;
+        }
+        setError(null);
+        setExportingFormat('zip');
+
+        try {
+            const response = await exportAllDocuments(await user.getIdToken());
+            downloadBlob(response.data, `vibescribe-export-${new Date().toISOString().slice(0, 10)}.zip`);
+        } catch (e) {
+            console.error("Failed to export notes:", e);
+            setError(isNetworkError(e) ? "Exporting all notes needs a connection" : "Failed to export your notes");
+        } finally {
+            setExportingFormat(null);
+        }
+    };
 
     const handleUploadClick = () => {
         if (!user) {
@@ -185,51 +757,81 @@ const MainPage = ({ onLoginRequest }: MainPageProps) => {
         fileInputRef.current?.click();
     };
 
+    // Open the scanned note once its job finishes (a failed job may still have produced some pages)
+    const handleScanJobFinished = useCallback(async (job: ScanJob) => {
+        if (job.status === 'FAILED') {
+            setError(`Scan failed: ${job.error || 'Unknown error'}`);
+        }
+        if (!job.documentId || !user) return;
+
+        try {
+            const token = await user.getIdToken();
+            const response = await getDocument(job.documentId, token);
+            upsertDocument(response.data);
+            openDocument(response.data);
+        } catch (err) {
+            console.error('Failed to open scanned note:', err);
+        }
+    }, [user, upsertDocument, openDocument]);
+
+    const { jobs: scanJobs, trackJob, dismissJob } = useScanJobs(user, handleScanJobFinished);
+    const activeScanJob = scanJobs.find((job) => job.id === activeScanJobId);
+
     const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
-        const file = e.target.files?.[0];
-        if (!file || !user) return;
+        const files = Array.from(e.target.files ?? []);
+        if (files.length === 0 || !user) return;
+
+        // PDFs and TIFFs are split into pages on the server, after the pages to scan are chosen
+        if (files.some(isScanDocument)) {
+            if (files.length > 1) {
+                setError('Upload a PDF or TIFF on its own, without other files');
+            } else {
+                await handleDocumentUpload(files[0]);
+            }
+            if (fileInputRef.current) fileInputRef.current.value = '';
+            return;
+        }
 
         const validTypes = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'];
-        if (!validTypes.includes(file.type)) {
-            setError('Please upload a valid image (JPEG, PNG, WebP, or GIF)');
+        if (files.some((file) => !validTypes.includes(file.type))) {
+            setError('Please upload valid images (JPEG, PNG, WebP, or GIF)');
             return;
         }
 
         const maxSize = 10 * 1024 * 1024;
-        if (file.size > maxSize) {
-            setError('Image must be smaller than 10MB');
+        if (files.some((file) => file.size > maxSize)) {
+            setError('Each image must be smaller than 10MB');
             return;
         }
 
         setError(null);
         setIsUploading(true);
+        setActiveScanJobId(null);
+        setScanProgress(files.map((file) => ({ name: file.name, status: 'pending' })));
+
+        // A page counts as uploaded once every byte up to its end has been sent
+        const pageEnds = files.reduce<number[]>((ends, file) => [...ends, (ends.at(-1) ?? 0) + file.size], []);
+        const handleUploadProgress = (loaded: number) => {
+            setScanProgress((prev) => prev.map((page, i) => ({
+                ...page,
+                status: loaded >= pageEnds[i] ? 'queued' : loaded >= (pageEnds[i - 1] ?? 0) ? 'uploading' : 'pending',
+            })));
+        };
 
         try {
-            const storageRef = ref(storage, `scans/${user.uid}/${Date.now()}_${file.name}`);
-            const snapshot = await uploadBytes(storageRef, file);
-            const imageUrl = await getDownloadURL(snapshot.ref);
+            // Upload every page in one request; the server queues a single scan job for the whole document
             const token = await user.getIdToken();
-            const document = await fileUpload(imageUrl, token);
-
-            if (document && document.data && document.data.markdownContent) {
-                const newNote: Note = {
-                    id: document.data.id || crypto.randomUUID(),
-                    content: document.data.markdownContent,
-                    updatedAt: nowLabel(),
-                };
-                setNotes(prev => [newNote, ...prev]);
-                setExtractedMarkdown(document.data.markdownContent);
-                setSelectedNoteId(null); // Show new note logic if needed, or select it
-                // Actually, let's select the new note
-                setSelectedNoteId(newNote.id);
-                setEditorMarkdown(newNote.content);
-                setEditorKey(prev => prev + 1);
-            } else {
-                setError('No text could be extracted from the image');
-            }
+            const response = await uploadScanImages(
+                files, token, scanMode, handleUploadProgress, undefined, uploadFolderId || undefined
+            );
+            setActiveScanJobId(response.data.id);
+            trackJob(response.data);
         } catch (err) {
             console.error('Upload failed:', err);
-            setError(err instanceof Error ? err.message : 'Failed to process image');
+            setScanProgress((prev) => prev.map((page) =>
+                page.status === 'done' ? page : { ...page, status: 'failed' }
+            ));
+            setError(requestErrorMessage(err, err instanceof Error ? err.message : 'Failed to process image'));
         } finally {
             setIsUploading(false);
             if (fileInputRef.current) {
@@ -238,6 +840,293 @@ const MainPage = ({ onLoginRequest }: MainPageProps) => {
         }
     };
 
+    const handleDocumentUpload = async (file: File) => {
+        if (!user) return;
+        if (file.size > MAX_DOCUMENT_SIZE) {
+            setError(`PDF and TIFF files must be smaller than ${MAX_DOCUMENT_SIZE / (1024 * 1024)}MB`);
+            return;
+        }
+
+        setError(null);
+        setIsUploading(true);
+        setActiveScanJobId(null);
+        setScanProgress([]);
+
+        try {
+            const token = await user.getIdToken();
+            const response = await uploadScanDocument(file, token);
+            const upload = { ...response.data, name: file.name };
+            if (upload.pageCount === 1) {
+                await handleScanDocumentPages(upload, '1');
+            } else {
+                setPendingScanDocument(upload);
+            }
+        } catch (err) {
+            console.error('Document upload failed:', err);
+            setError(requestErrorMessage(err, 'Failed to upload the document'));
+        } finally {
+            setIsUploading(false);
+        }
+    };
+
+    // Splits the chosen pages into images on the server and follows the scan like an image upload
+    const handleScanDocumentPages = async (upload: ScanDocumentUpload & { name: string }, pages: string) => {
+        if (!user) return;
+        setPendingScanDocument(null);
+        setError(null);
+        setIsPreparingPages(true);
+
+        try {
+            const token = await user.getIdToken();
+            const response = await scanDocumentPages(
+                upload.documentUrl, pages, token, scanMode, undefined, uploadFolderId || undefined
+            );
+            setScanProgress(response.data.sourcePageNumbers.map((pageNumber) => ({
+                name: `${upload.name}, page ${pageNumber}`,
+                status: 'queued',
+            })));
+            setActiveScanJobId(response.data.id);
+            trackJob(response.data);
+        } catch (err) {
+            console.error('Document scan failed:', err);
+            setError(requestErrorMessage(err, 'Failed to convert the document'));
+        } finally {
+            setIsPreparingPages(false);
+        }
+    };
+
+    const handleImportClick = () => {
+        if (!user) {
+            onLoginRequest();
+            return;
+        }
+        importInputRef.current?.click();
+    };
+
+    // Markdown/text files, or ZIPs of them, become notes; the server reports what happened to each file
+    const handleImportChange = async (e: ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from(e.target.files ?? []);
+        if (files.length === 0 || !user) return;
+
+        setError(null);
+        setIsImporting(true);
+
+        try {
+            const token = await user.getIdToken();
+            const response = await importDocuments(files, token, uploadFolderId || undefined);
+            setImportResults(response.data.results);
+            if (response.data.imported > 0) {
+                // Imported notes may land in new folders, anywhere in the sorted list
+                setNotesReloadKey((key) => key + 1);
+                reloadFolders();
+            }
+        } catch (err) {
+            console.error('Import failed:', err);
+            setError(isNetworkError(err) ? 'Importing notes needs a connection' : requestErrorMessage(err, 'Failed to import files'));
+        } finally {
+            setIsImporting(false);
+            if (importInputRef.current) {
+                importInputRef.current.value = '';
+            }
+        }
+    };
+
+    const selectedNote = notes.find((n) => n.id === selectedNoteId);
+
+    // Re-run the scan of the selected note's stored images in another mode
+    const handleRescan = async () => {
+        if (!user || !selectedNote) return;
+
+        setError(null);
+        try {
+            const token = await user.getIdToken();
+            const response = await rescanDocument(selectedNote.id, rescanMode, token);
+            setScanProgress(response.data.imageUrls.map((_, i) => ({ name: `Page ${i + 1}`, status: 'queued' })));
+            setActiveScanJobId(response.data.id);
+            trackJob(response.data);
+        } catch (err) {
+            console.error('Rescan failed:', err);
+            setError(requestErrorMessage(err, 'Failed to start re-scan'));
+        }
+    };
+
+    const getToken = useCallback(() => user!.getIdToken(), [user]);
+
+    // The live editing session saved everyone's edits as a new version of the note
+    const handleCollabSaved = useCallback((saved: CollabSaved) => {
+        setSavedDoc({ version: saved.version, markdown: saved.markdown });
+        setTitleDraft((draft) => (draft === savedTitle ? saved.title : draft));
+        setSavedTitle(saved.title);
+        setNotes((prev) => prev.map((n) => (n.id === selectedNoteIdRef.current ? { ...n, title: saved.title } : n)));
+    }, [savedTitle]);
+
+    // The note was changed outside the live session (e.g. a revision was restored), so the session ended: reopen it
+    const handleCollabReset = useCallback(async () => {
+        const noteId = selectedNoteIdRef.current;
+        if (!user || !noteId) return;
+
+        try {
+            const response = await getDocument(noteId, await user.getIdToken());
+            if (selectedNoteIdRef.current !== noteId) return;
+            upsertDocument(response.data);
+            openDocument(response.data);
+            setError("This note was changed somewhere else, so it was reloaded");
+        } catch (err) {
+            console.error("Failed to reload note:", err);
+            setError("Failed to reload note");
+        }
+    }, [user, upsertDocument, openDocument]);
+
+    // Notes on the server are edited live with everyone else who has them open and may edit them
+    const collab = useMemo(() => {
+        if (!user || !selectedNoteId || isLocalId(selectedNoteId) || !online || !canEdit) return undefined;
+        return {
+            documentId: selectedNoteId,
+            getToken,
+            user: { name: user.displayName || user.email || 'Someone', photo: user.photoURL },
+            onStatus: setCollabStatus,
+            onSaved: handleCollabSaved,
+            onReset: handleCollabReset,
+        };
+    }, [user, selectedNoteId, online, canEdit, getToken, handleCollabSaved, handleCollabReset]);
+
+    const {
+        threads: commentThreads, loadFailed: commentsLoadFailed, addThread, reply: replyToThread, setResolved: setThreadResolved,
+        removeThread, removeReply,
+    } = useCommentThreads(user, selectedNoteId && !isLocalId(selectedNoteId) ? selectedNoteId : null);
+    const canComment = openRole !== 'VIEWER';
+
+    // Open threads are highlighted in the note; clicking one shows it in the comments panel
+    const editorComments = useMemo(() => ({
+        threads: commentThreads.filter((thread) => !thread.resolvedAt),
+        activeThreadId,
+        onSelectThread: (threadId: string) => {
+            setActiveThreadId(threadId);
+            setCommentsOpen(true);
+        },
+        onSelectionChange: setCommentSelection,
+        onDetachedChange: setDetachedThreadIds,
+    }), [commentThreads, activeThreadId]);
+
+    const { folders, tags, reload: reloadFolders, addFolder, renameFolder, removeFolder, addTag, removeTag } = useFoldersAndTags(user);
+
+    const handleCreateFolder = async (name: string, parentId: string | null) => {
+        try {
+            await addFolder(name, parentId);
+        } catch (err) {
+            setError(requestErrorMessage(err, 'Failed to create folder'));
+        }
+    };
+
+    const handleRenameFolder = async (folderId: string, name: string) => {
+        try {
+            await renameFolder(folderId, name);
+        } catch (err) {
+            setError(requestErrorMessage(err, 'Failed to rename folder'));
+        }
+    };
+
+    // Deleting a folder removes its subfolders; their notes move to the top level
+    const handleDeleteFolder = async (folderId: string) => {
+        const folder = folders.find((f) => f.id === folderId);
+        if (!window.confirm(`Delete the folder "${folder?.name}" and its subfolders? Notes inside are kept.`)) return;
+
+        try {
+            const removed = await removeFolder(folderId);
+            setNotes((prev) => prev.map((n) =>
+                n.folderId && removed.includes(n.folderId) ? { ...n, folderId: null } : n
+            ));
+            if (removed.includes(uploadFolderId)) setUploadFolderId('');
+        } catch (err) {
+            setError(requestErrorMessage(err, 'Failed to delete folder'));
+        }
+    };
+
+    const handleCreateTag = async (name: string) => {
+        try {
+            await addTag(name, TAG_COLORS[tags.length % TAG_COLORS.length]!);
+        } catch (err) {
+            setError(requestErrorMessage(err, 'Failed to create tag'));
+        }
+    };
+
+    const handleDeleteTag = async (tagId: string) => {
+        const tag = tags.find((t) => t.id === tagId);
+        if (!window.confirm(`Delete the tag "${tag?.name}"? It is removed from every note.`)) return;
+
+        try {
+            await removeTag(tagId);
+            setNotes((prev) => prev.map((n) => ({ ...n, tagIds: n.tagIds.filter((id) => id !== tagId) })));
+        } catch (err) {
+            setError(requestErrorMessage(err, 'Failed to delete tag'));
+        }
+    };
+
+    const handleMoveNote = async (noteId: string, folderId: string | null) => {
+        if (!user) return;
+        try {
+            await moveDocument(noteId, folderId, await user.getIdToken());
+            setNotes((prev) => prev.map((n) => (n.id === noteId ? { ...n, folderId } : n)));
+        } catch (err) {
+            setError(requestErrorMessage(err, 'Failed to move note'));
+        }
+    };
+
+    const handleSetNoteTags = async (noteId: string, tagIds: string[]) => {
+        if (!user) return;
+        try {
+            await setDocumentTags(noteId, tagIds, await user.getIdToken());
+            setNotes((prev) => prev.map((n) => (n.id === noteId ? { ...n, tagIds } : n)));
+        } catch (err) {
+            setError(requestErrorMessage(err, 'Failed to update tags'));
+        }
+    };
+
+    const handleSearch = useCallback(async (query: string, signal: AbortSignal) => {
+        if (!user) return [];
+        const response = await searchDocuments(query, await user.getIdToken(), signal);
+        return response.data;
+    }, [user]);
+
+    // Load a restored revision into the editor
+    const handleRevisionRestored = (doc: DocumentResponse) => {
+        upsertDocument(doc);
+        openDocument(doc);
+        setHistoryOpen(false);
+    };
+
+    // Save the edited title; clearing it goes back to the title derived from the content
+    const handleTitleCommit = async () => {
+        if (!user || !selectedNoteId || titleDraft.trim() === savedTitle) return;
+        if (isLocalId(selectedNoteId)) {
+            setTitleDraft(savedTitle);
+            setError("This note can be renamed once it has synced");
+            return;
+        }
+
+        try {
+            const response = await renameDocument(selectedNoteId, titleDraft.trim(), await user.getIdToken());
+            upsertDocument(response.data);
+            setSavedTitle(response.data.title);
+            setTitleDraft(response.data.title);
+        } catch (err) {
+            setError(requestErrorMessage(err, 'Failed to rename note'));
+        }
+    };
+
+    // Open the study notes: the note they were appended to, or the new note they were saved as
+    const handleStudyNotesGenerated = (doc: DocumentResponse, target: 'append' | 'document') => {
+        upsertDocument(doc);
+        openDocument(target === 'append' ? { ...doc, role: openRole } : doc);
+    };
+
+    // Side-by-side review of the transcription against the scan it came from
+    const reviewing = reviewOpen && scanPages.length > 0;
+
+    const displayedScanProgress = activeScanJob
+        ? scanProgress.map((page, i) => ({ ...page, status: pageStatusFromJob(activeScanJob, i) }))
+        : scanProgress;
+
     return (
         <div className="bg-black w-screen min-h-screen flex flex-col text-white relative">
             {/* Sidebar */}
@@ -248,9 +1137,136 @@ const MainPage = ({ onLoginRequest }: MainPageProps) => {
                 selectedNoteId={selectedNoteId}
                 onSelect={handleSelectNote}
                 onDelete={handleDeleteNote}
-                onNewNote={handleNewNote}
+                sort={noteSort}
+                onSortChange={setNoteSort}
+                hasMore={notesCursor !== null}
+                onLoadMore={handleLoadMoreNotes}
+                onNewNote={handleStartNewNote}
+                scanJobs={scanJobs}
+                onDismissScanJob={dismissJob}
+                onSearch={handleSearch}
+                folders={folders}
+                tags={tags}
+                onCreateFolder={handleCreateFolder}
+                onRenameFolder={handleRenameFolder}
+                onDeleteFolder={handleDeleteFolder}
+                onCreateTag={handleCreateTag}
+                onDeleteTag={handleDeleteTag}
+                onMoveNote={handleMoveNote}
+                onSetNoteTags={handleSetNoteTags}
+                getToken={getToken}
+                onRestoreFromTrash={(doc) => upsertNote(noteFromDocument(doc))}
             />
 
+            {/* Undo toast for the last deleted note */}
+            {trashedNote && (
+                <div
+                    role="status"
+                    className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 flex items-center gap-4
+                        rounded-2xl border border-gray-700 bg-gray-900 px-4 py-3 text-sm shadow-lg"
+                >
+                    <span className="text-white/80">
+                        Moved “{trashedNote.title || "Untitled"}” to the trash
+                    </span>
+                    <button
+                        onClick={handleUndoDelete}
+                        className="font-semibold text-emerald-300 hover:text-emerald-200"
+                    >
+                        Undo
+                    </button>
+                </div>
+            )}
+
+            {/* Merge of a save that conflicted with a change made elsewhere */}
+            {conflict && (
+                <ConflictDialog
+                    base={savedDoc?.markdown ?? ''}
+                    mine={conflict.mine}
+                    theirs={conflict.theirs.markdownContent}
+                    onResolve={handleResolveConflict}
+                    onUseTheirs={handleUseTheirs}
+                    onCancel={handleCancelConflict}
+                />
+            )}
+
+            {pdfDialogOpen && (
+                <PdfExportDialog
+                    initialOptions={pdfSettings}
+                    hasScanImages={scanPages.length > 0}
+                    onExport={handleDownloadPDF}
+                    onCancel={() => setPdfDialogOpen(false)}
+                />
+            )}
+
+            {pendingScanDocument && (
+                <PageRangeDialog
+                    fileName={pendingScanDocument.name}
+                    pageCount={pendingScanDocument.pageCount}
+                    maxPages={pendingScanDocument.maxPages}
+                    onScan={(pages) => handleScanDocumentPages(pendingScanDocument, pages)}
+                    onCancel={() => setPendingScanDocument(null)}
+                />
+            )}
+
+            {importResults && (
+                <ImportResultsDialog
+                    results={importResults}
+                    onOpen={(documentId) => {
+                        setImportResults(null);
+                        handleSelectNote(documentId);
+                    }}
+                    onClose={() => setImportResults(null)}
+                />
+            )}
+
+            {shareOpen && selectedNoteId && user && (
+                <ShareDialog documentId={selectedNoteId} getToken={getToken} onClose={() => setShareOpen(false)} />
+            )}
+
+            {membersOpen && selectedNoteId && user && (
+                <MembersDialog
+                    documentId={selectedNoteId}
+                    currentEmail={user.email}
+                    getToken={getToken}
+                    onClose={() => setMembersOpen(false)}
+                    onLeft={() => {
+                        setMembersOpen(false);
+                        handleNewNote();
+                    }}
+                />
+            )}
+
+            {commentsOpen && selectedNoteId && user && !isLocalId(selectedNoteId) && (
+                <CommentsPanel
+                    threads={commentThreads}
+                    loadFailed={commentsLoadFailed}
+                    detachedIds={detachedThreadIds}
+                    activeThreadId={activeThreadId}
+                    onSelectThread={setActiveThreadId}
+                    selection={commentSelection}
+                    canComment={canComment}
+                    isOwner={openRole === 'OWNER'}
+                    currentUserId={user.uid}
+                    onClose={() => setCommentsOpen(false)}
+                    onCreate={addThread}
+                    onReply={replyToThread}
+                    onSetResolved={setThreadResolved}
+                    onDeleteThread={removeThread}
+                    onDeleteReply={removeReply}
+                />
+            )}
+
+            {/* Version history */}
+            {historyOpen && selectedNoteId && user && (
+                <HistoryPanel
+                    documentId={selectedNoteId}
+                    getToken={getToken}
+                    onClose={() => setHistoryOpen(false)}
+                    onRestored={handleRevisionRestored}
+                    readOnly={!canEdit}
+                />
+            )}
+
             {/* Navbar */}
             <div className="bg-gray-900/80 backdrop-blur w-full h-20 border-b border-gray-700 sticky top-0 z-50">
                 <div className="flex flex-row gap-3 items-center justify-between px-4 h-full max-w-6xl mx-auto">
@@ -273,6 +1289,19 @@ const MainPage = ({ onLoginRequest }: MainPageProps) => {
                             className="h-16 w-auto"
                         />
                         <p className="font-bold text-2xl tracking-wide">VibeScribe</p>
+                        {(!online || pendingIds.size > 0) && (
+                            <span
+                                role="status"
+                                className={`rounded-full border px-3 py-1 text-xs ${online
+                                    ? 'border-gray-700 text-white/70'
+                                    : 'border-amber-700 bg-amber-900/20 text-amber-200'
+                                    }`}
+                                title={online ? undefined : "Changes are saved on this device and sync when you're back online"}
+                            >
+                                {online ? 'Syncing' : 'Offline'}
+                                {pendingIds.size > 0 && ` • ${pendingIds.size} ${pendingIds.size === 1 ? 'note' : 'notes'} to sync`}
+                            </span>
+                        )}
                     </div>
 
                     {/* Login/Logout */}
@@ -305,10 +1334,19 @@ const MainPage = ({ onLoginRequest }: MainPageProps) => {
             <input
                 ref={fileInputRef}
                 type="file"
-                accept="image/jpeg,image/png,image/webp,image/gif"
+                accept="image/jpeg,image/png,image/webp,image/gif,application/pdf,image/tiff,.pdf,.tif,.tiff"
+                multiple
                 onChange={handleFileChange}
                 className="hidden"
             />
+            <input
+                ref={importInputRef}
+                type="file"
+                accept=".md,.markdown,.txt,.zip,text/markdown,text/plain,application/zip"
+                multiple
+                onChange={handleImportChange}
+                className="hidden"
+            />
 
             {/* Page Content */}
             <div className="flex flex-col gap-10 py-10 px-4">
@@ -338,10 +1376,46 @@ const MainPage = ({ onLoginRequest }: MainPageProps) => {
                 )}
 
                 {/* Upload Button */}
-                <div className="flex justify-center">
+                <div className="flex flex-wrap justify-center items-center gap-3">
+                    {scanModes.length > 0 && (
+                        <label className="flex items-center gap-2 text-sm text-white/70">
+                            Scan mode
+                            <select
+                                value={scanMode}
+                                onChange={(e) => setScanMode(e.target.value)}
+                                disabled={isUploading || isPreparingPages}
+                                className="rounded-xl border border-gray-700 bg-gray-900 px-3 py-3 text-white
+                                    focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                                title={scanModes.find((m) => m.id === scanMode)?.description}
+                            >
+                                {scanModes.map((mode) => (
+                                    <option key={mode.id} value={mode.id}>{mode.label}</option>
+                                ))}
+                            </select>
+                        </label>
+                    )}
+
+                    {folders.length > 0 && (
+                        <label className="flex items-center gap-2 text-sm text-white/70">
+                            Save to
+                            <select
+                                value={uploadFolderId}
+                                onChange={(e) => setUploadFolderId(e.target.value)}
+                                disabled={isUploading || isPreparingPages || isImporting}
+                                className="rounded-xl border border-gray-700 bg-gray-900 px-3 py-3 text-white
+                                    focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                            >
+                                <option value="">No folder</option>
+                                {folders.map((folder) => (
+                                    <option key={folder.id} value={folder.id}>{folder.name}</option>
+                                ))}
+                            </select>
+                        </label>
+                    )}
+
                     <button
                         onClick={handleUploadClick}
-                        disabled={isUploading}
+                        disabled={isUploading || isPreparingPages}
                         className={`
                             group flex items-center gap-3
                             bg-gray-900 rounded-2xl
@@ -358,30 +1432,92 @@ const MainPage = ({ onLoginRequest }: MainPageProps) => {
                             disabled:opacity-50 disabled:cursor-not-allowed disabled:active:scale-100
                         `}
                     >
-                        {isUploading ? (
+                        {isUploading || isPreparingPages ? (
                             <>
                                 <svg className="animate-spin h-5 w-5" viewBox="0 0 24 24">
                                     <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" fill="none" />
                                     <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
                                 </svg>
-                                Processing...
+                                {isPreparingPages ? 'Preparing pages…' : 'Uploading...'}
                             </>
                         ) : (
                             <>
-                                Click Here to Upload a Photo
+                                Click Here to Upload Photos
                                 <span className="text-2xl font-bold leading-none transition-transform duration-200 group-hover:rotate-90">
                                     +
                                 </span>
                             </>
                         )}
                     </button>
+
+                    <button
+                        onClick={handleImportClick}
+                        disabled={isImporting}
+                        title="Markdown or text files, or a ZIP of them (e.g. an Obsidian or Notion export)"
+                        className="rounded-2xl border border-gray-700 px-5 py-3 font-semibold text-white/80 transition
+                            hover:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-emerald-500
+                            disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        {isImporting ? 'Importing…' : 'Import notes'}
+                    </button>
                 </div>
 
+                {/* Per-page scan progress */}
+                {displayedScanProgress.length > 1 && (activeScanJob || isUploading) && (
+                    <div className="w-full max-w-md mx-auto rounded-2xl border border-gray-800 bg-gray-900/40 px-4 py-3">
+                        <ol className="flex flex-col gap-1 text-sm">
+                            {displayedScanProgress.map((page, i) => (
+                                <li key={i} className="flex items-center justify-between gap-3">
+                                    <span className="truncate text-white/80">
+                                        Page {i + 1} • {page.name}
+                                    </span>
+                                    <span
+                                        className={
+                                            page.status === 'done'
+                                                ? 'text-emerald-400'
+                                                : page.status === 'failed'
+                                                    ? 'text-red-400'
+                                                    : 'text-white/60'
+                                        }
+                                    >
+                                        {SCAN_STATUS_LABEL[page.status]}
+                                    </span>
+                                </li>
+                            ))}
+                        </ol>
+                    </div>
+                )}
+
                 {/* Save/New Note Buttons */}
                 <div className="w-full max-w-5xl mx-auto">
-                    <div className="flex justify-end gap-3 mb-3">
+                    <div className="flex flex-wrap justify-end gap-3 mb-3">
+                        {selectedNote?.imageUrl && scanModes.length > 0 && (
+                            <div className="flex items-center gap-2 mr-auto">
+                                <select
+                                    value={rescanMode}
+                                    onChange={(e) => setRescanMode(e.target.value)}
+                                    className="rounded-2xl border border-gray-700 bg-gray-900 px-3 py-3 text-white/90
+                                        focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                                    aria-label="Re-scan mode"
+                                >
+                                    {scanModes.map((mode) => (
+                                        <option key={mode.id} value={mode.id}>{mode.label}</option>
+                                    ))}
+                                </select>
+                                <button
+                                    onClick={handleRescan}
+                                    className="rounded-2xl px-4 py-3 font-semibold
+                                        border border-gray-700 bg-gray-900 text-white/90
+                                        hover:bg-gray-800 active:scale-95 transition"
+                                    title="Replace this note with a fresh scan of its original images"
+                                >
+                                    Re-scan
+                                </button>
+                            </div>
+                        )}
+
                         <button
-                            onClick={handleNewNote}
+                            onClick={handleStartNewNote}
                             className="rounded-2xl px-4 py-3 font-semibold
                                 border border-gray-700 bg-gray-900 text-white/90
                                 hover:bg-gray-800 active:scale-95 transition"
@@ -389,26 +1525,174 @@ const MainPage = ({ onLoginRequest }: MainPageProps) => {
                             + New Note
                         </button>
 
-                        <button
-                            onClick={handleSave}
-                            className="rounded-2xl px-5 py-3 font-semibold
-                                bg-emerald-400 text-black
-                                hover:brightness-110 active:scale-95 transition
-                                focus:outline-none focus:ring-2 focus:ring-emerald-300 focus:ring-offset-2 focus:ring-offset-black"
-                        >
-                            {selectedNoteId ? "Save Changes" : "Save Note"}
-                        </button>
+                        {scanPages.length > 0 && (
+                            <button
+                                onClick={() => setReviewOpen((open) => !open)}
+                                aria-pressed={reviewOpen}
+                                className={`rounded-2xl px-4 py-3 font-semibold border transition active:scale-95 ${reviewOpen
+                                    ? 'border-emerald-600 bg-emerald-900/30 text-emerald-200'
+                                    : 'border-gray-700 bg-gray-900 text-white/90 hover:bg-gray-800'}`}
+                            >
+                                Compare with scan
+                            </button>
+                        )}
+
+                        {selectedNoteId && user && !isLocalId(selectedNoteId) && (
+                            <button
+                                onClick={() => setHistoryOpen(true)}
+                                className="rounded-2xl px-4 py-3 font-semibold
+                                    border border-gray-700 bg-gray-900 text-white/90
+                                    hover:bg-gray-800 active:scale-95 transition"
+                            >
+                                History
+                            </button>
+                        )}
+
+                        {selectedNoteId && user && !isLocalId(selectedNoteId) && (
+                            <button
+                                onClick={() => setCommentsOpen((open) => !open)}
+                                aria-pressed={commentsOpen}
+                                className={`rounded-2xl px-4 py-3 font-semibold border transition active:scale-95 ${commentsOpen
+                                    ? 'border-emerald-600 bg-emerald-900/30 text-emerald-200'
+                                    : 'border-gray-700 bg-gray-900 text-white/90 hover:bg-gray-800'}`}
+                            >
+                                Comments{editorComments.threads.length > 0 && ` (${editorComments.threads.length})`}
+                            </button>
+                        )}
+
+                        {selectedNoteId && user && !isLocalId(selectedNoteId) && (
+                            <StudyMenu
+                                key={selectedNoteId}
+                                documentId={selectedNoteId}
+                                canAppend={canEdit}
+                                disabled={!online}
+                                getToken={getToken}
+                                beforeAppend={async () => await saveOpenNote() === 'saved'}
+                                onGenerated={handleStudyNotesGenerated}
+                            />
+                        )}
+
+                        {selectedNoteId && user && !isLocalId(selectedNoteId) && (
+                            <button
+                                onClick={() => setMembersOpen(true)}
+                                disabled={!online}
+                                title={online ? undefined : "Managing access needs a connection"}
+                                className="rounded-2xl px-4 py-3 font-semibold
+                                    border border-gray-700 bg-gray-900 text-white/90
+                                    hover:bg-gray-800 active:scale-95 transition
+                                    disabled:opacity-50 disabled:cursor-not-allowed disabled:active:scale-100"
+                            >
+                                People
+                            </button>
+                        )}
+
+                        {selectedNoteId && user && !isLocalId(selectedNoteId) && openRole === 'OWNER' && (
+                            <button
+                                onClick={() => setShareOpen(true)}
+                                disabled={!online}
+                                title={online ? undefined : "Sharing needs a connection"}
+                                className="rounded-2xl px-4 py-3 font-semibold
+                                    border border-gray-700 bg-gray-900 text-white/90
+                                    hover:bg-gray-800 active:scale-95 transition
+                                    disabled:opacity-50 disabled:cursor-not-allowed disabled:active:scale-100"
+                            >
+                                Share
+                            </button>
+                        )}
+
+                        {canEdit ? (
+                            <button
+                                onClick={handleSave}
+                                className="rounded-2xl px-5 py-3 font-semibold
+                                    bg-emerald-400 text-black
+                                    hover:brightness-110 active:scale-95 transition
+                                    focus:outline-none focus:ring-2 focus:ring-emerald-300 focus:ring-offset-2 focus:ring-offset-black"
+                            >
+                                {selectedNoteId ? "Save Changes" : "Save Note"}
+                            </button>
+                        ) : (
+                            <span className="self-center rounded-2xl border border-gray-700 px-4 py-3 text-sm text-white/60">
+                                View only
+                            </span>
+                        )}
                     </div>
+                    {saveStatus && (
+                        <p
+                            role="status"
+                            className={`text-right text-sm ${saveStatus === 'saved' ? 'text-white/50'
+                                : saveStatus === 'error' ? 'text-red-300'
+                                    : saveStatus === 'offline' ? 'text-amber-300' : 'text-white/70'}`}
+                        >
+                            {SAVE_STATUS_LABEL[saveStatus]}
+                        </p>
+                    )}
                 </div>
 
                 {/* Milkdown Editor */}
                 <div className="flex flex-col items-center gap-2">
-                    <div className="w-full max-w-5xl">
-                        <MilkdownEditor
-                            key={editorKey}
-                            initialMarkdown={extractedMarkdown}
-                            onMarkdownChange={handleMarkdownChange}
-                        />
+                    <div className={`w-full ${reviewing ? 'max-w-7xl' : 'max-w-5xl'}`}>
+                        {selectedNoteId && (
+                            <input
+                                value={titleDraft}
+                                onChange={(e) => setTitleDraft(e.target.value)}
+                                onBlur={handleTitleCommit}
+                                readOnly={!canEdit}
+                                onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                                maxLength={120}
+                                placeholder="Untitled"
+                                aria-label="Note title"
+                                className="w-full mb-3 rounded-2xl border border-transparent bg-transparent px-3 py-2
+                                    text-2xl font-bold text-white placeholder:text-white/30
+                                    hover:border-gray-800 focus:border-gray-700 focus:outline-none"
+                            />
+                        )}
+                        {sourceDocumentId && (
+                            <button
+                                onClick={() => handleSelectNote(sourceDocumentId)}
+                                className="mb-3 px-3 text-sm text-emerald-300 hover:underline"
+                            >
+                                Study notes generated from another note • Open it
+                            </button>
+                        )}
+                        {recoverableDraft && (
+                            <div className="mb-3 flex flex-wrap items-center justify-between gap-3 rounded-2xl
+                                border border-amber-700/60 bg-amber-900/10 px-4 py-3 text-sm">
+                                <p className="text-amber-100">
+                                    This device has unsaved changes to this note from{" "}
+                                    {new Date(recoverableDraft.updatedAt).toLocaleString()}.
+                                </p>
+                                <div className="flex gap-2">
+                                    <button
+                                        onClick={handleDiscardDraft}
+                                        className="rounded-lg border border-gray-700 px-3 py-1 text-white/80 hover:bg-gray-800"
+                                    >
+                                        Discard
+                                    </button>
+                                    <button
+                                        onClick={handleRecoverDraft}
+                                        className="rounded-lg bg-emerald-400 px-3 py-1 font-semibold text-black hover:brightness-110"
+                                    >
+                                        Recover
+                                    </button>
+                                </div>
+                            </div>
+                        )}
+                        <div className={reviewing ? 'grid items-start gap-4 lg:grid-cols-2' : ''}>
+                            {reviewing && (
+                                <ScanReviewPanel key={selectedNoteId} pages={scanPages} onClose={() => setReviewOpen(false)} />
+                            )}
+                            <div className="min-w-0">
+                                <MilkdownEditor
+                                    key={editorKey}
+                                    draftKey={selectedNoteId ?? NEW_NOTE_DRAFT_KEY}
+                                    initialMarkdown={extractedMarkdown}
+                                    onMarkdownChange={handleMarkdownChange}
+                                    readOnly={!canEdit}
+                                    collab={collab}
+                                    comments={editorComments}
+                                />
+                            </div>
+                        </div>
                         <p className="mt-2 text-sm text-white/60 italic text-center">
                             Click anywhere to edit • Use the button above to view raw Markdown
                         </p>
@@ -416,9 +1700,9 @@ const MainPage = ({ onLoginRequest }: MainPageProps) => {
                 </div>
 
                 {/* Download PDF Button */}
-                <div className="flex justify-center pb-8">
+                <div className="flex flex-col items-center gap-3 pb-8">
                     <button
-                        onClick={handleDownloadPDF}
+                        onClick={() => setPdfDialogOpen(true)}
                         disabled={isGeneratingPdf}
                         className={`
                             flex items-center gap-3
@@ -451,6 +1735,31 @@ const MainPage = ({ onLoginRequest }: MainPageProps) => {
                             </>
                         )}
                     </button>
+
+                    {/* Other formats */}
+                    <div className="flex flex-wrap items-center justify-center gap-2 text-sm text-white/60">
+                        Also export as
+                        {EXPORT_FORMATS.map(({ id, label }) => (
+                            <button
+                                key={id}
+                                onClick={() => handleExport(id)}
+                                disabled={exportingFormat !== null}
+                                className="rounded-xl border border-gray-700 px-3 py-1.5 font-semibold text-white/80 hover:bg-gray-800 transition disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                {exportingFormat === id ? 'Exporting…' : label}
+                            </button>
+                        ))}
+                        {user && (
+                            <button
+                                onClick={handleExportAll}
+                                disabled={exportingFormat !== null || !online}
+                                title={online ? "Download every note as Markdown in a ZIP" : "Exporting all notes needs a connection"}
+                                className="rounded-xl border border-gray-700 px-3 py-1.5 font-semibold text-white/80 hover:bg-gray-800 transition disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                {exportingFormat === 'zip' ? 'Preparing ZIP…' : 'All notes (ZIP)'}
+                            </button>
+                        )}
+                    </div>
                 </div>
             </div>
         </div>
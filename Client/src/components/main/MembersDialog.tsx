@@ -0,0 +1,234 @@
+import { useEffect, useState, type FormEvent } from "react";
+import { isAxiosError } from "axios";
+import {
+    getDocumentMembers, inviteDocumentMember, removeDocumentMember, updateDocumentMember,
+    type DocumentMember, type DocumentMembers, type DocumentRole,
+} from "../../api/auth";
+
+type Props = {
+    documentId: string;
+    // Email of the signed-in user, to recognise their own membership
+    currentEmail: string | null;
+    getToken: () => Promise<string>;
+    onClose: () => void;
+    // The signed-in user removed themselves from the note
+    onLeft: () => void;
+};
+
+const ROLE_OPTIONS: { role: DocumentRole; label: string }[] = [
+    { role: 'VIEWER', label: "Can view" },
+    { role: 'COMMENTER', label: "Can comment" },
+    { role: 'EDITOR', label: "Can edit" },
+    { role: 'OWNER', label: "Owner" },
+];
+
+export default function MembersDialog({ documentId, currentEmail, getToken, onClose, onLeft }: Props) {
+    const [access, setAccess] = useState<DocumentMembers | null>(null);
+    const [email, setEmail] = useState("");
+    const [role, setRole] = useState<DocumentRole>('VIEWER');
+    const [isInviting, setIsInviting] = useState(false);
+    const [busyId, setBusyId] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        const load = async () => {
+            try {
+                const response = await getDocumentMembers(documentId, await getToken());
+                setAccess(response.data);
+            } catch (err) {
+                console.error("Failed to fetch members:", err);
+                setError("Failed to load who has access");
+            }
+        };
+        load();
+    }, [documentId, getToken]);
+
+    const canManage = access?.role === 'OWNER';
+    const isMe = (member: DocumentMember) => !!currentEmail && member.email === currentEmail.toLowerCase();
+
+    const replaceMember = (member: DocumentMember) => {
+        setAccess((prev) => prev && {
+            ...prev,
+            members: prev.members.some((m) => m.id === member.id)
+                ? prev.members.map((m) => (m.id === member.id ? member : m))
+                : [...prev.members, member],
+        });
+    };
+
+    const handleInvite = async (e: FormEvent) => {
+        e.preventDefault();
+        setError(null);
+        setIsInviting(true);
+
+        try {
+            const response = await inviteDocumentMember(documentId, email.trim(), role, await getToken());
+            replaceMember(response.data);
+            setEmail("");
+        } catch (err) {
+            console.error("Failed to invite member:", err);
+            setError((isAxiosError(err) ? err.response?.data?.error : undefined) || "Failed to send the invite");
+        } finally {
+            setIsInviting(false);
+        }
+    };
+
+    const handleRoleChange = async (member: DocumentMember, nextRole: DocumentRole) => {
+        setError(null);
+        setBusyId(member.id);
+        try {
+            const response = await updateDocumentMember(documentId, member.id, nextRole, await getToken());
+            replaceMember(response.data);
+        } catch (err) {
+            console.error("Failed to change role:", err);
+            setError("Failed to change the role");
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const handleRemove = async (member: DocumentMember) => {
+        const leaving = isMe(member);
+        if (leaving && !window.confirm("Leave this note? You'll need a new invite to open it again.")) return;
+
+        setError(null);
+        setBusyId(member.id);
+        try {
+            await removeDocumentMember(documentId, member.id, await getToken());
+            if (leaving) {
+                onLeft();
+                return;
+            }
+            setAccess((prev) => prev && { ...prev, members: prev.members.filter((m) => m.id !== member.id) });
+        } catch (err) {
+            console.error("Failed to remove member:", err);
+            setError("Failed to remove the member");
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const inputClassName = "rounded-xl border border-gray-700 bg-gray-900 px-3 py-2 text-sm text-white focus:outline-none focus:ring-2 focus:ring-emerald-500";
+
+    return (
+        <>
+            <button
+                onClick={onClose}
+                className="fixed inset-0 bg-black/60 z-40 cursor-default"
+                aria-label="Close members overlay"
+            />
+
+            <div
+                role="dialog"
+                aria-modal="true"
+                aria-labelledby="members-title"
+                className="fixed left-1/2 top-1/2 z-50 flex w-[min(40rem,calc(100vw-2rem))] max-h-[calc(100vh-2rem)] flex-col
+                    -translate-x-1/2 -translate-y-1/2 rounded-3xl border border-gray-800 bg-gray-950 text-white"
+            >
+                <div className="flex items-center justify-between border-b border-gray-800 px-5 py-4 shrink-0">
+                    <div>
+                        <p id="members-title" className="font-semibold text-lg">People with access</p>
+                        <p className="text-sm text-white/60 mt-1">Collaborators sign in to open the note from "Shared with me".</p>
+                    </div>
+                    <button
+                        onClick={onClose}
+                        className="h-9 w-9 shrink-0 rounded-xl border border-gray-800 hover:bg-gray-900 transition active:scale-95
+                            focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                        aria-label="Close members"
+                        title="Close"
+                    >
+                        ✕
+                    </button>
+                </div>
+
+                {canManage && (
+                    <form onSubmit={handleInvite} className="flex flex-wrap items-end gap-3 border-b border-gray-800 px-5 py-4 shrink-0">
+                        <label className="flex flex-1 min-w-48 flex-col gap-1 text-xs text-white/60">
+                            Email
+                            <input
+                                type="email"
+                                required
+                                value={email}
+                                onChange={(e) => setEmail(e.target.value)}
+                                placeholder="name@example.com"
+                                className={inputClassName}
+                            />
+                        </label>
+                        <label className="flex flex-col gap-1 text-xs text-white/60">
+                            Role
+                            <select value={role} onChange={(e) => setRole(e.target.value as DocumentRole)} className={inputClassName}>
+                                {ROLE_OPTIONS.map((option) => (
+                                    <option key={option.role} value={option.role}>{option.label}</option>
+                                ))}
+                            </select>
+                        </label>
+                        <button
+                            type="submit"
+                            disabled={isInviting}
+                            className="rounded-xl bg-emerald-400 px-4 py-2 text-sm font-semibold text-black hover:brightness-110 transition
+                                disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            {isInviting ? "Inviting…" : "Invite"}
+                        </button>
+                    </form>
+                )}
+
+                {error && <p className="px-5 pt-3 text-sm text-red-300">{error}</p>}
+
+                <ul className="flex-1 overflow-auto px-5 py-3 text-sm">
+                    {access === null && !error && <li className="py-2 text-white/50">Loading…</li>}
+                    {access && (
+                        <li className="flex items-center justify-between gap-3 border-b border-gray-900 py-3">
+                            <div className="min-w-0">
+                                <p className="truncate text-white/90">{access.owner.name || access.owner.email}</p>
+                                <p className="truncate text-xs text-white/50">{access.owner.email}</p>
+                            </div>
+                            <span className="text-xs text-white/60">Owner</span>
+                        </li>
+                    )}
+                    {access?.members.map((member) => (
+                        <li key={member.id} className="flex items-center justify-between gap-3 border-b border-gray-900 py-3 last:border-b-0">
+                            <div className="min-w-0">
+                                <p className="truncate text-white/90">
+                                    {member.name || member.email}
+                                    {isMe(member) && <span className="text-white/40"> (you)</span>}
+                                </p>
+                                <p className="truncate text-xs text-white/50">
+                                    {member.email}
+                                    {member.pending && " • Invited, hasn't signed up yet"}
+                                </p>
+                            </div>
+                            <div className="flex shrink-0 items-center gap-2">
+                                {canManage ? (
+                                    <select
+                                        value={member.role}
+                                        onChange={(e) => handleRoleChange(member, e.target.value as DocumentRole)}
+                                        disabled={busyId !== null}
+                                        aria-label={`Role of ${member.email}`}
+                                        className="rounded-lg border border-gray-700 bg-gray-900 px-2 py-1 text-xs text-white/80 disabled:opacity-50"
+                                    >
+                                        {ROLE_OPTIONS.map((option) => (
+                                            <option key={option.role} value={option.role}>{option.label}</option>
+                                        ))}
+                                    </select>
+                                ) : (
+                                    <span className="text-xs text-white/60">
+                                        {ROLE_OPTIONS.find((option) => option.role === member.role)?.label}
+                                    </span>
+                                )}
+                                {(canManage || isMe(member)) && (
+                                    <button
+                                        onClick={() => handleRemove(member)}
+                                        disabled={busyId !== null}
+                                        className="rounded-lg border border-red-900 px-2 py-1 text-xs text-red-300 hover:bg-red-950 disabled:opacity-50"
+                                    >
+                                        {isMe(member) ? "Leave" : "Remove"}
+                                    </button>
+                                )}
+                            </div>
+                        </li>
+                    ))}
+                </ul>
+            </div>
+        </>
+    );
+}
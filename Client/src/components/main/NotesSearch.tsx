@@ -0,0 +1,123 @@
+import { Fragment, useEffect, useRef, useState, type KeyboardEvent } from "react";
+import type { SearchResult } from "../../api/auth";
+
+type Props = {
+    query: string;
+    onQueryChange: (query: string) => void;
+    search: (query: string, signal: AbortSignal) => Promise<SearchResult[]>;
+    onOpen: (result: SearchResult) => void;
+};
+
+const SEARCH_DELAY = 250; // ms
+
+// Splits a snippet on the server's highlight markers (\u0002 … \u0003) into plain and <mark> parts
+function renderSnippet(snippet: string) {
+    return snippet.split("\u0002").map((part, i) => {
+        const [highlighted, rest] = part.includes("\u0003") ? part.split("\u0003") : [null, part];
+        return (
+            <Fragment key={i}>
+                {highlighted !== null && <mark className="bg-emerald-500/30 text-emerald-100 rounded px-0.5">{highlighted}</mark>}
+                {rest}
+            </Fragment>
+        );
+    });
+}
+
+export default function NotesSearch({ query, onQueryChange, search, onOpen }: Props) {
+    const [results, setResults] = useState<SearchResult[]>([]);
+    const [loading, setLoading] = useState(false);
+    const [activeIndex, setActiveIndex] = useState(0);
+    const listRef = useRef<HTMLDivElement>(null);
+
+    const trimmed = query.trim();
+
+    // Debounced search; a newer query aborts the request for the previous one
+    useEffect(() => {
+        if (!trimmed) return;
+
+        const controller = new AbortController();
+        const timer = window.setTimeout(async () => {
+            setLoading(true);
+            try {
+                setResults(await search(trimmed, controller.signal));
+                setActiveIndex(0);
+            } catch (err) {
+                if (!controller.signal.aborted) console.error("Search failed:", err);
+            } finally {
+                if (!controller.signal.aborted) setLoading(false);
+            }
+        }, SEARCH_DELAY);
+
+        return () => {
+            controller.abort();
+            clearTimeout(timer);
+        };
+    }, [trimmed, search]);
+
+    // Keep the highlighted result scrolled into view
+    useEffect(() => {
+        listRef.current?.children[activeIndex]?.scrollIntoView({ block: "nearest" });
+    }, [activeIndex]);
+
+    const visibleResults = trimmed ? results : [];
+
+    const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === "ArrowDown") {
+            e.preventDefault();
+            setActiveIndex((i) => Math.min(i + 1, visibleResults.length - 1));
+        } else if (e.key === "ArrowUp") {
+            e.preventDefault();
+            setActiveIndex((i) => Math.max(i - 1, 0));
+        } else if (e.key === "Enter" && visibleResults[activeIndex]) {
+            e.preventDefault();
+            onOpen(visibleResults[activeIndex]);
+        } else if (e.key === "Escape") {
+            onQueryChange("");
+        }
+    };
+
+    return (
+        <div className="flex flex-col gap-3">
+            <input
+                type="search"
+                value={query}
+                onChange={(e) => onQueryChange(e.target.value)}
+                onKeyDown={handleKeyDown}
+                placeholder="Search notes…"
+                className="w-full rounded-xl border border-gray-800 bg-gray-900 px-3 py-2 text-sm text-white
+                    placeholder:text-white/40 focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                aria-label="Search notes"
+                role="combobox"
+                aria-expanded={visibleResults.length > 0}
+                aria-controls="notes-search-results"
+                aria-activedescendant={visibleResults[activeIndex] ? `search-result-${visibleResults[activeIndex].id}` : undefined}
+            />
+
+            {trimmed && (
+                <div id="notes-search-results" role="listbox" ref={listRef} className="flex flex-col gap-2">
+                    {visibleResults.length === 0 ? (
+                        <p className="text-sm text-white/60 px-1">{loading ? "Searching…" : "No matching notes"}</p>
+                    ) : (
+                        visibleResults.map((result, i) => (
+                            <button
+                                key={result.id}
+                                id={`search-result-${result.id}`}
+                                role="option"
+                                aria-selected={i === activeIndex}
+                                onClick={() => onOpen(result)}
+                                onMouseEnter={() => setActiveIndex(i)}
+                                className={`text-left rounded-2xl border p-3 transition ${i === activeIndex
+                                    ? "border-emerald-500 bg-emerald-500/10"
+                                    : "border-gray-800 bg-gray-900/30"
+                                    }`}
+                            >
+                                <p className="font-semibold truncate">{result.title || "Untitled"}</p>
+                                <p className="text-sm text-white/70 mt-1 line-clamp-3">{renderSnippet(result.snippet)}</p>
+                            </button>
+                        ))
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
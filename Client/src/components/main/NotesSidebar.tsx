@@ -1,9 +1,19 @@
-import React from "react";
+import React, { useEffect, useRef, useState } from "react";
+import type { DocumentListItem, DocumentSort, Folder, ScanJob, SearchResult, Tag } from "../../api/auth";
+import NotesSearch from "./NotesSearch.tsx";
+import FolderTree from "./FolderTree.tsx";
+import TrashView from "./TrashView.tsx";
+import SharedWithMeList from "./SharedWithMeList.tsx";
 
 export type Note = {
     id: string;
-    content: string;
+    title: string;
+    createdAt: string;
     updatedAt: string;
+    imageUrl?: string;
+    scanMode?: string;
+    folderId: string | null;
+    tagIds: string[];
 };
 
 type Props = {
@@ -12,21 +22,35 @@ type Props = {
 
     notes: Note[];
     selectedNoteId: string | null;
-    onSelect: (note: Note) => void;
+    onSelect: (noteId: string) => void;
     onDelete: (noteId: string) => void;
 
     onNewNote: () => void;
-};
 
-function previewTitle(content: string) {
-    const firstLine =
-        content
-            .split("\n")
-            .map((l) => l.trim())
-            .find((l) => l.length > 0) || "Untitled";
+    sort: DocumentSort;
+    onSortChange: (sort: DocumentSort) => void;
+    // More notes are available beyond the loaded ones
+    hasMore: boolean;
+    onLoadMore: () => void;
 
-    return firstLine.replace(/^#+\s*/, "").split(/\s+/).slice(0, 6).join(" ");
-}
+    scanJobs: ScanJob[];
+    onDismissScanJob: (jobId: string) => void;
+
+    onSearch: (query: string, signal: AbortSignal) => Promise<SearchResult[]>;
+
+    folders: Folder[];
+    tags: Tag[];
+    onCreateFolder: (name: string, parentId: string | null) => void;
+    onRenameFolder: (folderId: string, name: string) => void;
+    onDeleteFolder: (folderId: string) => void;
+    onCreateTag: (name: string) => void;
+    onDeleteTag: (tagId: string) => void;
+    onMoveNote: (noteId: string, folderId: string | null) => void;
+    onSetNoteTags: (noteId: string, tagIds: string[]) => void;
+
+    getToken: () => Promise<string>;
+    onRestoreFromTrash: (doc: DocumentListItem) => void;
+};
 
 export default function NotesSidebar({
     open,
@@ -35,7 +59,63 @@ export default function NotesSidebar({
     selectedNoteId,
     onSelect,
     onDelete,
+    sort,
+    onSortChange,
+    hasMore,
+    onLoadMore,
+    scanJobs,
+    onDismissScanJob,
+    onSearch,
+    folders,
+    tags,
+    onCreateFolder,
+    onRenameFolder,
+    onDeleteFolder,
+    onCreateTag,
+    onDeleteTag,
+    onMoveNote,
+    onSetNoteTags,
+    getToken,
+    onRestoreFromTrash,
 }: Props) {
+    const [searchQuery, setSearchQuery] = useState("");
+    const [trashOpen, setTrashOpen] = useState(false);
+    const [tagFilter, setTagFilter] = useState<string[]>([]);
+    const searching = searchQuery.trim().length > 0;
+
+    // Notes must carry every selected tag; ids of deleted tags are ignored
+    const activeTagFilter = tagFilter.filter((id) => tags.some((t) => t.id === id));
+    const visibleNotes = activeTagFilter.length > 0
+        ? notes.filter((n) => activeTagFilter.every((id) => n.tagIds.includes(id)))
+        : notes;
+
+    const toggleTagFilter = (tagId: string) => {
+        setTagFilter((prev) => prev.includes(tagId) ? prev.filter((id) => id !== tagId) : [...prev, tagId]);
+    };
+
+    const promptNewTag = () => {
+        const name = window.prompt("New tag name")?.trim();
+        if (name) onCreateTag(name);
+    };
+
+    const scrollRef = useRef<HTMLDivElement>(null);
+    const sentinelRef = useRef<HTMLDivElement>(null);
+
+    // Load the next page once the end of the list scrolls into view
+    useEffect(() => {
+        const sentinel = sentinelRef.current;
+        if (!open || !hasMore || searching || trashOpen || !sentinel) return;
+
+        const observer = new IntersectionObserver(
+            (entries) => entries.some((entry) => entry.isIntersecting) && onLoadMore(),
+            { root: scrollRef.current, rootMargin: "200px" }
+        );
+        observer.observe(sentinel);
+        return () => observer.disconnect();
+    }, [open, hasMore, searching, trashOpen, onLoadMore, notes.length]);
+
+    const handleOpenResult = (result: SearchResult) => onSelect(result.id);
+
     return (
         <>
             {open && (
@@ -56,9 +136,21 @@ export default function NotesSidebar({
                 aria-hidden={!open}
             >
                 <div className="h-20 border-b border-gray-800 flex items-center justify-between px-4">
-                    <p className="font-semibold text-lg">Notes</p>
+                    <p className="font-semibold text-lg">{trashOpen ? "Trash" : "Notes"}</p>
 
                     <div className="flex items-center gap-2">
+                        <button
+                            onClick={() => setTrashOpen((t) => !t)}
+                            className="
+                h-9 px-3 rounded-xl border border-gray-800 text-sm
+                hover:bg-gray-900 transition active:scale-95
+                focus:outline-none focus:ring-2 focus:ring-emerald-500 focus:ring-offset-2 focus:ring-offset-black
+              "
+                            aria-pressed={trashOpen}
+                            title={trashOpen ? "Back to notes" : "Show deleted notes"}
+                        >
+                            {trashOpen ? "← Notes" : "🗑 Trash"}
+                        </button>
                         <button
                             onClick={onClose}
                             className="
@@ -74,60 +166,177 @@ export default function NotesSidebar({
                     </div>
                 </div>
 
-                <div className="p-4">
-                    {notes.length === 0 ? (
-                        <div className="rounded-2xl border border-gray-800 bg-gray-900/30 p-4">
-                            <p className="text-white/80 font-semibold">No previous notes</p>
-                            <p className="text-white/60 text-sm mt-1">
-                                Save a note and it will show up here.
-                            </p>
-                        </div>
+                <div ref={scrollRef} className="p-4 h-[calc(100%-5rem)] overflow-y-auto">
+                    {trashOpen ? (
+                        <TrashView getToken={getToken} onRestored={onRestoreFromTrash} />
                     ) : (
-                        <div className="flex flex-col gap-3">
-                            {notes.map((n) => (
-                                <div
-                                    key={n.id}
-                                    className={`
-                    relative rounded-2xl border p-4 transition
-                    ${n.id === selectedNoteId
-                                            ? "border-emerald-500 bg-emerald-500/10"
-                                            : "border-gray-800 bg-gray-900/30 hover:bg-gray-900/60 hover:border-gray-700"
-                                        }
-                  `}
-                                >
-                                    {/* Delete button */}
-                                    <button
-                                        onClick={(e) => {
-                                            e.stopPropagation();
-                                            onDelete(n.id);
-                                        }}
-                                        className="absolute top-2 right-2 h-7 w-7 rounded-lg
-                                            bg-gray-800/80 hover:bg-red-600 text-white/60 hover:text-white
-                                            flex items-center justify-center transition
-                                            focus:outline-none focus:ring-2 focus:ring-red-500"
-                                        aria-label="Delete note"
-                                        title="Delete note"
-                                    >
-                                        🗑
-                                    </button>
-
-                                    {/* Note content (clickable) */}
-                                    <button
-                                        onClick={() => onSelect(n)}
-                                        className="text-left w-full pr-8
-                                            focus:outline-none focus:ring-2 focus:ring-emerald-500 rounded-lg"
-                                    >
-                                        <p className="font-semibold">{previewTitle(n.content)}</p>
-                                        <p className="text-xs text-white/60 mt-1">
-                                            Last updated • {n.updatedAt}
-                                        </p>
-                                        <p className="text-sm text-white/70 mt-2 line-clamp-2">
-                                            {n.content}
-                                        </p>
-                                    </button>
+                        <>
+                            <div className="mb-4">
+                                <NotesSearch
+                                    query={searchQuery}
+                                    onQueryChange={setSearchQuery}
+                                    search={onSearch}
+                                    onOpen={handleOpenResult}
+                                />
+                            </div>
+
+                            {/* Pending scans */}
+                            {!searching && scanJobs.length > 0 && (
+                                <div className="flex flex-col gap-3 mb-4">
+                                    <p className="text-xs uppercase tracking-wide text-white/50">Scans</p>
+                                    {scanJobs.map((job) => {
+                                        const total = job.imageUrls.length;
+                                        const failed = job.status === 'FAILED';
+                                        return (
+                                            <div
+                                                key={job.id}
+                                                className={`
+                            relative rounded-2xl border p-4
+                            ${failed ? "border-red-800 bg-red-900/20" : "border-gray-800 bg-gray-900/30"}
+                          `}
+                                            >
+                                                {failed && (
+                                                    <button
+                                                        onClick={() => onDismissScanJob(job.id)}
+                                                        className="absolute top-2 right-2 h-7 w-7 rounded-lg
+                                                            bg-gray-800/80 hover:bg-gray-700 text-white/60 hover:text-white
+                                                            flex items-center justify-center transition"
+                                                        aria-label="Dismiss failed scan"
+                                                        title="Dismiss"
+                                                    >
+                                                        ✕
+                                                    </button>
+                                                )}
+                                                <p className="font-semibold pr-8">
+                                                    {failed
+                                                        ? "Scan failed"
+                                                        : job.status === 'QUEUED'
+                                                            ? "Waiting to scan…"
+                                                            : job.replace ? "Re-scanning…" : "Scanning…"}
+                                                </p>
+                                                <p className="text-xs text-white/60 mt-1">
+                                                    {job.completedPages} of {total} {total === 1 ? "page" : "pages"}
+                                                </p>
+                                                <div className="h-1.5 rounded-full bg-gray-800 mt-2 overflow-hidden">
+                                                    <div
+                                                        className={`h-full transition-all ${failed ? "bg-red-500" : "bg-emerald-500"}`}
+                                                        style={{ width: `${(job.completedPages / total) * 100}%` }}
+                                                    />
+                                                </div>
+                                                {failed && job.error && (
+                                                    <p className="text-xs text-red-300 mt-2 line-clamp-2">{job.error}</p>
+                                                )}
+                                            </div>
+                                        );
+                                    })}
+                                </div>
+                            )}
+
+                            {/* Tag filter */}
+                            {!searching && (
+                                <div className="flex flex-col gap-2 mb-4">
+                                    <label className="flex items-center justify-between text-xs text-white/50">
+                                        <span className="uppercase tracking-wide">Sort by</span>
+                                        <select
+                                            value={sort}
+                                            onChange={(e) => onSortChange(e.target.value as DocumentSort)}
+                                            className="rounded-lg border border-gray-800 bg-gray-900 px-2 py-1 text-white/80
+                                                focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                                        >
+                                            <option value="updated">Last updated</option>
+                                            <option value="created">Date created</option>
+                                            <option value="title">Title</option>
+                                        </select>
+                                    </label>
+                                    <div className="flex items-center justify-between">
+                                        <p className="text-xs uppercase tracking-wide text-white/50">Tags</p>
+                                        <button
+                                            onClick={promptNewTag}
+                                            className="rounded-lg border border-gray-800 px-2 py-1 text-xs text-white/70 hover:bg-gray-900"
+                                        >
+                                            + Tag
+                                        </button>
+                                    </div>
+                                    {tags.length > 0 && (
+                                        <div className="flex flex-wrap gap-1">
+                                            {tags.map((t) => {
+                                                const active = activeTagFilter.includes(t.id);
+                                                return (
+                                                    <span
+                                                        key={t.id}
+                                                        className={`flex items-center rounded-full border text-xs transition ${active
+                                                            ? "bg-gray-700 text-white"
+                                                            : "border-gray-700 text-white/60"
+                                                            }`}
+                                                        style={{ borderColor: t.color ?? undefined }}
+                                                    >
+                                                        <button
+                                                            onClick={() => toggleTagFilter(t.id)}
+                                                            aria-pressed={active}
+                                                            className="pl-2 pr-1 py-0.5 hover:text-white"
+                                                            title={active ? "Remove filter" : "Show only notes with this tag"}
+                                                        >
+                                                            {t.name}
+                                                        </button>
+                                                        <button
+                                                            onClick={() => onDeleteTag(t.id)}
+                                                            className="pr-2 py-0.5 text-white/40 hover:text-red-300"
+                                                            aria-label={`Delete tag ${t.name}`}
+                                                            title="Delete tag"
+                                                        >
+                                                            ✕
+                                                        </button>
+                                                    </span>
+                                                );
+                                            })}
+                                        </div>
+                                    )}
                                 </div>
-                            ))}
-                        </div>
+                            )}
+
+                            {searching ? null : notes.length === 0 && folders.length === 0 ? (
+                                <div className="rounded-2xl border border-gray-800 bg-gray-900/30 p-4">
+                                    <p className="text-white/80 font-semibold">No previous notes</p>
+                                    <p className="text-white/60 text-sm mt-1">
+                                        Save a note and it will show up here.
+                                    </p>
+                                </div>
+                            ) : (
+                                <>
+                                    <FolderTree
+                                        folders={folders}
+                                        tags={tags}
+                                        notes={visibleNotes}
+                                        selectedNoteId={selectedNoteId}
+                                        hideEmptyFolders={activeTagFilter.length > 0}
+                                        onSelect={onSelect}
+                                        onDelete={onDelete}
+                                        onCreateFolder={onCreateFolder}
+                                        onRenameFolder={onRenameFolder}
+                                        onDeleteFolder={onDeleteFolder}
+                                        onMoveNote={onMoveNote}
+                                        onSetNoteTags={onSetNoteTags}
+                                    />
+                                    {activeTagFilter.length > 0 && visibleNotes.length === 0 && !hasMore && (
+                                        <p className="text-sm text-white/60 mt-3">No notes have all the selected tags.</p>
+                                    )}
+                                    {hasMore && (
+                                        <div ref={sentinelRef} className="py-3 text-center text-xs text-white/50">
+                                            Loading more notes…
+                                        </div>
+                                    )}
+                                </>
+                            )}
+
+                            {!searching && (
+                                <SharedWithMeList
+                                    open={open}
+                                    selectedNoteId={selectedNoteId}
+                                    onSelect={onSelect}
+                                    getToken={getToken}
+                                />
+                            )}
+                        </>
                     )}
                 </div>
             </aside>
@@ -0,0 +1,82 @@
+import { useState } from "react";
+import { parsePageRange } from "../../utils/pageRange";
+
+type Props = {
+    fileName: string;
+    pageCount: number;
+    // Most pages one scan may take
+    maxPages: number;
+    // Scan the pages selected by `pages`, e.g. "1-5, 8"
+    onScan: (pages: string) => void;
+    onCancel: () => void;
+};
+
+export default function PageRangeDialog({ fileName, pageCount, maxPages, onScan, onCancel }: Props) {
+    const [range, setRange] = useState(`1-${Math.min(pageCount, maxPages)}`);
+    const selected = parsePageRange(range, pageCount);
+    const tooMany = selected !== null && selected.length > maxPages;
+
+    return (
+        <>
+            <button
+                onClick={onCancel}
+                className="fixed inset-0 bg-black/60 z-40 cursor-default"
+                aria-label="Close page selection overlay"
+            />
+
+            <form
+                role="dialog"
+                aria-modal="true"
+                aria-labelledby="page-range-title"
+                onSubmit={(e) => {
+                    e.preventDefault();
+                    if (selected && !tooMany) onScan(range);
+                }}
+                className="fixed left-1/2 top-1/2 z-50 w-[min(28rem,calc(100vw-2rem))] -translate-x-1/2 -translate-y-1/2
+                    rounded-3xl border border-gray-800 bg-gray-950 px-5 py-4 text-white"
+            >
+                <p id="page-range-title" className="font-semibold text-lg">Choose pages to scan</p>
+                <p className="text-sm text-white/60 mt-1 truncate">
+                    {fileName} • {pageCount} pages
+                </p>
+
+                <label className="mt-4 flex flex-col gap-2 text-sm text-white/70">
+                    Pages
+                    <input
+                        value={range}
+                        onChange={(e) => setRange(e.target.value)}
+                        autoFocus
+                        placeholder={`1-${pageCount}`}
+                        className="rounded-xl border border-gray-700 bg-gray-900 px-3 py-2 text-white
+                            focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                    />
+                </label>
+                <p className={`mt-2 text-xs ${selected && !tooMany ? "text-white/50" : "text-red-400"}`}>
+                    {!selected
+                        ? `Enter pages between 1 and ${pageCount}, e.g. "1-3, 5, 8-"`
+                        : tooMany
+                            ? `${selected.length} pages selected; at most ${maxPages} can be scanned at once`
+                            : `${selected.length} ${selected.length === 1 ? "page" : "pages"} selected`}
+                </p>
+
+                <div className="mt-4 flex justify-end gap-2">
+                    <button
+                        type="button"
+                        onClick={onCancel}
+                        className="rounded-xl border border-gray-700 px-4 py-2 text-sm font-semibold hover:bg-gray-800 transition"
+                    >
+                        Cancel
+                    </button>
+                    <button
+                        type="submit"
+                        disabled={!selected || tooMany}
+                        className="rounded-xl bg-emerald-400 px-4 py-2 text-sm font-semibold text-black hover:brightness-110 transition
+                            disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        Scan pages
+                    </button>
+                </div>
+            </form>
+        </>
+    );
+}
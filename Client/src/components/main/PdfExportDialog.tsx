@@ -0,0 +1,141 @@
+import { useState } from "react";
+import {
+    PDF_FONT_FAMILIES, PDF_FONT_SIZE_RANGE, PDF_MARGIN_RANGE, PDF_PAGE_SIZES, normalizePdfOptions,
+    type PdfFontFamily, type PdfOptions, type PdfOrientation, type PdfPageSize
+} from "../../utils/pdfOptions";
+
+type Props = {
+    initialOptions: PdfOptions;
+    // Whether the note has original scan images that can be appended
+    hasScanImages: boolean;
+    onExport: (options: PdfOptions) => void;
+    onCancel: () => void;
+};
+
+const fieldClassName = "w-full rounded-xl border border-gray-700 bg-gray-900 px-3 py-2 text-sm text-white " +
+    "focus:outline-none focus:ring-2 focus:ring-emerald-500";
+
+const TOGGLES: { key: 'headerTitle' | 'headerDate' | 'pageNumbers' | 'toc' | 'appendScanImages'; label: string }[] = [
+    { key: 'headerTitle', label: "Note title in the header" },
+    { key: 'headerDate', label: "Export date in the header" },
+    { key: 'pageNumbers', label: "Page numbers in the footer" },
+    { key: 'toc', label: "Table of contents" },
+    { key: 'appendScanImages', label: "Original scan images as an appendix" },
+];
+
+export default function PdfExportDialog({ initialOptions, hasScanImages, onExport, onCancel }: Props) {
+    const [options, setOptions] = useState(initialOptions);
+
+    const update = <K extends keyof PdfOptions>(key: K, value: PdfOptions[K]) =>
+        setOptions((prev) => ({ ...prev, [key]: value }));
+
+    return (
+        <>
+            <button
+                onClick={onCancel}
+                className="fixed inset-0 bg-black/60 z-40 cursor-default"
+                aria-label="Close export overlay"
+            />
+
+            <div
+                role="dialog"
+                aria-modal="true"
+                aria-labelledby="pdf-export-title"
+                className="fixed left-1/2 top-1/2 z-50 w-[min(32rem,calc(100vw-2rem))] max-h-[calc(100vh-2rem)] overflow-auto
+                    -translate-x-1/2 -translate-y-1/2 rounded-3xl border border-gray-800 bg-gray-950 p-5 text-white"
+            >
+                <p id="pdf-export-title" className="font-semibold text-lg">Export PDF</p>
+
+                <div className="mt-4 grid grid-cols-2 gap-3 text-sm">
+                    <label className="flex flex-col gap-1 text-white/70">
+                        Page size
+                        <select
+                            value={options.pageSize}
+                            onChange={(e) => update('pageSize', e.target.value as PdfPageSize)}
+                            className={fieldClassName}
+                        >
+                            {PDF_PAGE_SIZES.map((size) => <option key={size.id} value={size.id}>{size.label}</option>)}
+                        </select>
+                    </label>
+                    <label className="flex flex-col gap-1 text-white/70">
+                        Orientation
+                        <select
+                            value={options.orientation}
+                            onChange={(e) => update('orientation', e.target.value as PdfOrientation)}
+                            className={fieldClassName}
+                        >
+                            <option value="portrait">Portrait</option>
+                            <option value="landscape">Landscape</option>
+                        </select>
+                    </label>
+                    <label className="flex flex-col gap-1 text-white/70">
+                        Margins (pt)
+                        <input
+                            type="number"
+                            min={PDF_MARGIN_RANGE.min}
+                            max={PDF_MARGIN_RANGE.max}
+                            value={Number.isNaN(options.margin) ? '' : options.margin}
+                            onChange={(e) => update('margin', e.target.valueAsNumber)}
+                            className={fieldClassName}
+                        />
+                    </label>
+                    <label className="flex flex-col gap-1 text-white/70">
+                        Text size (pt)
+                        <input
+                            type="number"
+                            min={PDF_FONT_SIZE_RANGE.min}
+                            max={PDF_FONT_SIZE_RANGE.max}
+                            step={0.5}
+                            value={Number.isNaN(options.fontSize) ? '' : options.fontSize}
+                            onChange={(e) => update('fontSize', e.target.valueAsNumber)}
+                            className={fieldClassName}
+                        />
+                    </label>
+                    <label className="col-span-2 flex flex-col gap-1 text-white/70">
+                        Font
+                        <select
+                            value={options.fontFamily}
+                            onChange={(e) => update('fontFamily', e.target.value as PdfFontFamily)}
+                            className={fieldClassName}
+                        >
+                            {PDF_FONT_FAMILIES.map((font) => <option key={font.id} value={font.id}>{font.label}</option>)}
+                        </select>
+                        <span className="text-xs text-white/50">
+                            Use a Unicode font for notes in non-Latin scripts; it's downloaded when you export.
+                        </span>
+                    </label>
+                </div>
+
+                <div className="mt-4 flex flex-col gap-2 text-sm">
+                    {TOGGLES.filter(({ key }) => key !== 'appendScanImages' || hasScanImages).map(({ key, label }) => (
+                        <label key={key} className="flex items-center gap-2 text-white/80">
+                            <input
+                                type="checkbox"
+                                checked={options[key]}
+                                onChange={(e) => update(key, e.target.checked)}
+                                className="accent-emerald-500"
+                            />
+                            {label}
+                        </label>
+                    ))}
+                </div>
+
+                <div className="mt-6 flex justify-end gap-3">
+                    <button
+                        onClick={onCancel}
+                        className="rounded-xl border border-gray-700 px-4 py-2 text-sm font-semibold hover:bg-gray-800 transition"
+                    >
+                        Cancel
+                    </button>
+                    <button
+                        // Out-of-range numbers are clamped; cleared fields fall back to the defaults
+                        onClick={() => onExport(normalizePdfOptions(options))}
+                        className="rounded-xl bg-emerald-400 px-4 py-2 text-sm font-semibold text-black hover:brightness-110 transition"
+                    >
+                        Export
+                    </button>
+                </div>
+            </div>
+        </>
+    );
+}
@@ -0,0 +1,159 @@
+import { useEffect, useRef, useState, type PointerEvent } from "react";
+import type { DocumentPageResponse } from "../../api/auth";
+
+export type ScanPage = Pick<DocumentPageResponse, 'pageNumber' | 'sourcePageNumber' | 'imageUrl'>;
+
+type Props = {
+    pages: ScanPage[];
+    onClose: () => void;
+};
+
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 6;
+const ZOOM_STEP = 1.25;
+
+const clampZoom = (zoom: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+
+/**
+ * The original scan of the open note, shown next to the editor to check the transcription.
+ * The image fits the panel at first; it can be zoomed with the buttons or the mouse wheel and panned by dragging.
+ */
+export default function ScanReviewPanel({ pages, onClose }: Props) {
+    const [index, setIndex] = useState(0);
+    const [zoom, setZoom] = useState(MIN_ZOOM);
+    const [offset, setOffset] = useState({ x: 0, y: 0 });
+    const [failed, setFailed] = useState(false);
+    const [dragging, setDragging] = useState(false);
+    const viewportRef = useRef<HTMLDivElement>(null);
+    const dragRef = useRef<{ x: number; y: number } | null>(null);
+
+    const page = pages[Math.min(index, pages.length - 1)];
+
+    const showPage = (next: number) => {
+        setIndex(next);
+        setZoom(MIN_ZOOM);
+        setOffset({ x: 0, y: 0 });
+        setFailed(false);
+    };
+
+    const zoomTo = (next: number) => {
+        const clamped = clampZoom(next);
+        setZoom(clamped);
+        // Back at fit size there's nothing to pan
+        if (clamped === MIN_ZOOM) setOffset({ x: 0, y: 0 });
+    };
+
+    // Wheel zoom needs a non-passive listener so the page doesn't scroll at the same time
+    useEffect(() => {
+        const viewport = viewportRef.current;
+        if (!viewport) return;
+
+        const handleWheel = (e: WheelEvent) => {
+            e.preventDefault();
+            setZoom((prev) => {
+                const next = clampZoom(e.deltaY < 0 ? prev * ZOOM_STEP : prev / ZOOM_STEP);
+                if (next === MIN_ZOOM) setOffset({ x: 0, y: 0 });
+                return next;
+            });
+        };
+        viewport.addEventListener('wheel', handleWheel, { passive: false });
+        return () => viewport.removeEventListener('wheel', handleWheel);
+    }, []);
+
+    const handlePointerDown = (e: PointerEvent<HTMLDivElement>) => {
+        if (zoom === MIN_ZOOM) return;
+        e.currentTarget.setPointerCapture(e.pointerId);
+        dragRef.current = { x: e.clientX - offset.x, y: e.clientY - offset.y };
+        setDragging(true);
+    };
+
+    const handlePointerMove = (e: PointerEvent<HTMLDivElement>) => {
+        if (!dragRef.current) return;
+        setOffset({ x: e.clientX - dragRef.current.x, y: e.clientY - dragRef.current.y });
+    };
+
+    const handlePointerUp = () => {
+        dragRef.current = null;
+        setDragging(false);
+    };
+
+    if (!page) return null;
+
+    const buttonClassName = "rounded-lg border border-gray-700 px-2 py-1 text-sm text-white/80 hover:bg-gray-800 transition disabled:opacity-40 disabled:cursor-not-allowed";
+
+    return (
+        <section
+            aria-label="Original scan"
+            className="flex flex-col rounded-2xl border border-gray-700 bg-gray-900/80 lg:sticky lg:top-4"
+        >
+            <div className="flex flex-wrap items-center justify-between gap-2 border-b border-gray-800 px-3 py-2">
+                <div className="flex items-center gap-1">
+                    <button
+                        onClick={() => showPage(index - 1)}
+                        disabled={index === 0}
+                        className={buttonClassName}
+                        aria-label="Previous page"
+                    >
+                        ‹
+                    </button>
+                    <span className="px-1 text-sm text-white/70">
+                        Page {index + 1} of {pages.length}
+                        {page.sourcePageNumber && <span className="text-white/40"> (file page {page.sourcePageNumber})</span>}
+                    </span>
+                    <button
+                        onClick={() => showPage(index + 1)}
+                        disabled={index >= pages.length - 1}
+                        className={buttonClassName}
+                        aria-label="Next page"
+                    >
+                        ›
+                    </button>
+                </div>
+
+                <div className="flex items-center gap-1">
+                    <button onClick={() => zoomTo(zoom / ZOOM_STEP)} disabled={zoom === MIN_ZOOM} className={buttonClassName} aria-label="Zoom out">
+                        −
+                    </button>
+                    <span className="w-12 text-center text-xs text-white/50">{Math.round(zoom * 100)}%</span>
+                    <button onClick={() => zoomTo(zoom * ZOOM_STEP)} disabled={zoom === MAX_ZOOM} className={buttonClassName} aria-label="Zoom in">
+                        +
+                    </button>
+                    <button onClick={() => zoomTo(MIN_ZOOM)} disabled={zoom === MIN_ZOOM} className={buttonClassName}>
+                        Fit
+                    </button>
+                    <a href={page.imageUrl} target="_blank" rel="noreferrer" className={buttonClassName}>
+                        Open
+                    </a>
+                    <button onClick={onClose} className={buttonClassName} aria-label="Close original scan">
+                        ✕
+                    </button>
+                </div>
+            </div>
+
+            <div
+                ref={viewportRef}
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={handlePointerUp}
+                className={`relative h-[70vh] overflow-hidden touch-none select-none ${zoom > MIN_ZOOM ? 'cursor-grab active:cursor-grabbing' : ''}`}
+            >
+                {failed ? (
+                    <p className="p-6 text-center text-sm text-white/60">The original image could not be loaded.</p>
+                ) : (
+                    <img
+                        src={page.imageUrl}
+                        alt={`Original scan, page ${index + 1}`}
+                        draggable={false}
+                        onError={() => setFailed(true)}
+                        className="h-full w-full object-contain"
+                        style={{
+                            transform: `translate(${offset.x}px, ${offset.y}px) scale(${zoom})`,
+                            transition: dragging ? 'none' : 'transform 120ms ease-out',
+                        }}
+                    />
+                )}
+            </div>
+        </section>
+    );
+}
@@ -0,0 +1,198 @@
+import { useEffect, useState, type FormEvent } from "react";
+import { createShareLink, getShareLinks, revokeShareLink, type ShareLink } from "../../api/auth";
+
+type Props = {
+    documentId: string;
+    getToken: () => Promise<string>;
+    onClose: () => void;
+};
+
+// Lifetimes offered for new links, in days; 0 means the link works until it's revoked
+const EXPIRY_OPTIONS = [
+    { days: 0, label: "Never expires" },
+    { days: 1, label: "1 day" },
+    { days: 7, label: "7 days" },
+    { days: 30, label: "30 days" },
+];
+
+const shareUrl = (link: ShareLink) => `${window.location.origin}/s/${link.token}`;
+
+function linkStatus(link: ShareLink) {
+    if (link.revokedAt) return { label: "Revoked", active: false };
+    if (link.expiresAt && Date.parse(link.expiresAt) <= Date.now()) return { label: "Expired", active: false };
+    if (link.expiresAt) return { label: `Expires ${new Date(link.expiresAt).toLocaleDateString()}`, active: true };
+    return { label: "No expiry", active: true };
+}
+
+export default function ShareDialog({ documentId, getToken, onClose }: Props) {
+    const [links, setLinks] = useState<ShareLink[] | null>(null);
+    const [expiryDays, setExpiryDays] = useState(0);
+    const [password, setPassword] = useState("");
+    const [isCreating, setIsCreating] = useState(false);
+    const [copiedId, setCopiedId] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        const load = async () => {
+            try {
+                const response = await getShareLinks(documentId, await getToken());
+                setLinks(response.data);
+            } catch (err) {
+                console.error("Failed to fetch share links:", err);
+                setError("Failed to load share links");
+            }
+        };
+        load();
+    }, [documentId, getToken]);
+
+    const handleCopy = async (link: ShareLink) => {
+        try {
+            await navigator.clipboard.writeText(shareUrl(link));
+            setCopiedId(link.id);
+        } catch (err) {
+            console.error("Failed to copy link:", err);
+            setError("Couldn't copy the link; select it and copy it manually");
+        }
+    };
+
+    const handleCreate = async (e: FormEvent) => {
+        e.preventDefault();
+        setError(null);
+        setIsCreating(true);
+
+        try {
+            const expiresAt = expiryDays ? new Date(Date.now() + expiryDays * 24 * 60 * 60 * 1000).toISOString() : undefined;
+            const response = await createShareLink(documentId, { expiresAt, password: password || undefined }, await getToken());
+            setLinks((prev) => [response.data, ...(prev ?? [])]);
+            setPassword("");
+            await handleCopy(response.data);
+        } catch (err) {
+            console.error("Failed to create share link:", err);
+            setError("Failed to create the link");
+        } finally {
+            setIsCreating(false);
+        }
+    };
+
+    const handleRevoke = async (link: ShareLink) => {
+        setError(null);
+        try {
+            const response = await revokeShareLink(documentId, link.id, await getToken());
+            setLinks((prev) => prev?.map((l) => (l.id === link.id ? response.data : l)) ?? null);
+        } catch (err) {
+            console.error("Failed to revoke share link:", err);
+            setError("Failed to revoke the link");
+        }
+    };
+
+    const inputClassName = "rounded-xl border border-gray-700 bg-gray-900 px-3 py-2 text-sm text-white focus:outline-none focus:ring-2 focus:ring-emerald-500";
+
+    return (
+        <>
+            <button
+                onClick={onClose}
+                className="fixed inset-0 bg-black/60 z-40 cursor-default"
+                aria-label="Close sharing overlay"
+            />
+
+            <div
+                role="dialog"
+                aria-modal="true"
+                aria-labelledby="share-title"
+                className="fixed left-1/2 top-1/2 z-50 flex w-[min(40rem,calc(100vw-2rem))] max-h-[calc(100vh-2rem)] flex-col
+                    -translate-x-1/2 -translate-y-1/2 rounded-3xl border border-gray-800 bg-gray-950 text-white"
+            >
+                <div className="flex items-center justify-between border-b border-gray-800 px-5 py-4 shrink-0">
+                    <div>
+                        <p id="share-title" className="font-semibold text-lg">Share a read-only link</p>
+                        <p className="text-sm text-white/60 mt-1">Anyone with the link can read the saved note without signing in.</p>
+                    </div>
+                    <button
+                        onClick={onClose}
+                        className="h-9 w-9 shrink-0 rounded-xl border border-gray-800 hover:bg-gray-900 transition active:scale-95
+                            focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                        aria-label="Close sharing"
+                        title="Close"
+                    >
+                        ✕
+                    </button>
+                </div>
+
+                <form onSubmit={handleCreate} className="flex flex-wrap items-end gap-3 border-b border-gray-800 px-5 py-4 shrink-0">
+                    <label className="flex flex-col gap-1 text-xs text-white/60">
+                        Expires
+                        <select value={expiryDays} onChange={(e) => setExpiryDays(Number(e.target.value))} className={inputClassName}>
+                            {EXPIRY_OPTIONS.map((option) => (
+                                <option key={option.days} value={option.days}>{option.label}</option>
+                            ))}
+                        </select>
+                    </label>
+                    <label className="flex flex-1 min-w-40 flex-col gap-1 text-xs text-white/60">
+                        Password (optional)
+                        <input
+                            type="password"
+                            value={password}
+                            onChange={(e) => setPassword(e.target.value)}
+                            minLength={4}
+                            autoComplete="new-password"
+                            className={inputClassName}
+                        />
+                    </label>
+                    <button
+                        type="submit"
+                        disabled={isCreating}
+                        className="rounded-xl bg-emerald-400 px-4 py-2 text-sm font-semibold text-black hover:brightness-110 transition
+                            disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        {isCreating ? "Creating…" : "Create link"}
+                    </button>
+                </form>
+
+                {error && <p className="px-5 pt-3 text-sm text-red-300">{error}</p>}
+
+                <ul className="flex-1 overflow-auto px-5 py-3 text-sm">
+                    {links === null && !error && <li className="py-2 text-white/50">Loading…</li>}
+                    {links?.length === 0 && <li className="py-2 text-white/50">This note hasn't been shared yet.</li>}
+                    {links?.map((link) => {
+                        const status = linkStatus(link);
+                        return (
+                            <li key={link.id} className="flex flex-col gap-2 border-b border-gray-900 py-3 last:border-b-0">
+                                <input
+                                    readOnly
+                                    value={shareUrl(link)}
+                                    onFocus={(e) => e.currentTarget.select()}
+                                    aria-label="Share link"
+                                    className={`w-full rounded-lg bg-gray-900 px-2 py-1 font-mono text-xs ${status.active ? "text-white/80" : "text-white/40 line-through"}`}
+                                />
+                                <div className="flex flex-wrap items-center justify-between gap-2">
+                                    <p className="text-xs text-white/50">
+                                        <span className={status.active ? "text-emerald-400" : "text-white/40"}>{status.label}</span>
+                                        {link.hasPassword && " • Password"}
+                                        {` • ${link.accessCount} ${link.accessCount === 1 ? "view" : "views"}`}
+                                        {link.lastAccessedAt && ` • Last opened ${new Date(link.lastAccessedAt).toLocaleString()}`}
+                                    </p>
+                                    {status.active && (
+                                        <div className="flex gap-2">
+                                            <button
+                                                onClick={() => handleCopy(link)}
+                                                className="rounded-lg border border-gray-700 px-2 py-1 text-xs text-white/80 hover:bg-gray-800"
+                                            >
+                                                {copiedId === link.id ? "Copied" : "Copy"}
+                                            </button>
+                                            <button
+                                                onClick={() => handleRevoke(link)}
+                                                className="rounded-lg border border-red-900 px-2 py-1 text-xs text-red-300 hover:bg-red-950"
+                                            >
+                                                Revoke
+                                            </button>
+                                        </div>
+                                    )}
+                                </div>
+                            </li>
+                        );
+                    })}
+                </ul>
+            </div>
+        </>
+    );
+}
@@ -0,0 +1,62 @@
+import { useEffect, useState } from "react";
+import { getSharedWithMe, type DocumentRole, type SharedWithMeDocument } from "../../api/auth";
+
+type Props = {
+    // Reloaded every time the sidebar opens, since other people share and unshare notes at any time
+    open: boolean;
+    selectedNoteId: string | null;
+    onSelect: (noteId: string) => void;
+    getToken: () => Promise<string>;
+};
+
+const ROLE_LABEL: Record<DocumentRole, string> = {
+    VIEWER: "View only",
+    COMMENTER: "Can comment",
+    EDITOR: "Can edit",
+    OWNER: "Owner",
+};
+
+export default function SharedWithMeList({ open, selectedNoteId, onSelect, getToken }: Props) {
+    const [items, setItems] = useState<SharedWithMeDocument[] | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!open) return;
+
+        const load = async () => {
+            try {
+                const response = await getSharedWithMe(await getToken());
+                setItems(response.data.items);
+                setError(null);
+            } catch (err) {
+                console.error("Failed to fetch shared notes:", err);
+                setError("Failed to load notes shared with you");
+            }
+        };
+        load();
+    }, [open, getToken]);
+
+    // Nothing to show until someone shares a note
+    if (!error && !items?.length) return null;
+
+    return (
+        <div className="flex flex-col gap-2 mt-6">
+            <p className="text-xs uppercase tracking-wide text-white/50">Shared with me</p>
+            {error && <p className="text-sm text-red-300">{error}</p>}
+            {items?.map((item) => (
+                <button
+                    key={item.id}
+                    onClick={() => onSelect(item.id)}
+                    className={`rounded-2xl border p-3 text-left transition hover:bg-gray-900 ${item.id === selectedNoteId
+                        ? "border-emerald-700 bg-gray-900/60"
+                        : "border-gray-800 bg-gray-900/30"}`}
+                >
+                    <p className="font-semibold line-clamp-2">{item.title || "Untitled"}</p>
+                    <p className="text-xs text-white/60 mt-1 truncate">
+                        {item.owner.name || item.owner.email} • {ROLE_LABEL[item.role]}
+                    </p>
+                </button>
+            ))}
+        </div>
+    );
+}
@@ -0,0 +1,108 @@
+import { useState } from "react";
+import { isAxiosError } from "axios";
+import { generateStudyNotes, type DocumentResponse, type StudySection } from "../../api/auth";
+
+type Props = {
+    documentId: string;
+    // Appending needs edit access; anyone can save the study notes as a note of their own
+    canAppend: boolean;
+    disabled?: boolean;
+    getToken: () => Promise<string>;
+    // Called before appending, e.g. to save pending changes first; returning false cancels
+    beforeAppend: () => Promise<boolean>;
+    onGenerated: (doc: DocumentResponse, target: 'append' | 'document') => void;
+};
+
+const SECTION_OPTIONS: { section: StudySection; label: string }[] = [
+    { section: 'summary', label: "Summary" },
+    { section: 'keyTerms', label: "Key terms" },
+    { section: 'studyGuide', label: "Study guide" },
+];
+
+export default function StudyMenu({ documentId, canAppend, disabled = false, getToken, beforeAppend, onGenerated }: Props) {
+    const [open, setOpen] = useState(false);
+    const [sections, setSections] = useState<StudySection[]>(SECTION_OPTIONS.map((option) => option.section));
+    const [generating, setGenerating] = useState<'append' | 'document' | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const toggleSection = (section: StudySection) => {
+        setSections((prev) => (prev.includes(section) ? prev.filter((s) => s !== section) : [...prev, section]));
+    };
+
+    const handleGenerate = async (target: 'append' | 'document') => {
+        if (target === 'append' && !await beforeAppend()) return;
+
+        setError(null);
+        setGenerating(target);
+        try {
+            const response = await generateStudyNotes(documentId, sections, target, await getToken());
+            setOpen(false);
+            onGenerated(response.data, target);
+        } catch (err) {
+            console.error("Failed to generate study notes:", err);
+            setError((isAxiosError(err) ? err.response?.data?.error : undefined) || "Failed to generate study notes");
+        } finally {
+            setGenerating(null);
+        }
+    };
+
+    const actionClassName = "rounded-xl px-3 py-2 text-sm font-semibold transition disabled:opacity-50 disabled:cursor-not-allowed";
+
+    return (
+        <div className="relative">
+            <button
+                onClick={() => setOpen((o) => !o)}
+                disabled={disabled}
+                aria-expanded={open}
+                className="rounded-2xl px-4 py-3 font-semibold
+                    border border-gray-700 bg-gray-900 text-white/90
+                    hover:bg-gray-800 active:scale-95 transition
+                    disabled:opacity-50 disabled:cursor-not-allowed disabled:active:scale-100"
+            >
+                {generating ? "Generating…" : "Study tools"}
+            </button>
+
+            {open && (
+                <div className="absolute right-0 top-full z-30 mt-2 flex w-72 flex-col gap-3 rounded-2xl border border-gray-800 bg-gray-950 p-4 text-sm text-white shadow-xl">
+                    <p className="text-white/60">Generate from this note:</p>
+                    <div className="flex flex-col gap-2">
+                        {SECTION_OPTIONS.map((option) => (
+                            <label key={option.section} className="flex items-center gap-2">
+                                <input
+                                    type="checkbox"
+                                    checked={sections.includes(option.section)}
+                                    onChange={() => toggleSection(option.section)}
+                                    disabled={generating !== null}
+                                    className="accent-emerald-400"
+                                />
+                                {option.label}
+                            </label>
+                        ))}
+                    </div>
+
+                    {error && <p className="text-red-300">{error}</p>}
+
+                    <div className="flex flex-col gap-2">
+                        <button
+                            onClick={() => handleGenerate('document')}
+                            disabled={generating !== null || sections.length === 0}
+                            className={`${actionClassName} bg-emerald-400 text-black hover:brightness-110`}
+                        >
+                            {generating === 'document' ? "Generating…" : "Save as a new note"}
+                        </button>
+                        {canAppend && (
+                            <button
+                                onClick={() => handleGenerate('append')}
+                                disabled={generating !== null || sections.length === 0}
+                                className={`${actionClassName} border border-gray-700 text-white/90 hover:bg-gray-800`}
+                            >
+                                {generating === 'append' ? "Generating…" : "Add to the end of this note"}
+                            </button>
+                        )}
+                    </div>
+                    <p className="text-xs text-white/40">Written by AI from the note's content — check it before relying on it.</p>
+                </div>
+            )}
+        </div>
+    );
+}
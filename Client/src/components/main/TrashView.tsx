@@ -0,0 +1,111 @@
+import { useEffect, useState } from "react";
+import { getTrash, restoreDocument, purgeDocument, type DocumentListItem, type TrashedDocument } from "../../api/auth";
+
+type Props = {
+    getToken: () => Promise<string>;
+    onRestored: (doc: DocumentListItem) => void;
+};
+
+function deletedLabel(iso: string) {
+    return new Date(iso).toLocaleDateString("en-CA", {
+        year: "numeric",
+        month: "short",
+        day: "numeric",
+    });
+}
+
+export default function TrashView({ getToken, onRestored }: Props) {
+    const [items, setItems] = useState<TrashedDocument[] | null>(null);
+    const [retentionDays, setRetentionDays] = useState<number | null>(null);
+    const [busyId, setBusyId] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        const load = async () => {
+            try {
+                const response = await getTrash(await getToken());
+                setItems(response.data.items);
+                setRetentionDays(response.data.retentionDays);
+            } catch (err) {
+                console.error("Failed to fetch trash:", err);
+                setError("Failed to load trash");
+            }
+        };
+        load();
+    }, [getToken]);
+
+    const handleRestore = async (item: TrashedDocument) => {
+        setBusyId(item.id);
+        try {
+            const response = await restoreDocument(item.id, await getToken());
+            setItems((prev) => prev?.filter((i) => i.id !== item.id) ?? null);
+            onRestored(response.data);
+        } catch (err) {
+            console.error("Failed to restore note:", err);
+            setError("Failed to restore note");
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const handlePurge = async (item: TrashedDocument) => {
+        if (!window.confirm(`Permanently delete "${item.title || "Untitled"}"? This cannot be undone.`)) return;
+
+        setBusyId(item.id);
+        try {
+            await purgeDocument(item.id, await getToken());
+            setItems((prev) => prev?.filter((i) => i.id !== item.id) ?? null);
+        } catch (err) {
+            console.error("Failed to delete note:", err);
+            setError("Failed to delete note");
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    return (
+        <div className="flex flex-col gap-3">
+            <p className="text-xs uppercase tracking-wide text-white/50">Trash</p>
+            {retentionDays !== null && (
+                <p className="text-xs text-white/50">
+                    Notes in the trash are deleted forever after {retentionDays} {retentionDays === 1 ? "day" : "days"}.
+                </p>
+            )}
+            {error && <p className="text-sm text-red-300">{error}</p>}
+
+            {items === null ? (
+                !error && <p className="text-sm text-white/60">Loading…</p>
+            ) : items.length === 0 ? (
+                <div className="rounded-2xl border border-gray-800 bg-gray-900/30 p-4">
+                    <p className="text-white/80 font-semibold">Trash is empty</p>
+                    <p className="text-white/60 text-sm mt-1">Deleted notes will show up here.</p>
+                </div>
+            ) : (
+                items.map((item) => (
+                    <div key={item.id} className="rounded-2xl border border-gray-800 bg-gray-900/30 p-3">
+                        <p className="font-semibold line-clamp-2">{item.title || "Untitled"}</p>
+                        <p className="text-xs text-white/60 mt-1">Deleted • {deletedLabel(item.deletedAt)}</p>
+                        <div className="flex gap-2 mt-2">
+                            <button
+                                onClick={() => handleRestore(item)}
+                                disabled={busyId !== null}
+                                className="rounded-lg border border-emerald-700 px-2 py-1 text-xs text-emerald-300
+                                    hover:bg-gray-800 disabled:opacity-50"
+                            >
+                                Restore
+                            </button>
+                            <button
+                                onClick={() => handlePurge(item)}
+                                disabled={busyId !== null}
+                                className="rounded-lg border border-red-800 px-2 py-1 text-xs text-red-300
+                                    hover:bg-gray-800 disabled:opacity-50"
+                            >
+                                Delete forever
+                            </button>
+                        </div>
+                    </div>
+                ))
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,145 @@
+import { useCallback, useEffect, useState, type FormEvent } from 'react';
+import { isAxiosError } from 'axios';
+import { getSharedDocument, type SharedDocument } from '../../api/auth';
+import { renderNoteHtml } from '../../utils/exportHtml';
+import { downloadMarkdownAsPdf } from '../../utils/pdf';
+import { DEFAULT_PDF_OPTIONS } from '../../utils/pdfOptions';
+import logo from '../../assets/logo.png';
+import 'katex/dist/katex.min.css';
+import './SharedNotePage.css';
+
+interface SharedNotePageProps {
+    // Token from the /s/<token> URL
+    token: string;
+}
+
+type LoadState =
+    | { status: 'loading' }
+    | { status: 'password'; error: string | null }
+    | { status: 'ready'; doc: SharedDocument; html: string }
+    | { status: 'error'; error: string };
+
+// Read-only view of a note opened through a share link; works without signing in
+export default function SharedNotePage({ token }: SharedNotePageProps) {
+    const [state, setState] = useState<LoadState>({ status: 'loading' });
+    const [password, setPassword] = useState('');
+    const [isUnlocking, setIsUnlocking] = useState(false);
+    const [isGeneratingPdf, setIsGeneratingPdf] = useState(false);
+
+    const loadNote = useCallback(async (withPassword?: string) => {
+        try {
+            const response = await getSharedDocument(token, withPassword);
+            const html = await renderNoteHtml(response.data.markdownContent);
+            setState({ status: 'ready', doc: response.data, html });
+        } catch (err) {
+            if (isAxiosError(err) && err.response?.data?.passwordRequired) {
+                setState({ status: 'password', error: withPassword ? err.response.data.error : null });
+            } else if (isAxiosError(err) && err.response?.data?.error) {
+                setState({ status: 'error', error: err.response.data.error });
+            } else {
+                console.error('Failed to load shared note:', err);
+                setState({ status: 'error', error: "The note couldn't be loaded. Check your connection and try again." });
+            }
+        }
+    }, [token]);
+
+    useEffect(() => {
+        loadNote();
+    }, [loadNote]);
+
+    const handleUnlock = async (e: FormEvent) => {
+        e.preventDefault();
+        setIsUnlocking(true);
+        await loadNote(password);
+        setIsUnlocking(false);
+    };
+
+    const handleDownloadPdf = async () => {
+        if (state.status !== 'ready') return;
+        setIsGeneratingPdf(true);
+        try {
+            await downloadMarkdownAsPdf(
+                state.doc.markdownContent, 'vibescribe-shared', { ...DEFAULT_PDF_OPTIONS, headerTitle: true }, state.doc.title
+            );
+        } catch (err) {
+            console.error('PDF export failed:', err);
+        } finally {
+            setIsGeneratingPdf(false);
+        }
+    };
+
+    useEffect(() => {
+        if (state.status === 'ready') document.title = `${state.doc.title || 'Untitled'} • VibeScribe`;
+    }, [state]);
+
+    return (
+        <div className="bg-black w-screen min-h-screen flex flex-col text-white">
+            <header className="flex items-center justify-between gap-3 border-b border-gray-900 px-4 py-3">
+                <a href="/" className="flex items-center gap-2 font-bold">
+                    <img src={logo} alt="" className="h-8 w-8" />
+                    VibeScribe
+                </a>
+                {state.status === 'ready' && (
+                    <button
+                        onClick={handleDownloadPdf}
+                        disabled={isGeneratingPdf}
+                        className="rounded-xl border border-emerald-700 bg-gray-900 px-4 py-2 text-sm font-semibold text-emerald-300
+                            hover:bg-gray-800 hover:border-emerald-500 transition disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        {isGeneratingPdf ? 'Generating…' : 'Download PDF'}
+                    </button>
+                )}
+            </header>
+
+            <main className="flex-1 w-full max-w-3xl mx-auto px-4 py-10">
+                {state.status === 'loading' && <p className="text-center text-white/60">Loading note…</p>}
+
+                {state.status === 'error' && (
+                    <div className="rounded-3xl border border-gray-800 bg-gray-950 px-6 py-10 text-center">
+                        <p className="font-semibold text-lg">Can't open this note</p>
+                        <p className="mt-2 text-white/60">{state.error}</p>
+                    </div>
+                )}
+
+                {state.status === 'password' && (
+                    <form
+                        onSubmit={handleUnlock}
+                        className="mx-auto max-w-sm rounded-3xl border border-gray-800 bg-gray-950 px-6 py-8"
+                    >
+                        <p className="font-semibold text-lg">This note is password-protected</p>
+                        <p className="mt-1 text-sm text-white/60">Enter the password you were given with the link.</p>
+                        <input
+                            type="password"
+                            value={password}
+                            onChange={(e) => setPassword(e.target.value)}
+                            autoFocus
+                            aria-label="Password"
+                            className="mt-4 w-full rounded-xl border border-gray-700 bg-gray-900 px-3 py-2 text-white
+                                focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                        />
+                        {state.error && <p className="mt-2 text-sm text-red-400">{state.error}</p>}
+                        <button
+                            type="submit"
+                            disabled={!password || isUnlocking}
+                            className="mt-4 w-full rounded-xl bg-emerald-400 px-4 py-2 font-semibold text-black hover:brightness-110 transition
+                                disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            {isUnlocking ? 'Opening…' : 'Open note'}
+                        </button>
+                    </form>
+                )}
+
+                {state.status === 'ready' && (
+                    <article>
+                        {/* The title usually repeats the note's first heading, so it's only shown as a caption */}
+                        <p className="mb-8 text-sm text-white/50">
+                            {state.doc.title || 'Untitled'} • Shared read-only • Last updated {new Date(state.doc.updatedAt).toLocaleString()}
+                        </p>
+                        {/* Sanitized by renderNoteHtml */}
+                        <div className="shared-note" dangerouslySetInnerHTML={{ __html: state.html }} />
+                    </article>
+                )}
+            </main>
+        </div>
+    );
+}
@@ -0,0 +1,66 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { User } from 'firebase/auth';
+import {
+    getCommentThreads, createCommentThread, replyToCommentThread, setCommentThreadResolved, deleteCommentThread, deleteComment,
+    type CommentAnchor, type CommentThread
+} from '../api/auth';
+
+/**
+ * Hook to load and edit the comment threads of a note (`documentId`, or null for notes not on the server).
+ * The mutators throw on failure so callers can surface the server's error message.
+ */
+export function useCommentThreads(user: User | null, documentId: string | null) {
+    const [threads, setThreads] = useState<CommentThread[]>([]);
+    const [loadFailed, setLoadFailed] = useState(false);
+
+    useEffect(() => {
+        let cancelled = false;
+        const load = async () => {
+            setThreads([]);
+            setLoadFailed(false);
+            if (!user || !documentId) return;
+            try {
+                const response = await getCommentThreads(documentId, await user.getIdToken());
+                if (!cancelled) setThreads(response.data);
+            } catch (err) {
+                console.error('Failed to fetch comments:', err);
+                if (!cancelled) setLoadFailed(true);
+            }
+        };
+        load();
+        return () => {
+            cancelled = true;
+        };
+    }, [user, documentId]);
+
+    const replaceThread = (thread: CommentThread) =>
+        setThreads((prev) => prev.map((t) => (t.id === thread.id ? thread : t)));
+
+    const addThread = useCallback(async (anchor: CommentAnchor, body: string) => {
+        const response = await createCommentThread(documentId!, anchor, body, await user!.getIdToken());
+        setThreads((prev) => [...prev, response.data]);
+        return response.data;
+    }, [user, documentId]);
+
+    const reply = useCallback(async (threadId: string, body: string) => {
+        const response = await replyToCommentThread(documentId!, threadId, body, await user!.getIdToken());
+        replaceThread(response.data);
+    }, [user, documentId]);
+
+    const setResolved = useCallback(async (threadId: string, resolved: boolean) => {
+        const response = await setCommentThreadResolved(documentId!, threadId, resolved, await user!.getIdToken());
+        replaceThread(response.data);
+    }, [user, documentId]);
+
+    const removeThread = useCallback(async (threadId: string) => {
+        await deleteCommentThread(documentId!, threadId, await user!.getIdToken());
+        setThreads((prev) => prev.filter((t) => t.id !== threadId));
+    }, [user, documentId]);
+
+    const removeReply = useCallback(async (threadId: string, commentId: string) => {
+        const response = await deleteComment(documentId!, threadId, commentId, await user!.getIdToken());
+        replaceThread(response.data);
+    }, [user, documentId]);
+
+    return { threads, loadFailed, addThread, reply, setResolved, removeThread, removeReply };
+}
@@ -0,0 +1,79 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { User } from 'firebase/auth';
+import {
+    getFolders, getTags, createFolder, updateFolder, deleteFolder, createTag, deleteTag,
+    type Folder, type Tag
+} from '../api/auth';
+
+// Ids of `folderId` and every folder nested below it
+export function folderSubtreeIds(folders: Folder[], folderId: string) {
+    const ids = [folderId];
+    for (let i = 0; i < ids.length; i++) {
+        ids.push(...folders.filter((f) => f.parentId === ids[i]).map((f) => f.id));
+    }
+    return ids;
+}
+
+/**
+ * Hook to load and edit the user's folders and tags.
+ * The mutators throw on failure so callers can surface the server's error message.
+ */
+export function useFoldersAndTags(user: User | null) {
+    const [folders, setFolders] = useState<Folder[]>([]);
+    const [tags, setTags] = useState<Tag[]>([]);
+    // Bumped to fetch everything again after changes made elsewhere (e.g. an import creating folders)
+    const [reloadKey, setReloadKey] = useState(0);
+
+    useEffect(() => {
+        const load = async () => {
+            if (!user) {
+                setFolders([]);
+                setTags([]);
+                return;
+            }
+            try {
+                const token = await user.getIdToken();
+                const [folderResponse, tagResponse] = await Promise.all([getFolders(token), getTags(token)]);
+                setFolders(folderResponse.data);
+                setTags(tagResponse.data);
+            } catch (err) {
+                console.error('Failed to fetch folders and tags:', err);
+            }
+        };
+        load();
+    }, [user, reloadKey]);
+
+    const reload = useCallback(() => setReloadKey((key) => key + 1), []);
+
+    const addFolder = useCallback(async (name: string, parentId: string | null) => {
+        const response = await createFolder(name, parentId, await user!.getIdToken());
+        setFolders((prev) => [...prev, response.data].sort((a, b) => a.name.localeCompare(b.name)));
+        return response.data;
+    }, [user]);
+
+    const renameFolder = useCallback(async (id: string, name: string) => {
+        const response = await updateFolder(id, { name }, await user!.getIdToken());
+        setFolders((prev) => prev.map((f) => (f.id === id ? response.data : f)).sort((a, b) => a.name.localeCompare(b.name)));
+    }, [user]);
+
+    // Returns the ids of the removed folders (the folder and its subfolders)
+    const removeFolder = useCallback(async (id: string) => {
+        await deleteFolder(id, await user!.getIdToken());
+        const removed = folderSubtreeIds(folders, id);
+        setFolders((prev) => prev.filter((f) => !removed.includes(f.id)));
+        return removed;
+    }, [user, folders]);
+
+    const addTag = useCallback(async (name: string, color: string | null) => {
+        const response = await createTag(name, color, await user!.getIdToken());
+        setTags((prev) => [...prev, response.data].sort((a, b) => a.name.localeCompare(b.name)));
+        return response.data;
+    }, [user]);
+
+    const removeTag = useCallback(async (id: string) => {
+        await deleteTag(id, await user!.getIdToken());
+        setTags((prev) => prev.filter((t) => t.id !== id));
+    }, [user]);
+
+    return { folders, tags, reload, addFolder, renameFolder, removeFolder, addTag, removeTag };
+}
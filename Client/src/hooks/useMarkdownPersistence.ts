@@ -1,36 +1,29 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
+import { readDraft, writeDraft } from '../utils/drafts';
 
-const STORAGE_KEY = 'vibescribe-markdown-content';
 const DEFAULT_MARKDOWN = '# Welcome to VibeScribe\n\nStart typing your notes here...\n\n## Features\n- **Rich text editing** with Markdown support\n- Real-time preview\n- Export to PDF\n';
 const SAVE_DELAY = 500; // ms
 
 /**
- * Hook to persist markdown content to localStorage with debounced saving.
- * Returns the current markdown and a function to update it.
+ * Hook to persist markdown content to a per-note localStorage draft with debounced saving.
+ * Returns the current markdown, a function to update it, and one to replace it without
+ * writing a draft (for content loaded from the server).
  */
-export function useMarkdownPersistence(): [string, (value: string) => void] {
-    const [markdown, setMarkdown] = useState<string>(() => {
-        try {
-            const saved = localStorage.getItem(STORAGE_KEY);
-            return saved ?? DEFAULT_MARKDOWN;
-        } catch {
-            return DEFAULT_MARKDOWN;
-        }
-    });
+export function useMarkdownPersistence(draftKey: string): [string, (value: string) => void, (value: string) => void] {
+    const [markdown, setMarkdown] = useState<string>(() => readDraft(draftKey)?.markdown ?? DEFAULT_MARKDOWN);
 
     const saveTimerRef = useRef<number | undefined>(undefined);
+    const pendingRef = useRef<string | null>(null);
 
     // Debounced save to localStorage
     const saveToStorage = useCallback((value: string) => {
+        pendingRef.current = value;
         clearTimeout(saveTimerRef.current);
         saveTimerRef.current = window.setTimeout(() => {
-            try {
-                localStorage.setItem(STORAGE_KEY, value);
-            } catch (e) {
-                console.warn('Failed to save markdown to localStorage:', e);
-            }
+            pendingRef.current = null;
+            writeDraft(draftKey, value);
         }, SAVE_DELAY);
-    }, []);
+    }, [draftKey]);
 
     // Update both state and trigger debounced save
     const updateMarkdown = useCallback(
@@ -41,12 +34,19 @@ export function useMarkdownPersistence(): [string, (value: string) => void] {
         [saveToStorage]
     );
 
-    // Cleanup timer on unmount
+    const replaceMarkdown = useCallback((value: string) => {
+        clearTimeout(saveTimerRef.current);
+        pendingRef.current = null;
+        setMarkdown(value);
+    }, []);
+
+    // Write any pending change on unmount (e.g. when switching notes) instead of dropping it
     useEffect(() => {
         return () => {
             clearTimeout(saveTimerRef.current);
+            if (pendingRef.current !== null) writeDraft(draftKey, pendingRef.current);
         };
-    }, []);
+    }, [draftKey]);
 
-    return [markdown, updateMarkdown];
+    return [markdown, updateMarkdown, replaceMarkdown];
 }
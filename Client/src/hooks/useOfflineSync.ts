@@ -0,0 +1,135 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { isAxiosError } from 'axios';
+import type { User } from 'firebase/auth';
+import {
+    createDocument, updateDocument, deleteDocument, type DocumentConflict, type DocumentResponse
+} from '../api/auth';
+import {
+    completeQueuedOperation, enqueueOperation, listQueuedOperations,
+    type PendingOperation, type QueuedOperation
+} from '../utils/offlineStore';
+
+// True when a request failed for lack of a connection rather than being refused by the server
+export function isNetworkError(err: unknown) {
+    if (!navigator.onLine) return true;
+    if (isAxiosError(err)) return !err.response;
+    return (err as { code?: string } | null)?.code === 'auth/network-request-failed';
+}
+
+export interface OfflineSyncHandlers {
+    // A note created offline now exists on the server under `doc.id`
+    onCreated: (localId: string, doc: DocumentResponse) => void;
+    onUpdated: (doc: DocumentResponse) => void;
+    // An offline edit clashes with a change made elsewhere. Replay pauses until `sync` is called again.
+    onConflict: (op: QueuedOperation & { type: 'update' }, current: DocumentResponse) => void;
+}
+
+/**
+ * Hook to queue note changes made while offline and replay them, in order, once the
+ * connection is back. Returns the connection state, the ids of notes with queued
+ * changes, `enqueue` to queue a change, and `sync` to replay the queue now.
+ */
+export function useOfflineSync(user: User | null, handlers: OfflineSyncHandlers) {
+    const [online, setOnline] = useState(() => navigator.onLine);
+    const [pendingIds, setPendingIds] = useState<Set<string>>(new Set());
+    const [isSyncing, setIsSyncing] = useState(false);
+    const syncingRef = useRef(false);
+    const handlersRef = useRef(handlers);
+
+    useEffect(() => {
+        handlersRef.current = handlers;
+    }, [handlers]);
+
+    const refreshPending = useCallback(async () => {
+        if (!user) return;
+        try {
+            const queued = await listQueuedOperations(user.uid);
+            setPendingIds(new Set(queued.map((op) => op.id)));
+        } catch (err) {
+            console.error('Failed to read the offline queue:', err);
+        }
+    }, [user]);
+
+    const enqueue = useCallback(async (op: PendingOperation) => {
+        await enqueueOperation(user!.uid, op);
+        await refreshPending();
+    }, [user, refreshPending]);
+
+    const sync = useCallback(async () => {
+        if (!user || syncingRef.current || !navigator.onLine) return;
+
+        syncingRef.current = true;
+        setIsSyncing(true);
+        try {
+            for (;;) {
+                const [op] = await listQueuedOperations(user.uid);
+                if (!op) break;
+
+                try {
+                    const token = await user.getIdToken();
+                    if (op.type === 'create') {
+                        const response = await createDocument(op.markdown, token);
+                        await completeQueuedOperation(user.uid, op, response.data);
+                        handlersRef.current.onCreated(op.id, response.data);
+                    } else if (op.type === 'update') {
+                        const response = await updateDocument(op.id, op.markdown, token, op.baseVersion);
+                        await completeQueuedOperation(user.uid, op, response.data);
+                        handlersRef.current.onUpdated(response.data);
+                    } else {
+                        await deleteDocument(op.id, token);
+                        await completeQueuedOperation(user.uid, op);
+                    }
+                } catch (err) {
+                    // Still offline (or offline again): keep the change for the next attempt
+                    if (isNetworkError(err)) break;
+
+                    if (op.type === 'update' && isAxiosError<DocumentConflict>(err)
+                        && err.response?.status === 409 && err.response.data.current) {
+                        await completeQueuedOperation(user.uid, op);
+                        handlersRef.current.onConflict(op, err.response.data.current);
+                        break;
+                    }
+                    // Refused by the server (e.g. the note was deleted elsewhere); drop it so it can't block the queue
+                    console.error('Dropping offline change that failed to sync:', op, err);
+                    await completeQueuedOperation(user.uid, op);
+                } finally {
+                    await refreshPending();
+                }
+            }
+        } catch (err) {
+            console.error('Offline sync failed:', err);
+        } finally {
+            syncingRef.current = false;
+            setIsSyncing(false);
+        }
+    }, [user, refreshPending]);
+
+    // Replay queued changes on sign-in and whenever the connection comes back
+    useEffect(() => {
+        const load = async () => {
+            if (!user) {
+                setPendingIds(new Set());
+                return;
+            }
+            await refreshPending();
+            await sync();
+        };
+        load();
+    }, [user, refreshPending, sync]);
+
+    useEffect(() => {
+        const handleOnline = () => {
+            setOnline(true);
+            sync();
+        };
+        const handleOffline = () => setOnline(false);
+        window.addEventListener('online', handleOnline);
+        window.addEventListener('offline', handleOffline);
+        return () => {
+            window.removeEventListener('online', handleOnline);
+            window.removeEventListener('offline', handleOffline);
+        };
+    }, [sync]);
+
+    return { online, pendingIds, isSyncing, enqueue, sync };
+}
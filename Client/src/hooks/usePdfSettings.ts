@@ -0,0 +1,67 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { User } from 'firebase/auth';
+import { getPdfSettings, savePdfSettings } from '../api/auth';
+import { normalizePdfOptions, type PdfOptions } from '../utils/pdfOptions';
+
+// Local copy of the settings, per user, so they apply before (or without) the server answering
+const STORAGE_PREFIX = 'vibescribe-pdf-settings:';
+const GUEST_KEY = 'guest';
+
+function readLocalSettings(key: string): PdfOptions {
+    try {
+        const saved = localStorage.getItem(STORAGE_PREFIX + key);
+        return normalizePdfOptions(saved ? JSON.parse(saved) : null);
+    } catch {
+        return normalizePdfOptions(null);
+    }
+}
+
+function writeLocalSettings(key: string, settings: PdfOptions) {
+    try {
+        localStorage.setItem(STORAGE_PREFIX + key, JSON.stringify(settings));
+    } catch (e) {
+        console.warn('Failed to save PDF settings to localStorage:', e);
+    }
+}
+
+/**
+ * Hook to load and save the user's PDF export settings.
+ * Signed-in users' settings are stored on the server so they follow them across devices;
+ * guests' settings stay in this browser.
+ */
+export function usePdfSettings(user: User | null) {
+    const [settings, setSettings] = useState<PdfOptions>(() => readLocalSettings(GUEST_KEY));
+
+    useEffect(() => {
+        const load = async () => {
+            const key = user?.uid ?? GUEST_KEY;
+            setSettings(readLocalSettings(key));
+            if (!user) return;
+
+            try {
+                const response = await getPdfSettings(await user.getIdToken());
+                if (response.data === null) return;
+                const stored = normalizePdfOptions(response.data);
+                setSettings(stored);
+                writeLocalSettings(key, stored);
+            } catch (err) {
+                console.error('Failed to fetch PDF settings:', err);
+            }
+        };
+        load();
+    }, [user]);
+
+    const saveSettings = useCallback(async (next: PdfOptions) => {
+        setSettings(next);
+        writeLocalSettings(user?.uid ?? GUEST_KEY, next);
+        if (!user) return;
+
+        try {
+            await savePdfSettings(next, await user.getIdToken());
+        } catch (err) {
+            console.error('Failed to save PDF settings:', err);
+        }
+    }, [user]);
+
+    return { settings, saveSettings };
+}
@@ -0,0 +1,107 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { User } from 'firebase/auth';
+import { getScanJob, getScanJobs, subscribeToScanJob, type ScanJob } from '../api/auth';
+
+const POLL_INTERVAL = 3000; // ms, used when the event stream is unavailable
+
+export function isScanJobFinished(job: ScanJob) {
+    return job.status === 'SUCCEEDED' || job.status === 'FAILED';
+}
+
+/**
+ * Hook to follow the user's scan jobs until they finish.
+ * Each job is followed over its event stream (falling back to polling) and
+ * `onJobFinished` is called once per job. Failed jobs stay listed until dismissed.
+ */
+export function useScanJobs(user: User | null, onJobFinished: (job: ScanJob) => void) {
+    const [jobs, setJobs] = useState<ScanJob[]>([]);
+    const controllersRef = useRef(new Map<string, AbortController>());
+    const onJobFinishedRef = useRef(onJobFinished);
+
+    useEffect(() => {
+        onJobFinishedRef.current = onJobFinished;
+    }, [onJobFinished]);
+
+    const applyUpdate = useCallback((job: ScanJob) => {
+        setJobs((prev) => {
+            if (job.status === 'SUCCEEDED') return prev.filter((j) => j.id !== job.id);
+            return prev.some((j) => j.id === job.id)
+                ? prev.map((j) => (j.id === job.id ? job : j))
+                : [job, ...prev];
+        });
+    }, []);
+
+    const trackJob = useCallback((job: ScanJob) => {
+        if (!user || controllersRef.current.has(job.id)) return;
+
+        const controller = new AbortController();
+        controllersRef.current.set(job.id, controller);
+        applyUpdate(job);
+
+        let latest = job;
+        const onProgress = (update: ScanJob) => {
+            latest = update;
+            applyUpdate(update);
+        };
+
+        const follow = async () => {
+            try {
+                const token = await user.getIdToken();
+                await subscribeToScanJob(job.id, token, onProgress, controller.signal);
+            } catch (err) {
+                if (controller.signal.aborted) return;
+                console.warn('Scan job stream failed, polling instead:', err);
+            }
+
+            // Poll if the stream failed or closed before the job finished
+            while (!isScanJobFinished(latest) && !controller.signal.aborted) {
+                await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL));
+                try {
+                    const token = await user.getIdToken();
+                    const response = await getScanJob(job.id, token);
+                    onProgress(response.data);
+                } catch (err) {
+                    console.warn('Failed to poll scan job:', err);
+                }
+            }
+
+            if (controller.signal.aborted) return;
+            controllersRef.current.delete(job.id);
+            onJobFinishedRef.current(latest);
+        };
+
+        follow();
+    }, [user, applyUpdate]);
+
+    const dismissJob = useCallback((jobId: string) => {
+        setJobs((prev) => prev.filter((j) => j.id !== jobId));
+    }, []);
+
+    // Resume following jobs that were still running when the page was last closed
+    useEffect(() => {
+        if (!user) return;
+
+        const controllers = controllersRef.current;
+        let cancelled = false;
+
+        const loadActiveJobs = async () => {
+            try {
+                const token = await user.getIdToken();
+                const response = await getScanJobs(token, true);
+                if (!cancelled) response.data.forEach(trackJob);
+            } catch (err) {
+                console.error('Failed to fetch scan jobs:', err);
+            }
+        };
+        loadActiveJobs();
+
+        return () => {
+            cancelled = true;
+            controllers.forEach((controller) => controller.abort());
+            controllers.clear();
+            setJobs([]);
+        };
+    }, [user, trackJob]);
+
+    return { jobs, trackJob, dismissJob };
+}
@@ -3,6 +3,7 @@ import { createRoot } from 'react-dom/client'
 import './index.css'
 import MainPage from "./components/main/MainPage.tsx";
 import LoginPage from "./components/login/LoginPage.tsx";
+import SharedNotePage from "./components/shared/SharedNotePage.tsx";
 import { AuthProvider, useAuth } from "./context/AuthContext.tsx";
 
 function AppRouter() {
@@ -18,7 +19,12 @@ function AppRouter() {
   return <MainPage onLoginRequest={() => setShowLogin(true)} />;
 }
 
+// Share links (/s/<token>) open a read-only view of one note that doesn't need an account
+const shareToken = window.location.pathname.match(/^\/s\/([^/]+)\/?$/)?.[1];
+
 function App() {
+  if (shareToken) return <SharedNotePage token={decodeURIComponent(shareToken)} />;
+
   return (
     <AuthProvider>
       <AppRouter />
@@ -26,6 +32,14 @@ function App() {
   );
 }
 
+// Cache the app shell so the app loads offline (the dev server always serves fresh files)
+if (import.meta.env.PROD && 'serviceWorker' in navigator) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js')
+      .catch((err) => console.error('Service worker registration failed:', err));
+  });
+}
+
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <App />
@@ -0,0 +1,140 @@
+export type CodeTokenType = 'plain' | 'keyword' | 'string' | 'comment' | 'number';
+
+export interface CodeToken {
+    type: CodeTokenType;
+    text: string;
+}
+
+// Color of each token type as RGB (GitHub's light theme)
+export const CODE_TOKEN_COLORS: Record<CodeTokenType, [number, number, number]> = {
+    plain: [36, 41, 47],
+    keyword: [207, 34, 46],
+    string: [10, 48, 105],
+    comment: [110, 119, 129],
+    number: [5, 80, 174],
+};
+
+interface LanguageSyntax {
+    keywords: string[];
+    lineComment?: string;
+    blockComment?: [string, string];
+    // Quote characters that delimit strings
+    quotes: string;
+}
+
+const C_LIKE_COMMENTS = { lineComment: '//', blockComment: ['/*', '*/'] as [string, string] };
+
+const JS_KEYWORDS = ['async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'default', 'delete',
+    'do', 'else', 'export', 'extends', 'false', 'finally', 'for', 'from', 'function', 'if', 'import', 'in',
+    'instanceof', 'let', 'new', 'null', 'of', 'return', 'static', 'super', 'switch', 'this', 'throw', 'true', 'try',
+    'typeof', 'undefined', 'var', 'void', 'while', 'yield'];
+
+const SYNTAXES: Record<string, LanguageSyntax> = {
+    js: { ...C_LIKE_COMMENTS, quotes: '\'"`', keywords: JS_KEYWORDS },
+    ts: {
+        ...C_LIKE_COMMENTS, quotes: '\'"`',
+        keywords: [...JS_KEYWORDS, 'as', 'enum', 'implements', 'interface', 'keyof', 'namespace', 'private',
+            'protected', 'public', 'readonly', 'type'],
+    },
+    python: {
+        lineComment: '#', quotes: '\'"',
+        keywords: ['and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue', 'def', 'del', 'elif', 'else',
+            'except', 'False', 'finally', 'for', 'from', 'global', 'if', 'import', 'in', 'is', 'lambda', 'None',
+            'nonlocal', 'not', 'or', 'pass', 'raise', 'return', 'True', 'try', 'while', 'with', 'yield'],
+    },
+    c: {
+        ...C_LIKE_COMMENTS, quotes: '\'"',
+        keywords: ['auto', 'bool', 'break', 'case', 'char', 'class', 'const', 'continue', 'default', 'delete', 'do',
+            'double', 'else', 'enum', 'extends', 'false', 'final', 'float', 'for', 'if', 'implements', 'import',
+            'include', 'int', 'interface', 'long', 'namespace', 'new', 'null', 'nullptr', 'package', 'private',
+            'protected', 'public', 'return', 'short', 'static', 'string', 'struct', 'switch', 'template', 'this',
+            'throw', 'throws', 'true', 'try', 'catch', 'typedef', 'unsigned', 'using', 'var', 'virtual', 'void',
+            'while'],
+    },
+    go: {
+        ...C_LIKE_COMMENTS, quotes: '\'"`',
+        keywords: ['break', 'case', 'chan', 'const', 'continue', 'default', 'defer', 'else', 'false', 'for', 'func',
+            'go', 'if', 'import', 'interface', 'map', 'nil', 'package', 'range', 'return', 'select', 'struct',
+            'switch', 'true', 'type', 'var'],
+    },
+    rust: {
+        ...C_LIKE_COMMENTS, quotes: '"',
+        keywords: ['as', 'async', 'await', 'break', 'const', 'continue', 'crate', 'else', 'enum', 'false', 'fn', 'for',
+            'if', 'impl', 'in', 'let', 'loop', 'match', 'mod', 'move', 'mut', 'pub', 'ref', 'return', 'self', 'Self',
+            'static', 'struct', 'trait', 'true', 'type', 'use', 'where', 'while'],
+    },
+    sql: {
+        lineComment: '--', blockComment: ['/*', '*/'], quotes: '\'"',
+        keywords: ['and', 'as', 'asc', 'by', 'create', 'delete', 'desc', 'distinct', 'drop', 'from', 'group', 'having',
+            'insert', 'into', 'is', 'join', 'left', 'limit', 'not', 'null', 'on', 'or', 'order', 'right', 'select',
+            'set', 'table', 'union', 'update', 'values', 'where'],
+    },
+    shell: {
+        lineComment: '#', quotes: '\'"',
+        keywords: ['case', 'do', 'done', 'echo', 'elif', 'else', 'esac', 'export', 'fi', 'for', 'function', 'if', 'in',
+            'local', 'return', 'then', 'while'],
+    },
+};
+
+// Fence info strings (```lang) that share one of the syntaxes above
+const ALIASES: Record<string, string> = {
+    javascript: 'js', jsx: 'js', mjs: 'js', typescript: 'ts', tsx: 'ts', py: 'python',
+    cpp: 'c', 'c++': 'c', h: 'c', java: 'c', cs: 'c', csharp: 'c', kotlin: 'c', swift: 'c', dart: 'c',
+    golang: 'go', rs: 'rust', postgres: 'sql', postgresql: 'sql', mysql: 'sql',
+    sh: 'shell', bash: 'shell', zsh: 'shell', json: 'js',
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Tokenizer for one language: comments, strings, numbers and words, tried in that order at each position
+function tokenPattern(syntax: LanguageSyntax) {
+    const parts: string[] = [];
+    if (syntax.blockComment) {
+        const [open, close] = syntax.blockComment.map(escapeRegExp);
+        parts.push(`(?<comment>${open}[\\s\\S]*?(?:${close}|$)${syntax.lineComment ? `|${escapeRegExp(syntax.lineComment)}.*` : ''})`);
+    } else if (syntax.lineComment) {
+        parts.push(`(?<comment>${escapeRegExp(syntax.lineComment)}.*)`);
+    }
+    const strings = syntax.quotes.split('').map((q) => `${escapeRegExp(q)}(?:\\\\.|(?!${escapeRegExp(q)}).)*(?:${escapeRegExp(q)}|$)`);
+    parts.push(`(?<string>${strings.join('|')})`);
+    parts.push('(?<number>\\b\\d[\\d_]*(?:\\.\\d+)?(?:[eE][+-]?\\d+)?\\b|\\b0x[\\da-fA-F]+\\b)');
+    parts.push('(?<word>[A-Za-z_$][\\w$]*)');
+    return new RegExp(parts.join('|'), 'g');
+}
+
+/**
+ * Splits a code block into lines of colored tokens. Languages without a syntax here
+ * (or no language at all) come back as plain text. Block comments are only recognized
+ * within a line, which is good enough for printing.
+ */
+export function highlightCode(code: string, language: string | null): CodeToken[][] {
+    const key = language ? (ALIASES[language.toLowerCase()] ?? language.toLowerCase()) : '';
+    const syntax = SYNTAXES[key];
+    const lines = code.split('\n');
+    if (!syntax) return lines.map((line) => [{ type: 'plain', text: line }]);
+
+    const pattern = tokenPattern(syntax);
+    const keywords = new Set(key === 'sql' ? syntax.keywords.flatMap((k) => [k, k.toUpperCase()]) : syntax.keywords);
+
+    return lines.map((line) => {
+        const tokens: CodeToken[] = [];
+        const push = (type: CodeTokenType, text: string) => {
+            const last = tokens[tokens.length - 1];
+            if (last?.type === type) last.text += text;
+            else if (text) tokens.push({ type, text });
+        };
+
+        let index = 0;
+        for (const match of line.matchAll(pattern)) {
+            push('plain', line.slice(index, match.index));
+            const groups = match.groups!;
+            if (groups.comment !== undefined) push('comment', match[0]);
+            else if (groups.string !== undefined) push('string', match[0]);
+            else if (groups.number !== undefined) push('number', match[0]);
+            else push(keywords.has(match[0]) ? 'keyword' : 'plain', match[0]);
+            index = match.index + match[0].length;
+        }
+        push('plain', line.slice(index));
+        return tokens;
+    });
+}
@@ -0,0 +1,155 @@
+import * as Y from 'yjs';
+import { WebsocketProvider } from 'y-websocket';
+import * as encoding from 'lib0/encoding';
+import * as decoding from 'lib0/decoding';
+import type { Crepe } from '@milkdown/crepe';
+import { collabServiceCtx } from '@milkdown/plugin-collab';
+
+// Our messages on top of the y-websocket protocol (see the server's collabService)
+const MESSAGE_SEED = 100;
+const MESSAGE_SNAPSHOT = 101;
+const MESSAGE_SAVED = 102;
+
+// The server closes with this code when the note was changed outside the session
+const CLOSE_RESET = 4409;
+
+// Markdown snapshots are sent once typing pauses for this long; the server saves them every few seconds
+const SNAPSHOT_DELAY = 1000;
+
+const CURSOR_COLORS = ['#f87171', '#fb923c', '#facc15', '#4ade80', '#2dd4bf', '#60a5fa', '#a78bfa', '#f472b6'];
+
+export type CollabStatus = 'connecting' | 'connected' | 'disconnected';
+
+// Someone else in the session, as shown in the presence avatars and next to their cursor
+export interface CollabPeer {
+    clientId: number;
+    name: string;
+    color: string;
+    photo: string | null;
+}
+
+export interface CollabSaved {
+    version: number;
+    markdown: string;
+    title: string;
+}
+
+export interface CollabOptions {
+    documentId: string;
+    getToken: () => Promise<string>;
+    user: { name: string; photo: string | null };
+    onStatus: (status: CollabStatus) => void;
+    // The server saved the session's content as a new version of the note
+    onSaved: (saved: CollabSaved) => void;
+    // The note was changed outside the session (e.g. a revision was restored); it has to be reopened
+    onReset: () => void;
+    onPeers: (peers: CollabPeer[]) => void;
+}
+
+export interface CollabSession {
+    // Hands the editor's current content to the server to save
+    sendSnapshot: (markdown: string) => void;
+    destroy: () => void;
+}
+
+// `ws://…/api/documents` for the API at `http://…/api`
+const collabServerUrl = () =>
+    `${(import.meta.env.VITE_API_BASE_URL || 'http://localhost:6300/api').replace(/^http/, 'ws')}/documents`;
+
+const readJson = <T>(decoder: decoding.Decoder): T => JSON.parse(decoding.readVarString(decoder));
+
+/**
+ * Joins the live editing session of a note with a Crepe editor that was created with the `collab` plugin.
+ * The first editor in a new session fills the shared document with the saved content when the server asks for it.
+ */
+export async function startCollaboration(crepe: Crepe, options: CollabOptions): Promise<CollabSession> {
+    const doc = new Y.Doc();
+    const provider = new WebsocketProvider(collabServerUrl(), `${encodeURIComponent(options.documentId)}/collab`, doc, {
+        params: { token: await options.getToken() },
+        // Tabs of the same browser go through the server too, so every edit is saved
+        disableBc: true,
+    });
+    const collabService = crepe.editor.ctx.get(collabServiceCtx);
+
+    let seed: string | null = null;
+    let connected = false;
+    // The provider still reports the closing connection after it's destroyed; the editor has moved on by then
+    let destroyed = false;
+    const applySeed = () => {
+        if (seed === null || !connected) return;
+        collabService.applyTemplate(seed);
+        seed = null;
+    };
+
+    provider.messageHandlers[MESSAGE_SEED] = (_encoder, decoder) => {
+        seed = readJson<{ markdown: string }>(decoder).markdown;
+        applySeed();
+    };
+    provider.messageHandlers[MESSAGE_SAVED] = (_encoder, decoder) => options.onSaved(readJson<CollabSaved>(decoder));
+
+    collabService.bindDoc(doc).setAwareness(provider.awareness);
+    provider.once('sync', () => {
+        collabService.connect();
+        connected = true;
+        applySeed();
+    });
+
+    provider.on('status', ({ status }) => !destroyed && options.onStatus(status));
+    // Reconnect with a fresh token; ID tokens expire after an hour
+    provider.on('connection-close', () => {
+        options.getToken()
+            .then((token) => { provider.params.token = token; })
+            .catch((err) => console.error("Failed to refresh the collaboration token:", err));
+    });
+    provider.on('closed', ({ code }) => {
+        if (destroyed) return;
+        if (code === CLOSE_RESET) options.onReset();
+        else options.onStatus('disconnected');
+    });
+
+    const awareness = provider.awareness;
+    awareness.setLocalStateField('user', {
+        name: options.user.name,
+        color: CURSOR_COLORS[doc.clientID % CURSOR_COLORS.length],
+        photo: options.user.photo,
+    });
+    const handleAwarenessChange = () => {
+        const peers: CollabPeer[] = [];
+        awareness.getStates().forEach((state, clientId) => {
+            if (clientId !== doc.clientID && state.user) peers.push({ clientId, ...state.user });
+        });
+        options.onPeers(peers);
+    };
+    awareness.on('change', handleAwarenessChange);
+
+    let pendingSnapshot: string | null = null;
+    let snapshotTimer: number | undefined;
+    const flushSnapshot = () => {
+        window.clearTimeout(snapshotTimer);
+        const ws = provider.ws;
+        if (pendingSnapshot === null || !provider.wsconnected || !ws) return;
+
+        const encoder = encoding.createEncoder();
+        encoding.writeVarUint(encoder, MESSAGE_SNAPSHOT);
+        encoding.writeVarString(encoder, pendingSnapshot);
+        ws.send(encoding.toUint8Array(encoder));
+        pendingSnapshot = null;
+    };
+
+    return {
+        sendSnapshot: (markdown) => {
+            pendingSnapshot = markdown;
+            window.clearTimeout(snapshotTimer);
+            snapshotTimer = window.setTimeout(flushSnapshot, SNAPSHOT_DELAY);
+        },
+        destroy: () => {
+            // The server saves the last snapshot when the session ends
+            flushSnapshot();
+            destroyed = true;
+            awareness.off('change', handleAwarenessChange);
+            collabService.disconnect();
+            provider.destroy();
+            doc.destroy();
+        },
+    };
+}
@@ -0,0 +1,158 @@
+import { $prose } from '@milkdown/utils';
+import { Plugin, PluginKey, type EditorState } from '@milkdown/kit/prose/state';
+import { Decoration, DecorationSet, type EditorView } from '@milkdown/kit/prose/view';
+import type { Node } from '@milkdown/kit/prose/model';
+import type { CommentAnchor } from '../api/auth';
+
+// Characters of text kept on each side of a quote to find it again among repeated passages
+const CONTEXT_LENGTH = 32;
+
+// The document's text, with a line break between blocks, and the document position of every character
+interface DocText {
+    text: string;
+    positions: number[];
+}
+
+function docText(doc: Node): DocText {
+    let text = '';
+    const positions: number[] = [];
+    doc.descendants((node, pos) => {
+        if (node.isTextblock && text.length > 0) {
+            text += '\n';
+            positions.push(pos);
+        }
+        if (node.isText && node.text) {
+            text += node.text;
+            for (let i = 0; i < node.text.length; i++) positions.push(pos + i);
+        }
+    });
+    return { text, positions };
+}
+
+// Index of the first character at or after the document position `pos`
+function textIndex({ positions }: DocText, pos: number) {
+    let low = 0;
+    let high = positions.length;
+    while (low < high) {
+        const mid = (low + high) >> 1;
+        if (positions[mid] < pos) low = mid + 1;
+        else high = mid;
+    }
+    return low;
+}
+
+// Document range of the characters `start` to `end` (exclusive) of the text
+const rangeOf = ({ positions }: DocText, start: number, end: number) => ({ from: positions[start], to: positions[end - 1] + 1 });
+
+const commonSuffixLength = (a: string, b: string) => {
+    let n = 0;
+    while (n < a.length && n < b.length && a[a.length - 1 - n] === b[b.length - 1 - n]) n++;
+    return n;
+};
+
+const commonPrefixLength = (a: string, b: string) => {
+    let n = 0;
+    while (n < a.length && n < b.length && a[n] === b[n]) n++;
+    return n;
+};
+
+/** The anchor for the passage between the document positions `from` and `to`, or null if it has no text. */
+export function anchorFromRange(doc: Node, from: number, to: number): CommentAnchor | null {
+    const content = docText(doc);
+    const start = textIndex(content, from);
+    const end = textIndex(content, to);
+    const quote = content.text.slice(start, end);
+    if (!quote.trim()) return null;
+
+    return {
+        quote,
+        prefix: content.text.slice(Math.max(0, start - CONTEXT_LENGTH), start),
+        suffix: content.text.slice(end, end + CONTEXT_LENGTH),
+    };
+}
+
+/**
+ * Finds an anchored passage in the current content. Where the quote appears several times, the occurrence with the
+ * most matching text around it wins. If the quote itself was edited, the text between its unchanged surroundings is
+ * used. Returns null when the passage can't be found any more.
+ */
+function locateAnchor(content: DocText, anchor: CommentAnchor) {
+    const { text } = content;
+
+    let best: { start: number; score: number } | null = null;
+    for (let start = text.indexOf(anchor.quote); start !== -1; start = text.indexOf(anchor.quote, start + 1)) {
+        const end = start + anchor.quote.length;
+        const score = commonSuffixLength(text.slice(Math.max(0, start - anchor.prefix.length), start), anchor.prefix)
+            + commonPrefixLength(text.slice(end, end + anchor.suffix.length), anchor.suffix);
+        if (!best || score > best.score) best = { start, score };
+    }
+    if (best) return rangeOf(content, best.start, best.start + anchor.quote.length);
+
+    if (anchor.prefix.length < CONTEXT_LENGTH / 2 || anchor.suffix.length < CONTEXT_LENGTH / 2) return null;
+    const before = text.indexOf(anchor.prefix);
+    if (before === -1) return null;
+    const start = before + anchor.prefix.length;
+    const end = text.indexOf(anchor.suffix, start);
+    if (end === -1 || end === start || end - start > anchor.quote.length * 2 + CONTEXT_LENGTH) return null;
+    return rangeOf(content, start, end);
+}
+
+export interface CommentHighlight extends CommentAnchor {
+    id: string;
+}
+
+interface CommentHighlightState {
+    highlights: CommentHighlight[];
+    activeId: string | null;
+    decorations: DecorationSet;
+    // Highlights whose passage isn't in the content any more
+    detachedIds: string[];
+}
+
+const commentHighlightsKey = new PluginKey<CommentHighlightState>('comment-highlights');
+
+function decorate(doc: Node, highlights: CommentHighlight[], activeId: string | null) {
+    const content = docText(doc);
+    const decorations: Decoration[] = [];
+    const detachedIds: string[] = [];
+    for (const highlight of highlights) {
+        const range = locateAnchor(content, highlight);
+        if (!range) {
+            detachedIds.push(highlight.id);
+            continue;
+        }
+        decorations.push(Decoration.inline(range.from, range.to, {
+            class: highlight.id === activeId ? 'comment-highlight comment-highlight-active' : 'comment-highlight',
+            'data-comment-thread': highlight.id,
+        }));
+    }
+    return { decorations: DecorationSet.create(doc, decorations), detachedIds };
+}
+
+// Highlights the passages that comment threads are anchored to; set them with `setCommentHighlights`
+export const commentHighlightsPlugin = $prose(() => new Plugin<CommentHighlightState>({
+    key: commentHighlightsKey,
+    state: {
+        init: (_, state) => ({ highlights: [], activeId: null, decorations: DecorationSet.create(state.doc, []), detachedIds: [] }),
+        apply: (tr, value, _, newState) => {
+            const meta = tr.getMeta(commentHighlightsKey) as Pick<CommentHighlightState, 'highlights' | 'activeId'> | undefined;
+            if (meta) return { ...meta, ...decorate(newState.doc, meta.highlights, meta.activeId) };
+            if (!tr.docChanged) return value;
+            return { ...value, ...decorate(newState.doc, value.highlights, value.activeId) };
+        },
+    },
+    props: {
+        decorations: (state) => commentHighlightsKey.getState(state)?.decorations,
+    },
+}));
+
+export function setCommentHighlights(view: EditorView, highlights: CommentHighlight[], activeId: string | null) {
+    view.dispatch(view.state.tr.setMeta(commentHighlightsKey, { highlights, activeId }));
+}
+
+export const detachedCommentIds = (state: EditorState) => commentHighlightsKey.getState(state)?.detachedIds ?? [];
+
+// Scrolls the passage a thread is anchored to into view
+export function scrollToCommentHighlight(view: EditorView, threadId: string) {
+    view.dom.querySelector(`[data-comment-thread="${CSS.escape(threadId)}"]`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+}
@@ -0,0 +1,64 @@
+export type DiffLine = {
+    type: 'equal' | 'added' | 'removed';
+    text: string;
+};
+
+// Largest LCS table diffLines builds (4 bytes per cell), e.g. 2000 changed lines on each side
+const MAX_TABLE_CELLS = 4_000_000;
+
+/**
+ * Line-based diff of two texts using a longest-common-subsequence table.
+ * Common leading/trailing lines are stripped first so typical edits stay cheap.
+ * Returns null when the changed parts are too large to diff without using too much memory.
+ */
+export function diffLines(before: string, after: string): DiffLine[] | null {
+    const a = before.split('\n');
+    const b = after.split('\n');
+
+    let start = 0;
+    while (start < a.length && start < b.length && a[start] === b[start]) start++;
+
+    let endA = a.length;
+    let endB = b.length;
+    while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+        endA--;
+        endB--;
+    }
+
+    const midA = a.slice(start, endA);
+    const midB = b.slice(start, endB);
+    const n = midA.length;
+    const m = midB.length;
+    if ((n + 1) * (m + 1) > MAX_TABLE_CELLS) return null;
+
+    // lcs[i * (m + 1) + j] = LCS length of midA[i..] and midB[j..]
+    const lcs = new Uint32Array((n + 1) * (m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+        for (let j = m - 1; j >= 0; j--) {
+            lcs[i * (m + 1) + j] = midA[i] === midB[j]
+                ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+                : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+        }
+    }
+
+    const result: DiffLine[] = a.slice(0, start).map((text) => ({ type: 'equal', text }));
+
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+        if (midA[i] === midB[j]) {
+            result.push({ type: 'equal', text: midA[i] });
+            i++;
+            j++;
+        } else if (lcs[(i + 1) * (m + 1) + j] >= lcs[i * (m + 1) + j + 1]) {
+            result.push({ type: 'removed', text: midA[i++] });
+        } else {
+            result.push({ type: 'added', text: midB[j++] });
+        }
+    }
+    while (i < n) result.push({ type: 'removed', text: midA[i++] });
+    while (j < m) result.push({ type: 'added', text: midB[j++] });
+
+    a.slice(endA).forEach((text) => result.push({ type: 'equal', text }));
+    return result;
+}
@@ -0,0 +1,42 @@
+// Unsaved editor content, kept in localStorage per note so switching notes never mixes drafts
+const DRAFT_PREFIX = 'vibescribe-draft:';
+// Content of the single-key storage used before drafts were kept per note
+const LEGACY_STORAGE_KEY = 'vibescribe-markdown-content';
+
+// Draft key of a note that has not been saved to the server yet
+export const NEW_NOTE_DRAFT_KEY = 'new';
+
+export interface Draft {
+    markdown: string;
+    // ms since epoch of the last change
+    updatedAt: number;
+}
+
+export function readDraft(key: string): Draft | null {
+    try {
+        const saved = localStorage.getItem(DRAFT_PREFIX + key);
+        if (saved) return JSON.parse(saved) as Draft;
+
+        const legacy = key === NEW_NOTE_DRAFT_KEY ? localStorage.getItem(LEGACY_STORAGE_KEY) : null;
+        return legacy !== null ? { markdown: legacy, updatedAt: 0 } : null;
+    } catch {
+        return null;
+    }
+}
+
+export function writeDraft(key: string, markdown: string) {
+    try {
+        localStorage.setItem(DRAFT_PREFIX + key, JSON.stringify({ markdown, updatedAt: Date.now() } satisfies Draft));
+        if (key === NEW_NOTE_DRAFT_KEY) localStorage.removeItem(LEGACY_STORAGE_KEY);
+    } catch (e) {
+        console.warn('Failed to save draft to localStorage:', e);
+    }
+}
+
+export function clearDraft(key: string) {
+    try {
+        localStorage.removeItem(DRAFT_PREFIX + key);
+    } catch {
+        // Storage unavailable; nothing to clear
+    }
+}
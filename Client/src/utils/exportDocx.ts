@@ -0,0 +1,274 @@
+import type { List, Nodes, PhrasingContent, Root, RootContent, Table } from 'mdast';
+import { parseMarkdown } from './markdown';
+import { escapeXml, latexToOmml } from './omml';
+import { CODE_TOKEN_COLORS, highlightCode } from './codeHighlight';
+import { createZip } from './zip';
+
+const DOCX_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+const NAMESPACES = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" ' +
+    'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships" ' +
+    'xmlns:m="http://schemas.openxmlformats.org/officeDocument/2006/math"';
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+const CONTENT_TYPES = `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
+<Override PartName="/word/numbering.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml"/>
+<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>
+</Types>`;
+
+const PACKAGE_RELS = `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>
+</Relationships>`;
+
+// Heading sizes in half-points, h1-h6
+const HEADING_SIZES = [32, 28, 26, 24, 22, 22];
+
+const STYLES = `${XML_HEADER}<w:styles ${NAMESPACES}>
+<w:docDefaults>
+<w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:eastAsia="Calibri" w:cs="Calibri"/><w:sz w:val="22"/><w:szCs w:val="22"/></w:rPr></w:rPrDefault>
+<w:pPrDefault><w:pPr><w:spacing w:after="160" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault>
+</w:docDefaults>
+<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>
+<w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:spacing w:after="240"/></w:pPr><w:rPr><w:sz w:val="48"/><w:szCs w:val="48"/></w:rPr></w:style>
+${HEADING_SIZES.map((size, i) => `<w:style w:type="paragraph" w:styleId="Heading${i + 1}"><w:name w:val="heading ${i + 1}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:keepNext/><w:spacing w:before="${i < 2 ? 360 : 240}" w:after="120"/><w:outlineLvl w:val="${i}"/></w:pPr><w:rPr><w:b/><w:sz w:val="${size}"/><w:szCs w:val="${size}"/></w:rPr></w:style>`).join('\n')}
+<w:style w:type="paragraph" w:styleId="Quote"><w:name w:val="Quote"/><w:basedOn w:val="Normal"/><w:qFormat/><w:pPr><w:pBdr><w:left w:val="single" w:sz="18" w:space="8" w:color="D1D9E0"/></w:pBdr><w:ind w:left="360"/></w:pPr><w:rPr><w:i/><w:color w:val="59636E"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="CodeBlock"><w:name w:val="Code Block"/><w:basedOn w:val="Normal"/><w:pPr><w:shd w:val="clear" w:color="auto" w:fill="F6F8FA"/><w:spacing w:after="0" w:line="240" w:lineRule="auto"/></w:pPr><w:rPr><w:rFonts w:ascii="Consolas" w:hAnsi="Consolas" w:cs="Consolas"/><w:sz w:val="19"/><w:szCs w:val="19"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="FootnoteText"><w:name w:val="footnote text"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:after="60"/></w:pPr><w:rPr><w:sz w:val="18"/><w:szCs w:val="18"/></w:rPr></w:style>
+<w:style w:type="character" w:styleId="InlineCode"><w:name w:val="Inline Code"/><w:rPr><w:rFonts w:ascii="Consolas" w:hAnsi="Consolas" w:cs="Consolas"/><w:shd w:val="clear" w:color="auto" w:fill="EFF1F3"/></w:rPr></w:style>
+<w:style w:type="character" w:styleId="Hyperlink"><w:name w:val="Hyperlink"/><w:rPr><w:color w:val="0969DA"/><w:u w:val="single"/></w:rPr></w:style>
+<w:style w:type="table" w:styleId="TableGrid"><w:name w:val="Table Grid"/><w:pPr><w:spacing w:after="0"/></w:pPr><w:tblPr><w:tblBorders>${['top', 'left', 'bottom', 'right', 'insideH', 'insideV'].map((side) => `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="D1D9E0"/>`).join('')}</w:tblBorders><w:tblCellMar><w:left w:w="108" w:type="dxa"/><w:right w:w="108" w:type="dxa"/></w:tblCellMar></w:tblPr></w:style>
+</w:styles>`;
+
+const BULLETS = ['•', '◦', '▪'];
+const BULLET_NUM_ID = 1;
+
+// Levels for one kind of list; each level indents a further half inch
+const listLevels = (ordered: boolean) => Array.from({ length: 9 }, (_, level) =>
+    `<w:lvl w:ilvl="${level}"><w:start w:val="1"/><w:numFmt w:val="${ordered ? 'decimal' : 'bullet'}"/>` +
+    `<w:lvlText w:val="${ordered ? `%${level + 1}.` : BULLETS[level % BULLETS.length]}"/><w:lvlJc w:val="left"/>` +
+    `<w:pPr><w:ind w:left="${720 * (level + 1)}" w:hanging="360"/></w:pPr></w:lvl>`).join('');
+
+interface RunFormat {
+    bold?: boolean;
+    italic?: boolean;
+    strike?: boolean;
+    code?: boolean;
+    link?: boolean;
+    superscript?: boolean;
+}
+
+// Paragraph properties, in the order the schema requires
+function paragraphProperties(options: { style?: string; numbering?: { numId: number; level: number }; indent?: number; align?: string }) {
+    const { style, numbering, indent, align } = options;
+    const properties = [
+        style && `<w:pStyle w:val="${style}"/>`,
+        numbering && `<w:numPr><w:ilvl w:val="${numbering.level}"/><w:numId w:val="${numbering.numId}"/></w:numPr>`,
+        indent !== undefined && `<w:ind w:left="${indent}"/>`,
+        align && `<w:jc w:val="${align}"/>`,
+    ].filter(Boolean).join('');
+    return properties ? `<w:pPr>${properties}</w:pPr>` : '';
+}
+
+function textRun(text: string, format: RunFormat = {}, color?: string) {
+    const properties = [
+        format.link ? '<w:rStyle w:val="Hyperlink"/>' : format.code && '<w:rStyle w:val="InlineCode"/>',
+        format.link && format.code && '<w:rFonts w:ascii="Consolas" w:hAnsi="Consolas" w:cs="Consolas"/>',
+        format.bold && '<w:b/>',
+        format.italic && '<w:i/>',
+        format.strike && '<w:strike/>',
+        color && `<w:color w:val="${color}"/>`,
+        format.superscript && '<w:vertAlign w:val="superscript"/>',
+    ].filter(Boolean).join('');
+    return `<w:r>${properties ? `<w:rPr>${properties}</w:rPr>` : ''}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+}
+
+const hexColor = ([r, g, b]: [number, number, number]) =>
+    [r, g, b].map((value) => value.toString(16).padStart(2, '0')).join('').toUpperCase();
+
+// Writes the syntax tree as the body of word/document.xml, collecting the parts it refers to
+function renderDocument(root: Root) {
+    const links: string[] = [];
+    // Ordered lists each restart their numbering, so each gets its own numbering instance
+    const orderedLists: { level: number; start: number }[] = [];
+    const footnoteNumbers = new Map<string, number>();
+    root.children.forEach((node) => {
+        if (node.type === 'footnoteDefinition') footnoteNumbers.set(node.identifier, footnoteNumbers.size + 1);
+    });
+
+    function inline(nodes: PhrasingContent[], format: RunFormat = {}): string {
+        return nodes.map((node) => {
+            switch (node.type) {
+                case 'text':
+                    return textRun(node.value.replace(/\n/g, ' '), format);
+                case 'emphasis':
+                    return inline(node.children, { ...format, italic: true });
+                case 'strong':
+                    return inline(node.children, { ...format, bold: true });
+                case 'delete':
+                    return inline(node.children, { ...format, strike: true });
+                case 'inlineCode':
+                    return textRun(node.value, { ...format, code: true });
+                case 'inlineMath':
+                    return latexToOmml(node.value, false);
+                case 'break':
+                    return '<w:r><w:br/></w:r>';
+                case 'link': {
+                    links.push(node.url);
+                    return `<w:hyperlink r:id="link${links.length}" w:history="1">${inline(node.children, { ...format, link: true })}</w:hyperlink>`;
+                }
+                case 'image': {
+                    // Images stay where they are on the web, linked from their alt text
+                    links.push(node.url);
+                    return `<w:hyperlink r:id="link${links.length}" w:history="1">${textRun(`[${node.alt || 'image'}]`, { ...format, link: true })}</w:hyperlink>`;
+                }
+                case 'footnoteReference': {
+                    const number = footnoteNumbers.get(node.identifier);
+                    return number ? textRun(`[${number}]`, { ...format, superscript: true }) : '';
+                }
+                case 'html':
+                    return '';
+                default:
+                    return 'children' in node ? inline(node.children as PhrasingContent[], format) : '';
+            }
+        }).join('');
+    }
+
+    function list(node: List, level: number): string {
+        let numId = BULLET_NUM_ID;
+        if (node.ordered) {
+            orderedLists.push({ level, start: node.start ?? 1 });
+            numId = BULLET_NUM_ID + orderedLists.length;
+        }
+
+        return node.children.map((item) => {
+            let numbered = false;
+            return item.children.map((child) => {
+                if (child.type === 'list') return list(child, level + 1);
+                if (child.type === 'paragraph' && !numbered) {
+                    numbered = true;
+                    const marker = item.checked === true ? '☑ ' : item.checked === false ? '☐ ' : '';
+                    const properties = paragraphProperties({ numbering: { numId, level } });
+                    return `<w:p>${properties}${marker ? textRun(marker) : ''}${inline(child.children)}</w:p>`;
+                }
+                // Further paragraphs of the item line up with its text
+                return blocks([child], { indent: 720 * (level + 1) });
+            }).join('');
+        }).join('');
+    }
+
+    function table(node: Table): string {
+        const columns = node.children[0]?.children.length ?? 0;
+        const rows = node.children.map((row, i) => {
+            const cells = row.children.map((cell, column) => {
+                const align = node.align?.[column];
+                const properties = paragraphProperties({ align: align === 'right' ? 'right' : align === 'center' ? 'center' : undefined });
+                return `<w:tc><w:tcPr><w:tcW w:w="0" w:type="auto"/></w:tcPr><w:p>${properties}${inline(cell.children, { bold: i === 0 })}</w:p></w:tc>`;
+            });
+            // The header row repeats on every page the table spans
+            return `<w:tr>${i === 0 ? '<w:trPr><w:tblHeader/></w:trPr>' : ''}${cells.join('')}</w:tr>`;
+        });
+        const grid = Array.from({ length: columns }, () => '<w:gridCol/>').join('');
+        return `<w:tbl><w:tblPr><w:tblStyle w:val="TableGrid"/><w:tblW w:w="0" w:type="auto"/></w:tblPr><w:tblGrid>${grid}</w:tblGrid>${rows.join('')}</w:tbl>` +
+            '<w:p/>';
+    }
+
+    function blocks(nodes: (RootContent | Nodes)[], options: { style?: string; indent?: number } = {}): string {
+        return nodes.map((node) => {
+            switch (node.type) {
+                case 'heading':
+                    return `<w:p>${paragraphProperties({ style: `Heading${node.depth}` })}${inline(node.children)}</w:p>`;
+                case 'paragraph':
+                    return `<w:p>${paragraphProperties(options)}${inline(node.children)}</w:p>`;
+                case 'blockquote':
+                    return blocks(node.children, { ...options, style: 'Quote' });
+                case 'list':
+                    return list(node, 0);
+                case 'code': {
+                    const lines = highlightCode(node.value.replace(/\t/g, '    '), node.lang ?? null);
+                    return lines.map((tokens) => {
+                        const runs = tokens.map((token) => textRun(token.text, {}, hexColor(CODE_TOKEN_COLORS[token.type])));
+                        return `<w:p>${paragraphProperties({ style: 'CodeBlock', indent: options.indent })}${runs.join('')}</w:p>`;
+                    }).join('') + '<w:p/>';
+                }
+                case 'math':
+                    return `<w:p>${paragraphProperties({ indent: options.indent })}<m:oMathPara>${latexToOmml(node.value, true)}</m:oMathPara></w:p>`;
+                case 'table':
+                    return table(node);
+                case 'thematicBreak':
+                    return '<w:p><w:pPr><w:pBdr><w:bottom w:val="single" w:sz="6" w:space="1" w:color="D1D9E0"/></w:pBdr></w:pPr></w:p>';
+                case 'footnoteDefinition':
+                case 'definition':
+                case 'html':
+                case 'yaml':
+                    return '';
+                default:
+                    return 'children' in node ? blocks(node.children as RootContent[], options) : '';
+            }
+        }).join('');
+    }
+
+    let body = blocks(root.children);
+
+    // Footnotes are listed at the end, numbered in the order they are defined
+    const definitions = root.children.flatMap((node) => (node.type === 'footnoteDefinition' ? [node] : []));
+    if (definitions.length > 0) {
+        body += blocks([{ type: 'thematicBreak' }]);
+        body += definitions.map((definition) => {
+            const content = definition.children.map((child) => (child.type === 'paragraph' ? inline(child.children) : '')).join(' ');
+            const number = textRun(`[${footnoteNumbers.get(definition.identifier)}] `, { superscript: true });
+            return `<w:p>${paragraphProperties({ style: 'FootnoteText' })}${number}${content}</w:p>`;
+        }).join('');
+    }
+
+    return { body, links, orderedLists };
+}
+
+/**
+ * The note as a Word document. Equations are native Word equations, so they stay editable;
+ * images are linked rather than embedded.
+ */
+export function markdownToDocx(markdown: string, title: string): Blob {
+    const { body, links, orderedLists } = renderDocument(parseMarkdown(markdown));
+    const titleParagraph = title ? `<w:p>${paragraphProperties({ style: 'Title' })}${textRun(title)}</w:p>` : '';
+
+    const document = `${XML_HEADER}<w:document ${NAMESPACES}><w:body>${titleParagraph}${body}` +
+        '<w:sectPr><w:pgSz w:w="12240" w:h="15840"/><w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="720" w:footer="720" w:gutter="0"/></w:sectPr>' +
+        '</w:body></w:document>';
+
+    const numbering = `${XML_HEADER}<w:numbering ${NAMESPACES}>` +
+        `<w:abstractNum w:abstractNumId="0">${listLevels(false)}</w:abstractNum>` +
+        `<w:abstractNum w:abstractNumId="1">${listLevels(true)}</w:abstractNum>` +
+        `<w:num w:numId="${BULLET_NUM_ID}"><w:abstractNumId w:val="0"/></w:num>` +
+        orderedLists.map(({ level, start }, i) =>
+            `<w:num w:numId="${BULLET_NUM_ID + i + 1}"><w:abstractNumId w:val="1"/><w:lvlOverride w:ilvl="${level}"><w:startOverride w:val="${start}"/></w:lvlOverride></w:num>`).join('') +
+        '</w:numbering>';
+
+    const documentRels = `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="styles" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+<Relationship Id="numbering" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/numbering" Target="numbering.xml"/>
+${links.map((url, i) => `<Relationship Id="link${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/hyperlink" Target="${escapeXml(url)}" TargetMode="External"/>`).join('\n')}
+</Relationships>`;
+
+    const core = `${XML_HEADER}<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" ` +
+        'xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">' +
+        `<dc:title>${escapeXml(title)}</dc:title>` +
+        `<dcterms:created xsi:type="dcterms:W3CDTF">${new Date().toISOString().replace(/\.\d+Z$/, 'Z')}</dcterms:created>` +
+        '</cp:coreProperties>';
+
+    const zip = createZip([
+        { name: '[Content_Types].xml', content: CONTENT_TYPES },
+        { name: '_rels/.rels', content: PACKAGE_RELS },
+        { name: 'word/document.xml', content: document },
+        { name: 'word/styles.xml', content: STYLES },
+        { name: 'word/numbering.xml', content: numbering },
+        { name: 'word/_rels/document.xml.rels', content: documentRels },
+        { name: 'docProps/core.xml', content: core },
+    ]);
+    return new Blob([zip], { type: DOCX_TYPE });
+}
@@ -0,0 +1,68 @@
+import katex from 'katex';
+import katexCss from 'katex/dist/katex.min.css?inline';
+import { markdownToHtml, sanitizeNoteHtml } from './markdown';
+
+// KaTeX's stylesheet loads its fonts relative to itself; in an exported file they come from the CDN
+const KATEX_FONTS_URL = `https://cdn.jsdelivr.net/npm/katex@${katex.version}/dist/fonts/`;
+
+const PAGE_CSS = `
+body { margin: 0; background: #fff; color: #1f2328; font: 16px/1.6 -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; }
+main { max-width: 46rem; margin: 0 auto; padding: 2rem 1.5rem 4rem; }
+h1, h2, h3, h4, h5, h6 { line-height: 1.25; margin: 1.5em 0 0.5em; }
+a { color: #0969da; }
+img { max-width: 100%; }
+code { font-family: ui-monospace, SFMono-Regular, Consolas, monospace; font-size: 0.9em; background: #f0f1f2; padding: 0.1em 0.3em; border-radius: 4px; }
+pre { background: #f6f8fa; padding: 1em; border-radius: 6px; overflow-x: auto; }
+pre code { background: none; padding: 0; }
+blockquote { margin: 1em 0; padding: 0 1em; color: #59636e; border-left: 4px solid #d1d9e0; }
+table { border-collapse: collapse; margin: 1em 0; }
+th, td { border: 1px solid #d1d9e0; padding: 0.4em 0.8em; }
+th { background: #f6f8fa; }
+li:has(> input[type="checkbox"]) { list-style: none; }
+.math-display { overflow-x: auto; margin: 1em 0; }
+`;
+
+const escapeHtml = (text: string) =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// The note as sanitized HTML with its equations typeset by KaTeX (which needs KaTeX's stylesheet to display)
+export async function renderNoteHtml(markdown: string): Promise<string> {
+    const clean = sanitizeNoteHtml(await markdownToHtml(markdown));
+    const root = new DOMParser().parseFromString(`<div>${clean}</div>`, 'text/html').body.firstElementChild!;
+
+    // remark-math output: inline math as `code.math-inline`, display math as `pre > code.math-display`
+    root.querySelectorAll('code.math-inline, code.math-display').forEach((el) => {
+        const displayMode = el.classList.contains('math-display');
+        const typeset = document.createElement(displayMode ? 'div' : 'span');
+        typeset.className = displayMode ? 'math-display' : 'math-inline';
+        typeset.innerHTML = katex.renderToString(el.textContent || '', { displayMode, throwOnError: false });
+        const target = displayMode && el.parentElement?.tagName.toLowerCase() === 'pre' ? el.parentElement : el;
+        target.replaceWith(typeset);
+    });
+    return root.innerHTML;
+}
+
+/**
+ * The note as a single HTML file that opens anywhere: styles are inlined and equations are
+ * typeset with KaTeX, so only its fonts are fetched (falling back to system fonts offline).
+ */
+export async function markdownToStandaloneHtml(markdown: string, title: string): Promise<string> {
+    const html = await renderNoteHtml(markdown);
+    const css = katexCss.replace(/url\(fonts\//g, `url(${KATEX_FONTS_URL}`);
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title || 'Untitled')}</title>
+<style>${css}</style>
+<style>${PAGE_CSS}</style>
+</head>
+<body>
+<main>
+${html}
+</main>
+</body>
+</html>
+`;
+}
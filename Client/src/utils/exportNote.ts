@@ -0,0 +1,54 @@
+import { EmptyMarkdownError } from './markdown';
+import { markdownToStandaloneHtml } from './exportHtml';
+import { markdownToDocx } from './exportDocx';
+import { markdownToTex } from './exportTex';
+
+// Formats a single note can be exported to besides PDF
+export type ExportFormat = 'md' | 'html' | 'docx' | 'tex';
+
+export const EXPORT_FORMATS: { id: ExportFormat; label: string }[] = [
+    { id: 'md', label: 'Markdown' },
+    { id: 'html', label: 'HTML' },
+    { id: 'docx', label: 'Word' },
+    { id: 'tex', label: 'LaTeX' },
+];
+
+// Saves a generated file through a temporary link, the way jsPDF saves PDFs
+export function downloadBlob(blob: Blob, filename: string) {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    // Some browsers start the download asynchronously
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+async function exportBlob(markdown: string, format: ExportFormat, title: string): Promise<Blob> {
+    switch (format) {
+        case 'md':
+            return new Blob([markdown], { type: 'text/markdown;charset=utf-8' });
+        case 'html':
+            return new Blob([await markdownToStandaloneHtml(markdown, title)], { type: 'text/html;charset=utf-8' });
+        case 'docx':
+            return markdownToDocx(markdown, title);
+        case 'tex':
+            return new Blob([markdownToTex(markdown, title)], { type: 'application/x-tex;charset=utf-8' });
+    }
+}
+
+export async function downloadMarkdownAs(
+    markdown: string,
+    format: ExportFormat,
+    filenamePrefix = 'vibescribe-notes',
+    title = ''
+): Promise<void> {
+    if (!markdown.trim()) {
+        throw new EmptyMarkdownError();
+    }
+
+    const timestamp = new Date().toISOString().slice(0, 10);
+    downloadBlob(await exportBlob(markdown, format, title), `${filenamePrefix}-${timestamp}.${format}`);
+}
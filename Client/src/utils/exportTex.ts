@@ -0,0 +1,137 @@
+import type { FootnoteDefinition, List, Nodes, Parents, Root, Table } from 'mdast';
+import { parseMarkdown } from './markdown';
+
+const PREAMBLE = `\\documentclass[11pt]{article}
+\\usepackage[utf8]{inputenc}
+\\usepackage[T1]{fontenc}
+\\usepackage{amsmath,amssymb}
+\\usepackage[normalem]{ulem}
+\\usepackage{hyperref}
+`;
+
+const SECTIONS = ['section', 'subsection', 'subsubsection', 'paragraph', 'subparagraph', 'subparagraph'];
+
+const TEX_ESCAPES: Record<string, string> = {
+    '\\': '\\textbackslash{}',
+    '{': '\\{',
+    '}': '\\}',
+    '$': '\\$',
+    '&': '\\&',
+    '#': '\\#',
+    '%': '\\%',
+    '_': '\\_',
+    '~': '\\textasciitilde{}',
+    '^': '\\textasciicircum{}',
+};
+
+const escapeTex = (text: string) => text.replace(/[\\{}$&#%_~^]/g, (char) => TEX_ESCAPES[char]);
+
+// \href takes the URL almost verbatim; only these would break the argument
+const escapeUrl = (url: string) => url.replace(/[\\{}%#]/g, (char) => `\\${char}`);
+
+// Writes a syntax tree as LaTeX; footnotes are placed where they are referenced
+function renderTex(root: Root): string {
+    const footnotes = new Map<string, FootnoteDefinition>();
+    root.children.forEach((node) => {
+        if (node.type === 'footnoteDefinition') footnotes.set(node.identifier, node);
+    });
+
+    function children(node: Parents, separator = ''): string {
+        return node.children.map((child) => render(child)).join(separator);
+    }
+
+    function blocks(node: Parents): string {
+        return node.children
+            .filter((child) => child.type !== 'footnoteDefinition')
+            .map((child) => render(child))
+            .filter(Boolean)
+            .join('\n\n');
+    }
+
+    function list(node: List): string {
+        const environment = node.ordered ? 'enumerate' : 'itemize';
+        const start = node.ordered && node.start && node.start !== 1 ? `\\setcounter{enumi}{${node.start - 1}}\n` : '';
+        const items = node.children.map((item) => {
+            // Task list items get a box instead of the bullet
+            const marker = item.checked === true ? '[$\\boxtimes$]' : item.checked === false ? '[$\\square$]' : '';
+            return `\\item${marker} ${blocks(item)}`;
+        });
+        return `\\begin{${environment}}\n${start}${items.join('\n')}\n\\end{${environment}}`;
+    }
+
+    function table(node: Table): string {
+        const columns = (node.children[0]?.children ?? []).map((_, i) => {
+            const align = node.align?.[i];
+            return align === 'center' ? 'c' : align === 'right' ? 'r' : 'l';
+        });
+        const rows = node.children.map((row, i) => {
+            const cells = row.children.map((cell) => (i === 0 ? `\\textbf{${children(cell)}}` : children(cell)));
+            return `${cells.join(' & ')} \\\\ \\hline`;
+        });
+        return `\\begin{center}\n\\begin{tabular}{|${columns.join('|')}|}\n\\hline\n${rows.join('\n')}\n\\end{tabular}\n\\end{center}`;
+    }
+
+    function render(node: Nodes): string {
+        switch (node.type) {
+            case 'root':
+                return blocks(node);
+            case 'heading':
+                return `\\${SECTIONS[node.depth - 1]}*{${children(node)}}`;
+            case 'paragraph':
+                return children(node);
+            case 'blockquote':
+                return `\\begin{quote}\n${blocks(node)}\n\\end{quote}`;
+            case 'list':
+                return list(node);
+            case 'listItem':
+                return blocks(node);
+            case 'code':
+                return `\\begin{verbatim}\n${node.value}\n\\end{verbatim}`;
+            case 'math':
+                return `\\[\n${node.value}\n\\]`;
+            case 'table':
+                return table(node);
+            case 'thematicBreak':
+                return '\\noindent\\rule{\\linewidth}{0.4pt}';
+            case 'text':
+                return escapeTex(node.value);
+            case 'emphasis':
+                return `\\emph{${children(node)}}`;
+            case 'strong':
+                return `\\textbf{${children(node)}}`;
+            case 'delete':
+                return `\\sout{${children(node)}}`;
+            case 'inlineCode':
+                return `\\texttt{${escapeTex(node.value)}}`;
+            case 'inlineMath':
+                return `$${node.value}$`;
+            case 'break':
+                return '\\newline\n';
+            case 'link':
+                return `\\href{${escapeUrl(node.url)}}{${children(node)}}`;
+            case 'image':
+                // Remote images can't be included by LaTeX, so they become links
+                return `\\href{${escapeUrl(node.url)}}{[${escapeTex(node.alt || 'image')}]}`;
+            case 'footnoteReference': {
+                const definition = footnotes.get(node.identifier);
+                return definition ? `\\footnote{${children(definition, ' ')}}` : '';
+            }
+            case 'html':
+            case 'yaml':
+            case 'definition':
+            case 'footnoteDefinition':
+                return '';
+            default:
+                return 'children' in node ? children(node) : escapeTex('value' in node ? String(node.value) : '');
+        }
+    }
+
+    return render(root);
+}
+
+// The note as a LaTeX document for pdflatex; math is passed through as written
+export function markdownToTex(markdown: string, title: string): string {
+    const body = renderTex(parseMarkdown(markdown));
+    const heading = title ? `\\title{${escapeTex(title)}}\n\\date{}\n` : '';
+    return `${PREAMBLE}${heading}\n\\begin{document}\n${title ? '\\maketitle\n\n' : ''}${body}\n\n\\end{document}\n`;
+}
@@ -0,0 +1,44 @@
+import { remark } from 'remark';
+import remarkParse from 'remark-parse';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import remarkHtml from 'remark-html';
+import DOMPurify from 'dompurify';
+import type { Root } from 'mdast';
+
+export class EmptyMarkdownError extends Error {
+    constructor(message = 'No content to download. Add some notes first!') {
+        super(message);
+        this.name = 'EmptyMarkdownError';
+    }
+}
+
+// The remark pipeline every export format starts from: GitHub-flavored Markdown plus `$math$`
+const markdownProcessor = () => remark()
+    .use(remarkParse)
+    .use(remarkGfm)
+    .use(remarkMath);
+
+// Markdown syntax tree, for the formats that are written node by node (Word, LaTeX)
+export function parseMarkdown(markdown: string): Root {
+    const processor = markdownProcessor();
+    return processor.runSync(processor.parse(markdown)) as Root;
+}
+
+export async function markdownToHtml(markdown: string): Promise<string> {
+    const result = await markdownProcessor()
+        .use(remarkHtml, { sanitize: false })
+        .process(markdown);
+    return String(result);
+}
+
+// Elements the exporters know how to lay out; anything else in the note's HTML is dropped
+export function sanitizeNoteHtml(html: string): string {
+    return DOMPurify.sanitize(html, {
+        USE_PROFILES: { html: true },
+        ALLOWED_TAGS: ['h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'p', 'br', 'hr', 'ul', 'ol', 'li',
+            'blockquote', 'pre', 'code', 'table', 'thead', 'tbody', 'tr', 'th', 'td',
+            'a', 'strong', 'em', 'del', 's', 'b', 'i', 'img', 'input', 'span', 'div'],
+        ALLOWED_ATTR: ['href', 'src', 'alt', 'type', 'checked', 'disabled', 'class']
+    });
+}
@@ -0,0 +1,83 @@
+import { diffLines } from './diff';
+
+export type MergeChunk =
+    | { type: 'resolved'; lines: string[] }
+    | { type: 'conflict'; base: string[]; mine: string[]; theirs: string[] };
+
+// For every line of `base` that survives unchanged in `other`, the index it ends up at.
+// When the texts are too different to diff, no line counts as unchanged, so the merge is one region.
+function unchangedLines(base: string, other: string) {
+    const matches = new Map<number, number>();
+    let baseIndex = 0;
+    let otherIndex = 0;
+    for (const line of diffLines(base, other) ?? []) {
+        if (line.type === 'equal') matches.set(baseIndex++, otherIndex++);
+        else if (line.type === 'removed') baseIndex++;
+        else otherIndex++;
+    }
+    return matches;
+}
+
+const sameLines = (a: string[], b: string[]) => a.length === b.length && a.every((line, i) => line === b[i]);
+
+/**
+ * Line-based three-way merge (diff3) of two edits of the same `base` text.
+ * Regions changed on only one side (or identically on both) are resolved automatically;
+ * regions changed differently on both sides are returned as conflicts.
+ */
+export function mergeThreeWay(base: string, mine: string, theirs: string): MergeChunk[] {
+    const baseLines = base.split('\n');
+    const mineLines = mine.split('\n');
+    const theirLines = theirs.split('\n');
+    const inMine = unchangedLines(base, mine);
+    const inTheirs = unchangedLines(base, theirs);
+
+    const chunks: MergeChunk[] = [];
+    const pushResolved = (lines: string[]) => {
+        if (lines.length === 0) return;
+        const last = chunks.at(-1);
+        if (last?.type === 'resolved') last.lines.push(...lines);
+        else chunks.push({ type: 'resolved', lines: [...lines] });
+    };
+
+    let b = 0;
+    let m = 0;
+    let t = 0;
+    for (;;) {
+        // Next base line left untouched by both sides: everything before it is one region
+        let next = b;
+        while (next < baseLines.length && !(inMine.has(next) && inTheirs.has(next))) next++;
+        const mineEnd = next < baseLines.length ? inMine.get(next)! : mineLines.length;
+        const theirEnd = next < baseLines.length ? inTheirs.get(next)! : theirLines.length;
+
+        const baseRegion = baseLines.slice(b, next);
+        const mineRegion = mineLines.slice(m, mineEnd);
+        const theirRegion = theirLines.slice(t, theirEnd);
+
+        if (sameLines(mineRegion, baseRegion)) pushResolved(theirRegion);
+        else if (sameLines(theirRegion, baseRegion) || sameLines(mineRegion, theirRegion)) pushResolved(mineRegion);
+        else chunks.push({ type: 'conflict', base: baseRegion, mine: mineRegion, theirs: theirRegion });
+
+        if (next >= baseLines.length) break;
+        pushResolved([baseLines[next]]);
+        b = next + 1;
+        m = mineEnd + 1;
+        t = theirEnd + 1;
+    }
+    return chunks;
+}
+
+export type ConflictChoice = 'mine' | 'theirs' | 'both';
+
+// Joins merge chunks back into text, resolving each conflict with the chosen side (default: mine)
+export function applyMerge(chunks: MergeChunk[], choices: Record<number, ConflictChoice> = {}): string {
+    return chunks
+        .flatMap((chunk, i) => {
+            if (chunk.type === 'resolved') return chunk.lines;
+            const choice = choices[i] ?? 'mine';
+            if (choice === 'theirs') return chunk.theirs;
+            if (choice === 'both') return [...chunk.mine, ...chunk.theirs];
+            return chunk.mine;
+        })
+        .join('\n');
+}
@@ -0,0 +1,175 @@
+import type { DocumentListItem, DocumentResponse } from '../api/auth';
+
+// Per-user IndexedDB mirror of the user's documents plus the queue of changes made while offline
+const DB_PREFIX = 'vibescribe-offline:';
+const DB_VERSION = 1;
+const DOCUMENTS = 'documents';
+const QUEUE = 'queue';
+
+// Ids given to notes created offline until the server assigns a real one
+const LOCAL_ID_PREFIX = 'local-';
+
+export const isLocalId = (id: string) => id.startsWith(LOCAL_ID_PREFIX);
+export const newLocalId = () => LOCAL_ID_PREFIX + crypto.randomUUID();
+
+// List fields are always present; the content only once the document was opened (or written) on this device
+export type CachedDocument = DocumentListItem & Partial<Pick<DocumentResponse, 'markdownContent' | 'version'>>;
+
+export type PendingOperation =
+    | { type: 'create'; id: string; markdown: string }
+    // `baseVersion`/`baseMarkdown`: the server copy the edit started from, for conflict detection and merging
+    | { type: 'update'; id: string; markdown: string; baseVersion?: number; baseMarkdown: string }
+    | { type: 'delete'; id: string };
+
+export type QueuedOperation = PendingOperation & { seq: number };
+
+const connections = new Map<string, Promise<IDBDatabase>>();
+
+function openDatabase(uid: string) {
+    let db = connections.get(uid);
+    if (!db) {
+        db = new Promise<IDBDatabase>((resolve, reject) => {
+            const request = indexedDB.open(DB_PREFIX + uid, DB_VERSION);
+            request.onupgradeneeded = () => {
+                request.result.createObjectStore(DOCUMENTS, { keyPath: 'id' });
+                request.result.createObjectStore(QUEUE, { keyPath: 'seq', autoIncrement: true });
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        // Allow a later retry if opening failed (e.g. storage blocked)
+        db.catch(() => connections.delete(uid));
+        connections.set(uid, db);
+    }
+    return db;
+}
+
+const requestResult = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+// Runs `work` in one transaction and resolves with its result once the transaction commits
+async function transaction<T>(
+    uid: string,
+    stores: string[],
+    mode: IDBTransactionMode,
+    work: (tx: IDBTransaction) => Promise<T>
+): Promise<T> {
+    const tx = (await openDatabase(uid)).transaction(stores, mode);
+    const done = new Promise<void>((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+    const result = await work(tx);
+    await done;
+    return result;
+}
+
+export function listCachedDocuments(uid: string) {
+    return transaction(uid, [DOCUMENTS], 'readonly', (tx) =>
+        requestResult(tx.objectStore(DOCUMENTS).getAll() as IDBRequest<CachedDocument[]>)
+    );
+}
+
+export function getCachedDocument(uid: string, id: string) {
+    return transaction(uid, [DOCUMENTS], 'readonly', (tx) =>
+        requestResult(tx.objectStore(DOCUMENTS).get(id) as IDBRequest<CachedDocument | undefined>)
+    );
+}
+
+// Stores documents, keeping cached content that a list item (which has none) would otherwise drop
+export function cacheDocuments(uid: string, docs: (DocumentListItem | DocumentResponse)[]) {
+    return transaction(uid, [DOCUMENTS], 'readwrite', async (tx) => {
+        const store = tx.objectStore(DOCUMENTS);
+        for (const doc of docs) {
+            const cached = await requestResult(store.get(doc.id) as IDBRequest<CachedDocument | undefined>);
+            const entry: CachedDocument = {
+                id: doc.id,
+                title: doc.title,
+                imageUrl: doc.imageUrl,
+                scanMode: doc.scanMode,
+                folderId: doc.folderId,
+                createdAt: doc.createdAt,
+                updatedAt: doc.updatedAt,
+                tags: doc.tags ?? cached?.tags ?? [],
+                markdownContent: 'markdownContent' in doc ? doc.markdownContent : cached?.markdownContent,
+                version: 'version' in doc ? doc.version : cached?.version,
+            };
+            store.put(entry);
+        }
+    });
+}
+
+export function putCachedDocument(uid: string, doc: CachedDocument) {
+    return transaction(uid, [DOCUMENTS], 'readwrite', async (tx) => {
+        tx.objectStore(DOCUMENTS).put(doc);
+    });
+}
+
+export function removeCachedDocument(uid: string, id: string) {
+    return transaction(uid, [DOCUMENTS], 'readwrite', async (tx) => {
+        tx.objectStore(DOCUMENTS).delete(id);
+    });
+}
+
+export function listQueuedOperations(uid: string) {
+    return transaction(uid, [QUEUE], 'readonly', (tx) =>
+        requestResult(tx.objectStore(QUEUE).getAll() as IDBRequest<QueuedOperation[]>)
+    );
+}
+
+export function removeQueuedOperation(uid: string, seq: number) {
+    return transaction(uid, [QUEUE], 'readwrite', async (tx) => {
+        tx.objectStore(QUEUE).delete(seq);
+    });
+}
+
+/**
+ * Queues a change for replay, folding it into the changes already queued for the same note:
+ * edits of an offline-created note become part of its creation, repeated edits keep the
+ * first edit's base version, and deleting an offline-created note drops it altogether.
+ */
+export function enqueueOperation(uid: string, op: PendingOperation) {
+    return transaction(uid, [QUEUE], 'readwrite', async (tx) => {
+        const store = tx.objectStore(QUEUE);
+        const queued = (await requestResult(store.getAll() as IDBRequest<QueuedOperation[]>))
+            .filter((q) => q.id === op.id);
+        const create = queued.find((q) => q.type === 'create');
+        const update = queued.find((q) => q.type === 'update');
+
+        if (op.type === 'update' && (create || update)) {
+            store.put({ ...(create ?? update)!, markdown: op.markdown });
+            return;
+        }
+        if (op.type === 'delete') {
+            queued.forEach((q) => store.delete(q.seq));
+            if (create) return;
+        }
+        store.add(op);
+    });
+}
+
+/**
+ * Removes a replayed change from the queue. Edits made to the note while its request was in
+ * flight were folded into the queued change; they stay queued as an edit on top of `saved`.
+ */
+export function completeQueuedOperation(uid: string, op: QueuedOperation, saved?: DocumentResponse) {
+    return transaction(uid, [QUEUE, DOCUMENTS], 'readwrite', async (tx) => {
+        const queue = tx.objectStore(QUEUE);
+        const current = await requestResult(queue.get(op.seq) as IDBRequest<QueuedOperation | undefined>);
+        queue.delete(op.seq);
+        if (saved && current && current.type !== 'delete' && op.type !== 'delete' && current.markdown !== op.markdown) {
+            queue.add({
+                type: 'update',
+                id: saved.id,
+                markdown: current.markdown,
+                baseVersion: saved.version,
+                baseMarkdown: saved.markdownContent,
+            } satisfies PendingOperation);
+        }
+        // The offline copy of a created note is replaced by the server's under its real id
+        if (op.type === 'create') tx.objectStore(DOCUMENTS).delete(op.id);
+    });
+}
@@ -0,0 +1,78 @@
+import katex from 'katex';
+
+export const escapeXml = (text: string) =>
+    text
+        // Control characters other than tab and line breaks aren't allowed in XML 1.0 at all
+        .replace(/[^\t\n\r\u0020-\uffff]/g, '')
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+
+// A run of math text; `plain` sets it upright (numbers, operators, function names) instead of italic
+const mathRun = (text: string, plain: boolean) =>
+    `<m:r>${plain ? '<m:rPr><m:sty m:val="p"/></m:rPr>' : ''}<m:t xml:space="preserve">${escapeXml(text)}</m:t></m:r>`;
+
+// MathML (as produced by KaTeX) to Office Math Markup, element by element
+function convert(el: Element): string {
+    const children = () => Array.from(el.children).map(convert).join('');
+    const arg = (i: number) => (el.children[i] ? convert(el.children[i]) : '');
+    const text = el.textContent || '';
+
+    switch (el.localName) {
+        case 'mi':
+            return mathRun(text, el.getAttribute('mathvariant') === 'normal' || [...text].length > 1);
+        case 'mn':
+        case 'mo':
+        case 'mtext':
+        case 'ms':
+            return mathRun(text, true);
+        case 'annotation':
+        case 'annotation-xml':
+        case 'mphantom':
+        case 'mspace':
+            return '';
+        case 'mfrac': {
+            // \binom and friends are fractions without a bar
+            const noBar = /^0(px|em)?$/.test(el.getAttribute('linethickness') ?? '');
+            return `<m:f>${noBar ? '<m:fPr><m:type m:val="noBar"/></m:fPr>' : ''}<m:num>${arg(0)}</m:num><m:den>${arg(1)}</m:den></m:f>`;
+        }
+        case 'msup':
+            return `<m:sSup><m:e>${arg(0)}</m:e><m:sup>${arg(1)}</m:sup></m:sSup>`;
+        case 'msub':
+            return `<m:sSub><m:e>${arg(0)}</m:e><m:sub>${arg(1)}</m:sub></m:sSub>`;
+        case 'msubsup':
+            return `<m:sSubSup><m:e>${arg(0)}</m:e><m:sub>${arg(1)}</m:sub><m:sup>${arg(2)}</m:sup></m:sSubSup>`;
+        case 'msqrt':
+            return `<m:rad><m:radPr><m:degHide m:val="1"/></m:radPr><m:deg/><m:e>${children()}</m:e></m:rad>`;
+        case 'mroot':
+            return `<m:rad><m:deg>${arg(1)}</m:deg><m:e>${arg(0)}</m:e></m:rad>`;
+        case 'mover':
+            if (el.getAttribute('accent') === 'true' && el.children[1]) {
+                return `<m:acc><m:accPr><m:chr m:val="${escapeXml(el.children[1].textContent || '')}"/></m:accPr><m:e>${arg(0)}</m:e></m:acc>`;
+            }
+            return `<m:limUpp><m:e>${arg(0)}</m:e><m:lim>${arg(1)}</m:lim></m:limUpp>`;
+        case 'munder':
+            return `<m:limLow><m:e>${arg(0)}</m:e><m:lim>${arg(1)}</m:lim></m:limLow>`;
+        case 'munderover':
+            return `<m:limUpp><m:e><m:limLow><m:e>${arg(0)}</m:e><m:lim>${arg(1)}</m:lim></m:limLow></m:e><m:lim>${arg(2)}</m:lim></m:limUpp>`;
+        case 'mtable': {
+            const rows = Array.from(el.children).map((row) =>
+                `<m:mr>${Array.from(row.children).map((cell) => `<m:e>${Array.from(cell.children).map(convert).join('')}</m:e>`).join('')}</m:mr>`);
+            return `<m:m>${rows.join('')}</m:m>`;
+        }
+        default:
+            // math, semantics, mrow, mstyle, mpadded, menclose, ...
+            return children();
+    }
+}
+
+/**
+ * LaTeX as a native Word equation (`<m:oMath>`), by way of KaTeX's MathML output.
+ * Anything KaTeX can't parse is kept as its source text.
+ */
+export function latexToOmml(latex: string, displayMode: boolean): string {
+    const mathml = katex.renderToString(latex, { output: 'mathml', displayMode, throwOnError: false });
+    const math = new DOMParser().parseFromString(mathml, 'text/html').querySelector('math');
+    return `<m:oMath>${math ? convert(math) : mathRun(latex, true)}</m:oMath>`;
+}
@@ -0,0 +1,17 @@
+/**
+ * Parses a page selection such as "1-3, 7, 10-" into ascending page numbers without duplicates,
+ * the same way the server does. Returns null when it is malformed, out of range or empty.
+ */
+export function parsePageRange(range: string, pageCount: number): number[] | null {
+    const pages = new Set<number>();
+    for (const part of range.split(',').map((p) => p.trim()).filter(Boolean)) {
+        const match = part.match(/^(\d*)\s*(?:(-)\s*(\d*))?$/);
+        if (!match || (!match[1] && !match[3])) return null;
+
+        const first = match[1] ? Number(match[1]) : 1;
+        const last = match[2] ? (match[3] ? Number(match[3]) : pageCount) : first;
+        if (first < 1 || last > pageCount || first > last) return null;
+        for (let page = first; page <= last; page++) pages.add(page);
+    }
+    return pages.size > 0 ? [...pages].sort((a, b) => a - b) : null;
+}
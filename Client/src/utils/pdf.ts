@@ -1,63 +1,49 @@
-import { jsPDF } from 'jspdf';
-import { remark } from 'remark';
-import remarkParse from 'remark-parse';
-import remarkGfm from 'remark-gfm';
-import remarkMath from 'remark-math';
-import remarkHtml from 'remark-html';
-import DOMPurify from 'dompurify';
-
-export class EmptyMarkdownError extends Error {
-    constructor(message = 'No content to download. Add some notes first!') {
-        super(message);
-        this.name = 'EmptyMarkdownError';
-    }
+import { jsPDF, type OutlineItem } from 'jspdf';
+import { EmptyMarkdownError, markdownToHtml, sanitizeNoteHtml } from './markdown';
+import { renderMathImage, type MathImage } from './pdfMath';
+import { loadPdfImage, type PdfImage } from './pdfImages';
+import { CODE_TOKEN_COLORS, highlightCode, type CodeToken } from './codeHighlight';
+import { loadPdfFont } from './pdfFonts';
+import { DEFAULT_PDF_OPTIONS, type PdfOptions } from './pdfOptions';
+
+// PDF Configuration - use points (pt) for everything.
+// Font sizes scale with the chosen body size (the ratios are those of the original 11pt layout).
+function fontSizes(body: number) {
+    const scale = body / 11;
+    return {
+        H1: 24 * scale,
+        H2: 18 * scale,
+        H3: 14 * scale,
+        H4: 12 * scale,
+        BODY: body,
+        CODE: 10 * scale,
+    };
 }
 
-// LaTeX to Unicode conversion
-const LATEX_TO_UNICODE: Record<string, string> = {
-    '\\rightarrow': '→', '\\leftarrow': '←', '\\uparrow': '↑', '\\downarrow': '↓',
-    '\\leftrightarrow': '↔', '\\Rightarrow': '⇒', '\\Leftarrow': '⇐', '\\to': '→',
-    '\\leq': '≤', '\\geq': '≥', '\\neq': '≠', '\\approx': '≈',
-    '\\alpha': 'α', '\\beta': 'β', '\\gamma': 'γ', '\\delta': 'δ',
-    '\\theta': 'θ', '\\lambda': 'λ', '\\mu': 'μ', '\\pi': 'π', '\\sigma': 'σ',
-    '\\phi': 'φ', '\\omega': 'ω', '\\Sigma': 'Σ', '\\Omega': 'Ω',
-    '\\star': '★', '\\square': '□', '\\bullet': '•', '\\circ': '○',
-    '\\times': '×', '\\div': '÷', '\\pm': '±', '\\infty': '∞',
-    '\\forall': '∀', '\\exists': '∃', '\\in': '∈', '\\sum': 'Σ',
-    '\\checkmark': '✓', '\\ldots': '…', '\\degree': '°',
-};
-
-function convertLatexToUnicode(text: string): string {
-    return text.replace(/\$([^$]+)\$/g, (_, latex) => {
-        let result = latex.trim();
-        for (const [cmd, unicode] of Object.entries(LATEX_TO_UNICODE)) {
-            result = result.replace(new RegExp(cmd.replace(/\\/g, '\\\\'), 'g'), unicode);
-        }
-        return result.replace(/\\[a-zA-Z]+/g, '').replace(/[{}]/g, '').trim() || latex;
-    });
+type FontSizes = ReturnType<typeof fontSizes>;
+
+// Space reserved inside the margins for the header and footer lines
+const HEADER_SPACE = 28;
+const FOOTER_SPACE = 20;
+
+interface PageLayout {
+    margin: number;
+    // First text baseline and lowest point content may reach on a page
+    top: number;
+    bottom: number;
+    fontName: string;
+    sizes: FontSizes;
 }
 
-async function markdownToHtml(markdown: string): Promise<string> {
-    const processed = convertLatexToUnicode(markdown);
-    const result = await remark()
-        .use(remarkParse)
-        .use(remarkGfm)
-        .use(remarkMath)
-        .use(remarkHtml, { sanitize: false })
-        .process(processed);
-    return String(result);
+// h1-h3 headings as rendered, for the table of contents and the bookmarks
+interface PdfHeading {
+    level: number;
+    text: string;
+    page: number;
 }
 
-// PDF Configuration - use points (pt) for everything
-const MARGIN = 50;
-const FONT_SIZE = {
-    H1: 24,
-    H2: 18,
-    H3: 14,
-    H4: 12,
-    BODY: 11,
-    CODE: 10,
-};
+// remark-math output: inline math as `code.math-inline`, display math as `pre > code.math-display`
+const MATH_SELECTOR = 'code.math-inline, code.math-display';
 
 function extractText(node: Node, depth = 0): string {
     if (depth > 50) return node.textContent || '';
@@ -65,6 +51,9 @@ function extractText(node: Node, depth = 0): string {
     if (node.nodeType === Node.ELEMENT_NODE) {
         const el = node as Element;
         const tag = el.tagName.toLowerCase();
+        if (el.classList.contains('math-inline')) {
+            return `$${el.textContent || ''}$`;
+        }
         if (tag === 'code' && el.parentElement?.tagName.toLowerCase() !== 'pre') {
             return `\`${el.textContent || ''}\``;
         }
@@ -75,24 +64,155 @@ function extractText(node: Node, depth = 0): string {
     return '';
 }
 
-function renderToPdf(doc: jsPDF, html: string): void {
-    const parser = new DOMParser();
-    const root = parser.parseFromString(`<div>${html}</div>`, 'text/html').body.firstElementChild;
-    if (!root) return;
+// Typeset equations and downloaded images, prepared before layout since loading them is async
+interface PdfAssets {
+    math: Map<Element, MathImage>;
+    images: Map<Element, PdfImage>;
+}
+
+// Formatting of a span of inline text; `href` makes it a clickable link
+interface InlineStyle {
+    bold: boolean;
+    italic: boolean;
+    code: boolean;
+    strike: boolean;
+    href: string | null;
+}
+
+const PLAIN: InlineStyle = { bold: false, italic: false, code: false, strike: false, href: null };
+
+// Inline content of a block: styled text, typeset equations, images and hard line breaks
+type Run =
+    | { text: string; style: InlineStyle }
+    | { math: MathImage }
+    | { image: PdfImage }
+    | { lineBreak: true };
 
+// Only web and mail links are kept clickable; anything else stays plain text
+function linkTarget(el: Element): string | null {
+    const href = el.getAttribute('href')?.trim() ?? '';
+    return /^(https?:|mailto:)/i.test(href) ? href : null;
+}
+
+function extractRuns(node: Node, assets: PdfAssets, style = PLAIN, runs: Run[] = [], depth = 0): Run[] {
+    if (node.nodeType === Node.TEXT_NODE) {
+        runs.push({ text: node.textContent || '', style });
+        return runs;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return runs;
+
+    const el = node as Element;
+    const tag = el.tagName.toLowerCase();
+    const math = assets.math.get(el);
+    if (math) {
+        runs.push({ math });
+    } else if (el.classList.contains('math-inline') || depth > 50) {
+        runs.push({ text: extractText(el, depth), style });
+    } else if (tag === 'img') {
+        const image = assets.images.get(el);
+        const alt = el.getAttribute('alt')?.trim();
+        // Images that couldn't be downloaded are replaced by their alt text
+        if (image) runs.push({ image });
+        else if (alt) runs.push({ text: `[${alt}]`, style: { ...style, italic: true } });
+    } else if (tag === 'br') {
+        runs.push({ lineBreak: true });
+    } else if (tag === 'code') {
+        runs.push({ text: el.textContent || '', style: { ...style, code: true } });
+    } else {
+        let childStyle = style;
+        if (tag === 'strong' || tag === 'b') childStyle = { ...style, bold: true };
+        else if (tag === 'em' || tag === 'i') childStyle = { ...style, italic: true };
+        else if (tag === 'del' || tag === 's') childStyle = { ...style, strike: true };
+        else if (tag === 'a') childStyle = { ...style, href: linkTarget(el) };
+        el.childNodes.forEach(child => extractRuns(child, assets, childStyle, runs, depth + 1));
+        // Paragraphs flattened into one block (in quotes and loose list items) still start on new lines
+        if (tag === 'p' && el.nextElementSibling) runs.push({ lineBreak: true });
+    }
+    return runs;
+}
+
+const runsAreEmpty = (runs: Run[]) =>
+    runs.every((run) => 'lineBreak' in run || ('text' in run && !run.text.trim()));
+
+// Font size of the text around an equation, so inline math matches it
+function mathFontSize(el: Element, sizes: FontSizes): number {
+    const heading = el.closest('h1, h2, h3, h4, h5, h6')?.tagName.toLowerCase();
+    if (heading === 'h1') return sizes.H1;
+    if (heading === 'h2') return sizes.H2;
+    if (heading === 'h3') return sizes.H3;
+    return heading ? sizes.H4 : sizes.BODY;
+}
+
+// Typeset every equation up front, since rendering is async and the PDF layout below is not
+async function renderMathImages(root: Element, sizes: FontSizes): Promise<Map<Element, MathImage>> {
+    const images = new Map<Element, MathImage>();
+    // One at a time: each equation is measured and rasterized from a live DOM node
+    for (const el of Array.from(root.querySelectorAll(MATH_SELECTOR))) {
+        // Math in table cells stays as LaTeX source; cells are laid out as single lines of text
+        if (el.closest('td, th')) continue;
+        const displayMode = el.classList.contains('math-display');
+        images.set(el, await renderMathImage(el.textContent || '', displayMode, mathFontSize(el, sizes)));
+    }
+    return images;
+}
+
+// Downloads the note's images; ones that fail (offline, no CORS, not an image) fall back to their alt text
+async function loadImages(root: Element): Promise<Map<Element, PdfImage>> {
+    const images = new Map<Element, PdfImage>();
+    await Promise.all(Array.from(root.querySelectorAll('img')).map(async (el) => {
+        const src = el.getAttribute('src');
+        if (!src || el.closest('td, th')) return;
+        try {
+            images.set(el, await loadPdfImage(src));
+        } catch (err) {
+            console.warn('[PDF] Skipping image:', src, err);
+        }
+    }));
+    return images;
+}
+
+const LINK_COLOR: [number, number, number] = [29, 78, 216];
+
+// Splits highlighted lines longer than `perLine` characters into several printed lines
+function wrapCodeLines(lines: CodeToken[][], perLine: number): CodeToken[][] {
+    const wrapped: CodeToken[][] = [];
+    lines.forEach((tokens) => {
+        let line: CodeToken[] = [];
+        let length = 0;
+        tokens.forEach(({ type, text }) => {
+            while (length + text.length > perLine) {
+                const fits = perLine - length;
+                if (fits > 0) line.push({ type, text: text.slice(0, fits) });
+                wrapped.push(line);
+                line = [];
+                length = 0;
+                text = text.slice(fits);
+            }
+            if (text) {
+                line.push({ type, text });
+                length += text.length;
+            }
+        });
+        wrapped.push(line);
+    });
+    return wrapped;
+}
+
+function renderToPdf(doc: jsPDF, root: Element, assets: PdfAssets, layout: PageLayout): PdfHeading[] {
+    const { margin, top, bottom, fontName, sizes } = layout;
     const pageWidth = doc.internal.pageSize.getWidth();
-    const pageHeight = doc.internal.pageSize.getHeight();
-    const contentWidth = pageWidth - MARGIN * 2;
+    const contentWidth = pageWidth - margin * 2;
 
-    let y = MARGIN;
+    let y = top;
     let listDepth = 0;
     const listCounters: number[] = [];
+    const headings: PdfHeading[] = [];
 
     // Check for page break and add new page if needed
     function checkPageBreak(neededHeight: number): void {
-        if (y + neededHeight > pageHeight - MARGIN) {
+        if (y + neededHeight > bottom) {
             doc.addPage();
-            y = MARGIN;
+            y = top;
         }
     }
 
@@ -106,8 +226,13 @@ function renderToPdf(doc: jsPDF, html: string): void {
         y += points;
     }
 
-    // Render a text block with word wrapping
-    function renderText(text: string, fontSize: number, options: {
+    const fontStyle = (bold: boolean, italic: boolean) =>
+        bold ? (italic ? 'bolditalic' : 'bold') : (italic ? 'italic' : 'normal');
+
+    // Render a block of inline runs with word wrapping. Styled spans, equations and images flow
+    // together; lines holding something taller than the text grow to fit it, and are kept whole
+    // across page breaks.
+    function renderRuns(runs: Run[], fontSize: number, options: {
         bold?: boolean;
         italic?: boolean;
         indent?: number;
@@ -116,36 +241,215 @@ function renderToPdf(doc: jsPDF, html: string): void {
     } = {}): void {
         const { bold = false, italic = false, indent = 0, prefix = '', color = [0, 0, 0] } = options;
 
-        doc.setFontSize(fontSize);
-        const fontStyle = bold ? (italic ? 'bolditalic' : 'bold') : (italic ? 'italic' : 'normal');
-        doc.setFont('helvetica', fontStyle);
-        doc.setTextColor(color[0], color[1], color[2]);
-
         const lineHeight = getLineHeight(fontSize);
-        const x = MARGIN + indent;
-        const availableWidth = contentWidth - indent;
+        const x = margin + indent;
+        const textX = x + (prefix ? 15 : 0);
+        const textWidth = contentWidth - indent - (prefix ? 15 : 0);
+
+        // Inline code is set in a monospace font, slightly smaller than the text around it
+        const setRunFont = (style: InlineStyle) => {
+            doc.setFont(style.code ? 'courier' : fontName, fontStyle(bold || style.bold, italic || style.italic));
+            doc.setFontSize(style.code ? fontSize * 0.9 : fontSize);
+        };
+        const measure = (text: string, style: InlineStyle) => {
+            setRunFont(style);
+            return doc.getTextWidth(text);
+        };
+
+        // Break the runs into words (which may mix styles) and fill lines greedily.
+        // Words wider than a whole line are split between characters.
+        type Segment = { text: string; width: number; style: InlineStyle }
+            | { picture: MathImage | PdfImage; format: 'PNG' | 'JPEG'; width: number; height: number; ascent: number };
+        const lines: Segment[][] = [[]];
+        let lineWidth = 0;
+        let word: Segment[] = [];
+        let space: Segment | null = null;
+
+        const newLine = () => {
+            lines.push([]);
+            lineWidth = 0;
+        };
+        const placeSegment = (segment: Segment) => {
+            if ('text' in segment) {
+                let { text, width } = segment;
+                while (lineWidth + width > textWidth && text.length > 1) {
+                    let fits = 0;
+                    while (fits < text.length && lineWidth + measure(text.slice(0, fits + 1), segment.style) <= textWidth) fits++;
+                    if (fits === 0 && lines[lines.length - 1].length > 0) {
+                        newLine();
+                        continue;
+                    }
+                    fits = Math.max(1, fits);
+                    const head = text.slice(0, fits);
+                    lines[lines.length - 1].push({ ...segment, text: head, width: measure(head, segment.style) });
+                    newLine();
+                    text = text.slice(fits);
+                    width = measure(text, segment.style);
+                }
+                segment = { ...segment, text, width };
+            } else if (lineWidth + segment.width > textWidth && lines[lines.length - 1].length > 0) {
+                newLine();
+            }
+            lines[lines.length - 1].push(segment);
+            lineWidth += segment.width;
+        };
+        const flushWord = () => {
+            if (word.length === 0) return;
+            const line = lines[lines.length - 1];
+            const width = word.reduce((sum, segment) => sum + segment.width, 0);
+            const gap = line.length > 0 && space ? space.width : 0;
+            if (line.length > 0 && lineWidth + gap + width > textWidth) {
+                newLine();
+            } else if (gap && space) {
+                line.push(space);
+                lineWidth += gap;
+            }
+            word.forEach(placeSegment);
+            word = [];
+            space = null;
+        };
+
+        // Pictures are scaled down to the text column, and to most of a page
+        const pictureHeightLimit = (bottom - top) * 0.8;
+        runs.forEach((run) => {
+            if ('lineBreak' in run) {
+                flushWord();
+                newLine();
+            } else if ('math' in run || 'image' in run) {
+                const picture = 'math' in run ? run.math : run.image;
+                const ascent = 'math' in run ? run.math.ascent : run.image.height;
+                const scale = Math.min(1, textWidth / picture.width, pictureHeightLimit / picture.height);
+                word.push({
+                    picture,
+                    format: 'image' in run ? run.image.format : 'PNG',
+                    width: picture.width * scale,
+                    height: picture.height * scale,
+                    ascent: ascent * scale,
+                });
+            } else {
+                run.text.split(/(\s+)/).filter(Boolean).forEach((token) => {
+                    if (token.trim()) {
+                        word.push({ text: token, width: measure(token, run.style), style: run.style });
+                        return;
+                    }
+                    flushWord();
+                    space = { text: ' ', width: measure(' ', run.style), style: run.style };
+                });
+            }
+        });
+        flushWord();
+
+        lines.forEach((line, i) => {
+            let ascent = fontSize;
+            let descent = lineHeight - fontSize;
+            line.forEach((segment) => {
+                if ('picture' in segment) {
+                    ascent = Math.max(ascent, segment.ascent + 2);
+                    descent = Math.max(descent, segment.height - segment.ascent + 2);
+                }
+            });
+            const above = ascent - fontSize;
+            const below = descent - (lineHeight - fontSize);
+
+            checkPageBreak(above + lineHeight + below);
+            y += above;
+            if (i === 0 && prefix) {
+                setRunFont(PLAIN);
+                doc.setTextColor(color[0], color[1], color[2]);
+                doc.text(prefix, x, y);
+            }
 
-        // Render prefix (bullet/number) if provided
-        if (prefix) {
-            checkPageBreak(lineHeight);
-            doc.text(prefix, x, y);
-        }
+            let segmentX = textX;
+            line.forEach((segment) => {
+                if ('picture' in segment) {
+                    doc.addImage(segment.picture.dataUrl, segment.format, segmentX, y - segment.ascent, segment.width, segment.height);
+                    segmentX += segment.width;
+                    return;
+                }
 
-        // Calculate text start position
-        const textIndent = prefix ? 15 : 0;
-        const textWidth = availableWidth - textIndent;
-        const textX = x + textIndent;
+                const { style, width } = segment;
+                setRunFont(style);
+                if (style.code) {
+                    doc.setFillColor(238, 238, 238);
+                    doc.rect(segmentX, y - fontSize * 0.8, width, fontSize * 1.05, 'F');
+                }
+                const textColor = style.href ? LINK_COLOR : color;
+                doc.setTextColor(textColor[0], textColor[1], textColor[2]);
+                if (segment.text.trim()) doc.text(segment.text, segmentX, y);
+
+                doc.setDrawColor(textColor[0], textColor[1], textColor[2]);
+                doc.setLineWidth(fontSize / 18);
+                if (style.strike) doc.line(segmentX, y - fontSize * 0.3, segmentX + width, y - fontSize * 0.3);
+                if (style.href) {
+                    doc.line(segmentX, y + fontSize * 0.15, segmentX + width, y + fontSize * 0.15);
+                    doc.link(segmentX, y - fontSize, width, lineHeight, { url: style.href });
+                }
+                segmentX += width;
+            });
+            y += lineHeight + below;
+        });
 
-        // Split text into lines that fit width
-        const lines = doc.splitTextToSize(text, textWidth);
+        doc.setTextColor(0, 0, 0);
+    }
 
-        for (let i = 0; i < lines.length; i++) {
-            checkPageBreak(lineHeight);
-            doc.text(lines[i], textX, y);
+    // A code block with syntax highlighting. The background is drawn line by line, so a block
+    // split across pages stays shaded on both.
+    function renderCode(code: string, language: string | null): void {
+        const fontSize = sizes.CODE;
+        const lineHeight = getLineHeight(fontSize);
+        const padding = 8;
+        doc.setFont('courier', 'normal');
+        doc.setFontSize(fontSize);
+        // Courier is monospaced, so every character is as wide as a space
+        const charWidth = doc.getTextWidth(' ');
+        const perLine = Math.max(1, Math.floor((contentWidth - 20) / charWidth));
+        const lines = wrapCodeLines(highlightCode(code, language), perLine);
+
+        addSpace(8 + padding);
+        lines.forEach((tokens, i) => {
+            const last = i === lines.length - 1;
+            const page = doc.getCurrentPageInfo().pageNumber;
+            checkPageBreak(lineHeight + (last ? padding : 0));
+            const first = i === 0 || doc.getCurrentPageInfo().pageNumber !== page;
+
+            const lineTop = y - fontSize - (first ? padding : 0);
+            const lineBottom = y - fontSize + lineHeight + (last ? padding : 0);
+            doc.setFillColor(245, 245, 245);
+            doc.rect(margin, lineTop, contentWidth, lineBottom - lineTop, 'F');
+
+            let tokenX = margin + 10;
+            tokens.forEach((token) => {
+                const [r, g, b] = CODE_TOKEN_COLORS[token.type];
+                doc.setTextColor(r, g, b);
+                doc.text(token.text, tokenX, y);
+                tokenX += token.text.length * charWidth;
+            });
             y += lineHeight;
-        }
-
+        });
         doc.setTextColor(0, 0, 0);
+        addSpace(padding + 8);
+    }
+
+    // A display equation centered on its own line, scaled down if it's wider than the page or taller than it
+    function renderDisplayMath(image: MathImage): void {
+        const scale = Math.min(1, contentWidth / image.width, (bottom - top) / image.height);
+        const width = image.width * scale;
+        const height = image.height * scale;
+
+        addSpace(6);
+        checkPageBreak(height);
+        // `y` is the next text baseline; the equation starts where that line's text would
+        const imageTop = y - sizes.BODY;
+        doc.addImage(image.dataUrl, 'PNG', margin + (contentWidth - width) / 2, imageTop, width, height);
+        y = imageTop + height + sizes.BODY + 10;
+    }
+
+    // h1-h3: rendered like any block, and recorded with the page they start on
+    function renderHeading(node: Element, level: number, fontSize: number): void {
+        checkPageBreak(getLineHeight(fontSize));
+        const text = extractText(node).trim();
+        if (text) headings.push({ level, text, page: doc.getCurrentPageInfo().pageNumber });
+        renderRuns(extractRuns(node, assets), fontSize, { bold: true });
     }
 
     function processNode(node: Element): void {
@@ -155,22 +459,19 @@ function renderToPdf(doc: jsPDF, html: string): void {
         switch (tag) {
             case 'h1': {
                 addSpace(20);
-                const text = extractText(node).trim();
-                if (text) renderText(text, FONT_SIZE.H1, { bold: true });
+                renderHeading(node, 1, sizes.H1);
                 addSpace(10);
                 break;
             }
             case 'h2': {
                 addSpace(16);
-                const text = extractText(node).trim();
-                if (text) renderText(text, FONT_SIZE.H2, { bold: true });
+                renderHeading(node, 2, sizes.H2);
                 addSpace(8);
                 break;
             }
             case 'h3': {
                 addSpace(12);
-                const text = extractText(node).trim();
-                if (text) renderText(text, FONT_SIZE.H3, { bold: true });
+                renderHeading(node, 3, sizes.H3);
                 addSpace(6);
                 break;
             }
@@ -178,16 +479,15 @@ function renderToPdf(doc: jsPDF, html: string): void {
             case 'h5':
             case 'h6': {
                 addSpace(10);
-                const text = extractText(node).trim();
-                if (text) renderText(text, FONT_SIZE.H4, { bold: true });
+                renderRuns(extractRuns(node, assets), sizes.H4, { bold: true });
                 addSpace(4);
                 break;
             }
             case 'p': {
-                const text = extractText(node).trim();
-                if (text) {
+                const runs = extractRuns(node, assets);
+                if (!runsAreEmpty(runs)) {
                     const indent = listDepth * indentPerLevel;
-                    renderText(text, FONT_SIZE.BODY, { indent });
+                    renderRuns(runs, sizes.BODY, { indent });
                     addSpace(8);
                 }
                 break;
@@ -221,22 +521,18 @@ function renderToPdf(doc: jsPDF, html: string): void {
                     prefix = isOrdered ? `${counter}.` : '•';
                 }
 
-                // Get direct text content (not from nested lists)
-                let directText = '';
+                // Get direct content (not from nested lists)
+                const directRuns: Run[] = [];
                 node.childNodes.forEach(child => {
-                    if (child.nodeType === Node.TEXT_NODE) {
-                        directText += child.textContent || '';
-                    } else if (child.nodeType === Node.ELEMENT_NODE) {
-                        const childTag = (child as Element).tagName.toLowerCase();
-                        if (childTag !== 'ul' && childTag !== 'ol') {
-                            directText += extractText(child);
-                        }
+                    const childTag = child.nodeType === Node.ELEMENT_NODE ? (child as Element).tagName.toLowerCase() : '';
+                    if (childTag !== 'ul' && childTag !== 'ol') {
+                        extractRuns(child, assets, PLAIN, directRuns);
                     }
                 });
 
                 const indent = (listDepth - 1) * indentPerLevel;
-                if (directText.trim()) {
-                    renderText(directText.trim(), FONT_SIZE.BODY, { indent, prefix });
+                if (!runsAreEmpty(directRuns)) {
+                    renderRuns(directRuns, sizes.BODY, { indent, prefix });
                 }
 
                 // Process nested lists
@@ -251,47 +547,32 @@ function renderToPdf(doc: jsPDF, html: string): void {
                 break;
             }
             case 'blockquote': {
-                const text = extractText(node).trim();
-                if (text) {
+                const runs = extractRuns(node, assets);
+                if (!runsAreEmpty(runs)) {
                     addSpace(8);
                     const startY = y;
-                    renderText(text, FONT_SIZE.BODY, { italic: true, indent: 20, color: [100, 100, 100] });
+                    renderRuns(runs, sizes.BODY, { italic: true, indent: 20, color: [100, 100, 100] });
                     // Draw left border
                     doc.setDrawColor(180, 180, 180);
                     doc.setLineWidth(3);
-                    doc.line(MARGIN + 8, startY - 10, MARGIN + 8, y - 5);
+                    doc.line(margin + 8, startY - 10, margin + 8, y - 5);
                     addSpace(8);
                 }
                 break;
             }
             case 'pre': {
-                const code = node.textContent?.trim() || '';
-                if (code) {
-                    addSpace(8);
-                    const lines = code.split('\n');
-                    const lineHeight = getLineHeight(FONT_SIZE.CODE);
-                    const blockHeight = lines.length * lineHeight + 20;
-
-                    checkPageBreak(Math.min(blockHeight, 100));
-
-                    // Draw background
-                    doc.setFillColor(245, 245, 245);
-                    doc.roundedRect(MARGIN, y - 5, contentWidth, blockHeight, 4, 4, 'F');
-
-                    // Draw code
-                    doc.setFont('courier', 'normal');
-                    doc.setFontSize(FONT_SIZE.CODE);
-                    y += 10;
-
-                    for (const line of lines) {
-                        checkPageBreak(lineHeight);
-                        doc.text(line || ' ', MARGIN + 10, y);
-                        y += lineHeight;
-                    }
-
-                    y += 10;
-                    addSpace(8);
+                const math = node.querySelector('code.math-display');
+                const mathImage = math && assets.math.get(math);
+                if (mathImage) {
+                    renderDisplayMath(mathImage);
+                    break;
                 }
+
+                // Fenced code keeps its language as a `language-xxx` class
+                const language = Array.from(node.querySelector('code')?.classList ?? [])
+                    .find((name) => name.startsWith('language-'))?.slice('language-'.length) ?? null;
+                const code = (node.textContent || '').replace(/\t/g, '    ').replace(/^\n+|\s+$/g, '');
+                if (code) renderCode(code, language);
                 break;
             }
             case 'table': {
@@ -301,7 +582,7 @@ function renderToPdf(doc: jsPDF, html: string): void {
 
                 const cols = rows[0].querySelectorAll('th, td').length || 1;
                 const colWidth = contentWidth / cols;
-                const rowHeight = getLineHeight(FONT_SIZE.BODY) + 12;
+                const rowHeight = getLineHeight(sizes.BODY) + 12;
 
                 for (const row of rows) {
                     checkPageBreak(rowHeight);
@@ -311,24 +592,24 @@ function renderToPdf(doc: jsPDF, html: string): void {
                     // Header background
                     if (isHeader) {
                         doc.setFillColor(240, 240, 240);
-                        doc.rect(MARGIN, y, contentWidth, rowHeight, 'F');
+                        doc.rect(margin, y, contentWidth, rowHeight, 'F');
                     }
 
                     // Cell text
                     cells.forEach((cell, i) => {
-                        doc.setFontSize(FONT_SIZE.BODY);
-                        doc.setFont('helvetica', isHeader ? 'bold' : 'normal');
+                        doc.setFontSize(sizes.BODY);
+                        doc.setFont(fontName, isHeader ? 'bold' : 'normal');
                         const text = extractText(cell).trim();
                         const truncated = doc.splitTextToSize(text, colWidth - 10)[0] || '';
-                        doc.text(truncated, MARGIN + i * colWidth + 5, y + rowHeight / 2 + 3);
+                        doc.text(truncated, margin + i * colWidth + 5, y + rowHeight / 2 + 3);
                     });
 
                     // Borders
                     doc.setDrawColor(200, 200, 200);
                     doc.setLineWidth(0.5);
-                    doc.rect(MARGIN, y, contentWidth, rowHeight);
+                    doc.rect(margin, y, contentWidth, rowHeight);
                     for (let i = 1; i < cols; i++) {
-                        doc.line(MARGIN + i * colWidth, y, MARGIN + i * colWidth, y + rowHeight);
+                        doc.line(margin + i * colWidth, y, margin + i * colWidth, y + rowHeight);
                     }
 
                     y += rowHeight;
@@ -341,7 +622,7 @@ function renderToPdf(doc: jsPDF, html: string): void {
                 checkPageBreak(5);
                 doc.setDrawColor(200, 200, 200);
                 doc.setLineWidth(1);
-                doc.line(MARGIN, y, pageWidth - MARGIN, y);
+                doc.line(margin, y, pageWidth - margin, y);
                 addSpace(15);
                 break;
             }
@@ -362,11 +643,137 @@ function renderToPdf(doc: jsPDF, html: string): void {
             processNode(child as Element);
         }
     });
+    return headings;
+}
+
+// Scans that fail to load are left out of the appendix rather than failing the export
+async function loadScanImages(urls: string[]): Promise<PdfImage[]> {
+    const scans = await Promise.all(urls.map((url) => loadPdfImage(url).catch((err) => {
+        console.warn('[PDF] Skipping scan image:', url, err);
+        return null;
+    })));
+    return scans.filter((scan): scan is PdfImage => scan !== null);
+}
+
+// One page per original scan after the content, each image fitted below its title.
+// Returns the pages as headings so they show up in the table of contents and bookmarks.
+function addScanAppendix(doc: jsPDF, scans: PdfImage[], layout: PageLayout): PdfHeading[] {
+    const { margin, top, bottom, fontName, sizes } = layout;
+    const contentWidth = doc.internal.pageSize.getWidth() - margin * 2;
+
+    return scans.map((scan, i) => {
+        doc.addPage();
+        const text = scans.length > 1 ? `Original scan (page ${i + 1} of ${scans.length})` : 'Original scan';
+        doc.setFont(fontName, 'bold');
+        doc.setFontSize(sizes.H2);
+        doc.text(text, margin, top);
+
+        const imageTop = top + sizes.H2;
+        const scale = Math.min(1, contentWidth / scan.width, (bottom - imageTop) / scan.height);
+        const width = scan.width * scale;
+        doc.addImage(scan.dataUrl, scan.format, margin + (contentWidth - width) / 2, imageTop, width, scan.height * scale);
+        return { level: 1, text, page: doc.getCurrentPageInfo().pageNumber };
+    });
+}
+
+// Inserts the table of contents as the first page(s), each entry linking to its heading.
+// Returns the number of pages inserted.
+function addTableOfContents(doc: jsPDF, headings: PdfHeading[], layout: PageLayout): number {
+    if (headings.length === 0) return 0;
+
+    const { margin, top, bottom, fontName, sizes } = layout;
+    const pageWidth = doc.internal.pageSize.getWidth();
+    const lineHeight = sizes.BODY * 1.8;
+    const firstEntryY = top + sizes.H1 * 2;
+    const perPage = Math.max(1, Math.floor((bottom - firstEntryY) / lineHeight) + 1);
+    const pageCount = Math.ceil(headings.length / perPage);
+
+    for (let i = 0; i < pageCount; i++) doc.insertPage(i + 1);
+
+    headings.forEach((heading, i) => {
+        const tocPage = Math.floor(i / perPage) + 1;
+        doc.setPage(tocPage);
+        if (i % perPage === 0) {
+            doc.setFont(fontName, 'bold');
+            doc.setFontSize(sizes.H1);
+            doc.text(tocPage === 1 ? 'Contents' : 'Contents (continued)', margin, top);
+        }
+
+        const y = firstEntryY + (i % perPage) * lineHeight;
+        const x = margin + (heading.level - 1) * 14;
+        const pageLabel = String(heading.page + pageCount);
+        doc.setFont(fontName, heading.level === 1 ? 'bold' : 'normal');
+        doc.setFontSize(sizes.BODY);
+
+        const labelWidth = doc.getTextWidth(pageLabel);
+        const title = doc.splitTextToSize(heading.text, pageWidth - margin - x - labelWidth - 30)[0] || '';
+        doc.text(title, x, y);
+        doc.text(pageLabel, pageWidth - margin, y, { align: 'right' });
+
+        // Dot leader between the title and the page number
+        doc.setTextColor(160, 160, 160);
+        const leaderStart = x + doc.getTextWidth(title) + 6;
+        const leaderEnd = pageWidth - margin - labelWidth - 6;
+        const dotWidth = doc.getTextWidth('. ');
+        if (leaderEnd > leaderStart + dotWidth) {
+            doc.text('. '.repeat(Math.floor((leaderEnd - leaderStart) / dotWidth)), leaderEnd, y, { align: 'right' });
+        }
+        doc.setTextColor(0, 0, 0);
+
+        doc.link(x, y - sizes.BODY, pageWidth - margin - x, lineHeight, { pageNumber: heading.page + pageCount });
+    });
+    return pageCount;
+}
+
+// PDF outline (the viewer's bookmark sidebar), nested by heading level
+function addBookmarks(doc: jsPDF, headings: PdfHeading[], pageOffset: number): void {
+    const parents: OutlineItem[] = [];
+    headings.forEach((heading) => {
+        const parent = parents.slice(0, heading.level - 1).reverse().find(Boolean) ?? null;
+        parents[heading.level - 1] = doc.outline.add(parent, heading.text, { pageNumber: heading.page + pageOffset });
+        parents.length = heading.level;
+    });
+}
+
+// Title/date header and page-number footer, drawn on every page once the page count is known
+function addHeaderAndFooter(doc: jsPDF, options: PdfOptions, layout: PageLayout, title: string): void {
+    const { margin, fontName, sizes } = layout;
+    const pageWidth = doc.internal.pageSize.getWidth();
+    const pageHeight = doc.internal.pageSize.getHeight();
+    const pageCount = doc.getNumberOfPages();
+    const date = new Date().toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' });
+    const headerTitle = options.headerTitle ? title.trim() || 'Untitled' : '';
+
+    for (let page = 1; page <= pageCount; page++) {
+        doc.setPage(page);
+        doc.setFont(fontName, 'normal');
+        doc.setFontSize(sizes.BODY * 0.8);
+        doc.setTextColor(120, 120, 120);
+
+        if (options.headerTitle || options.headerDate) {
+            const dateWidth = options.headerDate ? doc.getTextWidth(date) + 20 : 0;
+            if (headerTitle) {
+                doc.text(doc.splitTextToSize(headerTitle, pageWidth - margin * 2 - dateWidth)[0] || '', margin, margin);
+            }
+            if (options.headerDate) doc.text(date, pageWidth - margin, margin, { align: 'right' });
+            doc.setDrawColor(220, 220, 220);
+            doc.setLineWidth(0.5);
+            doc.line(margin, margin + 6, pageWidth - margin, margin + 6);
+        }
+        if (options.pageNumbers) {
+            doc.text(`Page ${page} of ${pageCount}`, pageWidth / 2, pageHeight - margin, { align: 'center' });
+        }
+        doc.setTextColor(0, 0, 0);
+    }
 }
 
 export async function downloadMarkdownAsPdf(
     markdown: string,
-    filenamePrefix = 'vibescribe-notes'
+    filenamePrefix = 'vibescribe-notes',
+    options: PdfOptions = DEFAULT_PDF_OPTIONS,
+    title = '',
+    // The note's original scans, appended when `options.appendScanImages` is set
+    scanImageUrls: string[] = []
 ): Promise<void> {
     console.log('[PDF] Starting PDF generation...');
 
@@ -379,23 +786,42 @@ export async function downloadMarkdownAsPdf(
         const html = await markdownToHtml(markdown);
 
         console.log('[PDF] Sanitizing HTML...');
-        const clean = DOMPurify.sanitize(html, {
-            USE_PROFILES: { html: true },
-            ALLOWED_TAGS: ['h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'p', 'br', 'hr', 'ul', 'ol', 'li',
-                'blockquote', 'pre', 'code', 'table', 'thead', 'tbody', 'tr', 'th', 'td',
-                'a', 'strong', 'em', 'del', 's', 'b', 'i', 'input', 'span', 'div'],
-            ALLOWED_ATTR: ['href', 'type', 'checked', 'disabled', 'class']
-        });
+        const clean = sanitizeNoteHtml(html);
 
         console.log('[PDF] Creating PDF document...');
         const doc = new jsPDF({
             unit: 'pt',
-            format: 'letter',
-            orientation: 'portrait'
+            format: options.pageSize,
+            orientation: options.orientation
         });
-
-        console.log('[PDF] Rendering content...');
-        renderToPdf(doc, clean);
+        if (title) doc.setProperties({ title });
+
+        const hasHeader = options.headerTitle || options.headerDate;
+        const layout: PageLayout = {
+            margin: options.margin,
+            top: options.margin + (hasHeader ? HEADER_SPACE : 0),
+            bottom: doc.internal.pageSize.getHeight() - options.margin - (options.pageNumbers ? FOOTER_SPACE : 0),
+            fontName: await loadPdfFont(doc, options.fontFamily),
+            sizes: fontSizes(options.fontSize),
+        };
+
+        const root = new DOMParser().parseFromString(`<div>${clean}</div>`, 'text/html').body.firstElementChild;
+        if (root) {
+            console.log('[PDF] Typesetting math...');
+            const math = await renderMathImages(root, layout.sizes);
+
+            console.log('[PDF] Loading images...');
+            const images = await loadImages(root);
+
+            console.log('[PDF] Rendering content...');
+            const headings = renderToPdf(doc, root, { math, images }, layout);
+            if (options.appendScanImages && scanImageUrls.length > 0) {
+                headings.push(...addScanAppendix(doc, await loadScanImages(scanImageUrls), layout));
+            }
+            const tocPages = options.toc ? addTableOfContents(doc, headings, layout) : 0;
+            addBookmarks(doc, headings, tocPages);
+        }
+        addHeaderAndFooter(doc, options, layout, title);
 
         const timestamp = new Date().toISOString().slice(0, 10);
         const filename = `${filenamePrefix}-${timestamp}.pdf`;
@@ -0,0 +1,71 @@
+import type { jsPDF } from 'jspdf';
+import type { PdfFontFamily } from './pdfOptions';
+
+// Static TrueType builds of the Noto fonts; VITE_PDF_FONTS_URL can point at a self-hosted copy with the same layout
+const FONTS_BASE_URL = import.meta.env.VITE_PDF_FONTS_URL
+    || 'https://cdn.jsdelivr.net/gh/notofonts/notofonts.github.io@main/fonts';
+
+const EMBEDDED_FONTS: Partial<Record<PdfFontFamily, string>> = {
+    'noto-sans': 'NotoSans',
+    'noto-serif': 'NotoSerif',
+};
+
+// jsPDF font style -> file name suffix
+const FONT_STYLES = {
+    normal: 'Regular',
+    bold: 'Bold',
+    italic: 'Italic',
+    bolditalic: 'BoldItalic',
+} as const;
+
+// Downloaded font files (base64), kept for the session so repeated exports don't fetch them again
+const fontFiles = new Map<string, Promise<string>>();
+
+function fetchFontFile(url: string) {
+    let file = fontFiles.get(url);
+    if (!file) {
+        file = fetch(url)
+            .then((response) => {
+                if (!response.ok) throw new Error(`HTTP ${response.status}`);
+                return response.blob();
+            })
+            .then((blob) => new Promise<string>((resolve, reject) => {
+                const reader = new FileReader();
+                reader.onload = () => resolve((reader.result as string).split(',')[1]);
+                reader.onerror = () => reject(reader.error);
+                reader.readAsDataURL(blob);
+            }));
+        file.catch(() => fontFiles.delete(url));
+        fontFiles.set(url, file);
+    }
+    return file;
+}
+
+export class PdfFontError extends Error {
+    constructor(message = "Couldn't download the Unicode font. Check your connection or pick another font.") {
+        super(message);
+        this.name = 'PdfFontError';
+    }
+}
+
+/**
+ * Makes `family` available in `doc` and returns the jsPDF font name to use with setFont.
+ * Built-in families need nothing; embedded ones are downloaded (once) and registered in all four styles.
+ */
+export async function loadPdfFont(doc: jsPDF, family: PdfFontFamily): Promise<string> {
+    const name = EMBEDDED_FONTS[family];
+    if (!name) return family;
+
+    try {
+        await Promise.all(Object.entries(FONT_STYLES).map(async ([style, suffix]) => {
+            const fileName = `${name}-${suffix}.ttf`;
+            const file = await fetchFontFile(`${FONTS_BASE_URL}/${name}/hinted/ttf/${fileName}`);
+            doc.addFileToVFS(fileName, file);
+            doc.addFont(fileName, name, style);
+        }));
+    } catch (err) {
+        console.error('[PDF] Failed to load font:', err);
+        throw new PdfFontError();
+    }
+    return name;
+}
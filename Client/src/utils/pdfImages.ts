@@ -0,0 +1,47 @@
+export interface PdfImage {
+    dataUrl: string;
+    format: 'PNG' | 'JPEG';
+    // Natural size in pt (1px = 0.75pt), after downscaling
+    width: number;
+    height: number;
+}
+
+// Longest side, in px, an image is embedded at; phone photos are far larger than print needs
+const MAX_IMAGE_SIZE = 2000;
+
+/**
+ * Downloads an image and re-encodes it for jsPDF, which only reads PNG and JPEG data URLs.
+ * Images from other origins need CORS headers, like the ones on the server's uploads.
+ */
+export async function loadPdfImage(url: string): Promise<PdfImage> {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    const blob = await response.blob();
+    const bitmap = await createImageBitmap(blob);
+
+    try {
+        const scale = Math.min(1, MAX_IMAGE_SIZE / Math.max(bitmap.width, bitmap.height));
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+        canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+        const context = canvas.getContext('2d');
+        if (!context) throw new Error('Canvas is not supported');
+
+        // Photos (scans included) stay JPEG, which is much smaller; PNG keeps transparency for the rest
+        const format = blob.type === 'image/jpeg' ? 'JPEG' : 'PNG';
+        if (format === 'JPEG') {
+            context.fillStyle = '#ffffff';
+            context.fillRect(0, 0, canvas.width, canvas.height);
+        }
+        context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+
+        return {
+            dataUrl: canvas.toDataURL(format === 'JPEG' ? 'image/jpeg' : 'image/png', 0.9),
+            format,
+            width: canvas.width * 0.75,
+            height: canvas.height * 0.75,
+        };
+    } finally {
+        bitmap.close();
+    }
+}
@@ -0,0 +1,51 @@
+import katex from 'katex';
+import html2canvas from 'html2canvas';
+import 'katex/dist/katex.min.css';
+
+// Equations are rasterized at this multiple of their size in the PDF, so they stay sharp when zoomed or printed
+const RENDER_SCALE = 4;
+
+export interface MathImage {
+    dataUrl: string;
+    // Size in pt at the font size the equation was rendered for
+    width: number;
+    height: number;
+    // Distance from the top of the image to the text baseline, for aligning inline math with the words around it
+    ascent: number;
+}
+
+/**
+ * Typesets a LaTeX equation with KaTeX and rasterizes it for embedding in the PDF.
+ * The equation is laid out with 1em = `fontSize`, so the image's px size is its size in pt.
+ * Invalid LaTeX is rendered as KaTeX's red error text rather than failing the export.
+ */
+export async function renderMathImage(latex: string, displayMode: boolean, fontSize: number): Promise<MathImage> {
+    const container = document.createElement('div');
+    container.style.cssText = 'position: fixed; left: -10000px; top: 0; padding: 1px; ' +
+        `font-size: ${fontSize}px; line-height: normal; color: #000; white-space: nowrap; display: inline-block;`;
+
+    const math = document.createElement('span');
+    katex.render(latex, math, { displayMode, throwOnError: false, output: 'html' });
+    // Zero-size marker sitting on the baseline, used to measure where the baseline falls
+    const baseline = document.createElement('span');
+    baseline.style.cssText = 'display: inline-block; width: 0; height: 0; vertical-align: baseline;';
+    container.append(math, baseline);
+    document.body.appendChild(container);
+
+    try {
+        await document.fonts.ready;
+        // Display math is centered in a block; measure the equation itself
+        const target = (displayMode ? math.querySelector<HTMLElement>('.katex') : null) ?? container;
+        const canvas = await html2canvas(target, { backgroundColor: null, scale: RENDER_SCALE, logging: false });
+        const box = target.getBoundingClientRect();
+
+        return {
+            dataUrl: canvas.toDataURL('image/png'),
+            width: box.width,
+            height: box.height,
+            ascent: Math.min(box.height, Math.max(0, baseline.getBoundingClientRect().top - box.top)),
+        };
+    } finally {
+        container.remove();
+    }
+}
@@ -0,0 +1,77 @@
+export type PdfPageSize = 'a4' | 'letter' | 'legal';
+export type PdfOrientation = 'portrait' | 'landscape';
+// Built-in PDF fonts only cover Latin-1; the Noto fonts are embedded so other scripts render too
+export type PdfFontFamily = 'helvetica' | 'times' | 'noto-sans' | 'noto-serif';
+
+export interface PdfOptions {
+    pageSize: PdfPageSize;
+    orientation: PdfOrientation;
+    // pt, on every side
+    margin: number;
+    // Body text size in pt; headings and code scale with it
+    fontSize: number;
+    fontFamily: PdfFontFamily;
+    // Header: the note's title and the export date; footer: "Page n of m"
+    headerTitle: boolean;
+    headerDate: boolean;
+    pageNumbers: boolean;
+    // Table of contents of the h1-h3 headings, on its own page(s) at the start
+    toc: boolean;
+    // The note's original scan images, one per page after the content
+    appendScanImages: boolean;
+}
+
+export const DEFAULT_PDF_OPTIONS: PdfOptions = {
+    pageSize: 'letter',
+    orientation: 'portrait',
+    margin: 50,
+    fontSize: 11,
+    fontFamily: 'helvetica',
+    headerTitle: false,
+    headerDate: false,
+    pageNumbers: true,
+    toc: false,
+    appendScanImages: false,
+};
+
+export const PDF_PAGE_SIZES: { id: PdfPageSize; label: string }[] = [
+    { id: 'a4', label: 'A4' },
+    { id: 'letter', label: 'Letter' },
+    { id: 'legal', label: 'Legal' },
+];
+
+export const PDF_FONT_FAMILIES: { id: PdfFontFamily; label: string }[] = [
+    { id: 'helvetica', label: 'Helvetica' },
+    { id: 'times', label: 'Times' },
+    { id: 'noto-sans', label: 'Noto Sans (Unicode)' },
+    { id: 'noto-serif', label: 'Noto Serif (Unicode)' },
+];
+
+export const PDF_MARGIN_RANGE = { min: 18, max: 108 };
+export const PDF_FONT_SIZE_RANGE = { min: 8, max: 16 };
+
+const clamp = (value: unknown, range: { min: number; max: number }, fallback: number) =>
+    typeof value === 'number' && Number.isFinite(value) ? Math.min(range.max, Math.max(range.min, value)) : fallback;
+
+const oneOf = <T extends string>(value: unknown, allowed: readonly T[], fallback: T): T =>
+    allowed.includes(value as T) ? (value as T) : fallback;
+
+const flag = (value: unknown, fallback: boolean) => (typeof value === 'boolean' ? value : fallback);
+
+// Settings stored by an older version (or edited by hand) are completed with the defaults
+export function normalizePdfOptions(raw: unknown): PdfOptions {
+    const value = (raw && typeof raw === 'object' ? raw : {}) as Partial<Record<keyof PdfOptions, unknown>>;
+    const defaults = DEFAULT_PDF_OPTIONS;
+    return {
+        pageSize: oneOf(value.pageSize, PDF_PAGE_SIZES.map((s) => s.id), defaults.pageSize),
+        orientation: oneOf(value.orientation, ['portrait', 'landscape'] as const, defaults.orientation),
+        margin: clamp(value.margin, PDF_MARGIN_RANGE, defaults.margin),
+        fontSize: clamp(value.fontSize, PDF_FONT_SIZE_RANGE, defaults.fontSize),
+        fontFamily: oneOf(value.fontFamily, PDF_FONT_FAMILIES.map((f) => f.id), defaults.fontFamily),
+        headerTitle: flag(value.headerTitle, defaults.headerTitle),
+        headerDate: flag(value.headerDate, defaults.headerDate),
+        pageNumbers: flag(value.pageNumbers, defaults.pageNumbers),
+        toc: flag(value.toc, defaults.toc),
+        appendScanImages: flag(value.appendScanImages, defaults.appendScanImages),
+    };
+}
@@ -0,0 +1,47 @@
+import { $prose } from '@milkdown/utils';
+import { Plugin, PluginKey, TextSelection } from '@milkdown/kit/prose/state';
+import { Decoration, DecorationSet, type EditorView } from '@milkdown/kit/prose/view';
+import type { Node } from '@milkdown/kit/prose/model';
+
+// What the scan prompts write where the handwriting couldn't be read
+const UNCLEAR_MARKER = /\[unclear\]/gi;
+
+// The same marker in saved Markdown, where the brackets may be escaped
+const UNCLEAR_MARKDOWN = /\\?\[unclear\\?\]/gi;
+
+export const countUnclearMarkers = (markdown: string) => markdown.match(UNCLEAR_MARKDOWN)?.length ?? 0;
+
+function findUnclearMarkers(doc: Node) {
+    const found: { from: number; to: number }[] = [];
+    doc.descendants((node, pos) => {
+        if (!node.isText || !node.text) return;
+        for (const match of node.text.matchAll(UNCLEAR_MARKER)) {
+            found.push({ from: pos + match.index, to: pos + match.index + match[0].length });
+        }
+    });
+    return found;
+}
+
+const unclearMarkersKey = new PluginKey('unclear-markers');
+
+// Highlights every `[unclear]` in the editor
+export const unclearMarkersPlugin = $prose(() => new Plugin({
+    key: unclearMarkersKey,
+    props: {
+        decorations: (state) => DecorationSet.create(
+            state.doc,
+            findUnclearMarkers(state.doc).map(({ from, to }) => Decoration.inline(from, to, { class: 'unclear-marker' }))
+        ),
+    },
+}));
+
+// Selects the first `[unclear]` after the cursor (wrapping around to the top) and scrolls it into view
+export function selectNextUnclearMarker(view: EditorView) {
+    const markers = findUnclearMarkers(view.state.doc);
+    const next = markers.find(({ from }) => from >= view.state.selection.to) ?? markers[0];
+    if (!next) return false;
+
+    view.dispatch(view.state.tr.setSelection(TextSelection.create(view.state.doc, next.from, next.to)).scrollIntoView());
+    view.focus();
+    return true;
+}
@@ -1,11 +1,29 @@
-import { defineConfig } from 'vite'
+import { defineConfig, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 import tailwindcss from "@tailwindcss/vite";
 import path from "path"
+import { readFile, writeFile } from "fs/promises"
+
+// Fills the list of build files into the service worker (public/sw.js) so it can precache them on install
+const precacheServiceWorker = (): Plugin => {
+  let assets: string[] = [];
+  return {
+    name: 'precache-service-worker',
+    apply: 'build',
+    generateBundle(_, bundle) {
+      assets = Object.keys(bundle).filter((file) => file !== 'index.html' && !file.endsWith('.map')).map((file) => `/${file}`);
+    },
+    async writeBundle({ dir }) {
+      const worker = path.resolve(dir!, 'sw.js');
+      const source = await readFile(worker, 'utf8');
+      await writeFile(worker, source.replace('[/* precache assets */]', JSON.stringify(assets)));
+    },
+  };
+};
 
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [tailwindcss(), react()],
+  plugins: [tailwindcss(), react(), precacheServiceWorker()],
     resolve: {
         alias: {
             "@": path.resolve(__dirname, "./src"),
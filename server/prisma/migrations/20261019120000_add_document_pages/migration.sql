@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "DocumentPage" (
+    "id" TEXT NOT NULL,
+    "documentId" TEXT NOT NULL,
+    "pageNumber" INTEGER NOT NULL,
+    "imageUrl" TEXT NOT NULL,
+    "markdownContent" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "DocumentPage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DocumentPage_documentId_pageNumber_key" ON "DocumentPage"("documentId", "pageNumber");
+
+-- AddForeignKey
+ALTER TABLE "DocumentPage" ADD CONSTRAINT "DocumentPage_documentId_fkey" FOREIGN KEY ("documentId") REFERENCES "Document"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: every existing scanned document becomes a single-page document
+INSERT INTO "DocumentPage" ("id", "documentId", "pageNumber", "imageUrl", "markdownContent", "createdAt")
+SELECT gen_random_uuid()::text, "id", 1, "imageUrl", "markdownContent", "createdAt"
+FROM "Document"
+WHERE "imageUrl" <> '';
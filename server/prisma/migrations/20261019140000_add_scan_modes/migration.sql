@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Document" ADD COLUMN     "scanMode" TEXT NOT NULL DEFAULT 'general';
+
+-- AlterTable
+ALTER TABLE "ScanJob" ADD COLUMN     "mode" TEXT NOT NULL DEFAULT 'general',
+ADD COLUMN     "replace" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,28 @@
+-- CreateEnum
+CREATE TYPE "RevisionSource" AS ENUM ('CREATE', 'SCAN', 'APPEND', 'RESCAN', 'EDIT', 'RESTORE');
+
+-- CreateTable
+CREATE TABLE "DocumentRevision" (
+    "id" TEXT NOT NULL,
+    "documentId" TEXT NOT NULL,
+    "revisionNumber" INTEGER NOT NULL,
+    "source" "RevisionSource" NOT NULL,
+    "markdownContent" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DocumentRevision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DocumentRevision_documentId_revisionNumber_key" ON "DocumentRevision"("documentId", "revisionNumber");
+
+-- AddForeignKey
+ALTER TABLE "DocumentRevision" ADD CONSTRAINT "DocumentRevision_documentId_fkey" FOREIGN KEY ("documentId") REFERENCES "Document"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: the current content of every existing document becomes its revision 0
+INSERT INTO "DocumentRevision" ("id", "documentId", "revisionNumber", "source", "markdownContent", "createdAt", "updatedAt")
+SELECT gen_random_uuid()::text, "id", 0,
+       CASE WHEN "imageUrl" <> '' THEN 'SCAN'::"RevisionSource" ELSE 'CREATE'::"RevisionSource" END,
+       "markdownContent", "createdAt", CURRENT_TIMESTAMP
+FROM "Document";
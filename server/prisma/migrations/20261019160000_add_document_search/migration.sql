@@ -0,0 +1,29 @@
+-- Plain text used for full-text search: Markdown/LaTeX syntax, link targets and HTML comments
+-- (such as page-break markers) are replaced by spaces so they never match or skew ranking.
+CREATE OR REPLACE FUNCTION document_search_text(content TEXT) RETURNS TEXT
+LANGUAGE SQL IMMUTABLE PARALLEL SAFE AS $$
+    SELECT regexp_replace(
+        regexp_replace(
+            regexp_replace(
+                regexp_replace(
+                    regexp_replace(coalesce(content, ''), '<!--.*?-->', ' ', 'g'),
+                    '\]\([^)]*\)', ' ', 'g'),
+                '\\(begin|end)\{[^}]*\}', ' ', 'g'),
+            '\\[a-zA-Z]+', ' ', 'g'),
+        '[#*_`~>|{}$^\\\[\]()&=]+', ' ', 'g')
+$$;
+
+-- First non-empty line of the content, which the client shows as the note's title
+CREATE OR REPLACE FUNCTION document_search_title(content TEXT) RETURNS TEXT
+LANGUAGE SQL IMMUTABLE PARALLEL SAFE AS $$
+    SELECT document_search_text(substring(coalesce(content, '') from '[^\s][^\n]*'))
+$$;
+
+-- AlterTable
+ALTER TABLE "Document" ADD COLUMN "searchVector" tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english'::regconfig, coalesce(document_search_title("markdownContent"), '')), 'A') ||
+    setweight(to_tsvector('english'::regconfig, document_search_text("markdownContent")), 'B')
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "Document_searchVector_idx" ON "Document" USING GIN ("searchVector");
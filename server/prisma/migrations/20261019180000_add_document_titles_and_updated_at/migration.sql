@@ -0,0 +1,36 @@
+-- AlterTable
+ALTER TABLE "Document" ADD COLUMN     "title" TEXT NOT NULL DEFAULT '',
+ADD COLUMN     "titleEdited" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- Backfill: existing documents were last changed no earlier than they were created, and their
+-- title is derived from the first non-empty line the same way the server derives it
+UPDATE "Document" SET
+    "updatedAt" = "createdAt",
+    "title" = left(btrim(regexp_replace(regexp_replace(regexp_replace(
+        coalesce(substring("markdownContent" from '[^\s][^\n]*'), ''),
+        '^#+\s*', ''), '[*_`~]+', '', 'g'), '\s+', ' ', 'g')), 120);
+
+-- Prisma maintains "updatedAt" itself
+ALTER TABLE "Document" ALTER COLUMN "updatedAt" DROP DEFAULT;
+
+-- Search the stored title instead of re-deriving it from the content
+DROP INDEX "Document_searchVector_idx";
+
+ALTER TABLE "Document" DROP COLUMN "searchVector";
+
+ALTER TABLE "Document" ADD COLUMN "searchVector" tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english'::regconfig, "title"), 'A') ||
+    setweight(to_tsvector('english'::regconfig, document_search_text("markdownContent")), 'B')
+) STORED;
+
+DROP FUNCTION document_search_title(TEXT);
+
+-- CreateIndex
+CREATE INDEX "Document_searchVector_idx" ON "Document" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "Document_userId_updatedAt_idx" ON "Document"("userId", "updatedAt");
+
+-- CreateIndex
+CREATE INDEX "Document_userId_createdAt_idx" ON "Document"("userId", "createdAt");
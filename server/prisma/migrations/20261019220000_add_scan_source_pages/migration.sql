@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "DocumentPage" ADD COLUMN     "sourcePageNumber" INTEGER;
+
+-- AlterTable
+ALTER TABLE "ScanJob" ADD COLUMN     "sourcePageNumbers" INTEGER[];
@@ -0,0 +1,29 @@
+-- CreateEnum
+CREATE TYPE "DocumentRole" AS ENUM ('VIEWER', 'COMMENTER', 'EDITOR', 'OWNER');
+
+-- CreateTable
+CREATE TABLE "DocumentMember" (
+    "id" TEXT NOT NULL,
+    "documentId" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "userId" TEXT,
+    "role" "DocumentRole" NOT NULL DEFAULT 'VIEWER',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "DocumentMember_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "DocumentMember_userId_idx" ON "DocumentMember"("userId");
+
+-- CreateIndex
+CREATE INDEX "DocumentMember_email_idx" ON "DocumentMember"("email");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DocumentMember_documentId_email_key" ON "DocumentMember"("documentId", "email");
+
+-- AddForeignKey
+ALTER TABLE "DocumentMember" ADD CONSTRAINT "DocumentMember_documentId_fkey" FOREIGN KEY ("documentId") REFERENCES "Document"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DocumentMember" ADD CONSTRAINT "DocumentMember_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
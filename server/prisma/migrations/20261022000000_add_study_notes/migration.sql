@@ -0,0 +1,8 @@
+-- AlterEnum
+ALTER TYPE "RevisionSource" ADD VALUE 'STUDY';
+
+-- AlterTable
+ALTER TABLE "Document" ADD COLUMN "sourceDocumentId" TEXT;
+
+-- AddForeignKey
+ALTER TABLE "Document" ADD CONSTRAINT "Document_sourceDocumentId_fkey" FOREIGN KEY ("sourceDocumentId") REFERENCES "Document"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -1,15 +1,13 @@
 import { PrismaClient } from "../generated/prisma/client.ts";
 import { PrismaPg } from "@prisma/adapter-pg"
 import dotenv from "dotenv";
-import { Pool } from "pg";
 
 dotenv.config();
 
-const pool = new Pool({
+// The adapter owns its connection pool, so `prisma.$disconnect()` closes it
+const adapter = new PrismaPg({
     connectionString: process.env.DATABASE_URL,
-})
-
-const adapter = new PrismaPg(pool);
+});
 
 const prisma = new PrismaClient({ adapter });
-export default prisma
\ No newline at end of file
+export default prisma
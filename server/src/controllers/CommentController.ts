@@ -0,0 +1,198 @@
+import type { Response } from 'express';
+import type { AuthRequest } from '../middleware/authMiddleware';
+import prisma from "../config/prismaClient";
+import { findDocumentForUser } from "../services/documentAccess.ts";
+import type { Comment, CommentThread, User } from "../generated/prisma/client.ts";
+
+const MAX_BODY_LENGTH = 5000;
+const MAX_QUOTE_LENGTH = 2000;
+// Enough text around the quote to tell repeated passages apart
+const MAX_CONTEXT_LENGTH = 100;
+
+type Author = Pick<User, 'id' | 'name' | 'email'>;
+
+const AUTHOR_SELECT = { select: { id: true, name: true, email: true } } as const;
+
+const THREAD_INCLUDE = {
+    author: AUTHOR_SELECT,
+    resolvedBy: AUTHOR_SELECT,
+    comments: { include: { author: AUTHOR_SELECT }, orderBy: { createdAt: 'asc' } },
+} as const;
+
+const threadResponse = (thread: CommentThread & {
+    author: Author;
+    resolvedBy: Author | null;
+    comments: (Comment & { author: Author })[];
+}) => ({
+    id: thread.id,
+    quote: thread.quote,
+    prefix: thread.prefix,
+    suffix: thread.suffix,
+    author: thread.author,
+    resolvedAt: thread.resolvedAt,
+    resolvedBy: thread.resolvedBy,
+    createdAt: thread.createdAt,
+    comments: thread.comments.map(({ id, body, author, createdAt }) => ({ id, body, author, createdAt })),
+});
+
+const readBody = (body: unknown) => (typeof body === "string" ? body.trim() : "");
+
+// Lists a document's comment threads, oldest first. Anyone with access may read them.
+export const getCommentThreads = async (req: AuthRequest, res: Response) => {
+    try {
+        const access = await findDocumentForUser(req, res, 'VIEWER');
+        if (!access) return;
+
+        const threads = await prisma.commentThread.findMany({
+            where: { documentId: access.doc.id },
+            include: THREAD_INCLUDE,
+            orderBy: { createdAt: 'asc' },
+        });
+        return res.json(threads.map(threadResponse));
+    } catch (e) {
+        console.error("Comment threads error:", e);
+        return res.status(500).json({ error: "Failed to fetch comments" });
+    }
+};
+
+// Opens a thread on the passage `quote` (found in the content by its text and the `prefix`/`suffix` around it)
+export const createCommentThread = async (req: AuthRequest, res: Response) => {
+    const { quote, prefix = "", suffix = "" } = req.body ?? {};
+    const body = readBody(req.body?.body);
+
+    if (typeof quote !== "string" || !quote.trim() || quote.length > MAX_QUOTE_LENGTH) {
+        return res.status(400).json({ error: `quote must be a non-empty string of at most ${MAX_QUOTE_LENGTH} characters` });
+    }
+    if (typeof prefix !== "string" || typeof suffix !== "string"
+        || prefix.length > MAX_CONTEXT_LENGTH || suffix.length > MAX_CONTEXT_LENGTH) {
+        return res.status(400).json({ error: `prefix and suffix must be strings of at most ${MAX_CONTEXT_LENGTH} characters` });
+    }
+    if (!body || body.length > MAX_BODY_LENGTH) {
+        return res.status(400).json({ error: `body must be a non-empty string of at most ${MAX_BODY_LENGTH} characters` });
+    }
+
+    try {
+        const access = await findDocumentForUser(req, res, 'COMMENTER');
+        if (!access) return;
+
+        const thread = await prisma.commentThread.create({
+            data: {
+                documentId: access.doc.id,
+                authorId: access.user.id,
+                quote,
+                prefix,
+                suffix,
+                comments: { create: { authorId: access.user.id, body } },
+            },
+            include: THREAD_INCLUDE,
+        });
+        return res.status(201).json(threadResponse(thread));
+    } catch (e) {
+        console.error("Create comment thread error:", e);
+        return res.status(500).json({ error: "Failed to add comment" });
+    }
+};
+
+export const replyToCommentThread = async (req: AuthRequest, res: Response) => {
+    const { threadId } = req.params as { threadId: string };
+    const body = readBody(req.body?.body);
+
+    if (!body || body.length > MAX_BODY_LENGTH) {
+        return res.status(400).json({ error: `body must be a non-empty string of at most ${MAX_BODY_LENGTH} characters` });
+    }
+
+    try {
+        const access = await findDocumentForUser(req, res, 'COMMENTER');
+        if (!access) return;
+
+        const thread = await prisma.commentThread.findFirst({ where: { id: threadId, documentId: access.doc.id } });
+        if (!thread) return res.status(404).json({ error: "Comment thread not found" });
+
+        await prisma.comment.create({ data: { threadId: thread.id, authorId: access.user.id, body } });
+        const updated = await prisma.commentThread.findUniqueOrThrow({ where: { id: thread.id }, include: THREAD_INCLUDE });
+        return res.status(201).json(threadResponse(updated));
+    } catch (e) {
+        console.error("Reply to comment thread error:", e);
+        return res.status(500).json({ error: "Failed to reply" });
+    }
+};
+
+// Resolves (`resolved: true`) or reopens a thread
+export const updateCommentThread = async (req: AuthRequest, res: Response) => {
+    const { threadId } = req.params as { threadId: string };
+    const { resolved } = req.body ?? {};
+
+    if (typeof resolved !== "boolean") return res.status(400).json({ error: "resolved must be a boolean" });
+
+    try {
+        const access = await findDocumentForUser(req, res, 'COMMENTER');
+        if (!access) return;
+
+        const thread = await prisma.commentThread.findFirst({ where: { id: threadId, documentId: access.doc.id } });
+        if (!thread) return res.status(404).json({ error: "Comment thread not found" });
+
+        const updated = await prisma.commentThread.update({
+            where: { id: thread.id },
+            data: resolved
+                ? { resolvedAt: thread.resolvedAt ?? new Date(), resolvedById: thread.resolvedById ?? access.user.id }
+                : { resolvedAt: null, resolvedById: null },
+            include: THREAD_INCLUDE,
+        });
+        return res.json(threadResponse(updated));
+    } catch (e) {
+        console.error("Update comment thread error:", e);
+        return res.status(500).json({ error: "Failed to update comment thread" });
+    }
+};
+
+// Deletes a thread with all its replies; only its author and the document's owners may
+export const deleteCommentThread = async (req: AuthRequest, res: Response) => {
+    const { threadId } = req.params as { threadId: string };
+
+    try {
+        const access = await findDocumentForUser(req, res, 'COMMENTER');
+        if (!access) return;
+
+        const thread = await prisma.commentThread.findFirst({ where: { id: threadId, documentId: access.doc.id } });
+        if (!thread) return res.status(404).json({ error: "Comment thread not found" });
+        if (access.role !== 'OWNER' && thread.authorId !== access.user.id) {
+            return res.status(403).json({ error: "Unauthorized" });
+        }
+
+        await prisma.commentThread.delete({ where: { id: thread.id } });
+        return res.json({ message: "Comment thread deleted" });
+    } catch (e) {
+        console.error("Delete comment thread error:", e);
+        return res.status(500).json({ error: "Failed to delete comment thread" });
+    }
+};
+
+// Deletes a reply; only its author and the document's owners may. The first comment goes with its thread.
+export const deleteComment = async (req: AuthRequest, res: Response) => {
+    const { threadId, commentId } = req.params as { threadId: string; commentId: string };
+
+    try {
+        const access = await findDocumentForUser(req, res, 'COMMENTER');
+        if (!access) return;
+
+        const comment = await prisma.comment.findFirst({
+            where: { id: commentId, threadId, thread: { documentId: access.doc.id } },
+        });
+        if (!comment) return res.status(404).json({ error: "Comment not found" });
+        if (access.role !== 'OWNER' && comment.authorId !== access.user.id) {
+            return res.status(403).json({ error: "Unauthorized" });
+        }
+
+        const first = await prisma.comment.findFirst({ where: { threadId }, orderBy: { createdAt: 'asc' }, select: { id: true } });
+        if (first?.id === comment.id) {
+            return res.status(400).json({ error: "The first comment can only be deleted with its thread" });
+        }
+
+        await prisma.comment.delete({ where: { id: comment.id } });
+        const updated = await prisma.commentThread.findUniqueOrThrow({ where: { id: threadId }, include: THREAD_INCLUDE });
+        return res.json(threadResponse(updated));
+    } catch (e) {
+        console.error("Delete comment error:", e);
+        return res.status(500).json({ error: "Failed to delete comment" });
+    }
+};
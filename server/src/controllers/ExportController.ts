@@ -0,0 +1,123 @@
+import type { Response } from 'express';
+import type { AuthRequest } from '../middleware/authMiddleware';
+import prisma from "../config/prismaClient";
+import { MAX_ZIP_ENTRIES, ZipStream, ZipStreamError } from "../utils/zipStream.ts";
+
+// Documents whose content is loaded at once while the archive streams
+const CONTENT_BATCH_SIZE = 50;
+const MAX_FILE_NAME_LENGTH = 100;
+
+// A title or folder name as a file name that is valid on every OS
+const fileName = (name: string) =>
+    name
+        .replace(/[\\/:*?"<>|\u0000-\u001f]+/g, "-")
+        .replace(/\s+/g, " ")
+        .replace(/^[\s.]+|[\s.]+$/g, "")
+        .slice(0, MAX_FILE_NAME_LENGTH) || "Untitled";
+
+// "Notes.md", then "Notes (2).md", ... for documents with the same title in the same folder
+const uniquePath = (taken: Set<string>, dir: string, name: string) => {
+    for (let n = 1; ; n++) {
+        const path = `${dir}${name}${n === 1 ? "" : ` (${n})`}.md`;
+        if (!taken.has(path.toLowerCase())) {
+            taken.add(path.toLowerCase());
+            return path;
+        }
+    }
+};
+
+/**
+ * Streams a ZIP of every document as Markdown, laid out in the user's folders, with a
+ * `manifest.json` listing each file's document id, title, tags and dates.
+ */
+export const exportDocuments = async (req: AuthRequest, res: Response) => {
+    const { uid } = req.user!;
+
+    try {
+        const user = await prisma.user.findUnique({ where: { firebaseId: uid } });
+        if (!user) return res.status(403).json({ error: "User not found" });
+
+        const [folders, documents] = await Promise.all([
+            prisma.folder.findMany({ where: { userId: user.id }, select: { id: true, name: true, parentId: true } }),
+            prisma.document.findMany({
+                where: { userId: user.id, deletedAt: null },
+                select: {
+                    id: true,
+                    title: true,
+                    folderId: true,
+                    scanMode: true,
+                    createdAt: true,
+                    updatedAt: true,
+                    tags: { select: { name: true } },
+                },
+                orderBy: { createdAt: 'asc' },
+            }),
+        ]);
+
+        // Directory of each folder, e.g. "Physics/Lectures/"
+        const foldersById = new Map(folders.map((folder) => [folder.id, folder]));
+        const folderPaths = new Map<string, string>();
+        const folderPath = (id: string, depth = 0): string => {
+            const cached = folderPaths.get(id);
+            if (cached !== undefined) return cached;
+            const folder = foldersById.get(id);
+            if (!folder) return "";
+            // Guard against a cycle in the folder tree
+            const parent = folder.parentId && depth < 50 ? folderPath(folder.parentId, depth + 1) : "";
+            const path = `${parent}${fileName(folder.name)}/`;
+            folderPaths.set(id, path);
+            return path;
+        };
+
+        const taken = new Set<string>(["manifest.json"]);
+        const files = documents.map((doc) => ({
+            doc,
+            path: uniquePath(taken, doc.folderId ? folderPath(doc.folderId) : "", fileName(doc.title)),
+        }));
+
+        // Plus the manifest
+        if (files.length + 1 > MAX_ZIP_ENTRIES) {
+            return res.status(413).json({ error: `Exports are limited to ${MAX_ZIP_ENTRIES - 1} notes` });
+        }
+
+        const date = new Date().toISOString().slice(0, 10);
+        res.setHeader('Content-Type', 'application/zip');
+        res.setHeader('Content-Disposition', `attachment; filename="vibescribe-export-${date}.zip"`);
+        const zip = new ZipStream(res);
+
+        for (let i = 0; i < files.length; i += CONTENT_BATCH_SIZE) {
+            const batch = files.slice(i, i + CONTENT_BATCH_SIZE);
+            const contents = await prisma.document.findMany({
+                where: { id: { in: batch.map(({ doc }) => doc.id) } },
+                select: { id: true, markdownContent: true },
+            });
+            const contentById = new Map(contents.map((doc) => [doc.id, doc.markdownContent]));
+            for (const { doc, path } of batch) {
+                await zip.addFile(path, contentById.get(doc.id) ?? "", doc.updatedAt);
+            }
+        }
+
+        const manifest = {
+            exportedAt: new Date().toISOString(),
+            documents: files.map(({ doc, path }) => ({
+                id: doc.id,
+                title: doc.title,
+                path,
+                folder: doc.folderId ? folderPath(doc.folderId).slice(0, -1) : null,
+                tags: doc.tags.map((tag) => tag.name),
+                scanMode: doc.scanMode,
+                createdAt: doc.createdAt,
+                updatedAt: doc.updatedAt,
+            })),
+        };
+        await zip.addFile("manifest.json", JSON.stringify(manifest, null, 2));
+        await zip.finish();
+    } catch (e) {
+        // The client went away; nothing to report
+        if (e instanceof ZipStreamError && res.destroyed) return;
+        console.error("Export error:", e);
+        // Once the archive has started there's no way to report the error but to cut it short
+        if (res.headersSent) return res.destroy();
+        return res.status(500).json({ error: "Failed to export documents" });
+    }
+}
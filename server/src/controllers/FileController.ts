@@ -1,130 +1,341 @@
 import type { Response } from 'express';
 import type { AuthRequest } from '../middleware/authMiddleware';
 import prisma from "../config/prismaClient";
-import { GoogleGenAI } from "@google/genai";
+import type { ScanJob } from "../generated/prisma/client.ts";
+import { enqueueScanJob, isFinished, scanJobEvents } from "../services/scanQueue.ts";
+import { canScanImageUrl } from "../services/scanService.ts";
+import { documentRole, hasRole } from "../services/documentAccess.ts";
+import { countDocumentPages, DocumentPagesError, MAX_PAGES_PER_SCAN, renderDocumentPages } from "../services/documentPages.ts";
+import { DEFAULT_SCAN_MODE, findScanMode, SCAN_MODES } from "../services/scanModes.ts";
+import { getFileStorage } from "../storage/index.ts";
+import { detectDocumentType, detectImageType, DOCUMENT_EXTENSION_BY_MIME_TYPE, EXTENSION_BY_MIME_TYPE } from "../utils/imageType.ts";
+import { parsePageRange } from "../utils/pageRange.ts";
+import { randomUUID } from "node:crypto";
 
-export const processScan = async (req: AuthRequest, res: Response) => {
-    const { imageUrl } = req.body;
+// Ensure user exists in Database (Onboarding check)
+const upsertScanUser = (req: AuthRequest) => {
     const { uid, email } = req.user!;
+    return prisma.user.upsert({
+        where: { firebaseId: uid },
+        update: {},
+        create: {
+            id: uid,
+            firebaseId: uid,
+            email: email!,
+            name: req.user?.name || "User",
+        },
+    });
+};
+
+// Lists the available scan modes for the upload UI (prompts stay server-side)
+export const getScanModes = (_req: AuthRequest, res: Response) => {
+    return res.json(SCAN_MODES.map(({ id, label, description }) => ({ id, label, description })));
+};
+
+// Resolves the `mode` request field, or null when it names an unknown mode
+const requestedScanMode = (mode: unknown) => findScanMode(mode ? String(mode) : DEFAULT_SCAN_MODE)?.id ?? null;
 
-    if (!imageUrl) return res.status(400).json({ error: "Image URL is required" });
+// Checks that the caller may scan into `documentId` (i.e. edit it) or into a new document in `folderId`,
+// otherwise sends the error response and returns false. Runs before any upload is stored, so none is left behind.
+const checkScanTarget = async (res: Response, userId: string, documentId?: string, folderId?: string) => {
+    if (documentId) {
+        const existing = await prisma.document.findFirst({ where: { id: documentId, deletedAt: null } });
+        if (!existing) {
+            res.status(404).json({ error: "Document not found" });
+            return false;
+        }
+        if (!hasRole(await documentRole(existing, userId), 'EDITOR')) {
+            res.status(403).json({ error: "Unauthorized" });
+            return false;
+        }
+    }
+    if (folderId) {
+        const folder = await prisma.folder.findUnique({ where: { id: folderId } });
+        if (!folder || folder.userId !== userId) {
+            res.status(404).json({ error: "Folder not found" });
+            return false;
+        }
+    }
+    return true;
+};
+
+// Creates the scan job for `pageUrls` and queues it; the response is sent immediately. The target must have
+// been checked with `checkScanTarget`. `sourcePageNumbers` are the pages of the PDF/TIFF the images were rendered from, if any.
+const queueScanJob = async (
+    res: Response, userId: string, pageUrls: string[], mode: string, documentId?: string, folderId?: string,
+    sourcePageNumbers: number[] = []
+) => {
+    const job = await prisma.scanJob.create({
+        data: {
+            userId,
+            documentId: documentId || null,
+            folderId: folderId || null,
+            imageUrls: pageUrls,
+            sourcePageNumbers,
+            mode,
+        }
+    });
+    enqueueScanJob(job.id);
+
+    return res.status(202).json(job);
+};
+
+// Queues a scan of already-hosted images; progress is available via polling or the events stream
+export const processScan = async (req: AuthRequest, res: Response) => {
+    const { imageUrl, imageUrls, documentId, folderId } = req.body;
+    const mode = requestedScanMode(req.body.mode);
+
+    // Accept an ordered list of pages; a single `imageUrl` is still supported for older clients
+    const pageUrls: string[] = Array.isArray(imageUrls) ? imageUrls : imageUrl ? [imageUrl] : [];
+
+    if (pageUrls.length === 0) return res.status(400).json({ error: "At least one image URL is required" });
+    if (pageUrls.some((url) => typeof url !== "string" || !url)) {
+        return res.status(400).json({ error: "Image URLs must be non-empty strings" });
+    }
+    if (!mode) return res.status(400).json({ error: "Unknown scan mode" });
 
     try {
-        // 1. Ensure user exists in Database (Onboarding check)
-        const user = await prisma.user.upsert({
-            where: { firebaseId: uid },
-            update: {},
-            create: {
-                id: uid,
-                firebaseId: uid,
-                email: email!,
-                name: req.user?.name || "User",
-            },
+        const user = await upsertScanUser(req);
+
+        if (pageUrls.some((url) => !canScanImageUrl(url, user.id))) {
+            return res.status(400).json({ error: "Image URLs must point to an allowed storage host" });
+        }
+        if (!await checkScanTarget(res, user.id, documentId, folderId)) return;
+
+        return await queueScanJob(res, user.id, pageUrls, mode, documentId, folderId);
+    } catch (error) {
+        console.error("Scanning Error:", error);
+        return res.status(500).json({ error: "Failed to queue scan" });
+    }
+};
+
+// Stores uploaded page images (multipart field `images`, in page order) and queues a scan of them
+export const processScanUpload = async (req: AuthRequest, res: Response) => {
+    const files = (req.files as Express.Multer.File[] | undefined) ?? [];
+    const documentId: string | undefined = req.body?.documentId || undefined;
+    const folderId: string | undefined = req.body?.folderId || undefined;
+    const mode = requestedScanMode(req.body?.mode);
+
+    if (files.length === 0) return res.status(400).json({ error: "At least one image is required" });
+    if (!mode) return res.status(400).json({ error: "Unknown scan mode" });
+
+    // Trust the file contents, not the client-provided MIME type or extension
+    const mimeTypes = files.map((file) => detectImageType(file.buffer));
+    const invalidIndex = mimeTypes.findIndex((mimeType) => !mimeType);
+    if (invalidIndex !== -1) {
+        return res.status(415).json({
+            error: `${files[invalidIndex]!.originalname} is not a supported image (JPEG, PNG, WebP or GIF)`
         });
+    }
+
+    try {
+        const user = await upsertScanUser(req);
+        if (!await checkScanTarget(res, user.id, documentId, folderId)) return;
+        const storage = getFileStorage();
+
+        const stored = await Promise.all(files.map((file, i) => {
+            const mimeType = mimeTypes[i]!;
+            const key = `scans/${user.id}/${randomUUID()}.${EXTENSION_BY_MIME_TYPE[mimeType]}`;
+            return storage.save(key, file.buffer, mimeType);
+        }));
+
+        return await queueScanJob(res, user.id, stored.map((file) => file.url), mode, documentId, folderId);
+    } catch (error) {
+        console.error("Upload Error:", error);
+        return res.status(500).json({ error: "Failed to store upload" });
+    }
+};
+
+// Stores an uploaded PDF or multi-page TIFF (multipart field `document`) and reports its page count,
+// so the pages to scan can be chosen before anything is converted
+export const processScanDocumentUpload = async (req: AuthRequest, res: Response) => {
+    const file = req.file;
+    if (!file) return res.status(400).json({ error: "A PDF or TIFF file is required" });
+
+    const mimeType = detectDocumentType(file.buffer);
+    if (!mimeType) return res.status(415).json({ error: `${file.originalname} is not a PDF or TIFF file` });
+
+    try {
+        const pageCount = await countDocumentPages(file.buffer, mimeType);
+        const user = await upsertScanUser(req);
+
+        const key = `scans/${user.id}/${randomUUID()}.${DOCUMENT_EXTENSION_BY_MIME_TYPE[mimeType]}`;
+        const stored = await getFileStorage().save(key, file.buffer, mimeType);
+
+        return res.status(201).json({ documentUrl: stored.url, mimeType, pageCount, maxPages: MAX_PAGES_PER_SCAN });
+    } catch (error) {
+        if (error instanceof DocumentPagesError) return res.status(422).json({ error: error.message });
+        console.error("Document Upload Error:", error);
+        return res.status(500).json({ error: "Failed to store document" });
+    }
+};
+
+// Splits the chosen pages (`pages`, e.g. "1-5, 8"; all pages when empty) of an uploaded PDF/TIFF into
+// page images and queues a scan of them, which becomes one document with an anchor per page
+export const processScanDocument = async (req: AuthRequest, res: Response) => {
+    const { documentUrl, pages, documentId, folderId } = req.body ?? {};
+    const mode = requestedScanMode(req.body?.mode);
+
+    if (typeof documentUrl !== "string" || !documentUrl) return res.status(400).json({ error: "documentUrl is required" });
+    if (pages !== undefined && typeof pages !== "string") return res.status(400).json({ error: "pages must be a string" });
+    if (!mode) return res.status(400).json({ error: "Unknown scan mode" });
+
+    try {
+        const user = await upsertScanUser(req);
+        const storage = getFileStorage();
+
+        // Only documents the caller uploaded through `processScanDocumentUpload`
+        const key = storage.keyFromUrl(documentUrl);
+        if (!key || !key.startsWith(`scans/${user.id}/`)) return res.status(400).json({ error: "Unknown document" });
 
-        // 2. Fetch image for Gemini
-        const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY! });
-        const imgResponse = await fetch(imageUrl);
-        const imageArrayBuffer = await imgResponse.arrayBuffer();
-        const base64ImageData = Buffer.from(imageArrayBuffer).toString('base64');
-
-        // 3. Process with Gemini (OCR + Cleaning + Formatting)
-        const result = await ai.models.generateContent({
-            model: "gemini-3-flash-preview",
-            contents: [
-                {
-                    inlineData: {
-                        mimeType: 'image/jpeg',
-                        data: base64ImageData,
-                    },
-                },
-                {
-                    text: `You will receive the contents of an uploaded image (notes, documents, screenshots, or handwriting). Your job is to convert what you see into a faithful, polished, well-structured Markdown document.
-
-CRITICAL REQUIREMENTS
-- Preserve meaning exactly. Do not invent, infer, or add information that is not clearly present.
-- If any text/symbol is unclear, mark it as: [unclear] and keep surrounding context.
-- Correct obvious spelling, punctuation, and grammar mistakes, but do NOT change technical meaning, names, numbers, units, formulas, or code.
-- Keep the original language of the content. Do not translate unless the content itself is mixed-language.
-
-MARKDOWN OUTPUT RULES
-- Output Markdown only. No preamble, no explanations, no code fences around the entire output.
-- Use clear headings (#, ##, ###) that match the document’s structure (or create a sensible structure if none is explicit).
-- Use bullet points and numbered lists where appropriate.
-- Use tables only when the source is clearly tabular.
-- Preserve line breaks when they convey structure (addresses, poems, step-by-step work).
-
-MATH & SCIENCE FORMATTING
-- Convert math into LaTeX:
-  - Inline math: $...$
-  - Display math (standalone equations): $$...$$
-- Keep standard notation, subscripts, superscripts, fractions, roots, integrals, summations, limits, vectors, matrices, and Greek letters correct.
-- If the image shows multi-step derivations, preserve the steps in order. Prefer aligned display math where helpful:
-  $$\\begin{aligned}
-  ... \\\\
-  ...
-  \\end{aligned}$$
-- Preserve units and scientific formatting (e.g., m/s, N·m, kΩ).
-
-CODE (IF PRESENT)
-- If the image contains code, keep it verbatim except for fixing clearly accidental typos that do not change behavior (when uncertain, do not change it).
-- Put code in fenced blocks with the correct language tag if obvious (e.g., \`\`\`js, \`\`\`ts, \`\`\`python). Otherwise use \`\`\`text.
-
-QUALITY BAR
-- Aim for a clean, publication-ready result: consistent capitalization, spacing, punctuation, and list formatting.
-- Maintain the author’s intent and hierarchy. Do not over-summarize.
-
-Return the final Markdown document.`
-                }
-
-            ],
+        let data: Buffer;
+        try {
+            data = await storage.read(key);
+        } catch {
+            return res.status(404).json({ error: "Document not found" });
+        }
+        const mimeType = detectDocumentType(data);
+        if (!mimeType) return res.status(400).json({ error: "Unknown document" });
+
+        const pageCount = await countDocumentPages(data, mimeType);
+        const pageNumbers = pages?.trim() ? parsePageRange(pages, pageCount) : parsePageRange(`1-${pageCount}`, pageCount);
+        if (!pageNumbers) return res.status(400).json({ error: `Pages must be between 1 and ${pageCount}, e.g. "1-3, 5"` });
+        if (pageNumbers.length > MAX_PAGES_PER_SCAN) {
+            return res.status(400).json({ error: `At most ${MAX_PAGES_PER_SCAN} pages can be scanned at once` });
+        }
+        if (!await checkScanTarget(res, user.id, documentId, folderId)) return;
+
+        const images = await renderDocumentPages(data, mimeType, pageNumbers);
+        const stored = await Promise.all(images.map((image) =>
+            storage.save(`scans/${user.id}/${randomUUID()}.png`, image, 'image/png')
+        ));
+
+        return await queueScanJob(res, user.id, stored.map((file) => file.url), mode, documentId, folderId, pageNumbers);
+    } catch (error) {
+        if (error instanceof DocumentPagesError) return res.status(422).json({ error: error.message });
+        console.error("Document Scan Error:", error);
+        return res.status(500).json({ error: "Failed to convert document" });
+    }
+};
+
+// Re-runs the scan of a document's stored page images in another mode, replacing its content
+export const rescanDocument = async (req: AuthRequest, res: Response) => {
+    const { id } = req.params as { id: string };
+    const mode = requestedScanMode(req.body?.mode);
+    if (!mode) return res.status(400).json({ error: "Unknown scan mode" });
+
+    try {
+        const user = await upsertScanUser(req);
+
+        const doc = await prisma.document.findFirst({
+            where: { id, deletedAt: null },
+            include: { pages: { orderBy: { pageNumber: 'asc' } } },
         });
+        if (!doc) return res.status(404).json({ error: "Document not found" });
+        if (!hasRole(await documentRole(doc, user.id), 'EDITOR')) return res.status(403).json({ error: "Unauthorized" });
 
-        const extractedText = result.text || "No text could be extracted.";
+        const imageUrls = doc.pages.length > 0 ? doc.pages.map((page) => page.imageUrl) : [doc.imageUrl].filter(Boolean);
+        if (imageUrls.length === 0) return res.status(400).json({ error: "Document has no stored images to re-scan" });
 
-        // 4. Save the document record to Prisma/Supabase
-        const document = await prisma.document.create({
+        // Keep the anchors of pages split from a PDF/TIFF
+        const sourcePageNumbers = doc.pages.length > 0 && doc.pages.every((page) => page.sourcePageNumber)
+            ? doc.pages.map((page) => page.sourcePageNumber!)
+            : [];
+
+        const job = await prisma.scanJob.create({
             data: {
                 userId: user.id,
-                imageUrl: imageUrl,
-                markdownContent: extractedText,
+                documentId: doc.id,
+                imageUrls,
+                sourcePageNumbers,
+                mode,
+                replace: true,
             }
         });
+        enqueueScanJob(job.id);
 
-        return res.status(201).json(document);
-
+        return res.status(202).json(job);
     } catch (error) {
-        console.error("Scanning Error:", error);
-        return res.status(500).json({ error: "Failed to process scan" });
+        console.error("Rescan Error:", error);
+        return res.status(500).json({ error: "Failed to queue re-scan" });
+    }
+};
+
+const findOwnedScanJob = async (req: AuthRequest) => {
+    const { id } = req.params as { id: string };
+    const user = await prisma.user.findUnique({ where: { firebaseId: req.user!.uid } });
+    if (!user) return null;
+
+    const job = await prisma.scanJob.findUnique({ where: { id } });
+    return job && job.userId === user.id ? job : null;
+};
+
+// Lists the caller's scan jobs; `?active=true` limits it to queued/running ones
+export const getScanJobs = async (req: AuthRequest, res: Response) => {
+    const { uid } = req.user!;
+    const activeOnly = req.query.active === 'true';
+
+    try {
+        const user = await prisma.user.findUnique({ where: { firebaseId: uid } });
+        if (!user) return res.status(403).json({ error: "User not found" });
+
+        const jobs = await prisma.scanJob.findMany({
+            where: {
+                userId: user.id,
+                ...(activeOnly ? { status: { in: ['QUEUED', 'RUNNING'] as const } } : {}),
+            },
+            orderBy: { createdAt: 'desc' },
+            take: 50,
+        });
+        return res.json(jobs);
+    } catch (e) {
+        console.error("Scan jobs error:", e);
+        return res.status(500).json({ error: "Failed to fetch scan jobs" });
     }
 };
 
+export const getScanJob = async (req: AuthRequest, res: Response) => {
+    try {
+        const job = await findOwnedScanJob(req);
+        if (!job) return res.status(404).json({ error: "Scan job not found" });
 
-//
-// export const getDocumentById = async (req: AuthRequest, res: Response) => {
-//     const { uid } = req.user!;
-//     const { id } = req.params;
-//
-//     try {
-//         const user = await prisma.user.findUnique({
-//             where: { firebaseId: uid },
-//         });
-//
-//         if (!user) return res.status(403).json({ error: "No such user" });
-//
-//         const document = await prisma.document.findFirst({
-//             where: {
-//                 id: id
-//             }
-//         });
-//
-//         if (!document) {
-//             return res.status(404).json({ error: "Document not found" });
-//         }
-//
-//         return res.status(200).json(document);
-//     } catch (error) {
-//         console.error("Error fetching document:", error);
-//         return res.status(500).json({ error: "Internal server error" });
-//     }
-// };
\ No newline at end of file
+        return res.json(job);
+    } catch (e) {
+        console.error("Scan job error:", e);
+        return res.status(500).json({ error: "Failed to fetch scan job" });
+    }
+};
+
+const SSE_HEARTBEAT_MS = 25000;
+
+// Server-sent events: a `progress` event with the job after every change, closed once the job has finished
+export const streamScanJob = async (req: AuthRequest, res: Response) => {
+    let job;
+    try {
+        job = await findOwnedScanJob(req);
+    } catch (e) {
+        console.error("Scan job stream error:", e);
+        return res.status(500).json({ error: "Failed to fetch scan job" });
+    }
+    if (!job) return res.status(404).json({ error: "Scan job not found" });
+
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.flushHeaders();
+
+    const send = (update: ScanJob) => {
+        res.write(`event: progress\ndata: ${JSON.stringify(update)}\n\n`);
+        if (isFinished(update)) close();
+    };
+    const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), SSE_HEARTBEAT_MS);
+    const close = () => {
+        clearInterval(heartbeat);
+        scanJobEvents.off(job.id, send);
+        res.end();
+    };
+
+    scanJobEvents.on(job.id, send);
+    req.on('close', close);
+    send(job);
+};
@@ -0,0 +1,133 @@
+import type { Response } from 'express';
+import type { AuthRequest } from '../middleware/authMiddleware';
+import prisma from "../config/prismaClient";
+
+const MAX_NAME_LENGTH = 100;
+
+const parseName = (name: unknown) => {
+    const trimmed = typeof name === "string" ? name.trim() : "";
+    return trimmed && trimmed.length <= MAX_NAME_LENGTH ? trimmed : null;
+};
+
+// A sibling with the same name would make the tree ambiguous
+const nameTaken = async (userId: string, parentId: string | null, name: string, excludeId?: string) => {
+    const existing = await prisma.folder.findFirst({
+        where: { userId, parentId, name: { equals: name, mode: 'insensitive' }, ...(excludeId ? { id: { not: excludeId } } : {}) },
+    });
+    return existing !== null;
+};
+
+// Returns every folder of the user as a flat list; the client builds the tree from `parentId`
+export const getFolders = async (req: AuthRequest, res: Response) => {
+    const { uid } = req.user!;
+
+    try {
+        const user = await prisma.user.findUnique({ where: { firebaseId: uid } });
+        if (!user) return res.status(403).json({ error: "User not found" });
+
+        const folders = await prisma.folder.findMany({
+            where: { userId: user.id },
+            orderBy: { name: 'asc' },
+        });
+        return res.json(folders);
+    } catch (e) {
+        console.error("Folders error:", e);
+        return res.status(500).json({ error: "Failed to fetch folders" });
+    }
+};
+
+export const createFolder = async (req: AuthRequest, res: Response) => {
+    const { uid } = req.user!;
+    const name = parseName(req.body.name);
+    const parentId: string | null = req.body.parentId || null;
+
+    if (!name) return res.status(400).json({ error: `Folder name must be 1-${MAX_NAME_LENGTH} characters` });
+
+    try {
+        const user = await prisma.user.findUnique({ where: { firebaseId: uid } });
+        if (!user) return res.status(403).json({ error: "User not found" });
+
+        if (parentId) {
+            const parent = await prisma.folder.findUnique({ where: { id: parentId } });
+            if (!parent || parent.userId !== user.id) return res.status(404).json({ error: "Parent folder not found" });
+        }
+        if (await nameTaken(user.id, parentId, name)) {
+            return res.status(409).json({ error: "A folder with that name already exists here" });
+        }
+
+        const folder = await prisma.folder.create({
+            data: { userId: user.id, name, parentId }
+        });
+        return res.status(201).json(folder);
+    } catch (e) {
+        console.error("Create folder error:", e);
+        return res.status(500).json({ error: "Failed to create folder" });
+    }
+};
+
+// Renames a folder and/or moves it under another parent (`parentId: null` moves it to the top level)
+export const updateFolder = async (req: AuthRequest, res: Response) => {
+    const { uid } = req.user!;
+    const { id } = req.params as { id: string };
+    const { name: rawName, parentId: rawParentId } = req.body;
+
+    try {
+        const user = await prisma.user.findUnique({ where: { firebaseId: uid } });
+        if (!user) return res.status(403).json({ error: "User not found" });
+
+        const folder = await prisma.folder.findUnique({ where: { id } });
+        if (!folder || folder.userId !== user.id) return res.status(404).json({ error: "Folder not found" });
+
+        const name = rawName === undefined ? folder.name : parseName(rawName);
+        if (!name) return res.status(400).json({ error: `Folder name must be 1-${MAX_NAME_LENGTH} characters` });
+
+        const parentId: string | null = rawParentId === undefined ? folder.parentId : rawParentId || null;
+
+        // Walk up from the new parent: reaching the folder itself would create a cycle
+        let ancestorId = parentId;
+        while (ancestorId) {
+            if (ancestorId === folder.id) {
+                return res.status(400).json({ error: "A folder cannot be moved into itself or one of its subfolders" });
+            }
+            const ancestor: { userId: string; parentId: string | null } | null = await prisma.folder.findUnique({
+                where: { id: ancestorId },
+                select: { userId: true, parentId: true },
+            });
+            if (!ancestor || ancestor.userId !== user.id) return res.status(404).json({ error: "Parent folder not found" });
+            ancestorId = ancestor.parentId;
+        }
+
+        if (await nameTaken(user.id, parentId, name, folder.id)) {
+            return res.status(409).json({ error: "A folder with that name already exists here" });
+        }
+
+        const updated = await prisma.folder.update({
+            where: { id },
+            data: { name, parentId }
+        });
+        return res.json(updated);
+    } catch (e) {
+        console.error("Update folder error:", e);
+        return res.status(500).json({ error: "Failed to update folder" });
+    }
+};
+
+// Deletes a folder and its subfolders; documents inside them move to the top level
+export const deleteFolder = async (req: AuthRequest, res: Response) => {
+    const { uid } = req.user!;
+    const { id } = req.params as { id: string };
+
+    try {
+        const user = await prisma.user.findUnique({ where: { firebaseId: uid } });
+        if (!user) return res.status(403).json({ error: "User not found" });
+
+        const folder = await prisma.folder.findUnique({ where: { id } });
+        if (!folder || folder.userId !== user.id) return res.status(404).json({ error: "Folder not found" });
+
+        await prisma.folder.delete({ where: { id } });
+        return res.json({ message: "Folder deleted" });
+    } catch (e) {
+        console.error("Delete folder error:", e);
+        return res.status(500).json({ error: "Failed to delete folder" });
+    }
+};
@@ -0,0 +1,156 @@
+import type { Response } from 'express';
+import { TextDecoder } from "node:util";
+import type { AuthRequest } from '../middleware/authMiddleware';
+import prisma from "../config/prismaClient";
+import { recordRevision } from "../services/revisionService.ts";
+import { deriveTitle } from "../utils/documentTitle.ts";
+import { cleanName, contentHash, isImportable, parseImportedMarkdown } from "../utils/markdownImport.ts";
+import { isZip, readZip, ZipReadError } from "../utils/zipReader.ts";
+
+const MAX_FOLDER_NAME_LENGTH = 100;
+
+// Outcome for each uploaded file, or each file inside an uploaded ZIP
+interface ImportResult {
+    path: string;
+    status: 'imported' | 'duplicate' | 'failed';
+    documentId?: string;
+    title?: string;
+    error?: string;
+}
+
+type ImportFile = { path: string; data: Buffer } | { path: string; error: string };
+
+const utf8 = new TextDecoder("utf-8", { fatal: true });
+
+// multer reads multipart file names as latin1; browsers send them as UTF-8
+const uploadName = (file: Express.Multer.File) => Buffer.from(file.originalname, "latin1").toString("utf8");
+
+// Files an archive tool or OS adds that are never notes
+const isJunk = (path: string) => path.startsWith("__MACOSX/") || path.split("/").some((part) => part.startsWith("."));
+
+/**
+ * Imports uploaded `.md`/`.txt` files, or ZIPs of them (e.g. Obsidian or Notion exports), as
+ * documents. Directories inside an archive become folders (under `folderId` if given), and files
+ * whose content matches an existing document are skipped as duplicates.
+ */
+export const importDocuments = async (req: AuthRequest, res: Response) => {
+    const { uid } = req.user!;
+    const uploads = (req.files as Express.Multer.File[] | undefined) ?? [];
+    const folderId: string | null = req.body?.folderId || null;
+
+    if (uploads.length === 0) return res.status(400).json({ error: "At least one file is required" });
+
+    try {
+        const user = await prisma.user.findUnique({ where: { firebaseId: uid } });
+        if (!user) return res.status(403).json({ error: "User not found" });
+
+        if (folderId) {
+            const folder = await prisma.folder.findUnique({ where: { id: folderId } });
+            if (!folder || folder.userId !== user.id) return res.status(404).json({ error: "Folder not found" });
+        }
+
+        const results: ImportResult[] = [];
+        const files: ImportFile[] = [];
+        for (const upload of uploads) {
+            const name = uploadName(upload);
+            if (isZip(upload.buffer)) {
+                try {
+                    const entries = readZip(upload.buffer, (path) => !isJunk(path) && isImportable(path));
+                    if (entries.length === 0) {
+                        results.push({ path: name, status: 'failed', error: "No .md or .txt files in the archive" });
+                    }
+                    files.push(...entries);
+                } catch (e) {
+                    if (!(e instanceof ZipReadError)) throw e;
+                    results.push({ path: name, status: 'failed', error: e.message });
+                }
+            } else if (isImportable(name)) {
+                files.push({ path: name, data: upload.buffer });
+            } else {
+                results.push({ path: name, status: 'failed', error: "Only .md, .txt and .zip files can be imported" });
+            }
+        }
+
+        // Hashes of the content already in the account, kept up to date as files are imported
+        const existing = await prisma.document.findMany({
+            where: { userId: user.id, deletedAt: null },
+            select: { id: true, markdownContent: true },
+        });
+        const hashes = new Map(existing.map((doc) => [contentHash(doc.markdownContent), doc.id]));
+
+        // Folders are matched by name (case-insensitively, like the folder endpoints) and created as needed
+        const folders = await prisma.folder.findMany({ where: { userId: user.id }, select: { id: true, name: true, parentId: true } });
+        const folderKey = (parentId: string | null, name: string) => `${parentId ?? ""}/${name.toLowerCase()}`;
+        const folderIds = new Map(folders.map((folder) => [folderKey(folder.parentId, folder.name), folder.id]));
+        const folderFor = async (directories: string[]) => {
+            let parentId = folderId;
+            for (const directory of directories) {
+                const name = (cleanName(directory) || directory).slice(0, MAX_FOLDER_NAME_LENGTH);
+                const key = folderKey(parentId, name);
+                let id = folderIds.get(key);
+                if (!id) {
+                    id = (await prisma.folder.create({ data: { userId: user.id, name, parentId } })).id;
+                    folderIds.set(key, id);
+                }
+                parentId = id;
+            }
+            return parentId;
+        };
+
+        for (const file of files) {
+            if ('error' in file) {
+                results.push({ path: file.path, status: 'failed', error: file.error });
+                continue;
+            }
+
+            let text: string;
+            try {
+                text = utf8.decode(file.data);
+            } catch {
+                results.push({ path: file.path, status: 'failed', error: "File is not UTF-8 text" });
+                continue;
+            }
+
+            const segments = file.path.split("/").filter(Boolean);
+            const { title, markdownContent } = parseImportedMarkdown(text, segments[segments.length - 1] ?? file.path);
+            if (!markdownContent) {
+                results.push({ path: file.path, status: 'failed', error: "File is empty" });
+                continue;
+            }
+
+            const hash = contentHash(markdownContent);
+            const duplicateOf = hashes.get(hash);
+            if (duplicateOf) {
+                results.push({ path: file.path, status: 'duplicate', documentId: duplicateOf, title });
+                continue;
+            }
+
+            const targetFolderId = await folderFor(segments.slice(0, -1));
+            const doc = await prisma.$transaction(async (tx) => {
+                const created = await tx.document.create({
+                    data: {
+                        userId: user.id,
+                        title,
+                        // Keep a title that didn't come from the first line when the content is edited
+                        titleEdited: title !== deriveTitle(markdownContent),
+                        markdownContent,
+                        imageUrl: "",
+                        folderId: targetFolderId,
+                    },
+                });
+                await recordRevision(tx, created.id, created.markdownContent, 'CREATE');
+                return created;
+            });
+            hashes.set(hash, doc.id);
+            results.push({ path: file.path, status: 'imported', documentId: doc.id, title: doc.title });
+        }
+
+        return res.json({
+            imported: results.filter((result) => result.status === 'imported').length,
+            results,
+        });
+    } catch (e) {
+        console.error("Import error:", e);
+        return res.status(500).json({ error: "Failed to import files" });
+    }
+}
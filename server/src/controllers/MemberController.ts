@@ -0,0 +1,118 @@
+import type { Response } from 'express';
+import type { AuthRequest } from '../middleware/authMiddleware';
+import prisma from "../config/prismaClient";
+import { findDocumentForUser, isDocumentRole } from "../services/documentAccess.ts";
+import type { DocumentMember, User } from "../generated/prisma/client.ts";
+
+const MAX_EMAIL_LENGTH = 320;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// A member with the name of their account; `pending` until someone signs up with the invited email
+const memberResponse = ({ user, ...member }: DocumentMember & { user: Pick<User, 'name'> | null }) => ({
+    id: member.id,
+    email: member.email,
+    name: user?.name ?? null,
+    role: member.role,
+    pending: member.userId === null,
+    createdAt: member.createdAt,
+});
+
+// Lists who has access to a document: its creator and every member. Anyone with access may see it.
+export const getMembers = async (req: AuthRequest, res: Response) => {
+    try {
+        const access = await findDocumentForUser(req, res, 'VIEWER');
+        if (!access) return;
+
+        const [owner, members] = await Promise.all([
+            prisma.user.findUniqueOrThrow({ where: { id: access.doc.userId }, select: { name: true, email: true } }),
+            prisma.documentMember.findMany({
+                where: { documentId: access.doc.id },
+                include: { user: { select: { name: true } } },
+                orderBy: { createdAt: 'asc' },
+            }),
+        ]);
+        return res.json({ owner, members: members.map(memberResponse), role: access.role });
+    } catch (e) {
+        console.error("Members error:", e);
+        return res.status(500).json({ error: "Failed to fetch members" });
+    }
+};
+
+// Invites `email` with `role` (VIEWER by default); inviting someone again changes their role
+export const inviteMember = async (req: AuthRequest, res: Response) => {
+    const { role = 'VIEWER' } = req.body ?? {};
+    const email = typeof req.body?.email === "string" ? req.body.email.trim().toLowerCase() : "";
+
+    if (!EMAIL_PATTERN.test(email) || email.length > MAX_EMAIL_LENGTH) {
+        return res.status(400).json({ error: "A valid email address is required" });
+    }
+    if (!isDocumentRole(role)) return res.status(400).json({ error: "role must be one of VIEWER, COMMENTER, EDITOR or OWNER" });
+
+    try {
+        const access = await findDocumentForUser(req, res, 'OWNER');
+        if (!access) return;
+
+        // Invitees get access when they sign in with the email verified (see claimInvites), even if they
+        // already have an account: whoever registered the address may not own it
+        const invitee = await prisma.user.findFirst({ where: { email: { equals: email, mode: 'insensitive' } } });
+        if (invitee?.id === access.doc.userId) return res.status(400).json({ error: "This person already owns the note" });
+
+        const member = await prisma.documentMember.upsert({
+            where: { documentId_email: { documentId: access.doc.id, email } },
+            update: { role },
+            create: { documentId: access.doc.id, email, role },
+            include: { user: { select: { name: true } } },
+        });
+        return res.status(201).json(memberResponse(member));
+    } catch (e) {
+        console.error("Invite member error:", e);
+        return res.status(500).json({ error: "Failed to invite member" });
+    }
+};
+
+export const updateMember = async (req: AuthRequest, res: Response) => {
+    const { memberId } = req.params as { memberId: string };
+    const { role } = req.body ?? {};
+
+    if (!isDocumentRole(role)) return res.status(400).json({ error: "role must be one of VIEWER, COMMENTER, EDITOR or OWNER" });
+
+    try {
+        const access = await findDocumentForUser(req, res, 'OWNER');
+        if (!access) return;
+
+        const member = await prisma.documentMember.findFirst({ where: { id: memberId, documentId: access.doc.id } });
+        if (!member) return res.status(404).json({ error: "Member not found" });
+
+        const updated = await prisma.documentMember.update({
+            where: { id: member.id },
+            data: { role },
+            include: { user: { select: { name: true } } },
+        });
+        return res.json(memberResponse(updated));
+    } catch (e) {
+        console.error("Update member error:", e);
+        return res.status(500).json({ error: "Failed to update member" });
+    }
+};
+
+// Removes a member; owners can remove anyone, and members can remove themselves to leave a note
+export const removeMember = async (req: AuthRequest, res: Response) => {
+    const { memberId } = req.params as { memberId: string };
+
+    try {
+        const access = await findDocumentForUser(req, res, 'VIEWER');
+        if (!access) return;
+
+        const member = await prisma.documentMember.findFirst({ where: { id: memberId, documentId: access.doc.id } });
+        if (!member) return res.status(404).json({ error: "Member not found" });
+        if (access.role !== 'OWNER' && member.userId !== access.user.id) {
+            return res.status(403).json({ error: "Unauthorized" });
+        }
+
+        await prisma.documentMember.delete({ where: { id: member.id } });
+        return res.json({ message: "Member removed" });
+    } catch (e) {
+        console.error("Remove member error:", e);
+        return res.status(500).json({ error: "Failed to remove member" });
+    }
+};
@@ -0,0 +1,76 @@
+import type { Response } from 'express';
+import type { AuthRequest } from '../middleware/authMiddleware';
+import prisma from "../config/prismaClient";
+import { findDocumentForUser } from "../services/documentAccess.ts";
+import { recordRevision } from "../services/revisionService.ts";
+import { resetCollabSession } from "../services/collabService.ts";
+import { titleForContent } from "../utils/documentTitle.ts";
+
+// Lists a document's revisions, newest first, without their content
+export const getRevisions = async (req: AuthRequest, res: Response) => {
+    try {
+        const access = await findDocumentForUser(req, res, 'VIEWER');
+        if (!access) return;
+        const { doc } = access;
+
+        const revisions = await prisma.documentRevision.findMany({
+            where: { documentId: doc.id },
+            orderBy: { revisionNumber: 'desc' },
+            select: { id: true, revisionNumber: true, source: true, createdAt: true, updatedAt: true },
+        });
+        return res.json(revisions);
+    } catch (e) {
+        console.error("Revisions error:", e);
+        return res.status(500).json({ error: "Failed to fetch revisions" });
+    }
+};
+
+export const getRevision = async (req: AuthRequest, res: Response) => {
+    const { revisionId } = req.params as { revisionId: string };
+
+    try {
+        const access = await findDocumentForUser(req, res, 'VIEWER');
+        if (!access) return;
+        const { doc } = access;
+
+        const revision = await prisma.documentRevision.findFirst({ where: { id: revisionId, documentId: doc.id } });
+        if (!revision) return res.status(404).json({ error: "Revision not found" });
+
+        return res.json(revision);
+    } catch (e) {
+        console.error("Revision error:", e);
+        return res.status(500).json({ error: "Failed to fetch revision" });
+    }
+};
+
+// Makes a revision's content the document's current content, recorded as a new revision
+export const restoreRevision = async (req: AuthRequest, res: Response) => {
+    const { revisionId } = req.params as { revisionId: string };
+
+    try {
+        const access = await findDocumentForUser(req, res, 'EDITOR');
+        if (!access) return;
+        const { doc } = access;
+
+        const revision = await prisma.documentRevision.findFirst({ where: { id: revisionId, documentId: doc.id } });
+        if (!revision) return res.status(404).json({ error: "Revision not found" });
+
+        const restored = await prisma.$transaction(async (tx) => {
+            const saved = await tx.document.update({
+                where: { id: doc.id },
+                data: {
+                    markdownContent: revision.markdownContent,
+                    ...titleForContent(doc, revision.markdownContent),
+                    version: { increment: 1 },
+                }
+            });
+            await recordRevision(tx, doc.id, saved.markdownContent, 'RESTORE');
+            return saved;
+        });
+        await resetCollabSession(doc.id);
+        return res.json(restored);
+    } catch (e) {
+        console.error("Restore error:", e);
+        return res.status(500).json({ error: "Failed to restore revision" });
+    }
+};
@@ -0,0 +1,64 @@
+import type { Response } from 'express';
+import type { AuthRequest } from '../middleware/authMiddleware';
+import prisma from "../config/prismaClient";
+
+const MAX_RESULTS = 20;
+const MAX_QUERY_TERMS = 10;
+
+// Highlighted terms in snippets are wrapped in these control characters so the client can
+// render them without trusting HTML from note content
+const HIGHLIGHT_START = "\u0002";
+const HIGHLIGHT_END = "\u0003";
+const HEADLINE_OPTIONS = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_END}, MaxWords=25, MinWords=10, MaxFragments=2, FragmentDelimiter=" … "`;
+
+interface SearchRow {
+    id: string;
+    title: string;
+    snippet: string;
+    rank: number;
+    createdAt: Date;
+}
+
+// Turns free text into a prefix-matching tsquery ("entro therm" -> "entro:* & therm:*").
+// Only letters and digits survive, so the result is always valid tsquery syntax.
+const toPrefixQuery = (q: string) =>
+    (q.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [])
+        .slice(0, MAX_QUERY_TERMS)
+        .map((term) => `${term}:*`)
+        .join(" & ");
+
+// Searches the caller's notes and the notes shared with them
+export const searchDocuments = async (req: AuthRequest, res: Response) => {
+    const { uid } = req.user!;
+    const q = typeof req.query.q === "string" ? req.query.q : "";
+    const tsquery = toPrefixQuery(q);
+
+    if (!tsquery) return res.json([]);
+
+    try {
+        const user = await prisma.user.findUnique({ where: { firebaseId: uid } });
+        if (!user) return res.status(403).json({ error: "User not found" });
+
+        const results = await prisma.$queryRaw<SearchRow[]>`
+            SELECT d."id",
+                   d."createdAt",
+                   d."title",
+                   ts_rank_cd(d."searchVector", query) AS "rank",
+                   ts_headline('english', document_search_text(d."markdownContent"), query, ${HEADLINE_OPTIONS}) AS "snippet"
+            FROM "Document" d, to_tsquery('english', ${tsquery}) query
+            WHERE (d."userId" = ${user.id} OR EXISTS (
+                      SELECT 1 FROM "DocumentMember" m WHERE m."documentId" = d."id" AND m."userId" = ${user.id}))
+              AND d."deletedAt" IS NULL AND d."searchVector" @@ query
+            ORDER BY "rank" DESC, d."createdAt" DESC
+            LIMIT ${MAX_RESULTS}`;
+
+        return res.json(results.map((row) => ({
+            ...row,
+            // Collapse the whitespace left behind by stripped Markdown/LaTeX syntax
+            snippet: row.snippet.replace(/\s+/g, " ").trim(),
+        })));
+    } catch (e) {
+        console.error("Search error:", e);
+        return res.status(500).json({ error: "Failed to search documents" });
+    }
+};
@@ -0,0 +1,50 @@
+import type { Response } from 'express';
+import type { AuthRequest } from '../middleware/authMiddleware';
+import prisma from "../config/prismaClient";
+
+// The client owns the shape of its settings; the server only checks they're a small JSON object
+const MAX_SETTINGS_SIZE = 4096;
+
+export const getPdfSettings = async (req: AuthRequest, res: Response) => {
+    const { uid } = req.user!;
+
+    try {
+        const user = await prisma.user.findUnique({
+            where: { firebaseId: uid },
+            select: { pdfSettings: true },
+        });
+        if (!user) return res.status(403).json({ error: "User not found" });
+
+        return res.json(user.pdfSettings ?? null);
+    } catch (e) {
+        console.error("PDF settings error:", e);
+        return res.status(500).json({ error: "Failed to fetch PDF settings" });
+    }
+};
+
+export const updatePdfSettings = async (req: AuthRequest, res: Response) => {
+    const { uid } = req.user!;
+    const settings = req.body;
+
+    if (!settings || typeof settings !== "object" || Array.isArray(settings)) {
+        return res.status(400).json({ error: "PDF settings must be an object" });
+    }
+    if (JSON.stringify(settings).length > MAX_SETTINGS_SIZE) {
+        return res.status(413).json({ error: "PDF settings are too large" });
+    }
+
+    try {
+        const user = await prisma.user.findUnique({ where: { firebaseId: uid } });
+        if (!user) return res.status(403).json({ error: "User not found" });
+
+        const updated = await prisma.user.update({
+            where: { id: user.id },
+            data: { pdfSettings: settings },
+            select: { pdfSettings: true },
+        });
+        return res.json(updated.pdfSettings);
+    } catch (e) {
+        console.error("Update PDF settings error:", e);
+        return res.status(500).json({ error: "Failed to save PDF settings" });
+    }
+};
@@ -0,0 +1,160 @@
+import type { Request, Response } from 'express';
+import { randomBytes } from "node:crypto";
+import type { AuthRequest } from '../middleware/authMiddleware';
+import prisma from "../config/prismaClient";
+import { findDocumentForUser } from "../services/documentAccess.ts";
+import type { ShareLink } from "../generated/prisma/client.ts";
+import { hashPassword, verifyPassword } from "../utils/password.ts";
+import { createAttemptLimiter } from "../utils/attemptLimiter.ts";
+
+const MIN_PASSWORD_LENGTH = 4;
+const MAX_PASSWORD_LENGTH = 200;
+
+// Wrong passwords are limited per client and link, so short passwords can't be brute-forced, and more loosely
+// per link, so guessing from many addresses is slowed down too without one stranger locking a link for everyone
+const clientPasswordAttempts = createAttemptLimiter();
+const linkPasswordAttempts = createAttemptLimiter({ freeFailures: 50 });
+
+// A link as its owner sees it: never the password hash, only whether there is one
+const shareLinkResponse = ({ passwordHash, ...link }: ShareLink) => ({ ...link, hasPassword: passwordHash !== null });
+
+// Lists a document's share links, newest first, including revoked and expired ones
+export const getShareLinks = async (req: AuthRequest, res: Response) => {
+    try {
+        const access = await findDocumentForUser(req, res, 'OWNER');
+        if (!access) return;
+        const { doc } = access;
+
+        const links = await prisma.shareLink.findMany({
+            where: { documentId: doc.id },
+            orderBy: { createdAt: 'desc' },
+        });
+        return res.json(links.map(shareLinkResponse));
+    } catch (e) {
+        console.error("Share links error:", e);
+        return res.status(500).json({ error: "Failed to fetch share links" });
+    }
+};
+
+// Creates a share link; `expiresAt` (ISO date) and `password` are optional
+export const createShareLink = async (req: AuthRequest, res: Response) => {
+    const { expiresAt, password } = req.body ?? {};
+
+    let expiry: Date | null = null;
+    if (expiresAt != null) {
+        expiry = new Date(expiresAt);
+        if (typeof expiresAt !== "string" || Number.isNaN(expiry.getTime())) {
+            return res.status(400).json({ error: "expiresAt must be an ISO date" });
+        }
+        if (expiry <= new Date()) return res.status(400).json({ error: "expiresAt must be in the future" });
+    }
+    if (password != null && password !== "") {
+        if (typeof password !== "string" || password.length < MIN_PASSWORD_LENGTH || password.length > MAX_PASSWORD_LENGTH) {
+            return res.status(400).json({
+                error: `Passwords must be between ${MIN_PASSWORD_LENGTH} and ${MAX_PASSWORD_LENGTH} characters`
+            });
+        }
+    }
+
+    try {
+        const access = await findDocumentForUser(req, res, 'OWNER');
+        if (!access) return;
+        const { doc } = access;
+
+        const link = await prisma.shareLink.create({
+            data: {
+                documentId: doc.id,
+                token: randomBytes(18).toString("base64url"),
+                passwordHash: password ? await hashPassword(password) : null,
+                expiresAt: expiry,
+            },
+        });
+        return res.status(201).json(shareLinkResponse(link));
+    } catch (e) {
+        console.error("Create share link error:", e);
+        return res.status(500).json({ error: "Failed to create share link" });
+    }
+};
+
+// Revokes a link for good; it stays listed with its access count
+export const revokeShareLink = async (req: AuthRequest, res: Response) => {
+    const { shareId } = req.params as { shareId: string };
+
+    try {
+        const access = await findDocumentForUser(req, res, 'OWNER');
+        if (!access) return;
+        const { doc } = access;
+
+        const link = await prisma.shareLink.findFirst({ where: { id: shareId, documentId: doc.id } });
+        if (!link) return res.status(404).json({ error: "Share link not found" });
+
+        const revoked = link.revokedAt
+            ? link
+            : await prisma.shareLink.update({ where: { id: link.id }, data: { revokedAt: new Date() } });
+        return res.json(shareLinkResponse(revoked));
+    } catch (e) {
+        console.error("Revoke share link error:", e);
+        return res.status(500).json({ error: "Failed to revoke share link" });
+    }
+};
+
+/**
+ * The shared document behind a public link, for anyone who has it (no sign-in). Password-protected
+ * links take the password in the `X-Share-Password` header; repeated wrong passwords lock the link for a while (429).
+ * Each successful view is counted.
+ */
+export const getPublicDocument = async (req: Request, res: Response) => {
+    const { token } = req.params as { token: string };
+    const password = req.get('X-Share-Password');
+
+    try {
+        const link = await prisma.shareLink.findUnique({
+            where: { token },
+            include: { document: { select: { title: true, markdownContent: true, updatedAt: true, deletedAt: true } } },
+        });
+        // Revoked links and trashed documents look the same as links that never existed
+        if (!link || link.revokedAt || link.document.deletedAt) {
+            return res.status(404).json({ error: "This link doesn't exist or has been turned off" });
+        }
+        if (link.expiresAt && link.expiresAt <= new Date()) {
+            return res.status(410).json({ error: "This link has expired" });
+        }
+        if (link.passwordHash) {
+            if (!password) return res.status(401).json({ error: "This note is password-protected", passwordRequired: true });
+
+            // Reserved before the (slow) check, so parallel guesses count as well
+            const clientKey = `${link.id}:${req.ip}`;
+            let retryAfterMs = clientPasswordAttempts.begin(clientKey);
+            if (retryAfterMs === 0) {
+                retryAfterMs = linkPasswordAttempts.begin(link.id);
+                if (retryAfterMs > 0) clientPasswordAttempts.release(clientKey);
+            }
+            if (retryAfterMs > 0) {
+                res.set('Retry-After', String(Math.ceil(retryAfterMs / 1000)));
+                return res.status(429).json({ error: "Too many wrong passwords. Try again later.", passwordRequired: true });
+            }
+
+            let valid = false;
+            try {
+                valid = await verifyPassword(password, link.passwordHash);
+            } finally {
+                for (const [limiter, key] of [[clientPasswordAttempts, clientKey], [linkPasswordAttempts, link.id]] as const) {
+                    if (valid) limiter.succeed(key);
+                    else limiter.fail(key);
+                }
+            }
+            if (!valid) return res.status(401).json({ error: "Wrong password", passwordRequired: true });
+        }
+
+        await prisma.shareLink.update({
+            where: { id: link.id },
+            data: { accessCount: { increment: 1 }, lastAccessedAt: new Date() },
+        });
+
+        const { title, markdownContent, updatedAt } = link.document;
+        return res.json({ title, markdownContent, updatedAt });
+    } catch (e) {
+        console.error("Public document error:", e);
+        return res.status(500).json({ error: "Failed to load shared note" });
+    }
+};
@@ -0,0 +1,83 @@
+import type { Response } from 'express';
+import type { AuthRequest } from '../middleware/authMiddleware';
+import prisma from "../config/prismaClient";
+import { findDocumentForUser } from "../services/documentAccess.ts";
+import { canGenerateStudyNotes, generateStudyNotes, isStudySection, STUDY_SECTIONS } from "../services/studyService.ts";
+import { recordRevision } from "../services/revisionService.ts";
+import { resetCollabSession } from "../services/collabService.ts";
+import { deriveTitle, titleForContent } from "../utils/documentTitle.ts";
+
+const STUDY_TARGETS = ['append', 'document'] as const;
+
+/**
+ * Generates study notes (`sections`: any of summary, keyTerms and studyGuide; all by default) from a document.
+ * `target: 'append'` adds them to the document as a new section (editors and owners);
+ * `target: 'document'` saves them as a new document of the caller's, linked to this one (anyone with access).
+ */
+export const createStudyNotes = async (req: AuthRequest, res: Response) => {
+    const { sections = STUDY_SECTIONS, target = 'document' } = req.body ?? {};
+
+    if (!Array.isArray(sections) || sections.length === 0 || !sections.every(isStudySection)) {
+        return res.status(400).json({ error: `sections must be a non-empty list of ${STUDY_SECTIONS.join(", ")}` });
+    }
+    if (!STUDY_TARGETS.includes(target)) {
+        return res.status(400).json({ error: `target must be one of ${STUDY_TARGETS.join(", ")}` });
+    }
+    if (!canGenerateStudyNotes()) {
+        return res.status(501).json({ error: "Study notes need a scan provider that can generate text (e.g. gemini)" });
+    }
+
+    try {
+        const access = await findDocumentForUser(req, res, target === 'append' ? 'EDITOR' : 'VIEWER');
+        if (!access) return;
+        const { user, doc } = access;
+
+        if (!doc.markdownContent.trim()) return res.status(400).json({ error: "The note is empty" });
+
+        let studyNotes: string;
+        try {
+            studyNotes = await generateStudyNotes(doc.markdownContent, sections);
+        } catch (e) {
+            console.error("Study notes generation error:", e);
+            return res.status(502).json({ error: "Failed to generate study notes" });
+        }
+
+        if (target === 'append') {
+            const updated = await prisma.$transaction(async (tx) => {
+                // Appended to the latest content, which may have changed while the notes were generated
+                const current = await tx.document.findUniqueOrThrow({ where: { id: doc.id } });
+                const markdownContent = `${current.markdownContent.trimEnd()}\n\n# Study notes\n\n${studyNotes}\n`;
+                const saved = await tx.document.update({
+                    where: { id: doc.id },
+                    data: { markdownContent, ...titleForContent(current, markdownContent), version: { increment: 1 } },
+                });
+                await recordRevision(tx, saved.id, saved.markdownContent, 'STUDY');
+                return saved;
+            });
+            // People editing the document reload it with the study notes
+            await resetCollabSession(doc.id);
+            return res.json(updated);
+        }
+
+        const markdownContent = `# Study notes: ${doc.title || "Untitled"}\n\n${studyNotes}\n`;
+        const created = await prisma.$transaction(async (tx) => {
+            const document = await tx.document.create({
+                data: {
+                    userId: user.id,
+                    title: deriveTitle(markdownContent),
+                    markdownContent,
+                    imageUrl: "",
+                    // Next to the source in the caller's own folders; notes shared with them aren't in any
+                    folderId: doc.userId === user.id ? doc.folderId : null,
+                    sourceDocumentId: doc.id,
+                },
+            });
+            await recordRevision(tx, document.id, document.markdownContent, 'CREATE');
+            return document;
+        });
+        return res.status(201).json(created);
+    } catch (e) {
+        console.error("Study notes error:", e);
+        return res.status(500).json({ error: "Failed to create study notes" });
+    }
+};
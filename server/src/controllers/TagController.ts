@@ -0,0 +1,111 @@
+import type { Response } from 'express';
+import type { AuthRequest } from '../middleware/authMiddleware';
+import prisma from "../config/prismaClient";
+
+const MAX_NAME_LENGTH = 50;
+const COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+const parseName = (name: unknown) => {
+    const trimmed = typeof name === "string" ? name.trim() : "";
+    return trimmed && trimmed.length <= MAX_NAME_LENGTH ? trimmed : null;
+};
+
+// Tag names are unique per user regardless of case, like folder names
+const nameTaken = async (userId: string, name: string, excludeId?: string) => {
+    const existing = await prisma.tag.findFirst({
+        where: { userId, name: { equals: name, mode: 'insensitive' }, ...(excludeId ? { id: { not: excludeId } } : {}) },
+    });
+    return existing !== null;
+};
+
+export const getTags = async (req: AuthRequest, res: Response) => {
+    const { uid } = req.user!;
+
+    try {
+        const user = await prisma.user.findUnique({ where: { firebaseId: uid } });
+        if (!user) return res.status(403).json({ error: "User not found" });
+
+        const tags = await prisma.tag.findMany({
+            where: { userId: user.id },
+            orderBy: { name: 'asc' },
+        });
+        return res.json(tags);
+    } catch (e) {
+        console.error("Tags error:", e);
+        return res.status(500).json({ error: "Failed to fetch tags" });
+    }
+};
+
+export const createTag = async (req: AuthRequest, res: Response) => {
+    const { uid } = req.user!;
+    const name = parseName(req.body.name);
+    const color: string | null = req.body.color || null;
+
+    if (!name) return res.status(400).json({ error: `Tag name must be 1-${MAX_NAME_LENGTH} characters` });
+    if (color && !COLOR_PATTERN.test(color)) return res.status(400).json({ error: "Tag color must be a hex color like #10b981" });
+
+    try {
+        const user = await prisma.user.findUnique({ where: { firebaseId: uid } });
+        if (!user) return res.status(403).json({ error: "User not found" });
+
+        if (await nameTaken(user.id, name)) return res.status(409).json({ error: "A tag with that name already exists" });
+
+        const tag = await prisma.tag.create({
+            data: { userId: user.id, name, color }
+        });
+        return res.status(201).json(tag);
+    } catch (e) {
+        console.error("Create tag error:", e);
+        return res.status(500).json({ error: "Failed to create tag" });
+    }
+};
+
+export const updateTag = async (req: AuthRequest, res: Response) => {
+    const { uid } = req.user!;
+    const { id } = req.params as { id: string };
+
+    try {
+        const user = await prisma.user.findUnique({ where: { firebaseId: uid } });
+        if (!user) return res.status(403).json({ error: "User not found" });
+
+        const tag = await prisma.tag.findUnique({ where: { id } });
+        if (!tag || tag.userId !== user.id) return res.status(404).json({ error: "Tag not found" });
+
+        const name = req.body.name === undefined ? tag.name : parseName(req.body.name);
+        const color: string | null = req.body.color === undefined ? tag.color : req.body.color || null;
+        if (!name) return res.status(400).json({ error: `Tag name must be 1-${MAX_NAME_LENGTH} characters` });
+        if (color && !COLOR_PATTERN.test(color)) return res.status(400).json({ error: "Tag color must be a hex color like #10b981" });
+
+        if (name !== tag.name && await nameTaken(user.id, name, id)) {
+            return res.status(409).json({ error: "A tag with that name already exists" });
+        }
+
+        const updated = await prisma.tag.update({
+            where: { id },
+            data: { name, color }
+        });
+        return res.json(updated);
+    } catch (e) {
+        console.error("Update tag error:", e);
+        return res.status(500).json({ error: "Failed to update tag" });
+    }
+};
+
+export const deleteTag = async (req: AuthRequest, res: Response) => {
+    const { uid } = req.user!;
+    const { id } = req.params as { id: string };
+
+    try {
+        const user = await prisma.user.findUnique({ where: { firebaseId: uid } });
+        if (!user) return res.status(403).json({ error: "User not found" });
+
+        const tag = await prisma.tag.findUnique({ where: { id } });
+        if (!tag || tag.userId !== user.id) return res.status(404).json({ error: "Tag not found" });
+
+        await prisma.tag.delete({ where: { id } });
+        return res.json({ message: "Tag deleted" });
+    } catch (e) {
+        console.error("Delete tag error:", e);
+        return res.status(500).json({ error: "Failed to delete tag" });
+    }
+};
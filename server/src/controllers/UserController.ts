@@ -1,7 +1,41 @@
 import type { Response } from 'express';
 import type { AuthRequest } from '../middleware/authMiddleware';
 import prisma from "../config/prismaClient";
-import { GoogleGenAI } from "@google/genai";
+import { recordRevision } from "../services/revisionService.ts";
+import { trashRetentionDays } from "../services/trashService.ts";
+import { claimInvites, findDocumentForUser, sharedWith } from "../services/documentAccess.ts";
+import { hasLiveEditors, resetCollabSession } from "../services/collabService.ts";
+import { deriveTitle, MAX_TITLE_LENGTH } from "../utils/documentTitle.ts";
+import { getFileStorage } from "../storage/index.ts";
+
+const DEFAULT_PAGE_SIZE = 30;
+const MAX_PAGE_SIZE = 100;
+
+// Sort keys accepted by `GET /api/documents?sort=` and the column each one orders by
+const SORT_FIELDS = { created: 'createdAt', updated: 'updatedAt', title: 'title' } as const;
+type SortKey = keyof typeof SORT_FIELDS;
+
+// Version the client based its edit on, from `If-Match: "<version>"` or a `version` body field; null when absent
+const expectedVersion = (req: AuthRequest): number | null => {
+    const header = req.get('If-Match');
+    const raw = header ? header.replace(/^W\//, "").replace(/"/g, "") : req.body?.version;
+    const version = Number(raw);
+    return raw === undefined || raw === "" || !Number.isInteger(version) ? null : version;
+};
+
+const versionTag = (version: number) => `"${version}"`;
+
+// Fields returned by the document list; the full content is only sent for a single document
+const LIST_FIELDS = {
+    id: true,
+    title: true,
+    imageUrl: true,
+    scanMode: true,
+    folderId: true,
+    createdAt: true,
+    updatedAt: true,
+    tags: { select: { id: true } },
+} as const;
 
 export const onboard = async (req: AuthRequest, res: Response) => {
     console.log('Onboard endpoint hit');
@@ -25,6 +59,7 @@ export const onboard = async (req: AuthRequest, res: Response) => {
             },
         });
         console.log('Database upsert successful:', user);
+        await claimInvites(user, req.user!);
         return res.status(200).json(user);
     } catch (error) {
         console.error('Database error:', error);
@@ -35,31 +70,6 @@ export const onboard = async (req: AuthRequest, res: Response) => {
     }
 };
 
-export const gemini = async (req: AuthRequest, res: Response) => {
-    const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY! });
-    const image_path = "https://farm4.staticflickr.com/3789/10177514664_0ff9a53cf8_z.jpg"
-
-    const response = await fetch(image_path);
-    const imageArrayBuffer = await response.arrayBuffer();
-    const base64ImageData = Buffer.from(imageArrayBuffer).toString('base64');
-
-    const result = await ai.models.generateContent({
-        model: "gemini-3-flash-preview",
-        contents: [
-            {
-                inlineData: {
-                    mimeType: 'image/jpeg',
-                    data: base64ImageData,
-                },
-            },
-            { text: "Extract the text from this image" }
-        ],
-    });
-    console.log(result.text);
-
-    return res.status(200).json(result);
-}
-
 export const getDocuments = async (req: AuthRequest, res: Response) => {
     const { uid } = req.user!;
 
@@ -80,36 +90,111 @@ export const getDocuments = async (req: AuthRequest, res: Response) => {
             })
         }
 
+        // `?scope=shared` lists the notes other people shared with the caller instead of their own
+        const shared = req.query.scope === "shared";
+
+        // Optional filters: `?folderId=<id>` (or `root` for unfiled notes) and `?tags=<id>,<id>` (notes must carry every tag).
+        // Folders and tags are the creator's, so they only apply to the caller's own notes.
+        const folderId = typeof req.query.folderId === "string" ? req.query.folderId : undefined;
+        const tagIds = typeof req.query.tags === "string" ? req.query.tags.split(",").filter(Boolean) : [];
+
+        // Sorting (`sort=created|updated|title`, `order=asc|desc`) and cursor pagination (`cursor=<last id>`, `limit`)
+        const sort = (typeof req.query.sort === "string" ? req.query.sort : "updated") as SortKey;
+        if (!Object.hasOwn(SORT_FIELDS, sort)) return res.status(400).json({ error: "sort must be one of created, updated or title" });
+        const order = req.query.order === "asc" || req.query.order === "desc"
+            ? req.query.order
+            : sort === "title" ? "asc" : "desc";
+        const limit = Math.min(Math.max(Number(req.query.limit) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+        const cursor = typeof req.query.cursor === "string" ? req.query.cursor : undefined;
+
         const documents = await prisma.document.findMany({
-            where: {
+            where: shared ? { ...sharedWith(user.id), deletedAt: null } : {
                 userId: user.id,
-
+                deletedAt: null,
+                ...(folderId !== undefined ? { folderId: folderId === "root" ? null : folderId } : {}),
+                ...(tagIds.length > 0 ? { AND: tagIds.map((tagId) => ({ tags: { some: { id: tagId } } })) } : {}),
             },
-            orderBy: {
-                createdAt: 'desc',
-            }
+            select: {
+                ...LIST_FIELDS,
+                user: { select: { name: true, email: true } },
+                members: { where: { userId: user.id }, select: { role: true } },
+            },
+            // The id tie-breaker keeps the order stable, which cursor pagination relies on
+            orderBy: [{ [SORT_FIELDS[sort]]: order }, { id: order }],
+            ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+            // One extra row tells whether another page follows
+            take: limit + 1,
         })
 
-        return res.status(200).json(documents);
+        // Each note says whose it is and what the caller may do with it
+        const items = documents.slice(0, limit).map(({ user: owner, members, ...doc }) => ({
+            ...doc,
+            owner,
+            role: members[0]?.role ?? 'OWNER',
+        }));
+        return res.status(200).json({
+            items,
+            nextCursor: documents.length > limit ? items[items.length - 1]!.id : null,
+        });
     } catch (e) {
         return res.status(500).json({ e })
     }
 }
 
+export const getDocumentById = async (req: AuthRequest, res: Response) => {
+    try {
+        const access = await findDocumentForUser(req, res, 'VIEWER');
+        if (!access) return;
+
+        const doc = await prisma.document.findUniqueOrThrow({
+            where: { id: access.doc.id },
+            include: {
+                tags: { select: { id: true } },
+                // Scanned page images, e.g. for the PDF export's scan appendix
+                pages: { select: { pageNumber: true, sourcePageNumber: true, imageUrl: true }, orderBy: { pageNumber: 'asc' } },
+            },
+        });
+
+        // Stored images are only reachable through links that expire
+        const storage = getFileStorage();
+        res.set('ETag', versionTag(doc.version));
+        return res.json({
+            ...doc,
+            imageUrl: doc.imageUrl && storage.viewUrl(doc.imageUrl),
+            pages: doc.pages.map((page) => ({ ...page, imageUrl: storage.viewUrl(page.imageUrl) })),
+            role: access.role,
+        });
+    } catch (e) {
+        console.error("Fetch error:", e);
+        return res.status(500).json({ error: "Failed to fetch document" });
+    }
+}
+
 export const createDocument = async (req: AuthRequest, res: Response) => {
     const { uid } = req.user!;
-    const { markdownContent, imageUrl } = req.body;
+    const { markdownContent, imageUrl, folderId } = req.body;
 
     try {
         const user = await prisma.user.findUnique({ where: { firebaseId: uid } });
         if (!user) return res.status(404).json({ error: "User not found" });
 
-        const doc = await prisma.document.create({
-            data: {
-                userId: user.id,
-                markdownContent: markdownContent || "",
-                imageUrl: imageUrl || "",
-            }
+        if (folderId) {
+            const folder = await prisma.folder.findUnique({ where: { id: folderId } });
+            if (!folder || folder.userId !== user.id) return res.status(404).json({ error: "Folder not found" });
+        }
+
+        const doc = await prisma.$transaction(async (tx) => {
+            const created = await tx.document.create({
+                data: {
+                    userId: user.id,
+                    title: deriveTitle(markdownContent || ""),
+                    markdownContent: markdownContent || "",
+                    imageUrl: imageUrl || "",
+                    folderId: folderId || null,
+                }
+            });
+            await recordRevision(tx, created.id, created.markdownContent, 'CREATE');
+            return created;
         });
         return res.status(201).json(doc);
     } catch (e) {
@@ -119,25 +204,73 @@ export const createDocument = async (req: AuthRequest, res: Response) => {
 }
 
 export const updateDocument = async (req: AuthRequest, res: Response) => {
-    const { uid } = req.user!;
-    const { id } = req.params;
-    const { markdownContent } = req.body;
+    const { markdownContent, title } = req.body;
+
+    if (markdownContent !== undefined && typeof markdownContent !== "string") {
+        return res.status(400).json({ error: "markdownContent must be a string" });
+    }
+    if (title !== undefined && (typeof title !== "string" || title.trim().length > MAX_TITLE_LENGTH)) {
+        return res.status(400).json({ error: `Title must be at most ${MAX_TITLE_LENGTH} characters` });
+    }
 
     try {
-        const user = await prisma.user.findUnique({ where: { firebaseId: uid } });
-        if (!user) return res.status(403).json({ error: "User not found" });
+        const access = await findDocumentForUser(req, res, 'EDITOR');
+        if (!access) return;
+        const { doc } = access;
 
-        const doc = await prisma.document.findUnique({ where: { id } });
-        if (!doc) return res.status(404).json({ error: "Document not found" });
+        // An explicit title sticks; an empty one goes back to deriving it from the content
+        const content: string = markdownContent ?? doc.markdownContent;
+        const contentChanged = content !== doc.markdownContent;
+        const titleEdited = title === undefined ? doc.titleEdited : title.trim().length > 0;
+        const newTitle = titleEdited ? (title === undefined ? doc.title : title.trim()) : deriveTitle(content);
 
-        if (doc.userId !== user.id) {
-            return res.status(403).json({ error: "Unauthorized" });
+        // Optimistic concurrency: a content change must say which version it's based on, and that must be the
+        // current one. The version is also part of the update's condition so a concurrent save between the read
+        // and the write is caught.
+        const expected = expectedVersion(req);
+        if (contentChanged && expected === null) {
+            return res.status(428).json({ error: "Content changes must send the version they're based on (If-Match)" });
         }
+        const baseVersion = contentChanged ? expected : null;
 
-        const updated = await prisma.document.update({
-            where: { id },
-            data: { markdownContent }
+        // While people edit the note live their session saves it; a save from outside would end the session
+        // for all of them (e.g. an autosave from a tab still connecting), so it's refused until they're done
+        const live = contentChanged && await hasLiveEditors(doc.id);
+
+        const updated = live || (baseVersion !== null && baseVersion !== doc.version) ? null : await prisma.$transaction(async (tx) => {
+            const { count } = await tx.document.updateMany({
+                where: { id: doc.id, ...(baseVersion !== null ? { version: baseVersion } : {}) },
+                data: {
+                    markdownContent: content,
+                    title: newTitle,
+                    titleEdited,
+                    ...(contentChanged ? { version: { increment: 1 } } : {}),
+                },
+            });
+            if (count === 0) return null;
+
+            const saved = await tx.document.findUniqueOrThrow({
+                where: { id: doc.id },
+                include: { tags: { select: { id: true } } },
+            });
+            if (contentChanged) await recordRevision(tx, saved.id, saved.markdownContent, 'EDIT');
+            return saved;
         });
+
+        if (!updated) {
+            const current = await prisma.document.findUniqueOrThrow({
+                where: { id: doc.id },
+                include: { tags: { select: { id: true } } },
+            });
+            res.set('ETag', versionTag(current.version));
+            if (live) return res.status(409).json({ error: "This note is being edited live right now, so these changes couldn't be saved", current, live });
+            return res.status(409).json({ error: "This note was changed somewhere else since you opened it", current });
+        }
+
+        // Anyone editing the note live reloads it with this change
+        if (contentChanged) await resetCollabSession(updated.id);
+
+        res.set('ETag', versionTag(updated.version));
         return res.json(updated);
     } catch (e) {
         console.error("Update error:", e);
@@ -146,24 +279,130 @@ export const updateDocument = async (req: AuthRequest, res: Response) => {
 }
 
 export const deleteDocument = async (req: AuthRequest, res: Response) => {
+    try {
+        const access = await findDocumentForUser(req, res, 'OWNER');
+        if (!access) return;
+        const { doc } = access;
+
+        // Deleting moves the document to the trash; it is purged after the retention period
+        const trashed = await prisma.document.update({
+            where: { id: doc.id },
+            data: { deletedAt: new Date() },
+            select: LIST_FIELDS,
+        });
+        return res.json(trashed);
+    } catch (e) {
+        console.error("Delete error:", e);
+        return res.status(500).json({ error: "Failed to delete document" });
+    }
+}
+
+// Lists the caller's trashed documents, most recently deleted first
+export const getTrash = async (req: AuthRequest, res: Response) => {
     const { uid } = req.user!;
-    const { id } = req.params;
 
     try {
         const user = await prisma.user.findUnique({ where: { firebaseId: uid } });
         if (!user) return res.status(403).json({ error: "User not found" });
 
-        const doc = await prisma.document.findUnique({ where: { id } });
-        if (!doc) return res.status(404).json({ error: "Document not found" });
+        const items = await prisma.document.findMany({
+            where: { userId: user.id, deletedAt: { not: null } },
+            select: { ...LIST_FIELDS, deletedAt: true },
+            orderBy: { deletedAt: 'desc' },
+        });
+        return res.json({ items, retentionDays: trashRetentionDays() });
+    } catch (e) {
+        console.error("Trash error:", e);
+        return res.status(500).json({ error: "Failed to fetch trash" });
+    }
+}
 
-        if (doc.userId !== user.id) {
-            return res.status(403).json({ error: "Unauthorized" });
-        }
+export const restoreDocument = async (req: AuthRequest, res: Response) => {
+    try {
+        const access = await findDocumentForUser(req, res, 'OWNER', { trashed: true });
+        if (!access) return;
+        const { doc } = access;
+
+        const restored = await prisma.document.update({
+            where: { id: doc.id },
+            data: { deletedAt: null },
+            select: LIST_FIELDS,
+        });
+        return res.json(restored);
+    } catch (e) {
+        console.error("Restore error:", e);
+        return res.status(500).json({ error: "Failed to restore document" });
+    }
+}
 
-        await prisma.document.delete({ where: { id } });
+// Permanently deletes a trashed document along with its pages and history
+export const purgeDocument = async (req: AuthRequest, res: Response) => {
+    try {
+        const access = await findDocumentForUser(req, res, 'OWNER', { trashed: true });
+        if (!access) return;
+        const { doc } = access;
+
+        await prisma.document.delete({ where: { id: doc.id } });
         return res.json({ message: "Document deleted" });
     } catch (e) {
-        console.error("Delete error:", e);
+        console.error("Purge error:", e);
         return res.status(500).json({ error: "Failed to delete document" });
     }
+}
+
+// Moves a document into a folder (`folderId: null` moves it back to the top level)
+export const moveDocument = async (req: AuthRequest, res: Response) => {
+    const folderId: string | null = req.body.folderId || null;
+
+    try {
+        const access = await findDocumentForUser(req, res, 'OWNER');
+        if (!access) return;
+        const { doc } = access;
+
+        // Folders belong to the document's creator
+        if (folderId) {
+            const folder = await prisma.folder.findUnique({ where: { id: folderId } });
+            if (!folder || folder.userId !== doc.userId) return res.status(404).json({ error: "Folder not found" });
+        }
+
+        const updated = await prisma.document.update({
+            where: { id: doc.id },
+            data: { folderId },
+            include: { tags: { select: { id: true } } },
+        });
+        return res.json(updated);
+    } catch (e) {
+        console.error("Move error:", e);
+        return res.status(500).json({ error: "Failed to move document" });
+    }
+}
+
+// Replaces the set of tags on a document with `tagIds`
+export const setDocumentTags = async (req: AuthRequest, res: Response) => {
+    const { tagIds } = req.body;
+
+    if (!Array.isArray(tagIds) || !tagIds.every((tagId) => typeof tagId === "string")) {
+        return res.status(400).json({ error: "tagIds must be an array of tag ids" });
+    }
+
+    try {
+        const access = await findDocumentForUser(req, res, 'OWNER');
+        if (!access) return;
+        const { doc } = access;
+
+        // Like folders, tags belong to the document's creator
+        const uniqueIds = [...new Set<string>(tagIds)];
+        const ownedCount = await prisma.tag.count({ where: { id: { in: uniqueIds }, userId: doc.userId } });
+        if (ownedCount !== uniqueIds.length) return res.status(404).json({ error: "Tag not found" });
+
+        const updated = await prisma.document.update({
+            where: { id: doc.id },
+            data: { tags: { set: uniqueIds.map((tagId) => ({ id: tagId })) } },
+            include: { tags: { select: { id: true } } },
+        });
+        return res.json(updated);
+    } catch (e) {
+        console.error("Tag error:", e);
+        return res.status(500).json({ error: "Failed to update document tags" });
+    }
 }
\ No newline at end of file
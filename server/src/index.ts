@@ -3,29 +3,59 @@ import cors from 'cors';
 import dotenv from 'dotenv';
 import userRoutes from './routes/userRoutes.ts';
 import docRoutes from './routes/documents.ts';
+import folderRoutes from './routes/folders.ts';
+import tagRoutes from './routes/tags.ts';
+import publicRoutes from './routes/public.ts';
+import { getScanProvider } from './providers/index.ts';
+import { resumePendingScanJobs } from './services/scanQueue.ts';
+import { scheduleTrashPurge } from './services/trashService.ts';
+import { attachCollabServer } from './services/collabService.ts';
+import { serveLocalUpload } from './storage/index.ts';
 
 dotenv.config();
 
-// Validate required environment variables
-if (!process.env.GEMINI_API_KEY) {
-    console.error('FATAL: GEMINI_API_KEY is not set in environment variables');
+// Validate the scan provider configuration (e.g. GEMINI_API_KEY for the gemini provider) up front
+try {
+    console.log(`Using scan provider: ${getScanProvider().name}`);
+} catch (error) {
+    console.error('FATAL:', error instanceof Error ? error.message : error);
     process.exit(1);
 }
 
 const app = express();
 const PORT = process.env.PORT || 6300;
 
+// Hops of reverse proxies in front of the server (TRUST_PROXY, e.g. 1), so req.ip is the client's address
+if (process.env.TRUST_PROXY) app.set('trust proxy', Number(process.env.TRUST_PROXY) || process.env.TRUST_PROXY);
+
 app.use(cors({
     origin: ["http://localhost:5173", "https://vibescribeai.netlify.app"],
     methods: ["GET", "POST", "PUT", "DELETE"],
-    allowedHeaders: ["Content-type", "Authorization"],
+    allowedHeaders: ["Content-type", "Authorization", "If-Match", "X-Share-Password"],
+    // Document versions, for optimistic concurrency on saves
+    exposedHeaders: ["ETag"],
     credentials: true
 }));
 app.use(express.json());
 
+// Original scan uploads stored by the local-disk storage backend, through signed links only
+app.use('/uploads', serveLocalUpload);
+
 app.use('/api/users', userRoutes);
 app.use('/api/documents', docRoutes);
+app.use('/api/folders', folderRoutes);
+app.use('/api/tags', tagRoutes);
+app.use('/api/public', publicRoutes);
 
-app.listen(PORT, () => {
+const server = app.listen(PORT, () => {
     console.log(`VibeScribe Server running on http://localhost:${PORT}`);
-});
\ No newline at end of file
+
+    resumePendingScanJobs()
+        .then((count) => count && console.log(`Resumed ${count} pending scan job(s)`))
+        .catch((error) => console.error('Failed to resume scan jobs:', error));
+
+    scheduleTrashPurge();
+});
+
+// Real-time collaborative editing (WebSockets on /api/documents/:id/collab)
+attachCollabServer(server);
\ No newline at end of file
@@ -32,6 +32,9 @@ export interface AuthRequest extends Request {
     user?: admin.auth.DecodedIdToken;
 }
 
+// Verifies a Firebase ID token, e.g. one passed outside the Authorization header such as on WebSocket connections
+export const decodeToken = (token: string) => admin.auth().verifyIdToken(token);
+
 // This method gets the authorization header, gets the token, and verifies the user identity before protected routes
 export const verifyToken = async (req: AuthRequest, res: Response, next: NextFunction) => {
     const authHeader = req.headers.authorization;
@@ -44,7 +47,7 @@ export const verifyToken = async (req: AuthRequest, res: Response, next: NextFun
     }
 
     try {
-        req.user = await admin.auth().verifyIdToken(token);
+        req.user = await decodeToken(token);
         next();
     } catch (error) {
         console.error("Firebase Admin Error:", error);
@@ -0,0 +1,69 @@
+import multer from 'multer';
+import type { Request, Response, NextFunction } from 'express';
+import { MAX_DOCUMENT_BYTES, MAX_IMAGE_BYTES } from '../utils/imageType.ts';
+
+const MAX_PAGES_PER_UPLOAD = 50;
+
+const megabytes = (bytes: number) => Math.round(bytes / (1024 * 1024));
+
+// Turns multer's limit errors into JSON responses
+const handleUploadError = (res: Response, next: NextFunction, tooLargeMessage: string) => (error: unknown) => {
+    if (error instanceof multer.MulterError) {
+        const status = error.code === 'LIMIT_FILE_SIZE' ? 413 : 400;
+        const message = error.code === 'LIMIT_FILE_SIZE' ? tooLargeMessage : error.message;
+        return res.status(status).json({ error: message });
+    }
+    if (error) return next(error);
+    next();
+};
+
+// Keeps files in memory so their magic bytes can be checked before anything is written to storage
+const upload = multer({
+    storage: multer.memoryStorage(),
+    limits: {
+        fileSize: MAX_IMAGE_BYTES,
+        files: MAX_PAGES_PER_UPLOAD,
+    },
+});
+
+// Parses the multipart `images` field
+export const uploadScanImages = (req: Request, res: Response, next: NextFunction) => {
+    upload.array('images', MAX_PAGES_PER_UPLOAD)(
+        req, res, handleUploadError(res, next, `Each image must be smaller than ${megabytes(MAX_IMAGE_BYTES)}MB`)
+    );
+};
+
+// A single PDF or multi-page TIFF, split into page images once the pages to scan are chosen
+const documentUpload = multer({
+    storage: multer.memoryStorage(),
+    limits: {
+        fileSize: MAX_DOCUMENT_BYTES,
+        files: 1,
+    },
+});
+
+// Parses the multipart `document` field
+export const uploadScanDocument = (req: Request, res: Response, next: NextFunction) => {
+    documentUpload.single('document')(
+        req, res, handleUploadError(res, next, `Documents must be smaller than ${megabytes(MAX_DOCUMENT_BYTES)}MB`)
+    );
+};
+
+const MAX_IMPORT_FILES = 20;
+const MAX_IMPORT_BYTES = 25 * 1024 * 1024;
+
+// Markdown/text files and ZIPs of them; their names are kept as the notes' fallback titles
+const importUpload = multer({
+    storage: multer.memoryStorage(),
+    limits: {
+        fileSize: MAX_IMPORT_BYTES,
+        files: MAX_IMPORT_FILES,
+    },
+});
+
+// Parses the multipart `files` field of an import
+export const uploadImportFiles = (req: Request, res: Response, next: NextFunction) => {
+    importUpload.array('files', MAX_IMPORT_FILES)(
+        req, res, handleUploadError(res, next, `Each file must be smaller than ${megabytes(MAX_IMPORT_BYTES)}MB`)
+    );
+};
@@ -0,0 +1,40 @@
+import { ImageAnnotatorClient } from "@google-cloud/vision";
+import type { ScanProvider } from "./ScanProvider.ts";
+
+// Cloud Vision is plain OCR: it ignores the prompt and returns the detected text, one paragraph per text block.
+// Credentials come from GOOGLE_APPLICATION_CREDENTIALS like every other Google Cloud client.
+export const createCloudVisionProvider = (): ScanProvider => {
+    const client = new ImageAnnotatorClient();
+
+    return {
+        name: "vision",
+        extractMarkdown: async ({ data }) => {
+            const [response] = await client.batchAnnotateImages({
+                requests: [{
+                    image: { content: data },
+                    features: [{ type: "DOCUMENT_TEXT_DETECTION" }],
+                }],
+            });
+
+            const annotation = response.responses?.[0];
+            if (annotation?.error?.message) {
+                throw new Error(`Cloud Vision error: ${annotation.error.message}`);
+            }
+
+            const blocks = annotation?.fullTextAnnotation?.pages?.flatMap((page) => page.blocks ?? []) ?? [];
+            const paragraphs = blocks.map((block) =>
+                (block.paragraphs ?? [])
+                    .map((paragraph) =>
+                        (paragraph.words ?? [])
+                            .map((word) => (word.symbols ?? []).map((symbol) => symbol.text ?? "").join(""))
+                            .join(" ")
+                    )
+                    .join("\n")
+            );
+
+            return paragraphs.filter((p) => p.trim()).join("\n\n")
+                || annotation?.fullTextAnnotation?.text
+                || "";
+        },
+    };
+};
@@ -0,0 +1,32 @@
+import { createHash } from "node:crypto";
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+import type { ScanProvider } from "./ScanProvider.ts";
+
+// Offline provider for tests and CI. Returns `<SCAN_FIXTURE_DIR>/<sha256 of image>.md` when such a file
+// exists, otherwise a deterministic placeholder derived from the image bytes (or the prompt, for generated
+// text). Never touches the network.
+export const createFixtureProvider = (): ScanProvider => {
+    const fixtureDir = process.env.SCAN_FIXTURE_DIR;
+
+    return {
+        name: "fixture",
+        extractMarkdown: async ({ data, mimeType }) => {
+            const hash = createHash('sha256').update(data).digest('hex');
+
+            if (fixtureDir) {
+                try {
+                    return await readFile(join(fixtureDir, `${hash}.md`), 'utf8');
+                } catch (error) {
+                    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+                }
+            }
+
+            return `# Scanned Image ${hash.slice(0, 8)}\n\nFixture transcription of a ${data.length}-byte \`${mimeType}\` image.\n`;
+        },
+        generateMarkdown: async (prompt) => {
+            const hash = createHash('sha256').update(prompt).digest('hex');
+            return `Fixture text ${hash.slice(0, 8)} generated from a ${prompt.length}-character prompt.\n`;
+        },
+    };
+};
@@ -0,0 +1,36 @@
+import { GoogleGenAI } from "@google/genai";
+import type { ScanProvider } from "./ScanProvider.ts";
+
+const DEFAULT_MODEL = "gemini-3-flash-preview";
+
+export const createGeminiProvider = (): ScanProvider => {
+    if (!process.env.GEMINI_API_KEY) {
+        throw new Error("GEMINI_API_KEY is required for the gemini scan provider");
+    }
+
+    const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY });
+    const model = process.env.GEMINI_MODEL || DEFAULT_MODEL;
+
+    return {
+        name: "gemini",
+        extractMarkdown: async ({ data, mimeType, prompt }) => {
+            const result = await ai.models.generateContent({
+                model,
+                contents: [
+                    {
+                        inlineData: {
+                            mimeType,
+                            data: data.toString('base64'),
+                        },
+                    },
+                    { text: prompt }
+                ],
+            });
+            return result.text ?? "";
+        },
+        generateMarkdown: async (prompt) => {
+            const result = await ai.models.generateContent({ model, contents: [{ text: prompt }] });
+            return result.text ?? "";
+        },
+    };
+};
@@ -0,0 +1,14 @@
+// Everything a provider needs to transcribe one image
+export interface ScanInput {
+    data: Buffer;
+    mimeType: string;
+    prompt: string;
+}
+
+// An OCR/LLM backend that turns an image into Markdown
+export interface ScanProvider {
+    name: string;
+    extractMarkdown: (input: ScanInput) => Promise<string>;
+    // Writes Markdown from a text-only prompt (e.g. study notes from a document); plain OCR backends can't
+    generateMarkdown?: (prompt: string) => Promise<string>;
+}
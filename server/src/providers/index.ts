@@ -0,0 +1,31 @@
+import type { ScanProvider } from "./ScanProvider.ts";
+import { createGeminiProvider } from "./GeminiProvider.ts";
+import { createCloudVisionProvider } from "./CloudVisionProvider.ts";
+import { createFixtureProvider } from "./FixtureProvider.ts";
+
+export type { ScanInput, ScanProvider } from "./ScanProvider.ts";
+
+const factories: Record<string, () => ScanProvider> = {
+    gemini: createGeminiProvider,
+    vision: createCloudVisionProvider,
+    fixture: createFixtureProvider,
+};
+
+// Name of the provider selected by SCAN_PROVIDER (defaults to gemini)
+export const scanProviderName = () => (process.env.SCAN_PROVIDER || "gemini").toLowerCase();
+
+let provider: ScanProvider | null = null;
+
+// Returns the configured provider, created once on first use
+export const getScanProvider = (): ScanProvider => {
+    if (provider) return provider;
+
+    const name = scanProviderName();
+    const factory = factories[name];
+    if (!factory) {
+        throw new Error(`Unknown SCAN_PROVIDER "${name}". Expected one of: ${Object.keys(factories).join(", ")}`);
+    }
+
+    provider = factory();
+    return provider;
+};
@@ -1,12 +1,52 @@
-import { getDocuments, createDocument, updateDocument, deleteDocument } from "../controllers/UserController.ts";
+import { getDocuments, getDocumentById, createDocument, updateDocument, deleteDocument, moveDocument, setDocumentTags,
+    getTrash, restoreDocument, purgeDocument } from "../controllers/UserController.ts";
+import { rescanDocument } from "../controllers/FileController.ts";
+import { getRevisions, getRevision, restoreRevision } from "../controllers/RevisionController.ts";
+import { searchDocuments } from "../controllers/SearchController.ts";
+import { exportDocuments } from "../controllers/ExportController.ts";
+import { importDocuments } from "../controllers/ImportController.ts";
+import { getShareLinks, createShareLink, revokeShareLink } from "../controllers/ShareController.ts";
+import { getMembers, inviteMember, updateMember, removeMember } from "../controllers/MemberController.ts";
+import {
+    getCommentThreads, createCommentThread, replyToCommentThread, updateCommentThread, deleteCommentThread, deleteComment
+} from "../controllers/CommentController.ts";
+import { createStudyNotes } from "../controllers/StudyController.ts";
 import { Router } from "express";
 import { verifyToken } from "../middleware/authMiddleware.ts";
+import { uploadImportFiles } from "../middleware/uploadMiddleware.ts";
 
 const router = Router();
 
 router.get('/', verifyToken, getDocuments);
+router.get('/search', verifyToken, searchDocuments);
+router.get('/trash', verifyToken, getTrash);
+router.get('/export', verifyToken, exportDocuments);
+router.get('/:id', verifyToken, getDocumentById);
 router.post('/', verifyToken, createDocument);
+router.post('/import', verifyToken, uploadImportFiles, importDocuments);
 router.put('/:id', verifyToken, updateDocument);
 router.delete('/:id', verifyToken, deleteDocument);
+router.post('/:id/restore', verifyToken, restoreDocument);
+router.delete('/:id/permanent', verifyToken, purgeDocument);
+router.put('/:id/folder', verifyToken, moveDocument);
+router.put('/:id/tags', verifyToken, setDocumentTags);
+router.post('/:id/rescan', verifyToken, rescanDocument);
+router.get('/:id/revisions', verifyToken, getRevisions);
+router.get('/:id/revisions/:revisionId', verifyToken, getRevision);
+router.post('/:id/revisions/:revisionId/restore', verifyToken, restoreRevision);
+router.get('/:id/shares', verifyToken, getShareLinks);
+router.post('/:id/shares', verifyToken, createShareLink);
+router.delete('/:id/shares/:shareId', verifyToken, revokeShareLink);
+router.get('/:id/members', verifyToken, getMembers);
+router.post('/:id/members', verifyToken, inviteMember);
+router.put('/:id/members/:memberId', verifyToken, updateMember);
+router.delete('/:id/members/:memberId', verifyToken, removeMember);
+router.get('/:id/comments', verifyToken, getCommentThreads);
+router.post('/:id/comments', verifyToken, createCommentThread);
+router.post('/:id/comments/:threadId/replies', verifyToken, replyToCommentThread);
+router.put('/:id/comments/:threadId', verifyToken, updateCommentThread);
+router.delete('/:id/comments/:threadId', verifyToken, deleteCommentThread);
+router.delete('/:id/comments/:threadId/replies/:commentId', verifyToken, deleteComment);
+router.post('/:id/study', verifyToken, createStudyNotes);
 
 export default router;
@@ -0,0 +1,12 @@
+import { getFolders, createFolder, updateFolder, deleteFolder } from "../controllers/FolderController.ts";
+import { Router } from "express";
+import { verifyToken } from "../middleware/authMiddleware.ts";
+
+const router = Router();
+
+router.get('/', verifyToken, getFolders);
+router.post('/', verifyToken, createFolder);
+router.put('/:id', verifyToken, updateFolder);
+router.delete('/:id', verifyToken, deleteFolder);
+
+export default router;
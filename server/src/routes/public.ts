@@ -0,0 +1,9 @@
+import { Router } from "express";
+import { getPublicDocument } from "../controllers/ShareController.ts";
+
+// Routes anyone can call without signing in
+const router = Router();
+
+router.get('/:token', getPublicDocument);
+
+export default router;
@@ -0,0 +1,12 @@
+import { getTags, createTag, updateTag, deleteTag } from "../controllers/TagController.ts";
+import { Router } from "express";
+import { verifyToken } from "../middleware/authMiddleware.ts";
+
+const router = Router();
+
+router.get('/', verifyToken, getTags);
+router.post('/', verifyToken, createTag);
+router.put('/:id', verifyToken, updateTag);
+router.delete('/:id', verifyToken, deleteTag);
+
+export default router;
@@ -1,15 +1,28 @@
 import { Router } from 'express';
-import { gemini, onboard } from '../controllers/UserController';
-import { processScan } from "../controllers/FileController.ts";
+import { onboard } from '../controllers/UserController';
+import {
+    processScan, processScanUpload, processScanDocumentUpload, processScanDocument,
+    getScanModes, getScanJobs, getScanJob, streamScanJob
+} from "../controllers/FileController.ts";
+import { getPdfSettings, updatePdfSettings } from "../controllers/SettingsController.ts";
 import { verifyToken } from '../middleware/authMiddleware';
+import { uploadScanImages, uploadScanDocument } from '../middleware/uploadMiddleware.ts';
 
 const router = Router();
 
 router.post('/onboard', verifyToken, onboard);
 
-router.post('/gemini', gemini);
+router.get('/settings/pdf', verifyToken, getPdfSettings);
+router.put('/settings/pdf', verifyToken, updatePdfSettings);
 
+router.get('/scan/modes', getScanModes);
 router.post('/scan', verifyToken, processScan);
+router.post('/scan/upload', verifyToken, uploadScanImages, processScanUpload);
+router.post('/scan/document/upload', verifyToken, uploadScanDocument, processScanDocumentUpload);
+router.post('/scan/document', verifyToken, processScanDocument);
+router.get('/scan/jobs', verifyToken, getScanJobs);
+router.get('/scan/jobs/:id', verifyToken, getScanJob);
+router.get('/scan/jobs/:id/events', verifyToken, streamScanJob);
 
 
 export default router;
\ No newline at end of file
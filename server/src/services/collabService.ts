@@ -0,0 +1,346 @@
+import type { IncomingMessage, Server } from 'node:http';
+import type { Duplex } from 'node:stream';
+import { WebSocketServer, type RawData, type WebSocket } from 'ws';
+import * as Y from 'yjs';
+import * as syncProtocol from 'y-protocols/sync';
+import * as awarenessProtocol from 'y-protocols/awareness';
+import * as encoding from 'lib0/encoding';
+import * as decoding from 'lib0/decoding';
+import prisma from "../config/prismaClient.ts";
+import { decodeToken } from "../middleware/authMiddleware.ts";
+import { documentRole, hasRole } from "./documentAccess.ts";
+import { recordRevision } from "./revisionService.ts";
+import { titleForContent } from "../utils/documentTitle.ts";
+
+// Message types of the y-websocket protocol...
+const MESSAGE_SYNC = 0;
+const MESSAGE_AWARENESS = 1;
+const MESSAGE_QUERY_AWARENESS = 3;
+// ...and our own. Server to client: `{ markdown }` (JSON) to fill a new session's empty shared document with.
+const MESSAGE_SEED = 100;
+// Client to server: the editor's content as Markdown, saved to the document periodically
+const MESSAGE_SNAPSHOT = 101;
+// Server to clients after a save: `{ version, markdown, title }` (JSON)
+const MESSAGE_SAVED = 102;
+
+// Close codes; y-websocket doesn't reconnect after codes in the 4400-4499 range
+const CLOSE_FORBIDDEN = 4403;
+const CLOSE_NOT_FOUND = 4404;
+// The document was changed outside the session (e.g. a revision was restored): clients reload it and join again
+const CLOSE_RESET = 4409;
+
+const SAVE_INTERVAL_MS = 5000;
+const PING_INTERVAL_MS = 30000;
+const MAX_MESSAGE_BYTES = 10 * 1024 * 1024;
+
+const COLLAB_PATH = /^\/api\/documents\/([^/]+)\/collab$/;
+
+// Everyone editing one document, around the shared Yjs document
+interface Session {
+    documentId: string;
+    doc: Y.Doc;
+    awareness: awarenessProtocol.Awareness;
+    // Awareness client ids each connection announced, removed when it disconnects
+    connections: Map<WebSocket, Set<number>>;
+    // Version of the document the session's content is based on; saving fails once it changed elsewhere
+    version: number;
+    markdown: string;
+    // Connection asked to fill the shared document, until the first content arrives
+    seeder: WebSocket | null;
+    seeded: boolean;
+    // Latest Markdown sent by an editor, not saved yet
+    pending: string | null;
+    saving: Promise<void>;
+    timer: ReturnType<typeof setInterval>;
+}
+
+const sessions = new Map<string, Promise<Session | null>>();
+
+const send = (ws: WebSocket, message: Uint8Array) => {
+    if (ws.readyState === ws.OPEN) ws.send(message, (error) => error && ws.close());
+};
+
+const jsonMessage = (type: number, body: unknown) => {
+    const encoder = encoding.createEncoder();
+    encoding.writeVarUint(encoder, type);
+    encoding.writeVarString(encoder, JSON.stringify(body));
+    return encoding.toUint8Array(encoder);
+};
+
+const broadcast = (session: Session, message: Uint8Array) => {
+    for (const ws of session.connections.keys()) send(ws, message);
+};
+
+// Asks `ws` to fill the shared document with the saved content
+const requestSeed = (session: Session, ws: WebSocket) => {
+    session.seeder = ws;
+    send(ws, jsonMessage(MESSAGE_SEED, { markdown: session.markdown }));
+};
+
+// Saves the latest Markdown an editor sent, unless the document was changed outside the session since
+const save = async (session: Session) => {
+    const markdown = session.pending;
+    if (markdown === null) return;
+    session.pending = null;
+
+    const saved = await prisma.$transaction(async (tx) => {
+        const doc = await tx.document.findFirst({ where: { id: session.documentId, deletedAt: null } });
+        if (!doc || doc.version !== session.version) return null;
+        if (doc.markdownContent === markdown) return doc;
+
+        const { count } = await tx.document.updateMany({
+            where: { id: doc.id, version: session.version },
+            data: { markdownContent: markdown, ...titleForContent(doc, markdown), version: { increment: 1 } },
+        });
+        if (count === 0) return null;
+
+        await recordRevision(tx, doc.id, markdown, 'EDIT');
+        return tx.document.findUniqueOrThrow({ where: { id: doc.id } });
+    });
+
+    if (!saved) {
+        closeSession(session, CLOSE_RESET, "The note was changed somewhere else");
+        return;
+    }
+    session.version = saved.version;
+    session.markdown = saved.markdownContent;
+    broadcast(session, jsonMessage(MESSAGE_SAVED, { version: saved.version, markdown: saved.markdownContent, title: saved.title }));
+};
+
+const queueSave = (session: Session) => {
+    session.saving = session.saving
+        .then(() => save(session))
+        .catch((error) => console.error(`Failed to save collaborative edits of ${session.documentId}:`, error));
+    return session.saving;
+};
+
+const closeSession = (session: Session, code: number, reason: string) => {
+    clearInterval(session.timer);
+    sessions.delete(session.documentId);
+    for (const ws of session.connections.keys()) ws.close(code, reason);
+    session.connections.clear();
+    session.doc.destroy();
+};
+
+const openSession = async (documentId: string): Promise<Session | null> => {
+    const document = await prisma.document.findFirst({
+        where: { id: documentId, deletedAt: null },
+        select: { version: true, markdownContent: true },
+    });
+    if (!document) return null;
+
+    const doc = new Y.Doc();
+    const awareness = new awarenessProtocol.Awareness(doc);
+    // The server takes part in the session only to relay updates
+    awareness.setLocalState(null);
+
+    const session: Session = {
+        documentId,
+        doc,
+        awareness,
+        connections: new Map(),
+        version: document.version,
+        markdown: document.markdownContent,
+        seeder: null,
+        seeded: false,
+        pending: null,
+        saving: Promise.resolve(),
+        timer: setInterval(() => session.pending !== null && queueSave(session), SAVE_INTERVAL_MS),
+    };
+
+    doc.on('update', (update: Uint8Array) => {
+        session.seeded = true;
+        session.seeder = null;
+
+        const encoder = encoding.createEncoder();
+        encoding.writeVarUint(encoder, MESSAGE_SYNC);
+        syncProtocol.writeUpdate(encoder, update);
+        broadcast(session, encoding.toUint8Array(encoder));
+    });
+
+    awareness.on('update', (
+        { added, updated, removed }: { added: number[]; updated: number[]; removed: number[] },
+        origin: unknown
+    ) => {
+        const ids = session.connections.get(origin as WebSocket);
+        if (ids) {
+            added.forEach((id) => ids.add(id));
+            removed.forEach((id) => ids.delete(id));
+        }
+
+        const encoder = encoding.createEncoder();
+        encoding.writeVarUint(encoder, MESSAGE_AWARENESS);
+        encoding.writeVarUint8Array(encoder, awarenessProtocol.encodeAwarenessUpdate(awareness, [...added, ...updated, ...removed]));
+        broadcast(session, encoding.toUint8Array(encoder));
+    });
+
+    return session;
+};
+
+// The document's session, opened on the first connection
+const getSession = (documentId: string) => {
+    let session = sessions.get(documentId);
+    if (!session) {
+        session = openSession(documentId);
+        sessions.set(documentId, session);
+        session.then((opened) => opened || sessions.delete(documentId), () => sessions.delete(documentId));
+    }
+    return session;
+};
+
+const handleMessage = (session: Session, ws: WebSocket, data: Uint8Array) => {
+    const decoder = decoding.createDecoder(data);
+    const encoder = encoding.createEncoder();
+
+    switch (decoding.readVarUint(decoder)) {
+        case MESSAGE_SYNC:
+            encoding.writeVarUint(encoder, MESSAGE_SYNC);
+            syncProtocol.readSyncMessage(decoder, encoder, session.doc, ws);
+            // Only a reply to sync step 1 has content beyond the message type
+            if (encoding.length(encoder) > 1) send(ws, encoding.toUint8Array(encoder));
+            break;
+        case MESSAGE_AWARENESS:
+            awarenessProtocol.applyAwarenessUpdate(session.awareness, decoding.readVarUint8Array(decoder), ws);
+            break;
+        case MESSAGE_QUERY_AWARENESS:
+            encoding.writeVarUint(encoder, MESSAGE_AWARENESS);
+            encoding.writeVarUint8Array(encoder, awarenessProtocol.encodeAwarenessUpdate(
+                session.awareness, [...session.awareness.getStates().keys()]
+            ));
+            send(ws, encoding.toUint8Array(encoder));
+            break;
+        case MESSAGE_SNAPSHOT:
+            // Before the shared document is filled, the editor's content is just the empty initial state
+            if (session.seeded) session.pending = decoding.readVarString(decoder);
+            break;
+    }
+};
+
+const handleClose = (session: Session, ws: WebSocket) => {
+    const ids = session.connections.get(ws);
+    if (!ids) return;
+    session.connections.delete(ws);
+    awarenessProtocol.removeAwarenessStates(session.awareness, [...ids], null);
+
+    if (session.connections.size === 0) {
+        // The last editor left: save what's left and end the session
+        clearInterval(session.timer);
+        sessions.delete(session.documentId);
+        queueSave(session).finally(() => session.doc.destroy());
+        return;
+    }
+    // Hand the seeding over if the connection that was asked to left before doing it
+    const next = session.connections.keys().next().value;
+    if (session.seeder === ws && next) requestSeed(session, next);
+};
+
+// Authorizes a connection to `/api/documents/:id/collab?token=<Firebase ID token>` and joins it to the
+// document's session. Only people who may edit the document (editors and owners) can join.
+const joinSession = async (ws: WebSocket, documentId: string, token: string | null) => {
+    const decoded = token ? await decodeToken(token).catch(() => null) : null;
+    const user = decoded ? await prisma.user.findUnique({ where: { firebaseId: decoded.uid } }) : null;
+    if (!user) {
+        ws.close(CLOSE_FORBIDDEN, "Unauthorized");
+        return null;
+    }
+
+    const doc = await prisma.document.findFirst({ where: { id: documentId, deletedAt: null } });
+    if (!doc) {
+        ws.close(CLOSE_NOT_FOUND, "Document not found");
+        return null;
+    }
+    if (!hasRole(await documentRole(doc, user.id), 'EDITOR')) {
+        ws.close(CLOSE_FORBIDDEN, "Unauthorized");
+        return null;
+    }
+
+    const session = await getSession(documentId);
+    if (!session) {
+        ws.close(CLOSE_NOT_FOUND, "Document not found");
+        return null;
+    }
+    if (ws.readyState !== ws.OPEN) return null;
+
+    session.connections.set(ws, new Set());
+    if (!session.seeded && !session.seeder) requestSeed(session, ws);
+
+    const encoder = encoding.createEncoder();
+    encoding.writeVarUint(encoder, MESSAGE_SYNC);
+    syncProtocol.writeSyncStep1(encoder, session.doc);
+    send(ws, encoding.toUint8Array(encoder));
+
+    const states = session.awareness.getStates();
+    if (states.size > 0) {
+        const awarenessEncoder = encoding.createEncoder();
+        encoding.writeVarUint(awarenessEncoder, MESSAGE_AWARENESS);
+        encoding.writeVarUint8Array(awarenessEncoder, awarenessProtocol.encodeAwarenessUpdate(session.awareness, [...states.keys()]));
+        send(ws, encoding.toUint8Array(awarenessEncoder));
+    }
+    return session;
+};
+
+const handleConnection = (ws: WebSocket, documentId: string, token: string | null) => {
+    // Messages that arrive while the connection is being authorized are handled once it has joined, in order
+    const joined = joinSession(ws, documentId, token).catch((error) => {
+        console.error("Collaboration connection error:", error);
+        ws.close(1011, "Server error");
+        return null;
+    });
+
+    ws.on('message', (data: RawData) => {
+        joined.then((session) => {
+            if (!session || !session.connections.has(ws)) return;
+            try {
+                handleMessage(session, ws, new Uint8Array(data as Buffer));
+            } catch (error) {
+                console.error("Collaboration message error:", error);
+            }
+        });
+    });
+    ws.on('close', () => joined.then((session) => session && handleClose(session, ws)));
+
+    // Drop connections that stopped answering pings
+    let alive = true;
+    ws.on('pong', () => { alive = true; });
+    const ping = setInterval(() => {
+        if (!alive) return ws.terminate();
+        alive = false;
+        ws.ping();
+    }, PING_INTERVAL_MS);
+    ws.on('close', () => clearInterval(ping));
+};
+
+// Serves real-time collaborative editing over WebSockets on the same port as the API
+export const attachCollabServer = (server: Server) => {
+    const wss = new WebSocketServer({ noServer: true, maxPayload: MAX_MESSAGE_BYTES });
+
+    server.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+        const url = new URL(req.url ?? "/", "http://localhost");
+        const encodedId = url.pathname.match(COLLAB_PATH)?.[1];
+        let documentId: string | null = null;
+        try {
+            documentId = encodedId ? decodeURIComponent(encodedId) : null;
+        } catch {
+            // Malformed percent-escapes, so not one of our document ids
+        }
+        if (!documentId) {
+            socket.destroy();
+            return;
+        }
+        wss.handleUpgrade(req, socket, head, (ws) => handleConnection(ws, documentId, url.searchParams.get('token')));
+    });
+    return wss;
+};
+
+// Ends the document's session, if any, after its content was changed outside it; the editors reload it.
+// Edits not saved yet are dropped, as they were based on the old content.
+export const resetCollabSession = async (documentId: string) => {
+    const session = await sessions.get(documentId);
+    if (session) closeSession(session, CLOSE_RESET, "The note was changed somewhere else");
+};
+
+// Whether anyone is editing the document live; the session saves their edits
+export const hasLiveEditors = async (documentId: string) => {
+    const session = await sessions.get(documentId);
+    return !!session && session.connections.size > 0;
+};
@@ -0,0 +1,71 @@
+import type { Response } from 'express';
+import type { AuthRequest } from '../middleware/authMiddleware.ts';
+import prisma from "../config/prismaClient.ts";
+import type { Document, DocumentRole, Prisma, User } from "../generated/prisma/client.ts";
+
+// Each role can do everything the roles before it can
+const ROLE_RANK: Record<DocumentRole, number> = { VIEWER: 0, COMMENTER: 1, EDITOR: 2, OWNER: 3 };
+
+export const isDocumentRole = (role: unknown): role is DocumentRole => typeof role === "string" && Object.hasOwn(ROLE_RANK, role);
+
+export const hasRole = (role: DocumentRole | null, required: DocumentRole) =>
+    role !== null && ROLE_RANK[role] >= ROLE_RANK[required];
+
+// The user's role on a document: OWNER for its creator, their membership's role for a collaborator, otherwise null
+export const documentRole = async (doc: Pick<Document, 'id' | 'userId'>, userId: string): Promise<DocumentRole | null> => {
+    if (doc.userId === userId) return 'OWNER';
+
+    const member = await prisma.documentMember.findFirst({ where: { documentId: doc.id, userId }, select: { role: true } });
+    return member?.role ?? null;
+};
+
+// Documents shared with the user by someone else (the user's own documents are matched by `userId`)
+export const sharedWith = (userId: string): Prisma.DocumentWhereInput => ({
+    userId: { not: userId },
+    members: { some: { userId } },
+});
+
+/**
+ * Links the invites sent to the email of the user's token. Anyone can create an account for an address they
+ * don't own, so invites are only claimed once the provider has verified the email.
+ */
+export const claimInvites = async (user: Pick<User, 'id'>, token: NonNullable<AuthRequest['user']>) => {
+    if (token.email_verified !== true || !token.email) return;
+
+    await prisma.documentMember.updateMany({
+        where: { email: token.email.toLowerCase(), userId: null },
+        data: { userId: user.id },
+    });
+};
+
+/**
+ * Loads the document in `req.params.id` if the caller has at least the `required` role on it, otherwise
+ * sends the error response and returns null. Every document route authorizes through here.
+ * Documents in the trash are only found with `trashed`.
+ */
+export const findDocumentForUser = async (
+    req: AuthRequest, res: Response, required: DocumentRole, { trashed = false } = {}
+): Promise<{ user: User; doc: Document; role: DocumentRole } | null> => {
+    const { uid } = req.user!;
+    const { id } = req.params as { id: string };
+
+    const user = await prisma.user.findUnique({ where: { firebaseId: uid } });
+    if (!user) {
+        res.status(403).json({ error: "User not found" });
+        return null;
+    }
+
+    const doc = await prisma.document.findFirst({ where: { id, deletedAt: trashed ? { not: null } : null } });
+    if (!doc) {
+        res.status(404).json({ error: trashed ? "Document not found in trash" : "Document not found" });
+        return null;
+    }
+
+    const role = await documentRole(doc, user.id);
+    if (!role || !hasRole(role, required)) {
+        res.status(403).json({ error: "Unauthorized" });
+        return null;
+    }
+
+    return { user, doc, role };
+};
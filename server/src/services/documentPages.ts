@@ -0,0 +1,104 @@
+import { execFile } from "node:child_process";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { promisify } from "node:util";
+
+const execFileAsync = promisify(execFile);
+
+// Most pages a single scan job may hold, whatever they were uploaded as
+export const MAX_PAGES_PER_SCAN = 50;
+
+// Longest side of a rendered page in pixels: sharp enough for small print, well below MAX_IMAGE_BYTES as PNG
+const PAGE_SIZE_PX = 2000;
+const TOOL_TIMEOUT_MS = 60000;
+
+// PDFs are handled by poppler-utils and TIFFs by ImageMagick (`convert` on ImageMagick 6)
+const PDFINFO = process.env.PDFINFO_PATH || "pdfinfo";
+const PDFTOPPM = process.env.PDFTOPPM_PATH || "pdftoppm";
+const MAGICK = process.env.MAGICK_PATH || "magick";
+
+// A problem with the uploaded file itself (damaged, password-protected, ...), as opposed to the server setup
+export class DocumentPagesError extends Error {}
+
+const runTool = async (command: string, args: string[], fileError: string) => {
+    try {
+        return (await execFileAsync(command, args, { timeout: TOOL_TIMEOUT_MS })).stdout;
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+            throw new Error(`${command} was not found; PDF and TIFF scans need poppler-utils and ImageMagick installed`);
+        }
+        console.error(`${command} failed:`, error);
+        throw new DocumentPagesError(fileError);
+    }
+};
+
+// Runs `work` with the file written to a fresh temporary directory, which is removed afterwards
+const withTempFile = async <T>(data: Buffer, name: string, work: (dir: string, file: string) => Promise<T>) => {
+    const dir = await mkdtemp(join(tmpdir(), "vibescribe-pages-"));
+    try {
+        const file = join(dir, name);
+        await writeFile(file, data);
+        return await work(dir, file);
+    } finally {
+        await rm(dir, { recursive: true, force: true });
+    }
+};
+
+// Counts the images of a TIFF by following its chain of image file directories
+const countTiffPages = (data: Buffer) => {
+    if (data.length < 8) throw new DocumentPagesError("The TIFF file is damaged");
+
+    const littleEndian = data[0] === 0x49;
+    const u16 = (offset: number) => littleEndian ? data.readUInt16LE(offset) : data.readUInt16BE(offset);
+    const u32 = (offset: number) => littleEndian ? data.readUInt32LE(offset) : data.readUInt32BE(offset);
+
+    const seen = new Set<number>();
+    let offset = u32(4);
+    while (offset !== 0) {
+        if (seen.has(offset) || offset + 2 > data.length) throw new DocumentPagesError("The TIFF file is damaged");
+        seen.add(offset);
+        const next = offset + 2 + u16(offset) * 12;
+        if (next + 4 > data.length) throw new DocumentPagesError("The TIFF file is damaged");
+        offset = u32(next);
+    }
+    return seen.size;
+};
+
+// Number of pages of a PDF or (multi-page) TIFF, as detected by `detectDocumentType`
+export const countDocumentPages = async (data: Buffer, mimeType: string) => {
+    if (mimeType === "image/tiff") return countTiffPages(data);
+
+    const info = await withTempFile(data, "document.pdf", (_dir, file) =>
+        runTool(PDFINFO, [file], "The PDF could not be read (it may be damaged or password-protected)"));
+    const pages = Number(info.match(/^Pages:\s+(\d+)/m)?.[1]);
+    if (!pages) throw new DocumentPagesError("The PDF has no pages");
+    return pages;
+};
+
+/**
+ * Renders the given pages (1-based) of a PDF or TIFF as PNG images, in the order given.
+ * Pages are rendered one at a time to keep memory use flat on long documents.
+ */
+export const renderDocumentPages = async (data: Buffer, mimeType: string, pageNumbers: number[]) => {
+    const isPdf = mimeType === "application/pdf";
+
+    return withTempFile(data, isPdf ? "document.pdf" : "document.tif", async (dir, file) => {
+        const images: Buffer[] = [];
+        for (const pageNumber of pageNumbers) {
+            const output = join(dir, `page-${pageNumber}`);
+            if (isPdf) {
+                await runTool(PDFTOPPM, [
+                    "-png", "-singlefile", "-scale-to", String(PAGE_SIZE_PX),
+                    "-f", String(pageNumber), "-l", String(pageNumber), file, output,
+                ], `Page ${pageNumber} of the PDF could not be rendered`);
+            } else {
+                await runTool(MAGICK, [
+                    `${file}[${pageNumber - 1}]`, "-resize", `${PAGE_SIZE_PX}x${PAGE_SIZE_PX}>`, `png:${output}.png`,
+                ], `Page ${pageNumber} of the TIFF could not be rendered`);
+            }
+            images.push(await readFile(`${output}.png`));
+        }
+        return images;
+    });
+};
@@ -0,0 +1,65 @@
+import prisma from "../config/prismaClient.ts";
+import type { DocumentRevision, Prisma, RevisionSource } from "../generated/prisma/client.ts";
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+// Consecutive edits within this window are folded into one revision
+const COALESCE_WINDOW_MS = 5 * 60 * 1000;
+
+// Revisions kept per document in addition to revision 0
+const MAX_REVISIONS_PER_DOCUMENT = 100;
+
+// Whether a new snapshot should overwrite the latest revision instead of adding one:
+// - pages appended to an unedited scan extend that scan's OCR output (so revision 0 holds every page)
+// - an edit may overwrite a recent edit as long as it doesn't throw away most of it
+//   (so e.g. select-all-delete + save always gets its own revision)
+const canCoalesce = (latest: DocumentRevision, markdownContent: string, source: RevisionSource) => {
+    if (source === 'APPEND') {
+        return (latest.source === 'SCAN' || latest.source === 'APPEND') && markdownContent.startsWith(latest.markdownContent);
+    }
+
+    return source === 'EDIT'
+        && latest.revisionNumber > 0
+        && latest.source === 'EDIT'
+        && Date.now() - latest.createdAt.getTime() < COALESCE_WINDOW_MS
+        && markdownContent.length >= latest.markdownContent.length / 2;
+};
+
+const pruneRevisions = async (db: Db, documentId: string) => {
+    const stale = await db.documentRevision.findMany({
+        where: { documentId, revisionNumber: { gt: 0 } },
+        orderBy: { revisionNumber: 'desc' },
+        skip: MAX_REVISIONS_PER_DOCUMENT,
+        select: { id: true },
+    });
+    if (stale.length === 0) return;
+
+    await db.documentRevision.deleteMany({ where: { id: { in: stale.map((r) => r.id) } } });
+};
+
+// Snapshots `markdownContent` as the document's newest revision. Call it with the same transaction
+// client as the write that changed the document.
+export const recordRevision = async (db: Db, documentId: string, markdownContent: string, source: RevisionSource) => {
+    const latest = await db.documentRevision.findFirst({
+        where: { documentId },
+        orderBy: { revisionNumber: 'desc' },
+    });
+
+    if (latest?.markdownContent === markdownContent) return latest;
+
+    if (latest && canCoalesce(latest, markdownContent, source)) {
+        return db.documentRevision.update({ where: { id: latest.id }, data: { markdownContent } });
+    }
+
+    const revision = await db.documentRevision.create({
+        data: {
+            documentId,
+            markdownContent,
+            source,
+            revisionNumber: latest ? latest.revisionNumber + 1 : 0,
+        }
+    });
+    await pruneRevisions(db, documentId);
+
+    return revision;
+};
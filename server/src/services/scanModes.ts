@@ -0,0 +1,163 @@
+// Named scan modes, each with its own prompt template. `general` is the default and handles any input.
+
+const intro = (subject: string) =>
+    `You will receive the contents of an uploaded image (${subject}). Your job is to convert what you see into a faithful, polished, well-structured Markdown document.`;
+
+const CRITICAL_REQUIREMENTS = `CRITICAL REQUIREMENTS
+- Preserve meaning exactly. Do not invent, infer, or add information that is not clearly present.
+- If any text/symbol is unclear, mark it as: [unclear] and keep surrounding context.
+- Correct obvious spelling, punctuation, and grammar mistakes, but do NOT change technical meaning, names, numbers, units, formulas, or code.
+- Keep the original language of the content. Do not translate unless the content itself is mixed-language.`;
+
+const MARKDOWN_OUTPUT_RULES = `MARKDOWN OUTPUT RULES
+- Output Markdown only. No preamble, no explanations, no code fences around the entire output.
+- Use clear headings (#, ##, ###) that match the document’s structure (or create a sensible structure if none is explicit).
+- Use bullet points and numbered lists where appropriate.
+- Use tables only when the source is clearly tabular.
+- Preserve line breaks when they convey structure (addresses, poems, step-by-step work).`;
+
+const MATH_FORMATTING = `MATH & SCIENCE FORMATTING
+- Convert math into LaTeX:
+  - Inline math: $...$
+  - Display math (standalone equations): $$...$$
+- Keep standard notation, subscripts, superscripts, fractions, roots, integrals, summations, limits, vectors, matrices, and Greek letters correct.
+- If the image shows multi-step derivations, preserve the steps in order. Prefer aligned display math where helpful:
+  $$\\begin{aligned}
+  ... \\\\
+  ...
+  \\end{aligned}$$
+- Preserve units and scientific formatting (e.g., m/s, N·m, kΩ).`;
+
+const CODE_FORMATTING = `CODE (IF PRESENT)
+- If the image contains code, keep it verbatim except for fixing clearly accidental typos that do not change behavior (when uncertain, do not change it).
+- Put code in fenced blocks with the correct language tag if obvious (e.g., \`\`\`js, \`\`\`ts, \`\`\`python). Otherwise use \`\`\`text.`;
+
+const QUALITY_BAR = `QUALITY BAR
+- Aim for a clean, publication-ready result: consistent capitalization, spacing, punctuation, and list formatting.
+- Maintain the author’s intent and hierarchy. Do not over-summarize.`;
+
+const CLOSING = `Return the final Markdown document.`;
+
+const template = (...sections: string[]) => sections.join("\n\n");
+
+export interface ScanMode {
+    id: string;
+    label: string;
+    description: string;
+    prompt: string;
+}
+
+export const SCAN_MODES: ScanMode[] = [
+    {
+        id: "general",
+        label: "General",
+        description: "Any notes, documents, screenshots or handwriting",
+        prompt: template(
+            intro("notes, documents, screenshots, or handwriting"),
+            CRITICAL_REQUIREMENTS, MARKDOWN_OUTPUT_RULES, MATH_FORMATTING, CODE_FORMATTING, QUALITY_BAR, CLOSING,
+        ),
+    },
+    {
+        id: "handwriting",
+        label: "Handwritten notes",
+        description: "Lecture or study notes written by hand",
+        prompt: template(
+            intro("handwritten notes"),
+            CRITICAL_REQUIREMENTS,
+            `HANDWRITING
+- Read the page in the order the author wrote it: follow arrows, margin notes and inserted lines (^, *) to where they belong.
+- Turn underlined or boxed words used as titles into headings; keep the author's own bullets, numbering and indentation levels.
+- Render crossed-out text only if it is still legible and clearly meant to be kept; otherwise omit it.
+- Put margin notes and side remarks in a blockquote directly after the paragraph they annotate.
+- Describe sketches or diagrams briefly in italics, e.g. *[Diagram: free-body diagram of a block on an incline]*.
+- When a word is only partly legible, give your best reading followed by [unclear].`,
+            MARKDOWN_OUTPUT_RULES, MATH_FORMATTING, QUALITY_BAR, CLOSING,
+        ),
+    },
+    {
+        id: "math",
+        label: "Math derivations",
+        description: "Worked problems, proofs and multi-step derivations",
+        prompt: template(
+            intro("mathematical work such as derivations, proofs or worked problems"),
+            CRITICAL_REQUIREMENTS,
+            `MATH FOCUS
+- Every expression, however short, must be written in LaTeX. Never describe math in words when it can be typeset.
+- Keep each step of a derivation on its own line inside one aligned block, aligned on the relation symbol (=, \\le, \\Rightarrow).
+- Keep the author's justifications ("by parts", "substitute u = x^2") as \\text{} annotations or as short sentences between blocks.
+- Label problem statements, given values and final answers clearly (e.g. **Given**, **Solution**, **Answer**).
+- Never simplify, correct or complete the author's algebra, even if it looks wrong. Mark unreadable symbols as [unclear].`,
+            MATH_FORMATTING, MARKDOWN_OUTPUT_RULES, QUALITY_BAR, CLOSING,
+        ),
+    },
+    {
+        id: "code",
+        label: "Source code",
+        description: "Screenshots or photos of code, terminals and IDEs",
+        prompt: template(
+            intro("a screenshot or photo of source code, a terminal or an IDE"),
+            CRITICAL_REQUIREMENTS,
+            `CODE FOCUS
+- Transcribe the code exactly, character for character, preserving indentation, blank lines, comments and string contents.
+- Do not fix bugs, reformat, rename or complete truncated lines; mark cut-off text with [unclear].
+- Ignore editor chrome such as line numbers, tabs, minimaps, breakpoints and syntax-error squiggles.
+- Use one fenced block per file or snippet with the correct language tag. Put a file name shown in a tab or title bar in a heading above its block.
+- Terminal output goes in a separate \`\`\`text block; keep prompts ($, >) as shown.
+- Explanatory prose visible in the image (e.g. slide text around the code) goes outside the code blocks.`,
+            MARKDOWN_OUTPUT_RULES, QUALITY_BAR, CLOSING,
+        ),
+    },
+    {
+        id: "table",
+        label: "Tabular data",
+        description: "Spreadsheets, data tables and timetables",
+        prompt: template(
+            intro("tabular data such as a spreadsheet, data table or timetable"),
+            CRITICAL_REQUIREMENTS,
+            `TABLE FOCUS
+- Reproduce every table as a GFM Markdown table with a header row, keeping the original column order.
+- Keep every number exactly as written, including signs, decimal separators, units and thousands separators. Never compute, round or fill in values.
+- Empty cells stay empty. Merged cells: repeat the value in each covered cell and mention the merge in a note below the table.
+- Put units in the header ("Mass (kg)") when the source does.
+- Captions, footnotes and totals rows stay with their table; text outside the table becomes normal paragraphs.
+- If a table is too wide to read, split it into several tables that repeat the first (key) column.`,
+            MARKDOWN_OUTPUT_RULES, QUALITY_BAR, CLOSING,
+        ),
+    },
+    {
+        id: "slides",
+        label: "Presentation slides",
+        description: "Lecture slides and photographed projector screens",
+        prompt: template(
+            intro("one or more presentation slides, possibly photographed from a screen"),
+            CRITICAL_REQUIREMENTS,
+            `SLIDES FOCUS
+- Start each slide with a ## heading using the slide title (or a short descriptive title when it has none).
+- Keep the slide's bullet hierarchy exactly; do not merge bullets into paragraphs.
+- Ignore decorative elements, logos, slide numbers, footers and anything outside the slide (room, projector frame, people).
+- Describe charts and diagrams in one or two italic sentences, then list any data labels they show.
+- Put speaker notes or handwritten annotations on the slide in a blockquote after the slide's content.`,
+            MARKDOWN_OUTPUT_RULES, MATH_FORMATTING, CODE_FORMATTING, QUALITY_BAR, CLOSING,
+        ),
+    },
+    {
+        id: "receipt",
+        label: "Receipts",
+        description: "Receipts, invoices and bills",
+        prompt: template(
+            intro("a receipt, invoice or bill"),
+            CRITICAL_REQUIREMENTS,
+            `RECEIPT FOCUS
+- Start with a # heading containing the merchant name, followed by date, time, address and receipt/invoice number as a bullet list when present.
+- List purchased items in a table with columns Item, Quantity, Unit price and Amount (leave cells empty when not shown).
+- After the table, list subtotal, discounts, taxes, tips, total and payment method exactly as printed.
+- Copy every amount and currency symbol exactly; never recompute or correct totals.
+- Omit marketing text, survey links and barcodes.`,
+            MARKDOWN_OUTPUT_RULES, QUALITY_BAR, CLOSING,
+        ),
+    },
+];
+
+export const DEFAULT_SCAN_MODE = "general";
+
+export const findScanMode = (id: string | null | undefined) => SCAN_MODES.find((mode) => mode.id === id);
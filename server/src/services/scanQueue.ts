@@ -0,0 +1,101 @@
+import { EventEmitter } from "node:events";
+import prisma from "../config/prismaClient.ts";
+import type { ScanJob } from "../generated/prisma/client.ts";
+import { extractPage, previousPageContext, replaceDocumentScan, scanPageIntoDocument, type ScannedPage } from "./scanService.ts";
+
+// Emits `<jobId>` with the latest ScanJob row whenever a job changes state or finishes a page
+export const scanJobEvents = new EventEmitter();
+scanJobEvents.setMaxListeners(0);
+
+export const isFinished = (job: Pick<ScanJob, 'status'>) => job.status === 'SUCCEEDED' || job.status === 'FAILED';
+
+// Jobs are processed one at a time, in the order they were queued
+const queue: string[] = [];
+let draining = false;
+
+const updateJob = async (id: string, data: Parameters<typeof prisma.scanJob.update>[0]['data']) => {
+    const job = await prisma.scanJob.update({ where: { id }, data });
+    scanJobEvents.emit(id, job);
+    return job;
+};
+
+const runScanJob = async (jobId: string) => {
+    let job = await prisma.scanJob.findUnique({ where: { id: jobId } });
+    if (!job || isFinished(job)) return;
+
+    // Re-scans rebuild the whole document, so they always start over from the first page
+    job = await updateJob(job.id, {
+        status: 'RUNNING',
+        startedAt: job.startedAt ?? new Date(),
+        ...(job.replace ? { completedPages: 0 } : {}),
+    });
+
+    try {
+        if (job.replace) {
+            // Scan everything first so a failure leaves the existing document untouched
+            const pages: ScannedPage[] = [];
+            let previousPageTail = "";
+            for (const [index, imageUrl] of job.imageUrls.entries()) {
+                const markdownContent = await extractPage(imageUrl, job.mode, index + 1, previousPageTail);
+                pages.push({ pageNumber: index + 1, sourcePageNumber: job.sourcePageNumbers[index] ?? null, imageUrl, markdownContent });
+                previousPageTail = previousPageContext(markdownContent);
+                job = await updateJob(job.id, { completedPages: index + 1 });
+            }
+            await replaceDocumentScan(job.documentId!, job.mode, pages);
+        } else {
+            // Resume after the pages already scanned (e.g. when the server restarted mid-job)
+            for (let index = job.completedPages; index < job.imageUrls.length; index++) {
+                const document = await scanPageIntoDocument({
+                    userId: job.userId,
+                    imageUrl: job.imageUrls[index]!,
+                    mode: job.mode,
+                    documentId: job.documentId,
+                    folderId: job.folderId,
+                    sourcePageNumber: job.sourcePageNumbers[index] ?? null,
+                });
+                job = await updateJob(job.id, { documentId: document.id, completedPages: index + 1 });
+            }
+        }
+
+        await updateJob(job.id, { status: 'SUCCEEDED', finishedAt: new Date() });
+    } catch (error) {
+        console.error(`Scan job ${job.id} failed:`, error);
+        await updateJob(job.id, {
+            status: 'FAILED',
+            error: error instanceof Error ? error.message : 'Unknown error',
+            finishedAt: new Date(),
+        });
+    }
+};
+
+const drain = async () => {
+    if (draining) return;
+    draining = true;
+
+    while (queue.length > 0) {
+        const jobId = queue.shift()!;
+        try {
+            await runScanJob(jobId);
+        } catch (error) {
+            console.error(`Scan job ${jobId} could not be run:`, error);
+        }
+    }
+
+    draining = false;
+};
+
+export const enqueueScanJob = (jobId: string) => {
+    queue.push(jobId);
+    void drain();
+};
+
+// Re-queue jobs that were still queued or running when the server last stopped
+export const resumePendingScanJobs = async () => {
+    const pending = await prisma.scanJob.findMany({
+        where: { status: { in: ['QUEUED', 'RUNNING'] } },
+        orderBy: { createdAt: 'asc' },
+        select: { id: true },
+    });
+    pending.forEach((job) => enqueueScanJob(job.id));
+    return pending.length;
+};
@@ -0,0 +1,215 @@
+import prisma from "../config/prismaClient.ts";
+import { getScanProvider } from "../providers/index.ts";
+import { getFileStorage } from "../storage/index.ts";
+import { detectImageType, MAX_IMAGE_BYTES } from "../utils/imageType.ts";
+import { deriveTitle, titleForContent } from "../utils/documentTitle.ts";
+import { DEFAULT_SCAN_MODE, findScanMode } from "./scanModes.ts";
+import { recordRevision } from "./revisionService.ts";
+import { resetCollabSession } from "./collabService.ts";
+
+// Marker inserted between the Markdown of consecutive pages of one document
+export const pageBreakMarker = (pageNumber: number) => `\n\n<!-- page-break: ${pageNumber} -->\n\n`;
+
+// A page's Markdown as it goes into the document. Pages split from a PDF/TIFF start with an anchor
+// naming their page in that file, so a range like 12-20 can still be found by its original numbers.
+const pageMarkdown = (page: Pick<ScannedPage, 'sourcePageNumber' | 'markdownContent'>) =>
+    page.sourcePageNumber ? `<!-- source-page: ${page.sourcePageNumber} -->\n\n${page.markdownContent}` : page.markdownContent;
+
+// How much of the previous page is handed to the model so it can continue split sentences/lists
+const PREVIOUS_PAGE_CONTEXT_CHARS = 600;
+
+// Build the prompt for one page, giving the model context about where the page sits in the document
+const buildPagePrompt = (modeId: string, pageNumber: number, previousPageTail: string) => {
+    const prompt = (findScanMode(modeId) ?? findScanMode(DEFAULT_SCAN_MODE)!).prompt;
+    if (pageNumber === 1) return prompt;
+
+    return `${prompt}
+
+PAGE CONTEXT
+- This image is page ${pageNumber} of a multi-page document that is being transcribed page by page.
+- The previous page ended with:
+"""
+${previousPageTail}
+"""
+- If this page continues a sentence, list, table or derivation from the previous page, continue it seamlessly. Do not repeat the previous page's text and do not add a new top-level title unless the page clearly starts a new section.`;
+};
+
+// Hosts that fetch-by-URL scans may download from (Firebase/Cloud Storage by default)
+const allowedImageHosts = () =>
+    (process.env.SCAN_URL_ALLOWED_HOSTS || "firebasestorage.googleapis.com,storage.googleapis.com")
+        .split(",")
+        .map((host) => host.trim().toLowerCase())
+        .filter(Boolean);
+
+// Whether `userId` may scan the image at `imageUrl`: either their own upload in our storage,
+// or an https URL on an allow-listed storage host. Anything else is refused to avoid SSRF.
+export const canScanImageUrl = (imageUrl: string, userId: string) => {
+    const key = getFileStorage().keyFromUrl(imageUrl);
+    if (key) return key.startsWith(`scans/${userId}/`);
+
+    try {
+        const url = new URL(imageUrl);
+        return url.protocol === "https:" && allowedImageHosts().includes(url.hostname.toLowerCase());
+    } catch {
+        return false;
+    }
+};
+
+// Loads an image from our storage or an allow-listed host and detects its real type from the magic bytes
+export const loadScanImage = async (imageUrl: string) => {
+    const storage = getFileStorage();
+    const key = storage.keyFromUrl(imageUrl);
+    let data: Buffer;
+
+    if (key) {
+        data = await storage.read(key);
+    } else {
+        const url = new URL(imageUrl);
+        if (url.protocol !== "https:" || !allowedImageHosts().includes(url.hostname.toLowerCase())) {
+            throw new Error(`Image host ${url.hostname} is not allowed`);
+        }
+
+        // Redirects could point anywhere, so they are not followed
+        const imgResponse = await fetch(url, { redirect: 'error' });
+        if (!imgResponse.ok) throw new Error(`Failed to download image (HTTP ${imgResponse.status})`);
+        if (Number(imgResponse.headers.get('content-length')) > MAX_IMAGE_BYTES) throw new Error("Image is too large");
+        data = Buffer.from(await imgResponse.arrayBuffer());
+    }
+
+    if (data.length > MAX_IMAGE_BYTES) throw new Error("Image is too large");
+
+    const mimeType = detectImageType(data);
+    if (!mimeType) throw new Error("File is not a supported image (JPEG, PNG, WebP or GIF)");
+
+    return { data, mimeType };
+};
+
+// Transcribes one page image with the configured provider using the prompt of `modeId`
+export const extractPage = async (imageUrl: string, modeId: string, pageNumber: number, previousPageTail: string) => {
+    const { data, mimeType } = await loadScanImage(imageUrl);
+    const markdown = await getScanProvider().extractMarkdown({
+        data,
+        mimeType,
+        prompt: buildPagePrompt(modeId, pageNumber, previousPageTail),
+    });
+    return markdown || "No text could be extracted.";
+};
+
+export const previousPageContext = (markdown: string) => markdown.slice(-PREVIOUS_PAGE_CONTEXT_CHARS);
+
+interface ScanPageOptions {
+    userId: string;
+    imageUrl: string;
+    mode: string;
+    // Document to append the page to; a new document is created when omitted
+    documentId?: string | null;
+    // Folder a new document is created in
+    folderId?: string | null;
+    // Page of the PDF/TIFF the image was rendered from
+    sourcePageNumber?: number | null;
+}
+
+// Tries of appending a page before giving up because the note keeps being saved meanwhile
+const APPEND_ATTEMPTS = 3;
+
+// Appends a transcribed page to the latest content of `documentId`. The note may have been saved (or trashed)
+// while the page was transcribed, so it's read again here and only written if its version is still the same.
+const appendPage = async (documentId: string, page: ScannedPage) => {
+    for (let attempt = 1; attempt <= APPEND_ATTEMPTS; attempt++) {
+        const saved = await prisma.$transaction(async (tx) => {
+            const current = await tx.document.findFirst({ where: { id: documentId, deletedAt: null } });
+            if (!current) throw new Error("Document not found");
+
+            const appended = current.markdownContent + pageBreakMarker(page.pageNumber) + pageMarkdown(page);
+            const { count } = await tx.document.updateMany({
+                where: { id: documentId, version: current.version },
+                data: { markdownContent: appended, ...titleForContent(current, appended), version: { increment: 1 } },
+            });
+            if (count === 0) return null;
+
+            await tx.documentPage.create({ data: { documentId, ...page } });
+            await recordRevision(tx, documentId, appended, 'APPEND');
+            return tx.document.findUniqueOrThrow({ where: { id: documentId } });
+        });
+        if (saved) return saved;
+    }
+    throw new Error("The note kept changing while the page was added");
+};
+
+// Scans one image and either creates a new document from it or appends it as the next page of `documentId`
+export const scanPageIntoDocument = async ({ userId, imageUrl, mode, documentId, folderId, sourcePageNumber = null }: ScanPageOptions) => {
+    const existing = documentId
+        // Not into a note that was trashed while the scan was queued
+        ? await prisma.document.findFirst({
+            where: { id: documentId, deletedAt: null },
+            include: { pages: { orderBy: { pageNumber: 'desc' }, take: 1 } },
+        })
+        : null;
+
+    if (documentId && !existing) throw new Error("Document not found");
+
+    const pageNumber = (existing?.pages[0]?.pageNumber ?? 0) + 1;
+    const markdownContent = await extractPage(imageUrl, mode, pageNumber, previousPageContext(existing?.markdownContent ?? ""));
+    const page = { pageNumber, sourcePageNumber, imageUrl, markdownContent };
+
+    if (existing) {
+        const saved = await appendPage(existing.id, page);
+        // People editing the document reload it with the new page
+        await resetCollabSession(existing.id);
+        return saved;
+    }
+
+    return prisma.$transaction(async (tx) => {
+        // The folder may have been deleted while the scan was queued
+        const folder = folderId ? await tx.folder.findUnique({ where: { id: folderId } }) : null;
+
+        const document = await tx.document.create({
+            data: {
+                userId,
+                folderId: folder?.userId === userId ? folder.id : null,
+                title: deriveTitle(markdownContent),
+                imageUrl,
+                markdownContent: pageMarkdown(page),
+                scanMode: mode,
+                pages: { create: page },
+            },
+        });
+        await recordRevision(tx, document.id, document.markdownContent, 'SCAN');
+        return document;
+    });
+};
+
+export interface ScannedPage {
+    pageNumber: number;
+    sourcePageNumber: number | null;
+    imageUrl: string;
+    markdownContent: string;
+}
+
+// Replaces a document's pages and content with a fresh scan (used when re-running a scan in another mode)
+export const replaceDocumentScan = async (documentId: string, mode: string, pages: ScannedPage[]) => {
+    const stitched = pages
+        .map((page) => page.pageNumber === 1 ? pageMarkdown(page) : pageBreakMarker(page.pageNumber) + pageMarkdown(page))
+        .join("");
+
+    const saved = await prisma.$transaction(async (tx) => {
+        const existing = await tx.document.findFirst({ where: { id: documentId, deletedAt: null }, select: { titleEdited: true } });
+        if (!existing) throw new Error("Document not found");
+        await tx.documentPage.deleteMany({ where: { documentId } });
+        const document = await tx.document.update({
+            where: { id: documentId },
+            data: {
+                markdownContent: stitched,
+                ...titleForContent(existing, stitched),
+                version: { increment: 1 },
+                scanMode: mode,
+                pages: { create: pages },
+            },
+        });
+        await recordRevision(tx, documentId, stitched, 'RESCAN');
+        return document;
+    });
+
+    await resetCollabSession(documentId);
+    return saved;
+};
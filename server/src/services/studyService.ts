@@ -0,0 +1,75 @@
+import { getScanProvider } from "../providers/index.ts";
+
+// Study material generated from a document's content. Each section is generated separately and gets its
+// own `##` heading, so the output has the same structure whatever the model returns.
+
+const BASE_RULES = `RULES
+- Use only information from the notes. Do not add facts, examples, or definitions that aren't supported by them.
+- Write in the language of the notes.
+- Output Markdown only. No preamble, no explanations, no code fences around the entire output.
+- Do not start with a heading: the section already has one. Use ### headings for any subsections.
+- Keep math in LaTeX ($...$ inline, $$...$$ for display) and code in fenced blocks, as in the notes.
+- Parts of the notes marked [unclear] couldn't be read; leave them out rather than guessing.`;
+
+const SECTIONS = {
+    summary: {
+        heading: "Summary",
+        task: `Write a structured summary of the notes: one short overview paragraph, then the main ideas as bullet points, grouped under ### headings when the notes cover several topics.`,
+    },
+    keyTerms: {
+        heading: "Key terms",
+        task: `Write a glossary of the key terms, names, and formulas in the notes, in the order they first appear. Format each entry as a bullet: **Term**: a one- or two-sentence definition based on the notes.`,
+    },
+    studyGuide: {
+        heading: "Study guide",
+        task: `Write a study guide for the notes with these subsections:
+### Learning objectives
+What a student should be able to do after studying the notes, as bullet points.
+### Review questions
+A numbered list of questions that test understanding, from recall to application.
+### Answers
+A numbered list with a short answer to each review question, based on the notes.`,
+    },
+} as const;
+
+export type StudySection = keyof typeof SECTIONS;
+
+export const STUDY_SECTIONS = Object.keys(SECTIONS) as StudySection[];
+
+export const isStudySection = (section: unknown): section is StudySection =>
+    typeof section === "string" && Object.hasOwn(SECTIONS, section);
+
+// Notes longer than this are cut off before they are sent to the model
+const MAX_SOURCE_LENGTH = 100_000;
+
+const studyPrompt = (section: StudySection, markdown: string) => `You are helping a student study from their notes.
+
+TASK
+${SECTIONS[section].task}
+
+${BASE_RULES}
+
+NOTES
+${markdown.slice(0, MAX_SOURCE_LENGTH)}`;
+
+// Models sometimes wrap the whole answer in a code fence despite the rules
+const unwrapCodeFence = (text: string) => text.trim().replace(/^```(?:markdown|md)?\n([\s\S]*)\n```$/, "$1").trim();
+
+// Whether the configured provider can write text at all (OCR-only providers can't)
+export const canGenerateStudyNotes = () => !!getScanProvider().generateMarkdown;
+
+/**
+ * Generates the `sections` (in their usual order) from a document's Markdown, each under a `##` heading.
+ * Throws when the provider can't generate text; check `canGenerateStudyNotes` first.
+ */
+export const generateStudyNotes = async (markdown: string, sections: StudySection[]) => {
+    const { generateMarkdown } = getScanProvider();
+    if (!generateMarkdown) throw new Error("The scan provider can't generate text");
+
+    const generated = await Promise.all(
+        STUDY_SECTIONS
+            .filter((section) => sections.includes(section))
+            .map(async (section) => `## ${SECTIONS[section].heading}\n\n${unwrapCodeFence(await generateMarkdown(studyPrompt(section, markdown)))}`)
+    );
+    return generated.join("\n\n");
+};
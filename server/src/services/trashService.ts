@@ -0,0 +1,27 @@
+import prisma from "../config/prismaClient.ts";
+
+const DEFAULT_RETENTION_DAYS = 30;
+const PURGE_INTERVAL_MS = 60 * 60 * 1000; // hourly
+
+// Days a trashed document is kept before it is deleted for good (TRASH_RETENTION_DAYS)
+export const trashRetentionDays = () => {
+    const days = Number(process.env.TRASH_RETENTION_DAYS);
+    return Number.isFinite(days) && days > 0 ? days : DEFAULT_RETENTION_DAYS;
+};
+
+// Permanently deletes every document that has been in the trash longer than the retention period
+export const purgeExpiredTrash = async () => {
+    const cutoff = new Date(Date.now() - trashRetentionDays() * 24 * 60 * 60 * 1000);
+    const { count } = await prisma.document.deleteMany({ where: { deletedAt: { lt: cutoff } } });
+    return count;
+};
+
+// Runs the purge now and then periodically for as long as the server is up
+export const scheduleTrashPurge = () => {
+    const purge = () => purgeExpiredTrash()
+        .then((count) => count && console.log(`Purged ${count} document(s) from the trash`))
+        .catch((error) => console.error('Failed to purge trash:', error));
+
+    purge();
+    return setInterval(purge, PURGE_INTERVAL_MS).unref();
+};
@@ -0,0 +1,15 @@
+export interface StoredFile {
+    key: string;
+    url: string;
+}
+
+// Where original uploads are kept. Keys are storage-relative paths such as `scans/<userId>/<uuid>.png`.
+export interface FileStorage {
+    name: string;
+    save: (key: string, data: Buffer, mimeType: string) => Promise<StoredFile>;
+    read: (key: string) => Promise<Buffer>;
+    // Maps a URL produced by `save` back to its key, or null when the URL belongs to someone else
+    keyFromUrl: (url: string) => string | null;
+    // A URL clients can load a file from, given a URL produced by `save` (e.g. one that expires); others are returned as is
+    viewUrl: (url: string) => string;
+}
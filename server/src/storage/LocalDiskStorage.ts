@@ -0,0 +1,84 @@
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname, posix, resolve, sep } from "node:path";
+import type { Request, Response } from "express";
+import type { FileStorage } from "./FileStorage.ts";
+
+// Directory uploads are written to; served read-only under /uploads by `serveLocalUpload`
+export const localUploadDir = () => resolve(process.env.UPLOAD_DIR || "uploads");
+
+// How long the links from `viewUrl` work
+const VIEW_URL_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Signs the links to uploads. Without UPLOAD_URL_SECRET a random one is used, so links stop working on restart.
+let generatedSecret: string | null = null;
+const urlSecret = () => process.env.UPLOAD_URL_SECRET || (generatedSecret ??= randomBytes(32).toString("hex"));
+
+const signKey = (key: string, expires: number) =>
+    createHmac("sha256", urlSecret()).update(`${key}\n${expires}`).digest("base64url");
+
+// Decodes and normalises a key taken from a URL path, or null when it's malformed or escapes the upload directory.
+// Normalised so callers can safely check key prefixes (e.g. `scans/<userId>/`).
+const keyFromPath = (path: string) => {
+    let key: string;
+    try {
+        key = posix.normalize(decodeURIComponent(path));
+    } catch {
+        // Malformed percent-escapes, so not a URL we produced
+        return null;
+    }
+    return key.startsWith("..") || key.startsWith("/") ? null : key;
+};
+
+/**
+ * Serves a file under /uploads to holders of a link from `viewUrl` that hasn't expired. Links are only handed
+ * out with documents the caller may open, so uploads are never public.
+ */
+export const serveLocalUpload = (req: Request, res: Response) => {
+    const key = keyFromPath(req.path.slice(1));
+    const expires = Number(req.query.expires);
+    const { signature } = req.query;
+
+    const expected = key && Number.isInteger(expires) && expires > Date.now() ? Buffer.from(signKey(key, expires)) : null;
+    const given = typeof signature === "string" ? Buffer.from(signature) : null;
+    if (!expected || !given || given.length !== expected.length || !timingSafeEqual(given, expected)) {
+        return res.status(403).json({ error: "This link is invalid or has expired" });
+    }
+
+    res.sendFile(resolve(localUploadDir(), key!), { headers: { "Cache-Control": "private" } }, (error) => {
+        if (error && !res.headersSent) res.status(404).json({ error: "File not found" });
+    });
+};
+
+export const createLocalDiskStorage = (): FileStorage => {
+    const root = localUploadDir();
+    const baseUrl = `${(process.env.PUBLIC_BASE_URL || `http://localhost:${process.env.PORT || 6300}`).replace(/\/$/, "")}/uploads/`;
+
+    // Resolve a key inside the upload directory, refusing anything that escapes it
+    const pathFor = (key: string) => {
+        const path = resolve(root, key);
+        if (!path.startsWith(root + sep)) throw new Error(`Invalid storage key: ${key}`);
+        return path;
+    };
+
+    const keyFromUrl = (url: string) =>
+        url.startsWith(baseUrl) ? keyFromPath(url.slice(baseUrl.length).split(/[?#]/)[0]!) : null;
+
+    return {
+        name: "local",
+        save: async (key, data) => {
+            const path = pathFor(key);
+            await mkdir(dirname(path), { recursive: true });
+            await writeFile(path, data);
+            return { key, url: baseUrl + key };
+        },
+        read: (key) => readFile(pathFor(key)),
+        keyFromUrl,
+        viewUrl: (url) => {
+            const key = keyFromUrl(url);
+            if (!key) return url;
+            const expires = Date.now() + VIEW_URL_TTL_MS;
+            return `${baseUrl}${key}?expires=${expires}&signature=${signKey(key, expires)}`;
+        },
+    };
+};
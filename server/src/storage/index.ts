@@ -0,0 +1,25 @@
+import type { FileStorage } from "./FileStorage.ts";
+import { createLocalDiskStorage } from "./LocalDiskStorage.ts";
+
+export type { FileStorage, StoredFile } from "./FileStorage.ts";
+export { serveLocalUpload } from "./LocalDiskStorage.ts";
+
+const factories: Record<string, () => FileStorage> = {
+    local: createLocalDiskStorage,
+};
+
+let storage: FileStorage | null = null;
+
+// Returns the storage backend selected by FILE_STORAGE (defaults to local disk), created once on first use
+export const getFileStorage = (): FileStorage => {
+    if (storage) return storage;
+
+    const name = (process.env.FILE_STORAGE || "local").toLowerCase();
+    const factory = factories[name];
+    if (!factory) {
+        throw new Error(`Unknown FILE_STORAGE "${name}". Expected one of: ${Object.keys(factories).join(", ")}`);
+    }
+
+    storage = factory();
+    return storage;
+};
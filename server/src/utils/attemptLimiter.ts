@@ -0,0 +1,73 @@
+interface Attempts {
+    failures: number;
+    // Attempts begun and not ended yet
+    inFlight: number;
+    lastAttemptAt: number;
+    blockedUntil: number;
+}
+
+/**
+ * Slows down guessing (e.g. of passwords) per key: after `freeFailures` failed attempts, each further failure
+ * locks the key for twice as long as the previous one, up to `maxDelayMs`. A success, or `resetAfterMs`
+ * without attempts, starts over. Kept in memory, so a restart starts over too.
+ *
+ * Attempts are reserved with `begin` before checking (which is usually slow), so parallel attempts are counted
+ * too: once the free failures are used up, only one attempt at a time is let through.
+ */
+export const createAttemptLimiter = ({
+    freeFailures = 5,
+    baseDelayMs = 1000,
+    maxDelayMs = 15 * 60 * 1000,
+    resetAfterMs = 60 * 60 * 1000,
+} = {}) => {
+    const attempts = new Map<string, Attempts>();
+
+    const entryFor = (key: string) => {
+        const now = Date.now();
+        let entry = attempts.get(key);
+        if (!entry || (entry.inFlight === 0 && now - entry.lastAttemptAt > resetAfterMs)) {
+            entry = { failures: 0, inFlight: 0, lastAttemptAt: now, blockedUntil: 0 };
+            attempts.set(key, entry);
+        }
+        return entry;
+    };
+
+    const end = (key: string) => {
+        const entry = entryFor(key);
+        entry.inFlight = Math.max(0, entry.inFlight - 1);
+        return entry;
+    };
+
+    return {
+        // Reserves an attempt on `key` and returns 0, or returns the milliseconds to wait before trying again.
+        // Every reserved attempt must end with `succeed`, `fail` or `release`.
+        begin: (key: string) => {
+            const entry = entryFor(key);
+            const now = Date.now();
+            if (entry.blockedUntil > now) return entry.blockedUntil - now;
+            if (entry.failures + entry.inFlight >= freeFailures && entry.inFlight > 0) return baseDelayMs;
+
+            entry.inFlight++;
+            entry.lastAttemptAt = now;
+            return 0;
+        },
+        succeed: (key: string) => {
+            const entry = end(key);
+            entry.failures = 0;
+            entry.blockedUntil = 0;
+            if (entry.inFlight === 0) attempts.delete(key);
+        },
+        fail: (key: string) => {
+            const entry = end(key);
+            entry.failures++;
+            if (entry.failures > freeFailures) {
+                entry.blockedUntil = Date.now() + Math.min(baseDelayMs * 2 ** (entry.failures - freeFailures - 1), maxDelayMs);
+            }
+        },
+        // Ends an attempt that wasn't checked after all, without counting it
+        release: (key: string) => {
+            const entry = end(key);
+            if (entry.inFlight === 0 && entry.failures === 0) attempts.delete(key);
+        },
+    };
+};
@@ -0,0 +1,18 @@
+export const MAX_TITLE_LENGTH = 120;
+
+// Title derived from the first non-empty line of the content, without heading marks or emphasis
+// (the add_document_titles_and_updated_at migration backfilled existing documents the same way).
+// HTML comments, such as the page anchors of scans, are skipped.
+export const deriveTitle = (markdownContent: string) => {
+    const firstLine = markdownContent.replace(/<!--[\s\S]*?-->/g, "").match(/[^\s][^\n]*/)?.[0] ?? "";
+    return firstLine
+        .replace(/^#+\s*/, "")
+        .replace(/[*_`~]+/g, "")
+        .replace(/\s+/g, " ")
+        .trim()
+        .slice(0, MAX_TITLE_LENGTH);
+};
+
+// Update data that keeps an auto-derived title in step with new content; titles set by the user are kept
+export const titleForContent = (document: { titleEdited: boolean }, markdownContent: string) =>
+    document.titleEdited ? {} : { title: deriveTitle(markdownContent) };
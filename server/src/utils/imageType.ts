@@ -0,0 +1,38 @@
+// File signatures ("magic bytes") of the image formats the scan pipeline accepts
+const SIGNATURES: { mimeType: string; matches: (data: Buffer) => boolean }[] = [
+    { mimeType: 'image/jpeg', matches: (d) => d.length >= 3 && d[0] === 0xff && d[1] === 0xd8 && d[2] === 0xff },
+    { mimeType: 'image/png', matches: (d) => d.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) },
+    { mimeType: 'image/gif', matches: (d) => ['GIF87a', 'GIF89a'].includes(d.subarray(0, 6).toString('ascii')) },
+    { mimeType: 'image/webp', matches: (d) => d.subarray(0, 4).toString('ascii') === 'RIFF' && d.subarray(8, 12).toString('ascii') === 'WEBP' },
+];
+
+// Detects the real image type from the file contents, ignoring whatever the client claimed
+export const detectImageType = (data: Buffer): string | null =>
+    SIGNATURES.find((signature) => signature.matches(data))?.mimeType ?? null;
+
+export const EXTENSION_BY_MIME_TYPE: Record<string, string> = {
+    'image/jpeg': 'jpg',
+    'image/png': 'png',
+    'image/gif': 'gif',
+    'image/webp': 'webp',
+};
+
+// Upper bound for a single scanned image, shared by uploads and fetch-by-URL
+export const MAX_IMAGE_BYTES = Number(process.env.SCAN_MAX_IMAGE_BYTES) || 10 * 1024 * 1024;
+
+// Multi-page files that are split into page images before scanning
+const DOCUMENT_SIGNATURES: { mimeType: string; matches: (data: Buffer) => boolean }[] = [
+    { mimeType: 'application/pdf', matches: (d) => d.subarray(0, 5).toString('ascii') === '%PDF-' },
+    { mimeType: 'image/tiff', matches: (d) => ['II*\0', 'MM\0*'].includes(d.subarray(0, 4).toString('latin1')) },
+];
+
+export const detectDocumentType = (data: Buffer): string | null =>
+    DOCUMENT_SIGNATURES.find((signature) => signature.matches(data))?.mimeType ?? null;
+
+export const DOCUMENT_EXTENSION_BY_MIME_TYPE: Record<string, string> = {
+    'application/pdf': 'pdf',
+    'image/tiff': 'tif',
+};
+
+// Upper bound for an uploaded PDF/TIFF, which holds many pages
+export const MAX_DOCUMENT_BYTES = Number(process.env.SCAN_MAX_DOCUMENT_BYTES) || 50 * 1024 * 1024;
@@ -0,0 +1,38 @@
+import { createHash } from "node:crypto";
+import { MAX_TITLE_LENGTH } from "./documentTitle.ts";
+
+export const IMPORTABLE_EXTENSIONS = [".md", ".markdown", ".txt"];
+
+export const isImportable = (path: string) => IMPORTABLE_EXTENSIONS.some((ext) => path.toLowerCase().endsWith(ext));
+
+// Notion appends the page id to exported file and folder names: "Lecture 3 0f1e2d...c9.md"
+const NOTION_ID_SUFFIX = /\s+[0-9a-f]{32}$/i;
+
+// File or folder name without its extension and export noise, used as a fallback title
+export const cleanName = (name: string) =>
+    name.replace(/\.(md|markdown|txt)$/i, "").replace(NOTION_ID_SUFFIX, "").trim();
+
+// Content as compared for duplicates: line endings and surrounding whitespace don't count
+export const contentHash = (markdownContent: string) =>
+    createHash("sha256").update(markdownContent.replace(/\r\n?/g, "\n").trim()).digest("hex");
+
+// `title:` from a YAML front matter block, unquoted
+const frontMatterTitle = (frontMatter: string) => {
+    const value = frontMatter.match(/^title:[ \t]*(.+?)[ \t]*$/m)?.[1];
+    if (!value) return null;
+    return value.replace(/^(["'])(.*)\1$/, "$2").trim() || null;
+};
+
+/**
+ * Turns an imported file into a document: front matter is dropped from the content, and the
+ * title comes from its `title:`, else the first heading, else the file name.
+ */
+export const parseImportedMarkdown = (text: string, fileName: string) => {
+    const normalized = text.replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n");
+    const frontMatter = normalized.match(/^---\n([\s\S]*?)\n(?:---|\.\.\.)[ \t]*(?:\n|$)/);
+    const markdownContent = (frontMatter ? normalized.slice(frontMatter[0].length) : normalized).trim();
+
+    const heading = markdownContent.match(/^#{1,6}[ \t]+(.+?)[ \t#]*$/m)?.[1];
+    const title = (frontMatter && frontMatterTitle(frontMatter[1] ?? "")) || heading?.trim() || cleanName(fileName) || "Untitled";
+    return { title: title.slice(0, MAX_TITLE_LENGTH), markdownContent };
+};
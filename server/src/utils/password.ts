@@ -0,0 +1,21 @@
+import { randomBytes, scrypt, timingSafeEqual } from "node:crypto";
+import { promisify } from "node:util";
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+const KEY_LENGTH = 32;
+
+// Hash stored as `scrypt$<salt>$<key>`, both base64url
+export const hashPassword = async (password: string) => {
+    const salt = randomBytes(16);
+    const key = await scryptAsync(password, salt, KEY_LENGTH);
+    return `scrypt$${salt.toString("base64url")}$${key.toString("base64url")}`;
+};
+
+export const verifyPassword = async (password: string, hash: string) => {
+    const [scheme, salt, expected] = hash.split("$");
+    if (scheme !== "scrypt" || !salt || !expected) return false;
+
+    const key = await scryptAsync(password, Buffer.from(salt, "base64url"), KEY_LENGTH);
+    return timingSafeEqual(key, Buffer.from(expected, "base64url"));
+};
@@ -0,0 +1,86 @@
+import { inflateRawSync } from "node:zlib";
+
+// A file of the archive, or why it couldn't be extracted
+export type ZipEntry = { path: string; data: Buffer } | { path: string; error: string };
+
+export class ZipReadError extends Error {}
+
+// Limits that keep a small upload from expanding into gigabytes (a "zip bomb")
+export const MAX_ZIP_ENTRIES = 2000;
+export const MAX_ZIP_UNCOMPRESSED_BYTES = 100 * 1024 * 1024;
+
+const END_OF_DIRECTORY = 0x06054b50;
+const DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_HEADER = 0x04034b50;
+
+export const isZip = (buffer: Buffer) => buffer.length >= 4 && buffer.readUInt32LE(0) === LOCAL_HEADER;
+
+/**
+ * Reads the files of a ZIP archive held in memory, as listed in its central directory.
+ * Only stored and deflated entries are supported (what every common tool writes); folders
+ * are skipped, and `filter` can skip files before they are decompressed. Problems with the
+ * archive as a whole throw a ZipReadError; problems with single files are returned with them.
+ */
+export function readZip(buffer: Buffer, filter: (path: string) => boolean = () => true): ZipEntry[] {
+    // The end-of-directory record is in the last 22 bytes, before a comment of up to 64 KB
+    let end = -1;
+    for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 22 - 0xffff); i--) {
+        if (buffer.readUInt32LE(i) === END_OF_DIRECTORY) {
+            end = i;
+            break;
+        }
+    }
+    if (end === -1) throw new ZipReadError("Not a ZIP archive");
+
+    const count = buffer.readUInt16LE(end + 10);
+    if (count > MAX_ZIP_ENTRIES) throw new ZipReadError(`Archives may contain at most ${MAX_ZIP_ENTRIES} files`);
+
+    const entries: ZipEntry[] = [];
+    let offset = buffer.readUInt32LE(end + 16);
+    let total = 0;
+    for (let i = 0; i < count; i++) {
+        if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== DIRECTORY_ENTRY) {
+            throw new ZipReadError("Corrupt ZIP archive");
+        }
+        const flags = buffer.readUInt16LE(offset + 8);
+        const method = buffer.readUInt16LE(offset + 10);
+        const compressedSize = buffer.readUInt32LE(offset + 20);
+        const size = buffer.readUInt32LE(offset + 24);
+        const nameLength = buffer.readUInt16LE(offset + 28);
+        const extraLength = buffer.readUInt16LE(offset + 30);
+        const commentLength = buffer.readUInt16LE(offset + 32);
+        const localOffset = buffer.readUInt32LE(offset + 42);
+        const name = buffer.subarray(offset + 46, offset + 46 + nameLength);
+        offset += 46 + nameLength + extraLength + commentLength;
+
+        // Names are UTF-8 when flagged; older tools wrote the DOS code page, which latin1 approximates
+        const path = name.toString(flags & 0x0800 ? "utf8" : "latin1").replace(/\\/g, "/");
+        if (path.endsWith("/") || !filter(path)) continue;
+        if (flags & 0x0001) {
+            entries.push({ path, error: "File is encrypted" });
+            continue;
+        }
+
+        total += size;
+        if (total > MAX_ZIP_UNCOMPRESSED_BYTES) throw new ZipReadError("Archive is too large once extracted");
+
+        if (localOffset + 30 > buffer.length || buffer.readUInt32LE(localOffset) !== LOCAL_HEADER) {
+            throw new ZipReadError("Corrupt ZIP archive");
+        }
+        const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+        const compressed = buffer.subarray(dataStart, dataStart + compressedSize);
+
+        if (method === 0) {
+            entries.push({ path, data: compressed });
+        } else if (method === 8) {
+            try {
+                entries.push({ path, data: inflateRawSync(compressed, { maxOutputLength: Math.max(size, 1) }) });
+            } catch {
+                entries.push({ path, error: "File is corrupt" });
+            }
+        } else {
+            entries.push({ path, error: "Unsupported compression method" });
+        }
+    }
+    return entries;
+}
@@ -0,0 +1,127 @@
+import { crc32, deflateRawSync } from "node:zlib";
+import type { Writable } from "node:stream";
+
+interface ZipEntry {
+    name: Buffer;
+    crc: number;
+    compressedSize: number;
+    size: number;
+    offset: number;
+    time: number;
+    date: number;
+}
+
+// MS-DOS time and date fields used by ZIP headers (2-second resolution, years from 1980)
+const dosDateTime = (date: Date) => ({
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+// General purpose flag: file names are UTF-8
+const UTF8_FLAG = 0x0800;
+
+// Limits of the 16- and 32-bit header fields; larger archives would need ZIP64, which isn't written
+export const MAX_ZIP_ENTRIES = 0xffff;
+const MAX_ZIP_BYTES = 0xffffffff;
+
+// The archive can't be written: it's too large, or `out` was closed (e.g. the client disconnected)
+export class ZipStreamError extends Error {}
+
+/**
+ * Writes a ZIP archive to `out` one file at a time, so large exports are streamed instead of
+ * built in memory. Files are deflated; archives over 4 GB or with more than `MAX_ZIP_ENTRIES` files
+ * are not supported (ZIP64) and fail with a `ZipStreamError`.
+ */
+export class ZipStream {
+    private entries: ZipEntry[] = [];
+    private offset = 0;
+
+    constructor(private out: Writable) {}
+
+    private async write(chunk: Buffer) {
+        if (this.offset + chunk.length > MAX_ZIP_BYTES) throw new ZipStreamError("The archive would be larger than 4 GB");
+        if (this.out.destroyed || this.out.writableEnded) throw new ZipStreamError("The archive's output was closed");
+
+        this.offset += chunk.length;
+        if (!this.out.write(chunk)) await this.drained();
+    }
+
+    // Waits until `out` takes more data, failing if it's closed first
+    private drained() {
+        return new Promise<void>((resolve, reject) => {
+            const settle = (error?: Error) => {
+                this.out.off("drain", onDrain).off("close", onClose).off("error", onError);
+                if (error) reject(error);
+                else resolve();
+            };
+            const onDrain = () => settle();
+            const onClose = () => settle(new ZipStreamError("The archive's output was closed"));
+            const onError = (error: Error) => settle(error);
+            this.out.on("drain", onDrain).on("close", onClose).on("error", onError);
+        });
+    }
+
+    async addFile(name: string, content: string | Buffer, modified = new Date()) {
+        if (this.entries.length >= MAX_ZIP_ENTRIES) throw new ZipStreamError(`An archive can hold at most ${MAX_ZIP_ENTRIES} files`);
+
+        const data = typeof content === "string" ? Buffer.from(content, "utf8") : content;
+        const compressed = deflateRawSync(data);
+        const { time, date } = dosDateTime(modified);
+        const entry: ZipEntry = {
+            name: Buffer.from(name, "utf8"),
+            crc: crc32(data),
+            compressedSize: compressed.length,
+            size: data.length,
+            offset: this.offset,
+            time,
+            date,
+        };
+
+        const header = Buffer.alloc(30);
+        header.writeUInt32LE(0x04034b50, 0);
+        header.writeUInt16LE(20, 4);
+        header.writeUInt16LE(UTF8_FLAG, 6);
+        header.writeUInt16LE(8, 8);
+        header.writeUInt16LE(entry.time, 10);
+        header.writeUInt16LE(entry.date, 12);
+        header.writeUInt32LE(entry.crc, 14);
+        header.writeUInt32LE(entry.compressedSize, 18);
+        header.writeUInt32LE(entry.size, 22);
+        header.writeUInt16LE(entry.name.length, 26);
+        header.writeUInt16LE(0, 28);
+
+        this.entries.push(entry);
+        await this.write(Buffer.concat([header, entry.name]));
+        await this.write(compressed);
+    }
+
+    // Writes the central directory and ends the stream
+    async finish() {
+        const directoryOffset = this.offset;
+        for (const entry of this.entries) {
+            const header = Buffer.alloc(46);
+            header.writeUInt32LE(0x02014b50, 0);
+            header.writeUInt16LE(20, 4);
+            header.writeUInt16LE(20, 6);
+            header.writeUInt16LE(UTF8_FLAG, 8);
+            header.writeUInt16LE(8, 10);
+            header.writeUInt16LE(entry.time, 12);
+            header.writeUInt16LE(entry.date, 14);
+            header.writeUInt32LE(entry.crc, 16);
+            header.writeUInt32LE(entry.compressedSize, 20);
+            header.writeUInt32LE(entry.size, 24);
+            header.writeUInt16LE(entry.name.length, 28);
+            header.writeUInt32LE(entry.offset, 42);
+            await this.write(Buffer.concat([header, entry.name]));
+        }
+
+        const end = Buffer.alloc(22);
+        end.writeUInt32LE(0x06054b50, 0);
+        end.writeUInt16LE(this.entries.length, 8);
+        end.writeUInt16LE(this.entries.length, 10);
+        end.writeUInt32LE(this.offset - directoryOffset, 12);
+        end.writeUInt32LE(directoryOffset, 16);
+        await this.write(end);
+        this.out.end();
+    }
+}